@@ -18,7 +18,11 @@ import {
   Settings,
   Menu,
   Filter,
-  Layers
+  Layers,
+  WifiOff,
+  ListOrdered,
+  TrendingUp,
+  TrendingDown
 } from 'lucide-react';
 
 import { Map } from './components/Map';
@@ -26,14 +30,17 @@ import { SearchAutocomplete } from './components/SearchAutocomplete';
 import { Profile } from './components/Profile';
 import { Favorites } from './components/Favorites';
 import { WantToGo } from './components/WantToGo';
+import { Lists } from './components/Lists';
 import { MonitoringDashboard } from './components/MonitoringDashboard';
 
 import { Button } from './components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './components/ui/card';
 
 import { api, supabase } from '../utils/api';
-import type { Location as APILocation, User as APIUser } from '../utils/api';
+import type { Location as APILocation, User as APIUser, CuratedList, MichelinAwardChange } from '../utils/api';
 import { projectId, publicAnonKey } from '/utils/supabase/info.tsx';
+import { offlineQueue } from '../utils/offlineQueue';
+import { isClosedLocation } from '../utils/locationStatus';
 import { monitor, trackApiCall, trackAction, logError, trackInteraction } from '../utils/monitoring';
 import { usePerformanceMonitor, useErrorHandler } from './hooks/usePerformanceMonitor';
 
@@ -45,6 +52,14 @@ type Location = APILocation & {
   area?: string;
 };
 
+// "Gained a star" / "lost a star" map filters, fed by GET /michelin/changes
+type MichelinAwardFilterType = Extract<MichelinAwardChange['type'], 'gained_star' | 'lost_star'>;
+
+const MICHELIN_AWARD_FILTERS: Array<{ type: MichelinAwardFilterType; label: string }> = [
+  { type: 'gained_star', label: 'Gained a star' },
+  { type: 'lost_star', label: 'Lost a star' },
+];
+
 export default function App() {
   const [locations, setLocations] = useState<Location[]>([]);
   const [heatMapLocations, setHeatMapLocations] = useState<Location[]>([]);
@@ -59,7 +74,7 @@ export default function App() {
   const [selectedGooglePlace, setSelectedGooglePlace] = useState<google.maps.places.PlaceResult | null>(null);
   const [selectedLVLocation, setSelectedLVLocation] = useState<Location | null>(null);
   const [user, setUser] = useState<APIUser | null>(null);
-  const [sidebarView, setSidebarView] = useState<'favorites' | 'wantToGo' | 'profile'>('favorites');
+  const [sidebarView, setSidebarView] = useState<'favorites' | 'wantToGo' | 'lists' | 'profile'>('favorites');
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [favoriteIds, setFavoriteIds] = useState<Set<string>>(new Set());
   const [wantToGoIds, setWantToGoIds] = useState<Set<string>>(new Set());
@@ -75,8 +90,17 @@ export default function App() {
   const [mobileDrawerOpen, setMobileDrawerOpen] = useState(false);
   const [showLVMarkers, setShowLVMarkers] = useState(true);
   const [showMichelinMarkers, setShowMichelinMarkers] = useState(true);
+  const [showClosedPlaces, setShowClosedPlaces] = useState(false);
   const [filterMenuOpen, setFilterMenuOpen] = useState(false);
   const [monitoringDashboardOpen, setMonitoringDashboardOpen] = useState(false);
+  const [activeList, setActiveList] = useState<CuratedList | null>(null);
+  const [michelinAwardFilter, setMichelinAwardFilter] = useState<{
+    type: MichelinAwardFilterType;
+    guideYear: number | null;
+    michelinIds: Set<number>;
+  } | null>(null);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [pendingOfflineCount, setPendingOfflineCount] = useState(0);
 
   // 📊 Performance monitoring
   usePerformanceMonitor('App');
@@ -437,18 +461,7 @@ export default function App() {
 
         // ALWAYS fetch from Google Places API to get photos and complete data
         console.log('📍 Fetching place from Google Places API...');
-        const response = await fetch(
-          `https://${projectId}.supabase.co/functions/v1/make-server-48182530/google-places/${placeId}/details`,
-          {
-            headers: {
-              'Authorization': `Bearer ${publicAnonKey}`,
-            },
-          }
-        );
-
-        if (!response.ok) throw new Error('Failed to fetch place details');
-
-        const placeData = await response.json();
+        const placeData = await api.getGooglePlaceDetails(placeId);
         console.log('✅ Fetched place from Google:', placeData);
         console.log('📸 Photos:', placeData.photos?.length || 0);
 
@@ -519,95 +532,180 @@ export default function App() {
     }
   };
 
+  // Center and zoom the map so every given location is visible
+  const fitMapToLocations = useCallback((targets: Array<{ lat: number; lng: number }>, label: string) => {
+    const validLocations = targets.filter(
+      loc => loc.lat && loc.lng
+    );
+
+    if (validLocations.length === 0) return;
+
+    // Find the bounds of all locations
+    let minLat = validLocations[0].lat!;
+    let maxLat = validLocations[0].lat!;
+    let minLng = validLocations[0].lng!;
+    let maxLng = validLocations[0].lng!;
+
+    validLocations.forEach(loc => {
+      if (loc.lat! < minLat) minLat = loc.lat!;
+      if (loc.lat! > maxLat) maxLat = loc.lat!;
+      if (loc.lng! < minLng) minLng = loc.lng!;
+      if (loc.lng! > maxLng) maxLng = loc.lng!;
+    });
+
+    // Add padding (10% on each side)
+    const latPadding = (maxLat - minLat) * 0.1;
+    const lngPadding = (maxLng - minLng) * 0.1;
+
+    minLat -= latPadding;
+    maxLat += latPadding;
+    minLng -= lngPadding;
+    maxLng += lngPadding;
+
+    // Calculate center point
+    const centerLat = (minLat + maxLat) / 2;
+    const centerLng = (minLng + maxLng) / 2;
+
+    // Calculate appropriate zoom level
+    // Based on latitude span (roughly 111km per degree)
+    const latSpan = maxLat - minLat;
+    const lngSpan = maxLng - minLng;
+    const maxSpan = Math.max(latSpan, lngSpan);
+
+    let zoom = 14; // default
+    if (maxSpan > 10) zoom = 5;
+    else if (maxSpan > 5) zoom = 6;
+    else if (maxSpan > 2) zoom = 7;
+    else if (maxSpan > 1) zoom = 8;
+    else if (maxSpan > 0.5) zoom = 9;
+    else if (maxSpan > 0.2) zoom = 10;
+    else if (maxSpan > 0.1) zoom = 11;
+    else if (maxSpan > 0.05) zoom = 12;
+    else if (maxSpan > 0.02) zoom = 13;
+
+    console.log(`🗺️ Auto-zooming to ${label} bounds:`, {
+      center: { lat: centerLat, lng: centerLng },
+      zoom,
+      locationsCount: validLocations.length,
+      bounds: { minLat, maxLat, minLng, maxLng }
+    });
+
+    setMapCenter({ lat: centerLat, lng: centerLng });
+    setMapZoom(zoom);
+  }, []);
+
   // Auto-zoom to encompass all heat map locations when heat map is enabled
   useEffect(() => {
     if (showHeatMap && heatMapLocations.length > 0) {
-      // Calculate bounds to fit all heat map locations
-      const validLocations = heatMapLocations.filter(
-        loc => loc.lat && loc.lng
-      );
+      fitMapToLocations(heatMapLocations, 'heat map');
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showHeatMap]); // Only run when showHeatMap changes, not heatMapLocations
 
-      if (validLocations.length === 0) return;
+  // 📋 Curated list from ?list=<slug> - the map shows only its pins
+  const showList = useCallback(async (slug: string) => {
+    try {
+      const { list } = await api.getList(slug);
+      setActiveList(list);
+      setMichelinAwardFilter(null);
+      trackAction('list_opened', 'App', { slug, entries: list.entries?.length || 0 });
 
-      // Find the bounds of all locations
-      let minLat = validLocations[0].lat!;
-      let maxLat = validLocations[0].lat!;
-      let minLng = validLocations[0].lng!;
-      let maxLng = validLocations[0].lng!;
+      const url = new URL(window.location.href);
+      url.searchParams.set('list', slug);
+      window.history.replaceState({}, '', url.toString());
 
-      validLocations.forEach(loc => {
-        if (loc.lat! < minLat) minLat = loc.lat!;
-        if (loc.lat! > maxLat) maxLat = loc.lat!;
-        if (loc.lng! < minLng) minLng = loc.lng!;
-        if (loc.lng! > maxLng) maxLng = loc.lng!;
-      });
+      fitMapToLocations((list.entries || []).map(entry => entry.location), 'list');
+      setMobileDrawerOpen(false);
+    } catch (error: any) {
+      console.error('❌ Error loading list:', error);
+      toast.error(error.message === 'List not found' ? 'This list is private or no longer exists' : 'Failed to load list');
+      setActiveList(null);
+    }
+  }, [fitMapToLocations]);
+
+  const clearActiveList = useCallback(() => {
+    setActiveList(null);
+    const url = new URL(window.location.href);
+    if (url.searchParams.has('list')) {
+      url.searchParams.delete('list');
+      window.history.replaceState({}, '', url.toString());
+    }
+  }, []);
 
-      // Add padding (10% on each side)
-      const latPadding = (maxLat - minLat) * 0.1;
-      const lngPadding = (maxLng - minLng) * 0.1;
-
-      minLat -= latPadding;
-      maxLat += latPadding;
-      minLng -= lngPadding;
-      maxLng += lngPadding;
-
-      // Calculate center point
-      const centerLat = (minLat + maxLat) / 2;
-      const centerLng = (minLng + maxLng) / 2;
-
-      // Calculate appropriate zoom level
-      // Based on latitude span (roughly 111km per degree)
-      const latSpan = maxLat - minLat;
-      const lngSpan = maxLng - minLng;
-      const maxSpan = Math.max(latSpan, lngSpan);
-
-      let zoom = 14; // default
-      if (maxSpan > 10) zoom = 5;
-      else if (maxSpan > 5) zoom = 6;
-      else if (maxSpan > 2) zoom = 7;
-      else if (maxSpan > 1) zoom = 8;
-      else if (maxSpan > 0.5) zoom = 9;
-      else if (maxSpan > 0.2) zoom = 10;
-      else if (maxSpan > 0.1) zoom = 11;
-      else if (maxSpan > 0.05) zoom = 12;
-      else if (maxSpan > 0.02) zoom = 13;
-
-      console.log('🗺️ Auto-zooming to heat map bounds:', {
-        center: { lat: centerLat, lng: centerLng },
-        zoom,
-        locationsCount: validLocations.length,
-        bounds: { minLat, maxLat, minLng, maxLng }
-      });
+  // Show only restaurants whose award changed in the latest guide (toggle off on second click)
+  const toggleMichelinAwardFilter = useCallback(async (type: MichelinAwardFilterType) => {
+    if (michelinAwardFilter?.type === type) {
+      setMichelinAwardFilter(null);
+      return;
+    }
+
+    try {
+      const { changes, guideYear } = await api.getMichelinChanges({ types: [type] });
+      const michelinIds = new Set(changes.map(change => change.michelinId));
+      const matches = locations.filter(loc => loc.michelinId != null && michelinIds.has(Number(loc.michelinId)));
+      const label = MICHELIN_AWARD_FILTERS.find(f => f.type === type)!.label.toLowerCase();
+
+      if (matches.length === 0) {
+        toast.info(`No places ${label}${guideYear ? ` in the ${guideYear} guide` : ' yet'}`);
+        return;
+      }
 
-      setMapCenter({ lat: centerLat, lng: centerLng });
-      setMapZoom(zoom);
+      clearActiveList();
+      setMichelinAwardFilter({ type, guideYear, michelinIds });
+      trackAction('michelin_award_filter', 'App', { type, guideYear, count: matches.length });
+      fitMapToLocations(matches, type);
+      setFilterMenuOpen(false);
+    } catch (error) {
+      console.error('❌ Error loading Michelin award changes:', error);
+      toast.error('Failed to load Michelin award changes');
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [showHeatMap]); // Only run when showHeatMap changes, not heatMapLocations
+  }, [michelinAwardFilter, locations, clearActiveList, fitMapToLocations]);
+
+  // Handle shared list from URL parameter (re-checked on sign-in for private lists)
+  useEffect(() => {
+    const slug = new URLSearchParams(window.location.search).get('list');
+    if (slug) {
+      console.log('🔗 Shared list detected:', slug);
+      showList(slug);
+    }
+  }, [user?.id, showList]);
 
   // Filter main locations when heat map search is active
   const filteredLocations = React.useMemo(() => {
+    // An open curated list replaces every other pin
+    if (activeList) {
+      return (activeList.entries || []).map(entry => entry.location as Location);
+    }
+    // Permanently closed and moved places stay off the map unless asked for
+    const visible = (list: Location[]) => (showClosedPlaces ? list : list.filter(loc => !isClosedLocation(loc)));
+    if (michelinAwardFilter) {
+      return visible(locations.filter(loc => loc.michelinId != null && michelinAwardFilter.michelinIds.has(Number(loc.michelinId))));
+    }
     // If we have heat map locations from a tag search, only show those
     if (heatMapLocations.length > 0) {
-      return heatMapLocations;
+      return visible(heatMapLocations);
     }
     // Otherwise show all locations
-    return locations;
-  }, [locations, heatMapLocations]);
+    return visible(locations);
+  }, [locations, heatMapLocations, activeList, michelinAwardFilter, showClosedPlaces]);
 
   // Filter want-to-go locations based on active search query
   const filteredWantToGoLocations = React.useMemo(() => {
+    if (activeList || michelinAwardFilter) {
+      return [];
+    }
+    const visible = showClosedPlaces ? wantToGoLocations : wantToGoLocations.filter(loc => !isClosedLocation(loc));
     if (!searchQuery) {
-      return wantToGoLocations;
+      return visible;
     }
     
     // Filter to only show want-to-go locations that have the search tag
-    return wantToGoLocations.filter(location => 
+    return visible.filter(location => 
       location.tags?.some(tag => 
         tag.toLowerCase().includes(searchQuery.toLowerCase())
       )
     );
-  }, [wantToGoLocations, searchQuery]);
+  }, [wantToGoLocations, searchQuery, activeList, michelinAwardFilter, showClosedPlaces]);
 
   const handlePlaceSelect = (place: google.maps.places.PlaceResult, location?: Location) => {
     console.log('🏙️ Place selected:', place.name, 'Types:', place.types);
@@ -804,18 +902,7 @@ export default function App() {
 
   const handleSeedDatabase = async () => {
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-48182530/seed`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${publicAnonKey}`,
-          },
-        }
-      );
-      
-      const data = await response.json();
+      const data = await api.seedDatabase();
       
       if (data.success) {
         toast.success(`Successfully added ${data.locations.length} sample locations!`);
@@ -892,6 +979,51 @@ export default function App() {
     }
   }, []);
 
+  // 📴 Track connectivity and replay toggles queued while offline
+  const replayOfflineChanges = useCallback(async () => {
+    const { applied, conflicts } = await api.replayOfflineMutations();
+    if (applied > 0) {
+      toast.success(`Synced ${applied} offline ${applied === 1 ? 'change' : 'changes'}`);
+    }
+    if (conflicts.length > 0) {
+      toast.warning(`${conflicts.length} offline ${conflicts.length === 1 ? 'change was' : 'changes were'} skipped - newer edits from another device won`);
+    }
+    if (applied > 0 || conflicts.length > 0) {
+      await loadUserLists();
+    }
+  }, [loadUserLists]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      if (user) {
+        replayOfflineChanges();
+      }
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    // Only the signed-in user's queued changes count - others stay queued for their next sign-in
+    let unsubscribe = () => {};
+    if (user) {
+      unsubscribe = offlineQueue.subscribe(user.id, setPendingOfflineCount);
+    } else {
+      setPendingOfflineCount(0);
+    }
+
+    // Changes left over from a previous session
+    if (user && navigator.onLine) {
+      replayOfflineChanges();
+    }
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      unsubscribe();
+    };
+  }, [user, replayOfflineChanges]);
+
   const handleToggleFavorite = useCallback(async (locationId: string, placeData?: { name?: string; lat?: number; lng?: number; formatted_address?: string; place_id?: string }) => {
     if (!user) {
       toast.error('Please sign in to save favorites');
@@ -931,13 +1063,13 @@ export default function App() {
     try {
       if (isFavorite) {
         // Remove from favorites
-        await trackApiCall('removeFavorite', () => api.removeFavorite(locationId));
-        toast.success('Removed from favorites');
+        const result = await trackApiCall('removeFavorite', () => api.removeFavorite(locationId));
+        toast.success(result?.queued ? 'Removed from favorites - will sync when online' : 'Removed from favorites');
       } else {
         // Add to favorites
         console.log('💾 Saving favorite with place_id:', placeData?.place_id);
-        await trackApiCall('addFavorite', () => api.addFavorite(locationId, placeData));
-        toast.success('Added to favorites!');
+        const result = await trackApiCall('addFavorite', () => api.addFavorite(locationId, placeData));
+        toast.success(result?.queued ? 'Saved offline - will sync when online' : 'Added to favorites!');
       }
       // ✅ NO MORE loadLocations() - we updated state optimistically!
     } catch (error: any) {
@@ -1051,13 +1183,13 @@ export default function App() {
         // Remove from Want to Go
         // ✅ Server now handles both UUIDs and place_ids, so we can pass locationId directly
         console.log('🗑️ Removing from Want to Go:', locationId);
-        await api.removeWantToGo(locationId);
-        toast.success('Removed from Want to Go');
+        const result = await api.removeWantToGo(locationId);
+        toast.success(result?.queued ? 'Removed from Want to Go - will sync when online' : 'Removed from Want to Go');
       } else {
         // Add to Want to Go
         console.log('💾 Saving want to go with place_id:', placeData?.place_id);
-        await api.addWantToGo(locationId, placeData);
-        toast.success('Added to Want to Go!');
+        const result = await api.addWantToGo(locationId, placeData);
+        toast.success(result?.queued ? 'Saved offline - will sync when online' : 'Added to Want to Go!');
       }
       // ✅ Reload user lists to get the actual location data from the server
       await loadUserLists();
@@ -1260,11 +1392,66 @@ export default function App() {
   return (
     <div className="size-full flex flex-col bg-white">
       <Toaster position="top-center" richColors />
+
+      {/* 📋 Active curated list */}
+      {activeList && (
+        <div className="fixed top-20 left-1/2 -translate-x-1/2 z-40 max-w-[90vw] flex items-center gap-3 pl-4 pr-2 py-2 rounded-full bg-white/95 shadow-lg backdrop-blur border border-slate-200">
+          <ListOrdered className="h-4 w-4 text-emerald-600 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-slate-900 truncate">{activeList.title}</p>
+            <p className="text-xs text-slate-500 truncate">
+              {activeList.entries?.length || 0} places{activeList.ownerName ? ` · by ${activeList.ownerName}` : ''}
+            </p>
+          </div>
+          <button
+            onClick={clearActiveList}
+            className="p-1.5 rounded-full hover:bg-slate-100 flex-shrink-0"
+            title="Show all places"
+          >
+            <X className="h-4 w-4 text-slate-600" />
+          </button>
+        </div>
+      )}
+
+      {/* ⭐ Michelin award filter */}
+      {michelinAwardFilter && (
+        <div className="fixed top-20 left-1/2 -translate-x-1/2 z-40 max-w-[90vw] flex items-center gap-3 pl-4 pr-2 py-2 rounded-full bg-white/95 shadow-lg backdrop-blur border border-slate-200">
+          {michelinAwardFilter.type === 'gained_star'
+            ? <TrendingUp className="h-4 w-4 text-green-600 flex-shrink-0" />
+            : <TrendingDown className="h-4 w-4 text-red-600 flex-shrink-0" />}
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-slate-900 truncate">
+              {MICHELIN_AWARD_FILTERS.find(f => f.type === michelinAwardFilter.type)!.label}
+              {michelinAwardFilter.guideYear ? ` · Michelin ${michelinAwardFilter.guideYear}` : ''}
+            </p>
+            <p className="text-xs text-slate-500 truncate">{filteredLocations.length} places</p>
+          </div>
+          <button
+            onClick={() => setMichelinAwardFilter(null)}
+            className="p-1.5 rounded-full hover:bg-slate-100 flex-shrink-0"
+            title="Show all places"
+          >
+            <X className="h-4 w-4 text-slate-600" />
+          </button>
+        </div>
+      )}
+
+      {/* 📴 Offline indicator */}
+      {(!isOnline || pendingOfflineCount > 0) && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 px-4 py-2 rounded-full bg-slate-900/90 text-white text-sm shadow-lg backdrop-blur">
+          <WifiOff className="h-4 w-4" />
+          <span>
+            {isOnline ? 'Syncing' : 'Offline'}
+            {pendingOfflineCount > 0 && ` — ${pendingOfflineCount} ${pendingOfflineCount === 1 ? 'change' : 'changes'} ${isOnline ? 'pending' : 'will sync'}`}
+          </span>
+        </div>
+      )}
       
       {/* Monitoring Dashboard (Ctrl+Shift+M to toggle) */}
       <MonitoringDashboard 
         isOpen={monitoringDashboardOpen} 
         onClose={() => setMonitoringDashboardOpen(false)} 
+        userRole={user?.role}
       />
 
       {/* Header - Hidden on mobile, visible on desktop */}
@@ -1360,6 +1547,17 @@ export default function App() {
                   <Bookmark className="h-4 w-4" />
                   Want to Go
                 </button>
+                <button
+                  onClick={() => setSidebarView('lists')}
+                  className={`flex-1 flex items-center justify-center gap-2 px-3 py-2.5 rounded-md text-sm font-medium transition-all ${
+                    sidebarView === 'lists'
+                      ? 'bg-slate-900 text-white'
+                      : 'text-gray-600 hover:bg-slate-100'
+                  }`}
+                >
+                  <ListOrdered className="h-4 w-4" />
+                  Lists
+                </button>
                 <button
                   onClick={() => setSidebarView('profile')}
                   className={`flex-1 flex items-center justify-center gap-2 px-3 py-2.5 rounded-md text-sm font-medium transition-all ${
@@ -1451,6 +1649,17 @@ export default function App() {
                   />
                 )}
 
+                {sidebarView === 'lists' && (
+                  <Lists
+                    user={user}
+                    onShowList={showList}
+                    onLocationClick={(location) => {
+                      setMapCenter({ lat: location.lat, lng: location.lng });
+                      setMapZoom(15);
+                    }}
+                  />
+                )}
+
                 {sidebarView === 'profile' && (
                   <Profile 
                     user={user}
@@ -1524,6 +1733,37 @@ export default function App() {
                           }`} />
                         </div>
                       </button>
+
+                      {/* Closed Places Toggle */}
+                      <button
+                        onClick={() => setShowClosedPlaces(!showClosedPlaces)}
+                        className="w-full flex items-center justify-between px-3 py-2.5 rounded-lg hover:bg-slate-50 transition-all"
+                      >
+                        <span className="text-sm font-medium text-gray-700">Closed Places</span>
+                        <div className={`w-10 h-6 rounded-full transition-all ${
+                          showClosedPlaces ? 'bg-gray-700' : 'bg-gray-300'
+                        }`}>
+                          <div className={`w-4 h-4 bg-white rounded-full shadow-md transition-all transform ${
+                            showClosedPlaces ? 'translate-x-5 translate-y-1' : 'translate-x-1 translate-y-1'
+                          }`} />
+                        </div>
+                      </button>
+
+                      <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider pt-1">
+                        Michelin Guide
+                      </div>
+                      {MICHELIN_AWARD_FILTERS.map(({ type, label }) => (
+                        <button
+                          key={type}
+                          onClick={() => toggleMichelinAwardFilter(type)}
+                          className={`w-full flex items-center gap-2 px-3 py-2.5 rounded-lg transition-all ${
+                            michelinAwardFilter?.type === type ? 'bg-red-50 text-red-700' : 'hover:bg-slate-50 text-gray-700'
+                          }`}
+                        >
+                          {type === 'gained_star' ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
+                          <span className="text-sm font-medium">{label}</span>
+                        </button>
+                      ))}
                     </div>
                   </motion.div>
                 </>
@@ -1673,6 +1913,37 @@ export default function App() {
                             }`} />
                           </div>
                         </button>
+
+                        {/* Closed Places Toggle */}
+                        <button
+                          onClick={() => setShowClosedPlaces(!showClosedPlaces)}
+                          className="w-full flex items-center justify-between px-3 py-2.5 rounded-lg hover:bg-slate-100 transition-all"
+                        >
+                          <span className="text-sm font-medium text-gray-700">Closed Places</span>
+                          <div className={`w-10 h-6 rounded-full transition-all ${
+                            showClosedPlaces ? 'bg-gray-700' : 'bg-gray-300'
+                          }`}>
+                            <div className={`w-4 h-4 bg-white rounded-full shadow-md transition-all transform ${
+                              showClosedPlaces ? 'translate-x-5 translate-y-1' : 'translate-x-1 translate-y-1'
+                            }`} />
+                          </div>
+                        </button>
+
+                        <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider px-2 py-1">
+                          Michelin Guide
+                        </div>
+                        {MICHELIN_AWARD_FILTERS.map(({ type, label }) => (
+                          <button
+                            key={type}
+                            onClick={() => toggleMichelinAwardFilter(type)}
+                            className={`w-full flex items-center gap-2 px-3 py-2.5 rounded-lg transition-all ${
+                              michelinAwardFilter?.type === type ? 'bg-red-50 text-red-700' : 'hover:bg-slate-100 text-gray-700'
+                            }`}
+                          >
+                            {type === 'gained_star' ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
+                            <span className="text-sm font-medium">{label}</span>
+                          </button>
+                        ))}
                       </div>
                     </motion.div>
                   )}
@@ -1683,6 +1954,7 @@ export default function App() {
             {/* Map Component */}
             <Map
               locations={filteredLocations}
+              serverClustering={!activeList && !michelinAwardFilter}
               heatMapData={heatMapLocations}
               showHeatMap={showHeatMap}
               googleMapsApiKey={googleMapsApiKey}
@@ -1723,6 +1995,8 @@ export default function App() {
               onFilterMenuToggle={setFilterMenuOpen}
               onLVMarkersToggle={() => setShowLVMarkers(!showLVMarkers)}
               onMichelinMarkersToggle={() => setShowMichelinMarkers(!showMichelinMarkers)}
+              showClosedPlaces={showClosedPlaces}
+              onClosedPlacesToggle={() => setShowClosedPlaces(!showClosedPlaces)}
             />
           </APIProvider>
         </div>
@@ -1828,6 +2102,17 @@ export default function App() {
                     <Bookmark className="h-4 w-4" />
                     Want to Go
                   </button>
+                  <button
+                    onClick={() => setSidebarView('lists')}
+                    className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-xl text-sm font-medium transition-all ${
+                      sidebarView === 'lists'
+                        ? 'bg-slate-900 text-white shadow-lg'
+                        : 'bg-slate-50 text-gray-600 hover:bg-slate-100'
+                    }`}
+                  >
+                    <ListOrdered className="h-4 w-4" />
+                    Lists
+                  </button>
                   <button
                     onClick={() => setSidebarView('profile')}
                     className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-xl text-sm font-medium transition-all ${
@@ -1869,6 +2154,18 @@ export default function App() {
                     />
                   )}
 
+                  {sidebarView === 'lists' && (
+                    <Lists
+                      user={user!}
+                      onShowList={showList}
+                      onLocationClick={(location) => {
+                        setMapCenter({ lat: location.lat, lng: location.lng });
+                        setMapZoom(15);
+                        setMobileDrawerOpen(false);
+                      }}
+                    />
+                  )}
+
                   {sidebarView === 'profile' && (
                     <Profile 
                       user={user!}
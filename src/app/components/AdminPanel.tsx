@@ -1,12 +1,12 @@
 import { useState, useEffect } from 'react';
-import { Shield, Users, Mail, Crown, Trash2 } from 'lucide-react';
+import { Shield, Users, Mail, Crown, Trash2, Check, KeyRound } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { toast } from 'sonner';
-import { api, type User } from '../../utils/api';
-import { projectId, publicAnonKey } from '/utils/supabase/info';
-import { createClient } from '@supabase/supabase-js';
+import { api, type User, type RoleMatrix } from '../../utils/api';
+import { ROLES, ROLE_LABELS, hasRole, type Role } from '../../utils/roles';
 
 interface AdminPanelProps {
   currentUser: User;
@@ -16,9 +16,13 @@ export function AdminPanel({ currentUser }: AdminPanelProps) {
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [migrating, setMigrating] = useState(false);
+  const [roleMatrix, setRoleMatrix] = useState<RoleMatrix | null>(null);
 
   useEffect(() => {
     loadUsers();
+    api.getRoleMatrix()
+      .then(setRoleMatrix)
+      .catch(error => console.error('Failed to load role permissions:', error));
   }, []);
 
   const loadUsers = async () => {
@@ -34,25 +38,14 @@ export function AdminPanel({ currentUser }: AdminPanelProps) {
     }
   };
 
-  const handlePromoteToEditor = async (userId: string, userName: string) => {
+  const handleRoleChange = async (userId: string, userName: string, role: Role) => {
     try {
-      await api.updateUserRoleByAdmin(userId, 'editor');
-      toast.success(`${userName} is now an editor!`);
+      await api.updateUserRoleByAdmin(userId, role);
+      toast.success(`${userName} is now ${ROLE_LABELS[role]}`);
       await loadUsers();
     } catch (error: any) {
-      console.error('Failed to promote user:', error);
-      toast.error('Failed to promote user');
-    }
-  };
-
-  const handleDemoteToUser = async (userId: string, userName: string) => {
-    try {
-      await api.updateUserRoleByAdmin(userId, 'user');
-      toast.success(`${userName} is now a regular user`);
-      await loadUsers();
-    } catch (error: any) {
-      console.error('Failed to demote user:', error);
-      toast.error('Failed to demote user');
+      console.error('Failed to change role:', error);
+      toast.error(error.message || 'Failed to change role');
     }
   };
   
@@ -62,41 +55,16 @@ export function AdminPanel({ currentUser }: AdminPanelProps) {
     }
     
     setMigrating(true);
-    toast.info('Starting Michelin data backfill...');
     
     try {
-      const supabase = createClient(
-        `https://${projectId}.supabase.co`,
-        publicAnonKey
-      );
-      
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session?.access_token) {
-        toast.error('Not authenticated');
-        return;
-      }
-      
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-48182530/michelin/backfill-locations`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${session.access_token}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error('Failed to run backfill');
-      }
-      
-      const result = await response.json();
-      toast.success(`Backfill complete! Updated: ${result.updated}, Created: ${result.created}, Errors: ${result.errors}`);
-      console.log('Michelin backfill result:', result);
+      // Runs as a background job; progress shows under Michelin Guide Data
+      await api.startJob('michelin-backfill');
+      toast.success('Michelin backfill started', {
+        description: 'Follow its progress in the Michelin Guide Data section'
+      });
     } catch (error: any) {
-      console.error('Failed to run Michelin backfill:', error);
-      toast.error('Failed to run backfill');
+      console.error('Failed to start Michelin backfill:', error);
+      toast.error(error.status === 409 ? 'A backfill is already running' : 'Failed to start backfill');
     } finally {
       setMigrating(false);
     }
@@ -126,8 +94,8 @@ export function AdminPanel({ currentUser }: AdminPanelProps) {
     return colors[index];
   };
 
-  const editorCount = users.filter(u => u.role === 'editor').length;
-  const userCount = users.filter(u => u.role === 'user').length;
+  const countByRole = (role: Role) => users.filter(u => u.role === role).length;
+  const canManageRoles = hasRole(currentUser.role, 'admin');
 
   return (
     <Card className="bg-white">
@@ -142,15 +110,13 @@ export function AdminPanel({ currentUser }: AdminPanelProps) {
       </CardHeader>
       <CardContent className="space-y-6">
         {/* Stats */}
-        <div className="grid grid-cols-2 gap-4">
-          <div className="bg-slate-50 rounded-lg p-4 text-center">
-            <div className="text-2xl font-semibold text-slate-900">{userCount}</div>
-            <div className="text-sm text-slate-600 mt-1">Travelers</div>
-          </div>
-          <div className="bg-amber-50 rounded-lg p-4 text-center">
-            <div className="text-2xl font-semibold text-amber-600">{editorCount}</div>
-            <div className="text-sm text-amber-700 mt-1">Editors</div>
-          </div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          {ROLES.map(role => (
+            <div key={role} className={`${hasRole(role, 'editor') ? 'bg-amber-50' : 'bg-slate-50'} rounded-lg p-4 text-center`}>
+              <div className={`text-2xl font-semibold ${hasRole(role, 'editor') ? 'text-amber-600' : 'text-slate-900'}`}>{countByRole(role)}</div>
+              <div className={`text-sm mt-1 ${hasRole(role, 'editor') ? 'text-amber-700' : 'text-slate-600'}`}>{ROLE_LABELS[role]}</div>
+            </div>
+          ))}
         </div>
 
         {/* Users List */}
@@ -190,32 +156,29 @@ export function AdminPanel({ currentUser }: AdminPanelProps) {
                       </div>
                       <p className="text-sm text-slate-500 truncate">{user.email}</p>
                     </div>
-                    <Badge variant={user.role === 'editor' ? 'default' : 'outline'} className="flex-shrink-0">
-                      {user.role === 'editor' ? '✨ Editor' : '🌍 Traveler'}
+                    <Badge variant={hasRole(user.role, 'editor') ? 'default' : 'outline'} className="flex-shrink-0">
+                      {ROLE_LABELS[user.role] ?? user.role}
                     </Badge>
                   </div>
                   
-                  {user.id !== currentUser.id && (
+                  {/* Admins can't change their own role - another admin has to */}
+                  {canManageRoles && user.id !== currentUser.id && (
                     <div className="ml-3 flex-shrink-0">
-                      {user.role === 'user' ? (
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => handlePromoteToEditor(user.id, user.name)}
-                          className="text-xs"
-                        >
-                          Make Editor
-                        </Button>
-                      ) : (
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => handleDemoteToUser(user.id, user.name)}
-                          className="text-xs text-slate-600"
-                        >
-                          Remove Editor
-                        </Button>
-                      )}
+                      <Select
+                        value={user.role}
+                        onValueChange={(role) => handleRoleChange(user.id, user.name, role as Role)}
+                      >
+                        <SelectTrigger size="sm" className="text-xs w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map(role => (
+                            <SelectItem key={role} value={role} className="text-xs">
+                              {ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
                   )}
                 </div>
@@ -224,6 +187,43 @@ export function AdminPanel({ currentUser }: AdminPanelProps) {
           )}
         </div>
         
+        {/* Effective permissions per role */}
+        {roleMatrix && (
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-slate-700 flex items-center gap-2">
+              <KeyRound className="h-4 w-4" />
+              Role Permissions
+            </h3>
+            <div className="overflow-x-auto rounded-lg border border-slate-200">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50 text-slate-600">
+                  <tr>
+                    <th className="text-left font-medium p-2">Permission</th>
+                    {roleMatrix.roles.map(({ role }) => (
+                      <th key={role} className="font-medium p-2 whitespace-nowrap">{ROLE_LABELS[role] ?? role}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {roleMatrix.permissions.map(({ permission, description }) => (
+                    <tr key={permission} className="border-t border-slate-100">
+                      <td className="p-2">
+                        <div className="text-slate-900">{description}</div>
+                        <div className="font-mono text-[10px] text-slate-400">{permission}</div>
+                      </td>
+                      {roleMatrix.roles.map(({ role, permissions }) => (
+                        <td key={role} className="p-2 text-center">
+                          {permissions.includes(permission) && <Check className="h-4 w-4 text-emerald-600 inline" />}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+        
         {/* Michelin Backfill Button */}
         <div className="mt-6">
           <Button
@@ -233,7 +233,7 @@ export function AdminPanel({ currentUser }: AdminPanelProps) {
             className="text-xs"
             disabled={migrating}
           >
-            {migrating ? 'Backfilling...' : 'Backfill Michelin Data'}
+            {migrating ? 'Starting...' : 'Backfill Michelin Data'}
           </Button>
         </div>
       </CardContent>
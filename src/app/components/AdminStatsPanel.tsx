@@ -1,31 +1,56 @@
 import React, { useState, useEffect } from 'react';
-import { Users, MapPin, Heart, Bookmark, Award, Star, TrendingUp, Activity } from 'lucide-react';
+import { Users, MapPin, Heart, Bookmark, Award, Star, TrendingUp, Activity, Globe } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis, Bar, BarChart } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
-import { api } from '../../utils/api';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+  type ChartConfig,
+} from './ui/chart';
+import { api, type AdminStats, type AdminStatsPoint, type AdminStatsBreakdown } from '../../utils/api';
 import { toast } from 'sonner';
 
-interface AdminStats {
-  totalUsers: number;
-  totalLocations: number;
-  totalFavorites: number;
-  totalWantToGo: number;
-  lvRatedLocations: number;
-  michelinLocations: number;
-}
+const RANGE_OPTIONS = [7, 30, 90] as const;
+
+const activityChartConfig = {
+  signups: { label: 'Signups', color: '#3b82f6' },
+  favorites: { label: 'Favorites', color: '#ef4444' },
+  wantToGo: { label: 'Want to Go', color: '#f59e0b' },
+  editorRatings: { label: 'Editor ratings', color: '#8b5cf6' },
+} satisfies ChartConfig;
+
+const breakdownChartConfig = {
+  lvRated: { label: 'LV rated', color: '#8b5cf6' },
+  michelin: { label: 'Michelin', color: '#f43f5e' },
+  other: { label: 'Other', color: '#cbd5e1' },
+} satisfies ChartConfig;
+
+// "2025-03-07" -> "Mar 7" (dates are UTC days)
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
 
 export function AdminStatsPanel() {
   const [stats, setStats] = useState<AdminStats | null>(null);
+  const [timeSeries, setTimeSeries] = useState<AdminStatsPoint[]>([]);
+  const [breakdowns, setBreakdowns] = useState<{ cities: AdminStatsBreakdown[]; countries: AdminStatsBreakdown[] } | null>(null);
+  const [breakdownView, setBreakdownView] = useState<'cities' | 'countries'>('cities');
+  const [days, setDays] = useState<number>(30);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadStats();
-  }, []);
+  }, [days]);
 
   const loadStats = async () => {
     setLoading(true);
     try {
-      const result = await api.getAdminStats();
+      const result = await api.getAdminStats(days);
       setStats(result.stats);
+      setTimeSeries(result.timeSeries);
+      setBreakdowns(result.breakdowns);
     } catch (error: any) {
       console.error('Failed to load admin stats:', error);
       toast.error('Failed to load statistics');
@@ -34,7 +59,7 @@ export function AdminStatsPanel() {
     }
   };
 
-  if (loading) {
+  if (loading && !stats) {
     return (
       <Card>
         <CardHeader>
@@ -176,6 +201,115 @@ export function AdminStatsPanel() {
             </div>
           </div>
         </div>
+
+        {/* Daily Activity */}
+        <div className="mt-6 pt-6 border-t border-gray-200">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-2">
+              <Activity className="h-4 w-4 text-gray-500" />
+              <h4 className="text-sm font-semibold text-gray-700">Daily Activity</h4>
+            </div>
+            <div className="flex items-center gap-1">
+              {RANGE_OPTIONS.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setDays(option)}
+                  disabled={loading}
+                  className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+                    days === option ? 'bg-purple-100 text-purple-700' : 'text-gray-500 hover:bg-gray-100'
+                  }`}
+                >
+                  {option}d
+                </button>
+              ))}
+            </div>
+          </div>
+          <ChartContainer config={activityChartConfig} className="aspect-auto h-56 w-full">
+            <LineChart data={timeSeries} margin={{ left: -20, right: 8, top: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="date"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={24}
+                tickFormatter={formatDay}
+              />
+              <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDay(String(value))} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {(Object.keys(activityChartConfig) as Array<keyof typeof activityChartConfig>).map(key => (
+                <Line
+                  key={key}
+                  dataKey={key}
+                  type="monotone"
+                  stroke={`var(--color-${key})`}
+                  strokeWidth={2}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        </div>
+
+        {/* Locations by City / Country */}
+        {breakdowns && (
+          <div className="mt-6 pt-6 border-t border-gray-200">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-2">
+                <Globe className="h-4 w-4 text-gray-500" />
+                <h4 className="text-sm font-semibold text-gray-700">Top {breakdownView === 'cities' ? 'Cities' : 'Countries'}</h4>
+              </div>
+              <div className="flex items-center gap-1">
+                {(['cities', 'countries'] as const).map(view => (
+                  <button
+                    key={view}
+                    onClick={() => setBreakdownView(view)}
+                    className={`px-2 py-1 rounded-md text-xs font-medium capitalize transition-colors ${
+                      breakdownView === view ? 'bg-purple-100 text-purple-700' : 'text-gray-500 hover:bg-gray-100'
+                    }`}
+                  >
+                    {view}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {breakdowns[breakdownView].length === 0 ? (
+              <p className="text-xs text-gray-500 py-4 text-center">No locations have a {breakdownView === 'cities' ? 'city' : 'country'} set yet</p>
+            ) : (
+              <ChartContainer
+                config={breakdownChartConfig}
+                className="aspect-auto w-full"
+                style={{ height: `${Math.max(120, breakdowns[breakdownView].length * 32 + 40)}px` }}
+              >
+                <BarChart
+                  data={breakdowns[breakdownView].map(entry => ({
+                    ...entry,
+                    // LV-rated Michelin places count once, as LV rated
+                    michelin: Math.max(0, Math.min(entry.michelin, entry.locations - entry.lvRated)),
+                    other: Math.max(0, entry.locations - entry.lvRated - entry.michelin),
+                  }))}
+                  layout="vertical"
+                  margin={{ left: 0, right: 8 }}
+                >
+                  <XAxis type="number" hide allowDecimals={false} />
+                  <YAxis
+                    type="category"
+                    dataKey="name"
+                    tickLine={false}
+                    axisLine={false}
+                    width={110}
+                    tickFormatter={(value: string) => value.length > 16 ? `${value.slice(0, 15)}…` : value}
+                  />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="lvRated" stackId="locations" fill="var(--color-lvRated)" />
+                  <Bar dataKey="michelin" stackId="locations" fill="var(--color-michelin)" />
+                  <Bar dataKey="other" stackId="locations" fill="var(--color-other)" radius={[0, 4, 4, 0]} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
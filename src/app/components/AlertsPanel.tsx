@@ -0,0 +1,474 @@
+import React, { useState, useEffect } from 'react';
+import { Bell, BellOff, Check, ChevronDown, ChevronUp, Play, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Switch } from './ui/switch';
+import {
+  api,
+  type Alert,
+  type AlertChannel,
+  type AlertEvent,
+  type AlertMetric,
+  type AlertRule,
+  type AlertRuleInput,
+} from '../../utils/api';
+import { hasRole, type Role } from '../../utils/roles';
+
+const METRIC_OPTIONS: Array<{ value: AlertMetric; label: string }> = [
+  { value: 'error_rate', label: '5xx rate (%)' },
+  { value: 'p95_ms', label: 'p95 latency (ms)' },
+  { value: 'p99_ms', label: 'p99 latency (ms)' },
+  { value: 'p50_ms', label: 'p50 latency (ms)' },
+  { value: 'avg_ms', label: 'Average latency (ms)' },
+];
+
+const STATUS_STYLES: Record<Alert['status'], string> = {
+  open: 'bg-red-100 text-red-700',
+  acknowledged: 'bg-amber-100 text-amber-700',
+  resolved: 'bg-emerald-100 text-emerald-700',
+};
+
+const EVENT_LABELS: Record<AlertEvent['event'], string> = {
+  opened: 'Opened',
+  acknowledged: 'Acknowledged',
+  resolved: 'Resolved',
+  notified: 'Notified',
+  notify_failed: 'Notification failed',
+};
+
+const EMPTY_FORM = {
+  name: '',
+  kind: 'route' as AlertRuleInput['kind'],
+  target: '',
+  metric: 'error_rate' as AlertMetric,
+  comparator: '>' as AlertRuleInput['comparator'],
+  threshold: '',
+  windowMinutes: '5',
+  minRequests: '20',
+  webhookUrl: '',
+  email: '',
+};
+
+const formatValue = (metric: AlertMetric | undefined, value: number | null) => {
+  if (value == null) return '—';
+  return metric === 'error_rate' ? `${Math.round(value * 1000) / 10}%` : `${Math.round(value)}ms`;
+};
+
+const inputClassName = 'px-2 py-1.5 border border-gray-300 rounded-lg text-sm';
+
+interface AlertsPanelProps {
+  userRole?: Role | null;
+}
+
+/**
+ * Alert rules over the server metrics, the alerts they raise and their
+ * history. Editors acknowledge and resolve alerts; admins manage the rules.
+ */
+export function AlertsPanel({ userRole }: AlertsPanelProps) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [activeAlerts, setActiveAlerts] = useState<Alert[]>([]);
+  const [resolvedAlerts, setResolvedAlerts] = useState<Alert[]>([]);
+  const [expandedAlert, setExpandedAlert] = useState<string | null>(null);
+  const [events, setEvents] = useState<Record<string, AlertEvent[]>>({});
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canRespond = hasRole(userRole, 'editor');
+  const canConfigure = hasRole(userRole, 'admin');
+
+  useEffect(() => {
+    loadAlerts();
+  }, []);
+
+  const loadAlerts = async () => {
+    setLoading(true);
+    try {
+      const [rulesResult, activeResult, resolvedResult] = await Promise.all([
+        api.getAlertRules(),
+        api.getAlerts('active'),
+        api.getAlerts('resolved'),
+      ]);
+      setRules(rulesResult.rules);
+      setActiveAlerts(activeResult.alerts);
+      setResolvedAlerts(resolvedResult.alerts.slice(0, 20));
+      setError(null);
+    } catch (err: any) {
+      console.error('Failed to load alerts:', err);
+      setError(err.status === 403 ? 'Alerts are available to editors' : err.message || 'Failed to load alerts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const metricOfRule = (ruleId: string | null) => rules.find(rule => rule.id === ruleId)?.metric;
+
+  const toggleAlert = async (alertId: string) => {
+    if (expandedAlert === alertId) {
+      setExpandedAlert(null);
+      return;
+    }
+    setExpandedAlert(alertId);
+    try {
+      const result = await api.getAlert(alertId);
+      setEvents(prev => ({ ...prev, [alertId]: result.events }));
+    } catch (err) {
+      console.error('Failed to load alert history:', err);
+    }
+  };
+
+  const handleAcknowledge = async (alert: Alert) => {
+    try {
+      await api.acknowledgeAlert(alert.id);
+      toast.success(`Acknowledged ${alert.ruleName}`);
+      await loadAlerts();
+    } catch (err: any) {
+      console.error('Failed to acknowledge alert:', err);
+      toast.error(err.message || 'Failed to acknowledge alert');
+    }
+  };
+
+  const handleResolve = async (alert: Alert) => {
+    try {
+      await api.resolveAlert(alert.id);
+      toast.success(`Resolved ${alert.ruleName}`);
+      await loadAlerts();
+    } catch (err: any) {
+      console.error('Failed to resolve alert:', err);
+      toast.error(err.message || 'Failed to resolve alert');
+    }
+  };
+
+  const handleEvaluate = async () => {
+    try {
+      const result = await api.evaluateAlerts();
+      toast.success(`Evaluated ${result.evaluated} rules`, {
+        description: `${result.opened} opened, ${result.resolved} resolved`,
+      });
+      await loadAlerts();
+    } catch (err: any) {
+      console.error('Failed to evaluate alert rules:', err);
+      toast.error(err.message || 'Failed to evaluate alert rules');
+    }
+  };
+
+  const handleToggleRule = async (rule: AlertRule, enabled: boolean) => {
+    try {
+      const { rule: updated } = await api.updateAlertRule(rule.id, { enabled });
+      setRules(prev => prev.map(r => (r.id === updated.id ? updated : r)));
+    } catch (err: any) {
+      console.error('Failed to update alert rule:', err);
+      toast.error(err.message || 'Failed to update alert rule');
+    }
+  };
+
+  const handleDeleteRule = async (rule: AlertRule) => {
+    if (!confirm(`Delete the alert rule "${rule.name}"? Its past alerts stay in the history.`)) {
+      return;
+    }
+    try {
+      await api.deleteAlertRule(rule.id);
+      toast.success(`Deleted ${rule.name}`);
+      await loadAlerts();
+    } catch (err: any) {
+      console.error('Failed to delete alert rule:', err);
+      toast.error(err.message || 'Failed to delete alert rule');
+    }
+  };
+
+  const handleCreateRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const channels: AlertChannel[] = [];
+    if (form.webhookUrl.trim()) channels.push({ type: 'webhook', url: form.webhookUrl.trim() });
+    if (form.email.trim()) channels.push({ type: 'email', to: form.email.trim() });
+
+    // Error rates are entered as percentages
+    const threshold = Number(form.threshold);
+    setSaving(true);
+    try {
+      await api.createAlertRule({
+        name: form.name,
+        kind: form.kind,
+        target: form.target.trim() || null,
+        metric: form.metric,
+        comparator: form.comparator,
+        threshold: form.metric === 'error_rate' ? threshold / 100 : threshold,
+        windowMinutes: Number(form.windowMinutes),
+        minRequests: Number(form.minRequests),
+        channels,
+      });
+      toast.success(`Created ${form.name}`);
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      await loadAlerts();
+    } catch (err: any) {
+      console.error('Failed to create alert rule:', err);
+      toast.error(err.message || 'Failed to create alert rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderAlert = (alert: Alert) => {
+    const expanded = expandedAlert === alert.id;
+    const metric = metricOfRule(alert.ruleId);
+
+    return (
+      <div key={alert.id} className="p-3 bg-gray-50 rounded-lg">
+        <div className="flex items-start justify-between gap-3">
+          <button onClick={() => toggleAlert(alert.id)} className="flex-1 min-w-0 text-left">
+            <div className="flex items-center gap-2">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[alert.status]}`}>
+                {alert.status}
+              </span>
+              <span className="font-medium text-sm">{alert.ruleName}</span>
+              {expanded ? <ChevronUp className="w-4 h-4 text-gray-500" /> : <ChevronDown className="w-4 h-4 text-gray-500" />}
+            </div>
+            <p className="text-xs text-gray-600 mt-1">
+              {alert.condition} · opened at {formatValue(metric, alert.value)}
+              {alert.status !== 'resolved' && `, now ${formatValue(metric, alert.lastValue)}`}
+            </p>
+            <p className="text-xs text-gray-500">
+              {new Date(alert.openedAt).toLocaleString()}
+              {alert.resolvedAt && ` → ${new Date(alert.resolvedAt).toLocaleString()}`}
+            </p>
+          </button>
+          {canRespond && alert.status !== 'resolved' && (
+            <div className="flex gap-1">
+              {alert.status === 'open' && (
+                <Button size="sm" variant="outline" onClick={() => handleAcknowledge(alert)}>
+                  <BellOff className="w-3 h-3 mr-1" />
+                  Acknowledge
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={() => handleResolve(alert)}>
+                <Check className="w-3 h-3 mr-1" />
+                Resolve
+              </Button>
+            </div>
+          )}
+        </div>
+        {expanded && (
+          <div className="mt-2 pl-3 border-l-2 border-gray-200 space-y-1">
+            {(events[alert.id] || []).map(event => (
+              <div key={event.id} className="text-xs text-gray-600">
+                <span className="text-gray-400">{new Date(event.createdAt).toLocaleTimeString()}</span>
+                {' '}
+                <span className={event.event === 'notify_failed' ? 'text-red-600 font-medium' : 'font-medium'}>
+                  {EVENT_LABELS[event.event]}
+                </span>
+                {event.value != null && ` at ${formatValue(metric, event.value)}`}
+                {event.detail && ` - ${event.detail}`}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        {canConfigure && (
+          <>
+            <Button size="sm" variant="outline" onClick={() => setShowForm(prev => !prev)}>
+              <Plus className="w-4 h-4 mr-1" />
+              New rule
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleEvaluate}>
+              <Play className="w-4 h-4 mr-1" />
+              Evaluate now
+            </Button>
+          </>
+        )}
+        <button
+          onClick={loadAlerts}
+          disabled={loading}
+          className="ml-auto p-1.5 rounded-lg text-gray-500 hover:bg-gray-100"
+          title="Refresh"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {showForm && canConfigure && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">New Alert Rule</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreateRule} className="grid grid-cols-2 gap-3 text-sm">
+              <Input
+                placeholder="Name, e.g. Locations 5xx"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="col-span-2"
+                required
+              />
+              <select
+                value={form.kind}
+                onChange={(e) => setForm({ ...form, kind: e.target.value as AlertRuleInput['kind'] })}
+                className={inputClassName}
+              >
+                <option value="route">Routes</option>
+                <option value="db">Database tables</option>
+              </select>
+              <Input
+                placeholder={form.kind === 'route' ? 'GET /locations or /locations (blank for all)' : 'Table (blank for all)'}
+                value={form.target}
+                onChange={(e) => setForm({ ...form, target: e.target.value })}
+              />
+              <select
+                value={form.metric}
+                onChange={(e) => setForm({ ...form, metric: e.target.value as AlertMetric })}
+                className={inputClassName}
+              >
+                {METRIC_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <div className="flex gap-2">
+                <select
+                  value={form.comparator}
+                  onChange={(e) => setForm({ ...form, comparator: e.target.value as AlertRuleInput['comparator'] })}
+                  className={inputClassName}
+                >
+                  <option value=">">above</option>
+                  <option value="<">below</option>
+                </select>
+                <Input
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder={form.metric === 'error_rate' ? '5' : '3000'}
+                  value={form.threshold}
+                  onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+                  required
+                />
+              </div>
+              <label className="flex items-center gap-2 text-gray-600">
+                Over
+                <Input
+                  type="number"
+                  min="1"
+                  max="60"
+                  value={form.windowMinutes}
+                  onChange={(e) => setForm({ ...form, windowMinutes: e.target.value })}
+                  className="w-20"
+                />
+                min
+              </label>
+              <label className="flex items-center gap-2 text-gray-600">
+                Ignore under
+                <Input
+                  type="number"
+                  min="0"
+                  value={form.minRequests}
+                  onChange={(e) => setForm({ ...form, minRequests: e.target.value })}
+                  className="w-24"
+                />
+                requests
+              </label>
+              <Input
+                type="url"
+                placeholder="Webhook URL (optional)"
+                value={form.webhookUrl}
+                onChange={(e) => setForm({ ...form, webhookUrl: e.target.value })}
+              />
+              <Input
+                type="email"
+                placeholder="Email (optional)"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+              />
+              <p className="col-span-2 text-xs text-gray-500">
+                Without a webhook or email, alerts are only written to the server log.
+              </p>
+              <div className="col-span-2 flex justify-end gap-2">
+                <Button type="button" variant="ghost" size="sm" onClick={() => setShowForm(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" size="sm" disabled={saving}>
+                  {saving ? 'Saving...' : 'Create rule'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <Bell className="w-4 h-4" />
+            Active Alerts ({activeAlerts.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {activeAlerts.length === 0 ? (
+            <p className="text-center text-gray-500 py-6 text-sm">No active alerts</p>
+          ) : (
+            activeAlerts.map(renderAlert)
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Rules</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {rules.length === 0 && (
+            <p className="text-center text-gray-500 py-6 text-sm">No alert rules yet</p>
+          )}
+          {rules.map(rule => (
+            <div key={rule.id} className="flex items-center justify-between gap-3 p-2 bg-gray-50 rounded-lg">
+              <div className="min-w-0">
+                <div className={`text-sm font-medium ${rule.enabled ? '' : 'text-gray-400'}`}>{rule.name}</div>
+                <div className="text-xs text-gray-600">{rule.condition}</div>
+                <div className="text-xs text-gray-500">
+                  Last value {formatValue(rule.metric, rule.lastValue)}
+                  {rule.lastEvaluatedAt && ` at ${new Date(rule.lastEvaluatedAt).toLocaleTimeString()}`}
+                  {rule.channels.length > 0 && ` · ${rule.channels.map(channel => channel.type).join(', ')}`}
+                </div>
+              </div>
+              {canConfigure && (
+                <div className="flex items-center gap-2">
+                  <Switch checked={rule.enabled} onCheckedChange={(enabled) => handleToggleRule(rule, enabled)} />
+                  <button
+                    onClick={() => handleDeleteRule(rule)}
+                    className="p-1.5 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50"
+                    title="Delete rule"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">History</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {resolvedAlerts.length === 0 ? (
+            <p className="text-center text-gray-500 py-6 text-sm">No resolved alerts</p>
+          ) : (
+            resolvedAlerts.map(renderAlert)
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
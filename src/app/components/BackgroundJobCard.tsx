@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Play, RotateCcw, Square, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { api, type Job, type JobType } from '../../utils/api';
+
+const POLL_INTERVAL_MS = 2000;
+
+const STATE_LABELS: Record<Job['state'], string> = {
+  queued: 'Queued',
+  running: 'Running',
+  waiting: 'Between batches',
+  failed: 'Stopped',
+  done: 'Done',
+};
+
+const ACCENTS = {
+  blue: {
+    button: 'bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800',
+    panel: 'bg-blue-50 border-blue-200 text-blue-900',
+    track: 'bg-blue-200',
+    bar: 'bg-blue-600',
+  },
+  green: {
+    button: 'bg-gradient-to-r from-green-600 to-green-700 hover:from-green-700 hover:to-green-800',
+    panel: 'bg-green-50 border-green-200 text-green-900',
+    track: 'bg-green-200',
+    bar: 'bg-green-600',
+  },
+};
+
+interface BackgroundJobCardProps {
+  type: JobType;
+  title: string;
+  description: string;
+  startLabel: string;
+  icon: React.ElementType;
+  accent: keyof typeof ACCENTS;
+  counterLabels: Record<string, string>; // Counters to show, in order
+  onDone?: () => void;
+}
+
+const isActive = (job: Job | null) => !!job && ['queued', 'running', 'waiting'].includes(job.state);
+
+/**
+ * Starts a server-side job and polls it until it finishes. The job runs on
+ * the server, so it carries on after the tab is closed - reopening the
+ * profile shows where it got to.
+ */
+export function BackgroundJobCard({
+  type,
+  title,
+  description,
+  startLabel,
+  icon: Icon,
+  accent,
+  counterLabels,
+  onDone,
+}: BackgroundJobCardProps) {
+  const [job, setJob] = useState<Job | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const previousState = useRef<Job['state'] | null>(null);
+  const colors = ACCENTS[accent];
+
+  // Latest job of this type (an unfinished one resumes polling)
+  useEffect(() => {
+    api.getJobs({ type })
+      .then(({ jobs }) => {
+        previousState.current = jobs[0]?.state || null;
+        setJob(jobs[0] || null);
+      })
+      .catch(error => console.error(`Failed to load ${type} jobs:`, error));
+  }, [type]);
+
+  // Poll while the job has work left
+  useEffect(() => {
+    if (!job || !isActive(job)) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const result = await api.getJob(job.id);
+        setJob(result.job);
+      } catch (error) {
+        console.error('Failed to poll job:', error);
+        // Retry on the next tick
+        setJob(current => current && { ...current });
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [job]);
+
+  // Announce the outcome once, when a polled job finishes
+  useEffect(() => {
+    if (!job) return;
+    const wasActive = previousState.current !== null && ['queued', 'running', 'waiting'].includes(previousState.current);
+    previousState.current = job.state;
+    if (!wasActive) return;
+
+    if (job.state === 'done') {
+      toast.success(`${title} complete`, { description: formatCounters(job) });
+      onDone?.();
+    } else if (job.state === 'failed' && job.error !== 'Cancelled') {
+      toast.error(`${title} stopped`, { description: `${job.error} - resume to continue where it left off` });
+    }
+  }, [job?.state]);
+
+  const formatCounters = (current: Job) =>
+    Object.entries(counterLabels)
+      .map(([key, label]) => `${(current.counters[key] || 0).toLocaleString()} ${label}`)
+      .join(' · ');
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      const result = await api.startJob(type);
+      previousState.current = result.job.state;
+      setJob(result.job);
+    } catch (error: any) {
+      if (error.status === 409) {
+        // Someone already started one - follow it instead
+        const { jobs } = await api.getJobs({ type, active: true });
+        if (jobs[0]) setJob(jobs[0]);
+        toast.info('This job is already running');
+      } else {
+        console.error(`Failed to start ${type}:`, error);
+        toast.error(`Failed to start ${title.toLowerCase()}`, { description: error.message });
+      }
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!job || !confirm('Stop this job? Work done so far is kept and it can be resumed.')) return;
+    try {
+      const result = await api.cancelJob(job.id);
+      setJob(result.job);
+    } catch (error: any) {
+      toast.error('Failed to cancel job', { description: error.message });
+    }
+  };
+
+  const handleResume = async () => {
+    if (!job) return;
+    try {
+      const result = await api.resumeJob(job.id);
+      setJob(result.job);
+    } catch (error: any) {
+      toast.error('Failed to resume job', { description: error.message });
+    }
+  };
+
+  const active = isActive(job);
+  const percent = job && job.progress.total > 0 ? Math.min(100, job.progress.done / job.progress.total * 100) : 0;
+  const warnings = job?.logs.filter(entry => entry.level !== 'info').slice(-3) || [];
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-1">{title}</p>
+        <p className="text-xs text-muted-foreground mb-3">{description}</p>
+
+        <div className="flex items-center gap-2">
+          {active ? (
+            <button
+              onClick={handleCancel}
+              className="inline-flex items-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium bg-gray-100 hover:bg-gray-200 text-gray-700"
+            >
+              <Square className="h-4 w-4" />
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleStart}
+              disabled={isStarting}
+              className={`inline-flex items-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium transition-all ${
+                isStarting ? 'bg-gray-100 text-gray-400 cursor-not-allowed' : `${colors.button} text-white shadow-md hover:shadow-lg`
+              }`}
+            >
+              {isStarting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Icon className="h-4 w-4" />}
+              {startLabel}
+            </button>
+          )}
+          {job?.state === 'failed' && (
+            <button
+              onClick={handleResume}
+              className="inline-flex items-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-100"
+            >
+              <RotateCcw className="h-4 w-4" />
+              Resume
+            </button>
+          )}
+        </div>
+      </div>
+
+      {job && (
+        <div className={`border rounded-lg p-4 space-y-2 ${colors.panel}`}>
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium flex items-center gap-1.5">
+              {active && <Play className="h-3 w-3 animate-pulse" />}
+              {STATE_LABELS[job.state]}
+              {job.state === 'failed' && job.error && <span className="font-normal opacity-75">({job.error})</span>}
+            </span>
+            <span className="text-xs opacity-75">
+              {job.progress.done.toLocaleString()} / {job.progress.total.toLocaleString()}
+            </span>
+          </div>
+          <div className={`w-full rounded-full h-2 overflow-hidden ${colors.track}`}>
+            <div
+              className={`h-full transition-all duration-300 ease-out ${colors.bar}`}
+              style={{ width: `${percent.toFixed(1)}%` }}
+            />
+          </div>
+          <p className="text-xs opacity-75">{formatCounters(job)}</p>
+          {warnings.length > 0 && (
+            <div className="text-[11px] text-red-700 space-y-0.5">
+              {warnings.map(entry => (
+                <p key={entry.at + entry.message} className="truncate">{entry.message}</p>
+              ))}
+            </div>
+          )}
+          <p className="text-[11px] opacity-60">
+            Started {new Date(job.createdAt).toLocaleString()}
+            {job.finishedAt && ` · finished ${new Date(job.finishedAt).toLocaleString()}`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
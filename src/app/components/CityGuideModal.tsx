@@ -0,0 +1,410 @@
+import { useState, useEffect, useMemo } from 'react';
+import { X, BookOpen, Star, Plus, Trash2, ChevronUp, ChevronDown, Pencil, Eye, Loader2 } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { toast } from 'sonner';
+import { api, type CityGuide, type CityGuideSection, type Location } from '../../utils/api';
+import { MichelinStar, MichelinBib } from '@/app/components/MichelinIcons';
+
+interface CityGuideModalProps {
+  cityId: string;
+  cityName: string;
+  country?: string | null;
+  center: { lat: number; lng: number };
+  onClose: () => void;
+  onLocationClick?: (location: Location) => void;
+}
+
+// Section / entry order as the reorder endpoint expects it
+const toOrder = (sections: CityGuideSection[]) =>
+  sections.map(section => ({ id: section.id, entryIds: section.entries.map(entry => entry.id) }));
+
+export function CityGuideModal({ cityId, cityName, country, center, onClose, onLocationClick }: CityGuideModalProps) {
+  const [guide, setGuide] = useState<CityGuide | null>(null);
+  const [canEdit, setCanEdit] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [intro, setIntro] = useState('');
+  const [newSectionTitle, setNewSectionTitle] = useState('');
+  const [nearby, setNearby] = useState<Location[]>([]);
+  const [pickerSectionId, setPickerSectionId] = useState<string | null>(null);
+  const [pickerQuery, setPickerQuery] = useState('');
+
+  useEffect(() => {
+    loadGuide();
+  }, [cityId]);
+
+  const loadGuide = async () => {
+    setLoading(true);
+    try {
+      const result = await api.getCityGuide(cityId);
+      setGuide(result.guide);
+      setCanEdit(result.canEdit);
+      setIntro(result.guide?.intro || '');
+    } catch (error) {
+      console.error('❌ Failed to load city guide:', error);
+      toast.error('Failed to load guide');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Editors pick entries from LV locations around the city
+  useEffect(() => {
+    if (!editing || nearby.length > 0) return;
+    const radius = guide?.radiusKm || 50;
+    api.getNearbyLocations(center.lat, center.lng, radius, 2000)
+      .then(({ locations }) => setNearby(locations))
+      .catch(error => console.error('❌ Failed to load nearby locations:', error));
+  }, [editing]);
+
+  // Run an editor mutation and take the refreshed guide from the response
+  const mutate = async (action: () => Promise<{ guide: CityGuide }>, successMessage?: string) => {
+    setSaving(true);
+    try {
+      const { guide: updated } = await action();
+      setGuide(updated);
+      if (successMessage) toast.success(successMessage);
+    } catch (error: any) {
+      console.error('❌ Guide update failed:', error);
+      toast.error(error.message || 'Failed to update guide');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = () => mutate(
+    () => api.saveCityGuide(cityId, { cityName, country, lat: center.lat, lng: center.lng }),
+    'Guide created - add an intro and sections, then publish'
+  ).then(() => setEditing(true));
+
+  const handleSaveIntro = () => mutate(() => api.saveCityGuide(cityId, { intro }), 'Intro saved');
+
+  const handleTogglePublished = () => mutate(
+    () => api.saveCityGuide(cityId, { published: !guide?.published }),
+    guide?.published ? 'Guide unpublished' : 'Guide published'
+  );
+
+  const handleAddSection = async () => {
+    if (!newSectionTitle.trim()) return;
+    await mutate(() => api.addGuideSection(cityId, { title: newSectionTitle }));
+    setNewSectionTitle('');
+  };
+
+  const handleDeleteSection = (section: CityGuideSection) => {
+    if (!confirm(`Delete "${section.title}" and its ${section.entries.length} entries?`)) return;
+    mutate(() => api.deleteGuideSection(cityId, section.id));
+  };
+
+  const handleMoveSection = (index: number, direction: -1 | 1) => {
+    if (!guide) return;
+    const sections = [...guide.sections];
+    const target = index + direction;
+    if (target < 0 || target >= sections.length) return;
+    [sections[index], sections[target]] = [sections[target], sections[index]];
+    mutate(() => api.reorderCityGuide(cityId, toOrder(sections)));
+  };
+
+  const handleMoveEntry = (sectionIndex: number, entryIndex: number, direction: -1 | 1) => {
+    if (!guide) return;
+    const sections = guide.sections.map(section => ({ ...section, entries: [...section.entries] }));
+    const entries = sections[sectionIndex].entries;
+    const target = entryIndex + direction;
+    if (target < 0 || target >= entries.length) return;
+    [entries[entryIndex], entries[target]] = [entries[target], entries[entryIndex]];
+    mutate(() => api.reorderCityGuide(cityId, toOrder(sections)));
+  };
+
+  const handleAddEntry = async (sectionId: string, locationId: string) => {
+    await mutate(() => api.addGuideEntry(cityId, sectionId, locationId));
+    setPickerSectionId(null);
+    setPickerQuery('');
+  };
+
+  const handleBlurbSave = (entryId: string, previous: string | null, blurb: string) => {
+    if ((previous || '') === blurb.trim()) return;
+    mutate(() => api.updateGuideEntry(cityId, entryId, blurb.trim() || null));
+  };
+
+  const pickerResults = useMemo(() => {
+    const query = pickerQuery.trim().toLowerCase();
+    if (!query) return [];
+    return nearby.filter(loc => loc.name.toLowerCase().includes(query)).slice(0, 8);
+  }, [nearby, pickerQuery]);
+
+  const stats = guide?.stats;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[10000] flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.9, opacity: 0 }}
+          className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[85vh] overflow-hidden flex flex-col"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="bg-gradient-to-br from-slate-700 to-slate-900 px-6 py-5 text-white flex items-start justify-between gap-4">
+            <div className="flex items-start gap-3">
+              <div className="w-10 h-10 rounded-xl bg-white/15 flex items-center justify-center flex-shrink-0">
+                <BookOpen className="w-5 h-5" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold">LV Guide to {guide?.cityName || cityName}</h2>
+                {guide && !guide.published && (
+                  <span className="inline-block mt-1 px-2 py-0.5 rounded-full bg-amber-400/90 text-amber-950 text-[10px] font-semibold uppercase tracking-wide">
+                    Draft
+                  </span>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              {canEdit && guide && (
+                <button
+                  onClick={() => setEditing(!editing)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/15 hover:bg-white/25 text-xs font-medium"
+                >
+                  {editing ? <Eye className="w-3.5 h-3.5" /> : <Pencil className="w-3.5 h-3.5" />}
+                  {editing ? 'Preview' : 'Edit'}
+                </button>
+              )}
+              <button onClick={onClose} className="p-1.5 rounded-full bg-white/15 hover:bg-white/25">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            {loading ? (
+              <div className="flex items-center justify-center py-12 text-slate-500 gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading guide...
+              </div>
+            ) : !guide ? (
+              <div className="text-center py-10">
+                <BookOpen className="w-12 h-12 text-slate-300 mx-auto mb-3" />
+                <p className="text-sm text-slate-600 mb-4">
+                  There's no LV guide for {cityName} yet.
+                </p>
+                {canEdit && (
+                  <button
+                    onClick={handleCreate}
+                    disabled={saving}
+                    className="px-4 py-2 rounded-lg bg-slate-900 text-white text-sm font-medium hover:bg-slate-800 disabled:opacity-50"
+                  >
+                    Start a guide
+                  </button>
+                )}
+              </div>
+            ) : (
+              <>
+                {/* Stats */}
+                {stats && (
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    <div className="bg-amber-50 rounded-xl p-3 border border-amber-200">
+                      <div className="text-xl font-bold text-gray-900">{stats.ratedPlaceCount}</div>
+                      <div className="text-[11px] text-gray-600 font-medium">LV rated places</div>
+                    </div>
+                    <div className="bg-amber-50 rounded-xl p-3 border border-amber-200">
+                      <div className="text-xl font-bold text-gray-900 flex items-center gap-1">
+                        <Star className="w-4 h-4 fill-amber-400 text-amber-400" />
+                        {stats.avgLvScore?.toFixed(1) ?? '—'}
+                      </div>
+                      <div className="text-[11px] text-gray-600 font-medium">Average LV score</div>
+                    </div>
+                    <div className="bg-rose-50 rounded-xl p-3 border border-rose-200">
+                      <div className="text-xl font-bold text-gray-900 flex items-center gap-1">
+                        <MichelinStar className="w-4 h-4" />
+                        {stats.michelinStarredCount}
+                      </div>
+                      <div className="text-[11px] text-gray-600 font-medium">Michelin starred</div>
+                    </div>
+                    <div className="bg-rose-50 rounded-xl p-3 border border-rose-200">
+                      <div className="text-xl font-bold text-gray-900 flex items-center gap-1">
+                        <MichelinBib className="w-4 h-4" />
+                        {stats.bibGourmandCount}
+                      </div>
+                      <div className="text-[11px] text-gray-600 font-medium">Bib Gourmand</div>
+                    </div>
+                  </div>
+                )}
+
+                {/* Intro */}
+                {editing ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={intro}
+                      onChange={(e) => setIntro(e.target.value)}
+                      placeholder={`Why eat in ${cityName}? Set the scene for the guide...`}
+                      rows={4}
+                      className="w-full rounded-lg border border-slate-200 p-3 text-sm focus:outline-none focus:ring-2 focus:ring-slate-300"
+                    />
+                    <div className="flex items-center justify-between">
+                      <button
+                        onClick={handleTogglePublished}
+                        disabled={saving}
+                        className="text-xs font-medium text-slate-600 hover:text-slate-900"
+                      >
+                        {guide.published ? 'Unpublish guide' : 'Publish guide'}
+                      </button>
+                      <button
+                        onClick={handleSaveIntro}
+                        disabled={saving || intro === (guide.intro || '')}
+                        className="px-3 py-1.5 rounded-lg bg-slate-900 text-white text-xs font-medium disabled:opacity-40"
+                      >
+                        Save intro
+                      </button>
+                    </div>
+                  </div>
+                ) : guide.intro && (
+                  <p className="text-sm text-gray-700 leading-relaxed whitespace-pre-line">{guide.intro}</p>
+                )}
+
+                {/* Sections */}
+                {guide.sections.map((section, sectionIndex) => (
+                  <div key={section.id} className="space-y-3">
+                    <div className="flex items-center justify-between border-b border-slate-200 pb-1">
+                      <h3 className="text-base font-semibold text-gray-900">{section.title}</h3>
+                      {editing && (
+                        <div className="flex items-center">
+                          <button onClick={() => handleMoveSection(sectionIndex, -1)} disabled={saving || sectionIndex === 0} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30">
+                            <ChevronUp className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => handleMoveSection(sectionIndex, 1)} disabled={saving || sectionIndex === guide.sections.length - 1} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30">
+                            <ChevronDown className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => handleDeleteSection(section)} disabled={saving} className="p-1 rounded hover:bg-red-50">
+                            <Trash2 className="w-4 h-4 text-red-500" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    {section.description && (
+                      <p className="text-xs text-gray-600">{section.description}</p>
+                    )}
+
+                    <ol className="space-y-3">
+                      {section.entries.map((entry, entryIndex) => (
+                        <li key={entry.id} className="flex gap-3">
+                          <span className="w-6 h-6 rounded-full bg-slate-900 text-white text-xs font-semibold flex items-center justify-center flex-shrink-0">
+                            {entryIndex + 1}
+                          </span>
+                          <div className="flex-1 min-w-0 space-y-1">
+                            <div className="flex items-center justify-between gap-2">
+                              <button
+                                className="text-sm font-semibold text-gray-900 hover:underline text-left truncate"
+                                onClick={() => onLocationClick?.(entry.location)}
+                              >
+                                {entry.location.name}
+                              </button>
+                              <div className="flex items-center gap-2 flex-shrink-0">
+                                {entry.location.lvEditorsScore != null && (
+                                  <span className="flex items-center gap-0.5 text-xs font-semibold text-gray-700">
+                                    <Star className="w-3 h-3 fill-amber-400 text-amber-400" />
+                                    {entry.location.lvEditorsScore.toFixed(1)}
+                                  </span>
+                                )}
+                                {editing && (
+                                  <>
+                                    <button onClick={() => handleMoveEntry(sectionIndex, entryIndex, -1)} disabled={saving || entryIndex === 0} className="p-0.5 rounded hover:bg-slate-100 disabled:opacity-30">
+                                      <ChevronUp className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button onClick={() => handleMoveEntry(sectionIndex, entryIndex, 1)} disabled={saving || entryIndex === section.entries.length - 1} className="p-0.5 rounded hover:bg-slate-100 disabled:opacity-30">
+                                      <ChevronDown className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button onClick={() => mutate(() => api.removeGuideEntry(cityId, entry.id))} disabled={saving} className="p-0.5 rounded hover:bg-red-50">
+                                      <X className="w-3.5 h-3.5 text-red-500" />
+                                    </button>
+                                  </>
+                                )}
+                              </div>
+                            </div>
+                            {editing ? (
+                              <textarea
+                                defaultValue={entry.blurb || ''}
+                                placeholder="Why it's in the guide..."
+                                rows={2}
+                                className="w-full rounded-md border border-slate-200 p-2 text-xs focus:outline-none focus:ring-2 focus:ring-slate-300"
+                                onBlur={(e) => handleBlurbSave(entry.id, entry.blurb, e.target.value)}
+                              />
+                            ) : entry.blurb && (
+                              <p className="text-xs text-gray-600 leading-relaxed">{entry.blurb}</p>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
+
+                    {/* Add entry */}
+                    {editing && (
+                      pickerSectionId === section.id ? (
+                        <div className="space-y-1">
+                          <input
+                            autoFocus
+                            value={pickerQuery}
+                            onChange={(e) => setPickerQuery(e.target.value)}
+                            placeholder={nearby.length > 0 ? `Search ${nearby.length} places nearby...` : 'Loading places...'}
+                            className="w-full rounded-md border border-slate-200 px-3 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-slate-300"
+                          />
+                          {pickerResults.map(loc => (
+                            <button
+                              key={loc.id}
+                              onClick={() => handleAddEntry(section.id, loc.id)}
+                              disabled={saving}
+                              className="w-full text-left px-3 py-1.5 rounded-md text-xs hover:bg-slate-100"
+                            >
+                              {loc.name}
+                            </button>
+                          ))}
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => { setPickerSectionId(section.id); setPickerQuery(''); }}
+                          className="flex items-center gap-1 text-xs font-medium text-slate-600 hover:text-slate-900"
+                        >
+                          <Plus className="w-3.5 h-3.5" />
+                          Add place
+                        </button>
+                      )
+                    )}
+                  </div>
+                ))}
+
+                {guide.sections.length === 0 && !editing && (
+                  <p className="text-sm text-slate-500 text-center py-4">This guide has no sections yet.</p>
+                )}
+
+                {/* Add section */}
+                {editing && (
+                  <div className="flex items-center gap-2 pt-2 border-t border-slate-200">
+                    <input
+                      value={newSectionTitle}
+                      onChange={(e) => setNewSectionTitle(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleAddSection()}
+                      placeholder='New section, e.g. "Top tasting menus"'
+                      className="flex-1 rounded-md border border-slate-200 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-slate-300"
+                    />
+                    <button
+                      onClick={handleAddSection}
+                      disabled={saving || !newSectionTitle.trim()}
+                      className="px-3 py-1.5 rounded-lg bg-slate-900 text-white text-xs font-medium disabled:opacity-40"
+                    >
+                      Add section
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
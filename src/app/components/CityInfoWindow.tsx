@@ -1,17 +1,33 @@
-import { X, MapPin, Navigation, Star, Heart, BookOpen } from 'lucide-react';
+import { useState } from 'react';
+import { X, MapPin, Navigation, Star, Heart, BookOpen, ChevronRight } from 'lucide-react';
 import { motion } from 'motion/react';
+import { CityGuideModal } from './CityGuideModal';
+import type { Location } from '../../utils/api';
 
 interface CityInfoWindowProps {
   place: google.maps.places.PlaceResult;
   onClose: () => void;
   totalLVRatings: number;
   totalFavorites: number;
+  onLocationClick?: (location: Location) => void;
 }
 
-export function CityInfoWindow({ place, onClose, totalLVRatings, totalFavorites }: CityInfoWindowProps) {
+export function CityInfoWindow({ place, onClose, totalLVRatings, totalFavorites, onLocationClick }: CityInfoWindowProps) {
+  const [showGuide, setShowGuide] = useState(false);
+
   // Get city name and region from the place details
   const cityName = place.name || place.formatted_address?.split(',')[0] || 'City';
   const region = place.formatted_address || '';
+  const country = place.address_components?.find((component: any) => component.types.includes('country'))?.long_name || null;
+
+  // geometry.location is a LatLng from the Places API but a plain literal when restored from cache
+  const location: any = place.geometry?.location;
+  const center = location
+    ? {
+        lat: typeof location.lat === 'function' ? location.lat() : location.lat,
+        lng: typeof location.lng === 'function' ? location.lng() : location.lng,
+      }
+    : null;
 
   return (
     <motion.div
@@ -69,20 +85,26 @@ export function CityInfoWindow({ place, onClose, totalLVRatings, totalFavorites
           </div>
         </div>
 
-        {/* Weekend Guide Placeholder */}
-        <div className="bg-gradient-to-br from-slate-50 to-blue-50 rounded-xl p-5 border-2 border-dashed border-slate-300">
-          <div className="flex items-start gap-3">
-            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-slate-600 to-slate-700 flex items-center justify-center flex-shrink-0">
-              <BookOpen className="w-5 h-5 text-white" />
-            </div>
-            <div className="flex-1">
-              <h3 className="text-sm font-bold text-gray-900 mb-1">LV Weekend Guide</h3>
-              <p className="text-xs text-gray-600 leading-relaxed">
-                Curated itineraries and insider recommendations coming soon for {cityName}
-              </p>
+        {/* City Guide */}
+        {place.place_id && center && (
+          <button
+            onClick={() => setShowGuide(true)}
+            className="w-full text-left bg-gradient-to-br from-slate-50 to-blue-50 rounded-xl p-5 border border-slate-300 hover:border-slate-400 transition-colors"
+          >
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-slate-600 to-slate-700 flex items-center justify-center flex-shrink-0">
+                <BookOpen className="w-5 h-5 text-white" />
+              </div>
+              <div className="flex-1">
+                <h3 className="text-sm font-bold text-gray-900 mb-1">LV City Guide</h3>
+                <p className="text-xs text-gray-600 leading-relaxed">
+                  Our editors' picks and insider recommendations for {cityName}
+                </p>
+              </div>
+              <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
             </div>
-          </div>
-        </div>
+          </button>
+        )}
 
         {/* Helper Text */}
         <div className="pt-4 border-t border-slate-200">
@@ -97,6 +119,20 @@ export function CityInfoWindow({ place, onClose, totalLVRatings, totalFavorites
           </p>
         </div>
       </div>
+
+      {showGuide && place.place_id && center && (
+        <CityGuideModal
+          cityId={place.place_id}
+          cityName={cityName}
+          country={country}
+          center={center}
+          onClose={() => setShowGuide(false)}
+          onLocationClick={onLocationClick && ((location) => {
+            setShowGuide(false);
+            onLocationClick(location);
+          })}
+        />
+      )}
     </motion.div>
   );
 }
\ No newline at end of file
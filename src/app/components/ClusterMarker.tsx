@@ -0,0 +1,79 @@
+import { MichelinStar, MichelinBib } from '@/app/components/MichelinIcons';
+import { getMarkerStyle } from './LuxuryMarker';
+import type { MapCluster } from '@/utils/api';
+
+interface ClusterMarkerProps {
+  cluster: MapCluster;
+}
+
+// Bubble grows with the log of the count so 10 and 1000 are both readable
+const getBubbleSize = (count: number) => Math.min(36 + Math.log10(count) * 18, 84);
+
+// "2×★★" - number of places holding a given star level
+function StarTier({ count, stars }: { count: number; stars: number }) {
+  if (count === 0) return null;
+  return (
+    <span className="flex items-center">
+      {count}×
+      {Array.from({ length: stars }).map((_, i) => (
+        <MichelinStar key={i} className="h-2.5 w-2.5" />
+      ))}
+    </span>
+  );
+}
+
+export function ClusterMarker({ cluster }: ClusterMarkerProps) {
+  const { count, avgLvScore, topScore, michelin } = cluster;
+  const size = getBubbleSize(count);
+
+  // Clusters without any LV score use the neutral Michelin-only ring
+  const style = avgLvScore !== null
+    ? getMarkerStyle(avgLvScore)
+    : { primary: '#8a9a9d', secondary: '#6d7d80', glow: 'rgba(138, 154, 157, 0.3)' };
+
+  const starred = michelin.threeStars + michelin.twoStars + michelin.oneStar;
+
+  return (
+    <div
+      className="relative cursor-pointer transition-transform duration-300 hover:scale-110"
+      style={{ width: `${size}px`, height: `${size}px` }}
+      title={`${count} places${avgLvScore !== null ? ` · avg ${avgLvScore.toFixed(1)}` : ''}${topScore !== null ? ` · top ${topScore.toFixed(1)}` : ''}`}
+    >
+      {/* Glow effect */}
+      <div
+        className="absolute inset-0 rounded-full blur-lg opacity-60"
+        style={{ background: style.glow }}
+      />
+
+      {/* Bubble */}
+      <div
+        className="absolute inset-0 rounded-full border-[3px] border-white shadow-lg flex flex-col items-center justify-center text-white"
+        style={{ background: `linear-gradient(135deg, ${style.primary}, ${style.secondary})` }}
+      >
+        <span className="text-sm font-bold leading-none">{count >= 1000 ? `${(count / 1000).toFixed(1)}k` : count}</span>
+        {avgLvScore !== null && (
+          <span className="text-[10px] font-medium leading-none mt-0.5 opacity-90">{avgLvScore.toFixed(1)}</span>
+        )}
+      </div>
+
+      {/* Top score badge */}
+      {topScore !== null && count > 1 && (
+        <div className="absolute -top-1 -right-1 px-1.5 py-0.5 bg-white rounded-full shadow text-[10px] font-bold text-slate-800 leading-none">
+          {topScore.toFixed(1)}
+        </div>
+      )}
+
+      {/* Michelin breakdown */}
+      {(starred > 0 || michelin.bibGourmand > 0) && (
+        <div className="absolute -bottom-2 left-1/2 -translate-x-1/2 flex items-center gap-1 px-1.5 py-0.5 bg-white rounded-full shadow whitespace-nowrap text-[10px] font-semibold text-[#9b2743] leading-none">
+          <StarTier count={michelin.threeStars} stars={3} />
+          <StarTier count={michelin.twoStars} stars={2} />
+          <StarTier count={michelin.oneStar} stars={1} />
+          {michelin.bibGourmand > 0 && (
+            <span className="flex items-center">{michelin.bibGourmand}×<MichelinBib className="h-2.5 w-2.5" /></span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { Copy, GitMerge, Loader2, Search, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  api,
+  type DuplicatePair,
+  type DuplicateReason,
+  type DuplicateLocationSummary,
+  type MergeFieldGroup,
+} from '../../utils/api';
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  'same-google-place': 'Same Google Place',
+  'same-michelin': 'Same Michelin restaurant',
+  'michelin-place-link': 'Michelin entry linked to the other\'s Google Place',
+  'nearby-similar-name': 'Nearby, similar name',
+};
+
+// Field groups shown in the merge editor; the rest keep the survivor's
+// values, filled in from the duplicate where the survivor has none
+const MERGE_ROWS: { group: MergeFieldGroup; label: string; value: (location: DuplicateLocationSummary) => string }[] = [
+  { group: 'name', label: 'Name', value: location => location.name },
+  { group: 'address', label: 'Address', value: location => [location.address, location.city, location.country].filter(Boolean).join(', ') },
+  { group: 'position', label: 'Position', value: location => `${location.lat.toFixed(5)}, ${location.lng.toFixed(5)}` },
+  { group: 'category', label: 'Category', value: location => location.category || '' },
+  { group: 'google', label: 'Google Place', value: location => location.googlePlaceId || '' },
+  {
+    group: 'michelin',
+    label: 'Michelin',
+    value: location => location.michelinId
+      ? `#${location.michelinId}${location.michelinStars ? ` · ${location.michelinStars}★` : location.michelinDistinction ? ` · ${location.michelinDistinction}` : ''}`
+      : '',
+  },
+];
+
+type Side = 'survivor' | 'duplicate';
+
+interface MergeDraft {
+  pair: DuplicatePair;
+  survivor: DuplicateLocationSummary;
+  duplicate: DuplicateLocationSummary;
+  fields: Partial<Record<MergeFieldGroup, Side>>;
+}
+
+const pairKey = (pair: DuplicatePair) => `${pair.a.id}|${pair.b.id}`;
+
+// The richer row survives by default: linked IDs first, then the older one
+const linkScore = (location: DuplicateLocationSummary) =>
+  (location.googlePlaceId ? 2 : 0) + (location.michelinId ? 2 : 0) + (location.lvEditorScore ? 1 : 0);
+
+interface DuplicateLocationsPanelProps {
+  onMerged?: () => void; // Refresh locations after a merge
+}
+
+/**
+ * Editor tool that scans for duplicate locations and merges them. The
+ * server moves favorites, want-to-go, ratings and list/guide entries to the
+ * location that survives.
+ */
+export function DuplicateLocationsPanel({ onMerged }: DuplicateLocationsPanelProps) {
+  const [pairs, setPairs] = useState<DuplicatePair[] | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [draft, setDraft] = useState<MergeDraft | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const handleScan = async () => {
+    setScanning(true);
+    setDraft(null);
+    try {
+      const result = await api.findDuplicateLocations();
+      setPairs(result.pairs);
+      if (result.pairs.length === 0) toast.success('No likely duplicates found');
+    } catch (error: any) {
+      console.error('Failed to scan for duplicates:', error);
+      toast.error('Failed to scan for duplicates', { description: error.message });
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const removePair = (pair: DuplicatePair) => {
+    setPairs(current => current?.filter(item => pairKey(item) !== pairKey(pair)) || null);
+    if (draft && pairKey(draft.pair) === pairKey(pair)) setDraft(null);
+  };
+
+  const openDraft = (pair: DuplicatePair) => {
+    const aFirst = linkScore(pair.a) > linkScore(pair.b) ||
+      (linkScore(pair.a) === linkScore(pair.b) && (pair.a.createdAt || '') <= (pair.b.createdAt || ''));
+    setDraft({
+      pair,
+      survivor: aFirst ? pair.a : pair.b,
+      duplicate: aFirst ? pair.b : pair.a,
+      fields: {},
+    });
+  };
+
+  const swapSurvivor = () => {
+    setDraft(current => current && { ...current, survivor: current.duplicate, duplicate: current.survivor, fields: {} });
+  };
+
+  // Same default the server applies: the survivor's value unless it has none
+  const pickedSide = (current: MergeDraft, row: typeof MERGE_ROWS[number]): Side =>
+    current.fields[row.group] || (!row.value(current.survivor) && row.value(current.duplicate) ? 'duplicate' : 'survivor');
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    setBusyKey(pairKey(pair));
+    try {
+      await api.dismissDuplicateLocations(pair.a.id, pair.b.id);
+      removePair(pair);
+    } catch (error: any) {
+      toast.error('Failed to dismiss pair', { description: error.message });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!draft) return;
+    if (!confirm(`Merge "${draft.duplicate.name}" into "${draft.survivor.name}"? The duplicate will be deleted.`)) return;
+
+    setBusyKey(pairKey(draft.pair));
+    try {
+      const result = await api.mergeLocations(draft.survivor.id, draft.duplicate.id, draft.fields);
+      const movedTotal = Object.values(result.moved).reduce((sum, count) => sum + count, 0);
+      toast.success('Locations merged', {
+        description: `${result.moved.favorites} favorites and ${result.moved.want_to_go} want-to-go moved (${movedTotal} records in total)`,
+      });
+      removePair(draft.pair);
+      onMerged?.();
+    } catch (error: any) {
+      console.error('Failed to merge locations:', error);
+      toast.error('Failed to merge locations', { description: error.details || error.message });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-1">Duplicate Locations</p>
+        <p className="text-xs text-muted-foreground mb-3">
+          Finds locations that share a Google Place or Michelin ID, or sit close together under a similar name.
+          Merging keeps one location and moves everyone's favorites, want-to-go and ratings onto it.
+        </p>
+        <button
+          onClick={handleScan}
+          disabled={scanning}
+          className={`inline-flex items-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium transition-all ${
+            scanning
+              ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
+              : 'bg-gradient-to-r from-amber-600 to-amber-700 hover:from-amber-700 hover:to-amber-800 text-white shadow-md hover:shadow-lg'
+          }`}
+        >
+          {scanning ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+          {pairs ? 'Scan again' : 'Find duplicates'}
+        </button>
+      </div>
+
+      {pairs && pairs.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500">{pairs.length} likely {pairs.length === 1 ? 'duplicate' : 'duplicates'}</p>
+
+          {pairs.map(pair => {
+            const key = pairKey(pair);
+            const busy = busyKey === key;
+            const isOpen = draft && pairKey(draft.pair) === key;
+
+            return (
+              <div key={key} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                <div className="flex items-start gap-3">
+                  <Copy className="h-4 w-4 text-amber-600 mt-0.5 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{pair.a.name}</p>
+                    <p className="text-sm font-medium truncate">{pair.b.name}</p>
+                    <p className="text-[11px] text-gray-500 mt-1">
+                      {pair.confidence}% · {pair.distanceMeters.toLocaleString()}m apart · {pair.reasons.map(reason => REASON_LABELS[reason]).join(', ')}
+                    </p>
+                  </div>
+                  {busy ? (
+                    <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                  ) : (
+                    <div className="flex items-center gap-1.5">
+                      <button
+                        onClick={() => (isOpen ? setDraft(null) : openDraft(pair))}
+                        className="px-2.5 py-1.5 rounded-lg text-xs font-medium bg-amber-50 text-amber-800 hover:bg-amber-100"
+                      >
+                        {isOpen ? 'Close' : 'Merge…'}
+                      </button>
+                      <button
+                        onClick={() => handleDismiss(pair)}
+                        className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100"
+                        title="Not a duplicate"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {isOpen && draft && (
+                  <div className="bg-gray-50 rounded-lg p-3 space-y-2">
+                    <div className="grid grid-cols-[5rem_1fr_1fr] gap-2 text-[11px] font-medium text-gray-500">
+                      <span />
+                      <span>Keep</span>
+                      <span className="flex items-center justify-between">
+                        Delete
+                        <button onClick={swapSurvivor} className="text-blue-600 hover:underline font-normal">Swap</button>
+                      </span>
+                    </div>
+
+                    {MERGE_ROWS.map(row => {
+                      const side = pickedSide(draft, row);
+                      const cell = (cellSide: Side, location: DuplicateLocationSummary) => (
+                        <button
+                          onClick={() => setDraft({ ...draft, fields: { ...draft.fields, [row.group]: cellSide } })}
+                          className={`text-left text-xs px-2 py-1.5 rounded border truncate ${
+                            side === cellSide ? 'border-amber-500 bg-white text-gray-900' : 'border-transparent text-gray-500 hover:bg-white'
+                          }`}
+                          title={row.value(location) || '—'}
+                        >
+                          {row.value(location) || '—'}
+                        </button>
+                      );
+
+                      return (
+                        <div key={row.group} className="grid grid-cols-[5rem_1fr_1fr] gap-2 items-center">
+                          <span className="text-[11px] text-gray-500">{row.label}</span>
+                          {cell('survivor', draft.survivor)}
+                          {cell('duplicate', draft.duplicate)}
+                        </div>
+                      );
+                    })}
+
+                    <p className="text-[11px] text-gray-500">
+                      Tags are combined. Other fields keep the kept location's values where it has them.
+                    </p>
+
+                    <button
+                      onClick={handleMerge}
+                      className="w-full inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-gray-900 text-white hover:bg-gray-800"
+                    >
+                      <GitMerge className="h-4 w-4" />
+                      Merge into "{draft.survivor.name}"
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
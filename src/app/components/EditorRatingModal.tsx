@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
-import { X, Star, Tag as TagIcon, Plus } from 'lucide-react';
+import { X, Star, Tag as TagIcon, Plus, History, RotateCcw, ChevronDown, ChevronUp, Users, AlertTriangle, DoorClosed } from 'lucide-react';
 import { MichelinFlower } from '@/app/components/MichelinIcons';
-import { api } from '../../utils/api';
+import { api, type LocationHistoryEntry, type EditorScoresResponse, type Location, type LocationStatus } from '../../utils/api';
+import { LOCATION_STATUS_LABELS } from '../../utils/locationStatus';
 import { toast } from 'sonner';
 
 // LV Rating descriptions
@@ -19,6 +20,78 @@ const getRatingDescription = (rating: number): string => {
   return '';
 };
 
+const STRATEGY_LABELS: Record<EditorScoresResponse['strategy'], string> = {
+  mean: 'Average of editors',
+  median: 'Median of editors',
+  lead: 'Lead editor',
+};
+
+const HISTORY_ACTION_LABELS: Record<LocationHistoryEntry['action'], string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  revert: 'Reverted',
+};
+
+// One-line summary of what a history entry changed
+const describeHistoryEntry = (entry: LocationHistoryEntry): string[] => {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  const lines: string[] = [];
+
+  if (entry.source === 'link-place') {
+    return [`Linked Google Place ${after.google_place_id || '—'}`];
+  }
+
+  if (entry.source === 'merge') {
+    return [entry.action === 'delete' ? 'Merged into a duplicate location' : 'Merged a duplicate location into this one'];
+  }
+
+  if (entry.source === 'michelin-import') {
+    if (!after.michelin_id) return ['Michelin Guide listing closed'];
+    const award = (row: Record<string, any>) =>
+      row.michelin_stars ? `${row.michelin_stars} star${row.michelin_stars > 1 ? 's' : ''}` : row.michelin_distinction || 'none';
+    return [`Michelin Guide import: ${award(before)} → ${award(after)}`];
+  }
+
+  if (entry.changedFields.includes('lv_editor_score') || (entry.action === 'create' && after.lv_editor_score != null)) {
+    const from = before.lv_editor_score != null ? Number(before.lv_editor_score).toFixed(1) : '—';
+    const to = after.lv_editor_score != null ? Number(after.lv_editor_score).toFixed(1) : '—';
+    lines.push(entry.action === 'create' ? `Score ${to}` : `Score ${from} → ${to}`);
+  }
+
+  if (entry.changedFields.includes('tags')) {
+    const oldTags: string[] = before.tags || [];
+    const newTags: string[] = after.tags || [];
+    const added = newTags.filter(t => !oldTags.includes(t));
+    const removed = oldTags.filter(t => !newTags.includes(t));
+    const parts = [...added.map(t => `+${t}`), ...removed.map(t => `−${t}`)];
+    if (parts.length > 0) lines.push(`Tags ${parts.join(' ')}`);
+  }
+
+  if (entry.changedFields.includes('michelin_id')) {
+    lines.push(`Michelin ID ${before.michelin_id ?? '—'} → ${after.michelin_id ?? '—'}`);
+  }
+
+  if (entry.changedFields.includes('status')) {
+    const label = (status: LocationStatus | undefined) => LOCATION_STATUS_LABELS[status || 'open'];
+    const via = after.status_source === 'google' ? ' (from Google)' : '';
+    lines.push(`Status ${label(before.status)} → ${label(after.status)}${via}`);
+  }
+
+  const others = entry.changedFields.filter(
+    f => ![
+      'lv_editor_score', 'tags', 'michelin_id', 'updated_by_user_id', 'id',
+      'status', 'successor_location_id', 'status_source', 'status_updated_at',
+    ].includes(f)
+  );
+  if (entry.action === 'update' || entry.action === 'revert') {
+    if (others.length > 0) lines.push(`Changed ${others.join(', ')}`);
+  }
+
+  return lines;
+};
+
 interface EditorRatingModalProps {
   locationId: string;
   locationName: string;
@@ -26,6 +99,8 @@ interface EditorRatingModalProps {
   currentMichelinScore?: number;
   currentTags?: string[];
   michelinId?: number;
+  currentStatus?: LocationStatus; // Only set for saved locations - shows the status controls
+  currentSuccessorId?: string | null;
   onClose: () => void;
   onSuccess: () => void;
   placeData?: {
@@ -44,6 +119,8 @@ export function EditorRatingModal({
   currentMichelinScore,
   currentTags = [],
   michelinId,
+  currentStatus,
+  currentSuccessorId,
   onClose,
   onSuccess,
   placeData,
@@ -56,6 +133,15 @@ export function EditorRatingModal({
   const [filteredTags, setFilteredTags] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [history, setHistory] = useState<LocationHistoryEntry[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [revertingId, setRevertingId] = useState<number | null>(null);
+  const [editorScores, setEditorScores] = useState<EditorScoresResponse | null>(null);
+  const [status, setStatus] = useState<LocationStatus>(currentStatus || 'open');
+  const [successorId, setSuccessorId] = useState(currentSuccessorId || '');
+  const [successorOptions, setSuccessorOptions] = useState<Location[]>([]);
+  const [savingStatus, setSavingStatus] = useState(false);
 
   // Load available tags
   useEffect(() => {
@@ -70,6 +156,36 @@ export function EditorRatingModal({
     loadTags();
   }, []);
 
+  // Load every editor's score - prefill with this editor's own score rather than the published one
+  useEffect(() => {
+    const loadEditorScores = async () => {
+      try {
+        const result = await api.getEditorScores(locationId);
+        setEditorScores(result);
+        if (result.myScore != null) {
+          setRating(result.myScore.toString());
+        }
+      } catch (error) {
+        console.error('Failed to load editor scores:', error);
+      }
+    };
+    loadEditorScores();
+  }, [locationId]);
+
+  // A moved place usually reopens nearby - offer the closest locations as its successor
+  useEffect(() => {
+    if (status !== 'moved' || !placeData || successorOptions.length > 0) return;
+    const loadSuccessorOptions = async () => {
+      try {
+        const { locations } = await api.getNearbyLocations(placeData.lat, placeData.lng, 10, 50);
+        setSuccessorOptions(locations.filter(loc => loc.id !== locationId && loc.googlePlaceId !== locationId));
+      } catch (error) {
+        console.error('Failed to load nearby locations:', error);
+      }
+    };
+    loadSuccessorOptions();
+  }, [status, placeData?.lat, placeData?.lng, locationId]);
+
   // Filter tags based on input
   useEffect(() => {
     if (tagInput.trim()) {
@@ -84,6 +200,82 @@ export function EditorRatingModal({
     }
   }, [tagInput, availableTags, selectedTags]);
 
+  const loadHistory = async () => {
+    setLoadingHistory(true);
+    try {
+      const { history } = await api.getLocationHistory(locationId);
+      setHistory(history);
+    } catch (error) {
+      console.error('Failed to load location history:', error);
+      toast.error('Failed to load history');
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
+  const handleToggleHistory = () => {
+    const next = !showHistory;
+    setShowHistory(next);
+    if (next && history.length === 0) {
+      loadHistory();
+    }
+  };
+
+  const handleRevert = async (entry: LocationHistoryEntry) => {
+    const when = new Date(entry.createdAt).toLocaleString();
+    if (!confirm(`Revert ${locationName} to the version from ${when}?`)) {
+      return;
+    }
+
+    setRevertingId(entry.id);
+    try {
+      const reverted = await api.revertLocationToHistory(locationId, entry.id);
+      setRating(reverted.lvEditorScore != null ? reverted.lvEditorScore.toString() : '');
+      setSelectedTags(reverted.tags || []);
+      toast.success('Reverted to earlier version');
+      await loadHistory();
+      onSuccess();
+    } catch (error: any) {
+      console.error('❌ Failed to revert location:', error);
+      toast.error(error.message || 'Failed to revert');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  const handleSaveStatus = async () => {
+    if (status === 'moved' && !successorId) {
+      setError('Pick the location this place moved to');
+      return;
+    }
+
+    setError(null);
+    setSavingStatus(true);
+    try {
+      await api.setLocationStatus(locationId, status, successorId || null);
+      toast.success(`Marked ${LOCATION_STATUS_LABELS[status].toLowerCase()}`);
+      if (showHistory) await loadHistory();
+      onSuccess();
+    } catch (error: any) {
+      console.error('❌ Failed to update location status:', error);
+      toast.error(error.message || 'Failed to update status');
+    } finally {
+      setSavingStatus(false);
+    }
+  };
+
+  // Other editors' scores plus the one being typed, checked against the disagreement threshold
+  const otherEditorScores = editorScores?.scores.filter(s => !s.isMine) || [];
+  const typedRating = rating ? parseFloat(rating) : NaN;
+  const combinedScores = [
+    ...otherEditorScores.map(s => s.score),
+    ...(isNaN(typedRating) ? [] : [typedRating]),
+  ];
+  const scoreSpread = combinedScores.length > 1
+    ? Math.max(...combinedScores) - Math.min(...combinedScores)
+    : 0;
+  const hasDisagreement = !!editorScores && scoreSpread > editorScores.threshold;
+
   const handleRatingChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     // Allow empty, numbers, and decimals
@@ -123,8 +315,11 @@ export function EditorRatingModal({
     setError(null);
 
     // Validate rating
-    const ratingValue = rating ? parseFloat(rating) : undefined;
-    if (ratingValue !== undefined && (ratingValue < 0 || ratingValue > 11)) {
+    // Clearing a score this editor had given removes it from the reconciliation
+    const ratingValue = rating
+      ? parseFloat(rating)
+      : editorScores?.myScore != null ? null : undefined;
+    if (ratingValue != null && (ratingValue < 0 || ratingValue > 11)) {
       setError('Rating must be between 0.0 and 11.0');
       return;
     }
@@ -211,6 +406,45 @@ export function EditorRatingModal({
                 Leave empty to remove rating
               </p>
             )}
+
+            {/* Other editors' scores */}
+            {otherEditorScores.length > 0 && editorScores && (
+              <div className="mt-3 p-3 bg-slate-50 border border-slate-200 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="flex items-center gap-1.5 text-xs font-medium text-slate-700">
+                    <Users className="h-3.5 w-3.5 text-slate-500" />
+                    Other editors
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {STRATEGY_LABELS[editorScores.appliedStrategy]}
+                    {editorScores.aggregate != null && ` · published ${editorScores.aggregate.toFixed(1)}`}
+                  </p>
+                </div>
+                <ul className="space-y-1">
+                  {otherEditorScores.map((s) => (
+                    <li key={s.editorId} className="flex items-center justify-between text-xs text-slate-600">
+                      <span>
+                        {s.editorName || 'Editor'}
+                        {editorScores.strategy === 'lead' && s.editorId === editorScores.leadEditorId && (
+                          <span className="ml-1 text-amber-600">(lead)</span>
+                        )}
+                      </span>
+                      <span className="font-semibold text-slate-800">{s.score.toFixed(1)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {hasDisagreement && editorScores && (
+              <div className="mt-2 p-3 bg-amber-50 border border-amber-300 rounded-lg flex items-start gap-2">
+                <AlertTriangle className="h-4 w-4 text-amber-600 flex-shrink-0 mt-0.5" />
+                <p className="text-xs text-amber-900">
+                  Editors disagree by {scoreSpread.toFixed(1)} points (threshold {editorScores.threshold.toFixed(1)}).
+                  Consider discussing this place before publishing.
+                </p>
+              </div>
+            )}
           </div>
 
           {/* Michelin Score */}
@@ -313,6 +547,112 @@ export function EditorRatingModal({
             </p>
           </div>
 
+          {/* Status - saved on its own, separately from the rating */}
+          {currentStatus && (
+            <div className="border-t border-slate-200 pt-4">
+              <label htmlFor="location-status" className="flex items-center gap-2 text-sm font-medium text-slate-700 mb-2">
+                <DoorClosed className="h-4 w-4 text-slate-500" />
+                Status
+              </label>
+              <div className="flex items-center gap-2">
+                <select
+                  id="location-status"
+                  value={status}
+                  onChange={(e) => setStatus(e.target.value as LocationStatus)}
+                  className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {(Object.keys(LOCATION_STATUS_LABELS) as LocationStatus[]).map(value => (
+                    <option key={value} value={value}>{LOCATION_STATUS_LABELS[value]}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={handleSaveStatus}
+                  disabled={savingStatus || (status === currentStatus && (status !== 'moved' || successorId === (currentSuccessorId || '')))}
+                  className="px-3 py-2 rounded-lg text-sm font-medium bg-slate-900 text-white hover:bg-slate-800 disabled:bg-slate-200 disabled:text-slate-400 disabled:cursor-not-allowed"
+                >
+                  {savingStatus ? 'Saving...' : 'Save status'}
+                </button>
+              </div>
+
+              {status === 'moved' && (
+                <select
+                  value={successorId}
+                  onChange={(e) => setSuccessorId(e.target.value)}
+                  className="w-full mt-2 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Moved to…</option>
+                  {successorOptions.map(loc => (
+                    <option key={loc.id} value={loc.id}>
+                      {loc.name}{loc.address ? ` — ${loc.address}` : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <p className="text-xs text-slate-500 mt-1">
+                Permanently closed and moved places are hidden from the map but stay in saved lists.
+                Setting a status here stops Google from overriding it.
+              </p>
+            </div>
+          )}
+
+          {/* History Timeline */}
+          <div className="border-t border-slate-200 pt-4">
+            <button
+              type="button"
+              onClick={handleToggleHistory}
+              className="w-full flex items-center justify-between text-sm font-medium text-slate-700"
+            >
+              <span className="flex items-center gap-2">
+                <History className="h-4 w-4 text-slate-500" />
+                History
+              </span>
+              {showHistory ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </button>
+
+            {showHistory && (
+              <div className="mt-3">
+                {loadingHistory ? (
+                  <p className="text-xs text-slate-500">Loading history...</p>
+                ) : history.length === 0 ? (
+                  <p className="text-xs text-slate-500">No edits recorded yet</p>
+                ) : (
+                  <ol className="relative border-l border-slate-200 ml-2 space-y-4">
+                    {history.map((entry, idx) => (
+                      <li key={entry.id} className="ml-4">
+                        <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-slate-300" />
+                        <div className="flex items-start justify-between gap-2">
+                          <div>
+                            <p className="text-sm font-medium text-slate-800">
+                              {HISTORY_ACTION_LABELS[entry.action]}
+                              <span className="font-normal text-slate-500"> by {entry.changedByName || 'system'}</span>
+                            </p>
+                            <p className="text-xs text-slate-400">{new Date(entry.createdAt).toLocaleString()}</p>
+                            {describeHistoryEntry(entry).map((line, i) => (
+                              <p key={i} className="text-xs text-slate-600 mt-0.5">{line}</p>
+                            ))}
+                          </div>
+                          {/* The newest entry is the current state, unless it was a delete (restore) */}
+                          {(idx > 0 || entry.action === 'delete') && entry.source !== 'link-place' && entry.source !== 'michelin-import' && (
+                            <button
+                              type="button"
+                              onClick={() => handleRevert(entry)}
+                              disabled={revertingId !== null}
+                              className="flex-shrink-0 inline-flex items-center gap-1 px-2 py-1 text-xs text-slate-600 border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50"
+                            >
+                              <RotateCcw className="h-3 w-3" />
+                              {revertingId === entry.id ? 'Reverting...' : 'Revert'}
+                            </button>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            )}
+          </div>
+
           {/* Error Message */}
           {error && (
             <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">
@@ -5,6 +5,8 @@ import type { Location, User } from '../../utils/api';
 import { api } from '../../utils/api';
 import { toast } from 'sonner';
 import { MichelinStar, MichelinBib, MichelinPlate } from '@/app/components/MichelinIcons';
+import { LocationStatusNotice } from './LocationStatusNotice';
+import { isClosedLocation } from '../../utils/locationStatus';
 
 interface FavoritesProps {
   user: User;
@@ -70,11 +72,11 @@ export function Favorites({ user, userLocation, onLocationClick }: FavoritesProp
     }
   };
 
-  // Sort favorites by distance from user location - Memoized for performance
+  // Sort favorites by distance from user location, closed places last - Memoized for performance
   const sortedFavorites = useMemo(() => {
-    if (!userLocation) return favorites;
-    
     return [...favorites].sort((a, b) => {
+      const closedOrder = Number(isClosedLocation(a)) - Number(isClosedLocation(b));
+      if (closedOrder !== 0 || !userLocation) return closedOrder;
       const distanceA = calculateDistance(userLocation.lat, userLocation.lng, a.lat, a.lng);
       const distanceB = calculateDistance(userLocation.lat, userLocation.lng, b.lat, b.lng);
       return distanceA - distanceB;
@@ -114,7 +116,9 @@ export function Favorites({ user, userLocation, onLocationClick }: FavoritesProp
             {sortedFavorites.map((location, index) => (
               <div
                 key={location.id}
-                className="group p-3 bg-slate-50 hover:bg-slate-100 rounded-lg transition-all cursor-pointer relative"
+                className={`group p-3 bg-slate-50 hover:bg-slate-100 rounded-lg transition-all cursor-pointer relative ${
+                  isClosedLocation(location) ? 'opacity-60' : ''
+                }`}
                 onClick={() => onLocationClick?.(location)}
               >
                 {/* Distance Badge */}
@@ -130,6 +134,7 @@ export function Favorites({ user, userLocation, onLocationClick }: FavoritesProp
                     <h4 className="font-semibold text-gray-900 text-sm mb-1">
                       {index + 1}. {location.name}
                     </h4>
+                    <LocationStatusNotice location={location} onSuccessorClick={onLocationClick} />
                     {location.description && (
                       <p className="text-xs text-gray-600 line-clamp-1">
                         {location.description}
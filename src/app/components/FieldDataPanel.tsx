@@ -0,0 +1,262 @@
+import React, { useState, useEffect } from 'react';
+import { ChevronDown, ChevronUp, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { api, type TelemetrySummary, type TelemetryBreakdownEntry } from '../../utils/api';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGE_OPTIONS = [
+  { label: '24h', ms: DAY_MS },
+  { label: '7d', ms: 7 * DAY_MS },
+  { label: '30d', ms: 30 * DAY_MS },
+] as const;
+
+const formatMs = (ms: number | null) => (ms == null ? '—' : `${Math.round(ms)}ms`);
+
+function BreakdownCard({ title, entries, selected, onSelect }: {
+  title: string;
+  entries: TelemetryBreakdownEntry[];
+  selected: string;
+  onSelect: (name: string) => void;
+}) {
+  const maxSessions = Math.max(1, ...entries.map(entry => entry.sessions));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {entries.length === 0 && <p className="text-sm text-gray-500">No sessions in this range</p>}
+        {entries.map(entry => (
+          <button
+            key={entry.name}
+            onClick={() => onSelect(selected === entry.name ? '' : entry.name)}
+            className={`w-full text-left rounded-lg px-2 py-1.5 transition-colors ${
+              selected === entry.name ? 'bg-purple-50' : 'hover:bg-gray-50'
+            }`}
+          >
+            <div className="flex justify-between text-sm mb-1">
+              <span className="font-medium">{entry.name}</span>
+              <span className="text-gray-600">
+                {entry.sessions} sessions
+                {entry.errors > 0 && <span className="text-red-600"> · {entry.errors} errors</span>}
+              </span>
+            </div>
+            <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+              <div className="h-full bg-purple-500" style={{ width: `${(entry.sessions / maxSessions) * 100}%` }} />
+            </div>
+          </button>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * What real users experienced: telemetry batches from every session,
+ * grouped by browser, app version and error fingerprint
+ */
+export function FieldDataPanel() {
+  const [rangeMs, setRangeMs] = useState<number>(DAY_MS);
+  const [browser, setBrowser] = useState('');
+  const [appVersion, setAppVersion] = useState('');
+  const [summary, setSummary] = useState<TelemetrySummary | null>(null);
+  const [expandedError, setExpandedError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSummary();
+  }, [rangeMs, browser, appVersion]);
+
+  const loadSummary = async () => {
+    setLoading(true);
+    try {
+      const to = new Date();
+      const result = await api.getTelemetrySummary({
+        from: new Date(to.getTime() - rangeMs),
+        to,
+        browser: browser || undefined,
+        appVersion: appVersion || undefined,
+      });
+      setSummary(result);
+      setError(null);
+    } catch (err: any) {
+      console.error('Failed to load field data:', err);
+      setError(err.status === 403 ? 'Field data is available to editors' : err.message || 'Failed to load field data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const timedMetrics = summary?.metrics.filter(metric => metric.type !== 'action') || [];
+  const actions = summary?.metrics.filter(metric => metric.type === 'action') || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {RANGE_OPTIONS.map(option => (
+          <button
+            key={option.label}
+            onClick={() => setRangeMs(option.ms)}
+            className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
+              rangeMs === option.ms ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        {(browser || appVersion) && (
+          <button
+            onClick={() => { setBrowser(''); setAppVersion(''); }}
+            className="px-3 py-1.5 rounded-full text-xs font-medium bg-purple-100 text-purple-700 hover:bg-purple-200"
+          >
+            {[browser, appVersion].filter(Boolean).join(' · ')} ✕
+          </button>
+        )}
+        <button
+          onClick={loadSummary}
+          disabled={loading}
+          className="ml-auto p-1.5 rounded-lg text-gray-500 hover:bg-gray-100"
+          title="Refresh"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {summary && (
+        <>
+          {summary.truncated && (
+            <p className="text-xs text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
+              This range has more data than one query reads - older batches are left out. Pick a shorter range or a filter.
+            </p>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            {[
+              { label: 'Sessions', value: summary.totals.sessions, color: 'text-purple-600' },
+              { label: 'Metrics reported', value: summary.totals.metrics, color: 'text-blue-600' },
+              { label: 'Errors reported', value: summary.totals.errors, color: 'text-red-600' },
+            ].map(total => (
+              <Card key={total.label}>
+                <CardContent className="pt-6">
+                  <div className={`text-3xl font-bold ${total.color}`}>{total.value.toLocaleString()}</div>
+                  <p className="text-sm text-gray-500 mt-1">{total.label}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <BreakdownCard title="Browsers" entries={summary.browsers} selected={browser} onSelect={setBrowser} />
+            <BreakdownCard title="App Versions" entries={summary.appVersions} selected={appVersion} onSelect={setAppVersion} />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Error Groups</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {summary.errorGroups.length === 0 && (
+                <p className="text-center text-gray-500 py-6 text-sm">No errors reported</p>
+              )}
+              {summary.errorGroups.map(group => {
+                const expanded = expandedError === group.fingerprint;
+                return (
+                  <div key={group.fingerprint} className="p-3 bg-red-50 border-l-4 border-red-500 rounded">
+                    <button
+                      onClick={() => setExpandedError(expanded ? null : group.fingerprint)}
+                      className="w-full flex items-start justify-between gap-3 text-left"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm text-gray-800 break-words">
+                          {group.component && <span className="font-mono bg-white px-2 py-0.5 rounded mr-2">{group.component}</span>}
+                          {group.message}
+                        </div>
+                        <div className="text-xs text-gray-600 mt-1">
+                          {group.occurrences}× in {group.sessions} {group.sessions === 1 ? 'session' : 'sessions'} ·
+                          {' '}{group.browsers.join(', ')} · {group.appVersions.join(', ')}
+                        </div>
+                      </div>
+                      {expanded ? <ChevronUp className="w-4 h-4 text-gray-500" /> : <ChevronDown className="w-4 h-4 text-gray-500" />}
+                    </button>
+                    {expanded && (
+                      <div className="mt-2 space-y-1">
+                        <p className="text-xs text-gray-500">
+                          First seen {new Date(group.firstSeen).toLocaleString()} · last seen {new Date(group.lastSeen).toLocaleString()}
+                        </p>
+                        {group.stack && (
+                          <pre className="text-[11px] bg-white rounded p-2 overflow-x-auto whitespace-pre-wrap">{group.stack}</pre>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Timings</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {timedMetrics.length === 0 ? (
+                <p className="text-center text-gray-500 py-6 text-sm">No sampled sessions reported timings</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 border-b">
+                        <th className="py-2 pr-4 font-medium">Name</th>
+                        <th className="py-2 px-2 font-medium text-right">Count</th>
+                        <th className="py-2 px-2 font-medium text-right">Failed</th>
+                        <th className="py-2 px-2 font-medium text-right">p50</th>
+                        <th className="py-2 px-2 font-medium text-right">p95</th>
+                        <th className="py-2 pl-2 font-medium text-right">p99</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {timedMetrics.map(metric => (
+                        <tr key={`${metric.type}:${metric.name}`} className="border-b last:border-0">
+                          <td className="py-2 pr-4">
+                            <span className="text-xs text-gray-500 mr-2">{metric.type}</span>
+                            <span className="font-mono text-xs break-all">{metric.name}</span>
+                          </td>
+                          <td className="py-2 px-2 text-right">{metric.count.toLocaleString()}</td>
+                          <td className={`py-2 px-2 text-right ${metric.failed > 0 ? 'text-red-600 font-medium' : ''}`}>{metric.failed}</td>
+                          <td className="py-2 px-2 text-right">{formatMs(metric.p50Ms)}</td>
+                          <td className="py-2 px-2 text-right">{formatMs(metric.p95Ms)}</td>
+                          <td className="py-2 pl-2 text-right">{formatMs(metric.p99Ms)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {actions.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">User Actions</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {actions.slice(0, 20).map(action => (
+                  <div key={action.name} className="flex justify-between text-sm p-2 bg-blue-50 rounded">
+                    <span>{action.name}</span>
+                    <span className="font-medium">{action.count.toLocaleString()}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
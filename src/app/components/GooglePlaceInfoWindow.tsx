@@ -4,18 +4,18 @@ import { X } from 'lucide-react';
 import { Award, Users, Star, ChevronLeft, ChevronRight, MapPin, Edit3, Navigation, Heart, Bookmark, Calendar, Share2 } from 'lucide-react';
 import { EditorRatingModal } from './EditorRatingModal';
 import { api, type Location } from '../../utils/api';
+import { hasRole, type Role } from '../../utils/roles';
 import { InfoWindow } from '@vis.gl/react-google-maps';
 import { toast } from 'sonner';
 import { MichelinFlower, MichelinStar, MichelinBib, MichelinPlate, MichelinGreenStar } from '@/app/components/MichelinIcons';
 import { GoogleReviewsModal } from './GoogleReviewsModal';
 import { PhotoGalleryModal } from './PhotoGalleryModal';
-import { projectId, publicAnonKey } from '/utils/supabase/info';
 
 // GooglePlaceInfoWindow - Displays detailed information about a selected place
 interface GooglePlaceInfoWindowProps {
   place: google.maps.places.PlaceResult;
   onClose: () => void;
-  user: { id: string; email: string; name: string; role: 'user' | 'editor' } | null;
+  user: { id: string; email: string; name: string; role: Role } | null;
   isAuthenticated: boolean;
   onFavoriteToggle?: (locationId: string, placeData?: { name?: string; lat?: number; lng?: number; formatted_address?: string; place_id?: string }) => void;
   onWantToGoToggle?: (locationId: string, placeData?: { name?: string; lat?: number; lng?: number; formatted_address?: string; place_id?: string }) => void;
@@ -143,20 +143,7 @@ export function GooglePlaceInfoWindow({
     
     setLoadingDetails(true);
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-48182530/google-places/${place.place_id}/details`,
-        {
-          headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
-          },
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch place details');
-      }
-      
-      const data = await response.json();
+      const data = await api.getGooglePlaceDetails(place.place_id);
       setPlaceDetails(data);
       console.log('📍 Fetched place details:', data);
     } catch (error) {
@@ -438,7 +425,7 @@ export function GooglePlaceInfoWindow({
             </button>
 
             {/* Editor Icon (if editor) */}
-            {isAuthenticated && user?.role === 'editor' && (
+            {isAuthenticated && hasRole(user?.role, 'editor') && (
               <button 
                 onClick={() => setShowEditorModal(true)}
                 className="p-2 rounded-full bg-amber-50 hover:bg-amber-100 transition-all hover:scale-110"
@@ -775,7 +762,7 @@ export function GooglePlaceInfoWindow({
           </div>
 
           {/* Editor Rating Section - Only visible to editors */}
-          {isAuthenticated && user?.role === 'editor' && (
+          {isAuthenticated && hasRole(user?.role, 'editor') && (
             <div className="mt-3">
               <button
                 onClick={() => setShowEditorModal(true)}
@@ -798,6 +785,8 @@ export function GooglePlaceInfoWindow({
               currentMichelinScore={lvLocation?.michelinScore}
               currentTags={lvLocation?.tags || []}
               michelinId={lvLocation?.michelinId}
+              currentStatus={lvLocation ? lvLocation.status || 'open' : undefined}
+              currentSuccessorId={lvLocation?.successorLocationId}
               placeData={{
                 name: place.name || 'Unknown Place',
                 lat,
@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { DollarSign } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from './ui/chart';
+import { api, type GoogleUsageReport, type GoogleUsageEntry, type GoogleBudgetLevel } from '../../utils/api';
+import { toast } from 'sonner';
+
+const RANGE_OPTIONS = [7, 30, 90] as const;
+
+const costChartConfig = {
+  costUsd: { label: 'Estimated cost ($)', color: '#2563eb' },
+} satisfies ChartConfig;
+
+const LEVEL_STYLES: Record<GoogleBudgetLevel, { label: string; bar: string; text: string }> = {
+  'ok': { label: 'Within budget', bar: 'bg-green-500', text: 'text-green-700' },
+  'no-photos': { label: 'Photos paused', bar: 'bg-amber-500', text: 'text-amber-700' },
+  'cached-only': { label: 'Cached data only', bar: 'bg-red-500', text: 'text-red-700' },
+};
+
+// "2025-03-07" -> "Mar 7" (dates are UTC days)
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const formatUsd = (usd: number) => `$${usd < 10 ? usd.toFixed(2) : usd.toFixed(0)}`;
+
+function UsageTable({ title, label, entries }: { title: string; label: string; entries: GoogleUsageEntry[] }) {
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200">
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">{title}</h4>
+      {entries.length === 0 ? (
+        <p className="text-xs text-gray-500 py-2 text-center">No Google calls in this range</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b">
+              <th className="py-2 pr-4 font-medium">{label}</th>
+              <th className="py-2 px-2 font-medium text-right">Calls</th>
+              <th className="py-2 pl-2 font-medium text-right">Est. cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.name} className="border-b last:border-0">
+                <td className="py-2 pr-4 font-mono text-xs break-all">{entry.name}</td>
+                <td className="py-2 px-2 text-right">{entry.calls.toLocaleString()}</td>
+                <td className="py-2 pl-2 text-right">{formatUsd(entry.costUsd)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Google Places API calls and estimated cost per day, SKU, route and user,
+ * with today's spend against the daily budget (admins only)
+ */
+export function GoogleUsagePanel() {
+  const [report, setReport] = useState<GoogleUsageReport | null>(null);
+  const [days, setDays] = useState<number>(30);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadUsage();
+  }, [days]);
+
+  const loadUsage = async () => {
+    setLoading(true);
+    try {
+      setReport(await api.getGoogleUsage(days));
+    } catch (error: any) {
+      console.error('Failed to load Google API usage:', error);
+      toast.error('Failed to load Google API usage');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const header = (
+    <CardHeader>
+      <CardTitle className="text-lg flex items-center gap-2">
+        <DollarSign className="h-5 w-5 text-blue-600" />
+        Google API Usage
+      </CardTitle>
+    </CardHeader>
+  );
+
+  if (loading && !report) {
+    return (
+      <Card>
+        {header}
+        <CardContent>
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!report) {
+    return null;
+  }
+
+  const { budget } = report;
+  const level = LEVEL_STYLES[budget.level];
+  const usedPercent = Math.min(100, (budget.spentUsd / budget.budgetUsd) * 100);
+
+  return (
+    <Card>
+      {header}
+      <CardContent>
+        {/* Today against the daily budget */}
+        <div className="rounded-xl bg-gray-50 p-4">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-medium text-gray-600">Today (UTC)</span>
+            <span className={`text-xs font-medium ${level.text}`}>{level.label}</span>
+          </div>
+          <div className="text-2xl font-bold text-gray-900 mb-2">
+            {formatUsd(budget.spentUsd)}
+            <span className="text-sm font-normal text-gray-500"> of {formatUsd(budget.budgetUsd)}</span>
+          </div>
+          <div className="h-2 w-full rounded-full bg-gray-200 overflow-hidden">
+            <div className={`h-full ${level.bar}`} style={{ width: `${usedPercent}%` }} />
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Estimated from list prices, before Google's monthly free usage.
+          </p>
+        </div>
+
+        {/* Daily cost */}
+        <div className="mt-6 pt-6 border-t border-gray-200">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="text-sm font-semibold text-gray-700">
+              {report.totals.calls.toLocaleString()} calls · {formatUsd(report.totals.costUsd)}
+            </h4>
+            <div className="flex items-center gap-1">
+              {RANGE_OPTIONS.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setDays(option)}
+                  disabled={loading}
+                  className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+                    days === option ? 'bg-blue-100 text-blue-700' : 'text-gray-500 hover:bg-gray-100'
+                  }`}
+                >
+                  {option}d
+                </button>
+              ))}
+            </div>
+          </div>
+          <ChartContainer config={costChartConfig} className="aspect-auto h-48 w-full">
+            <BarChart data={report.days} margin={{ left: -20, right: 8, top: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} minTickGap={24} tickFormatter={formatDay} />
+              <YAxis tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDay(String(value))} />} />
+              <Bar dataKey="costUsd" fill="var(--color-costUsd)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        </div>
+
+        <UsageTable title="By SKU" label="SKU" entries={report.skus} />
+        <UsageTable title="By Route" label="Route" entries={report.routes} />
+        <UsageTable
+          title="Top Users"
+          label="User"
+          entries={report.users.map(user => ({
+            name: user.userId ? user.userName || user.userId : 'Anonymous',
+            calls: user.calls,
+            costUsd: user.costUsd,
+          }))}
+        />
+      </CardContent>
+    </Card>
+  );
+}
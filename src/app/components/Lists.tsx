@@ -0,0 +1,360 @@
+import React, { useState, useEffect } from 'react';
+import { ListOrdered, Plus, Trash2, Link2, Map as MapIcon, ChevronUp, ChevronDown, Lock, Globe, EyeOff, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { CuratedList, CuratedListEntry, ListVisibility, Location, User } from '../../utils/api';
+import { api } from '../../utils/api';
+import { toast } from 'sonner';
+
+interface ListsProps {
+  user: User;
+  onShowList: (slug: string) => void;
+  onLocationClick?: (location: Location) => void;
+}
+
+const VISIBILITY_OPTIONS: Record<ListVisibility, { label: string; icon: typeof Lock }> = {
+  private: { label: 'Private', icon: Lock },
+  unlisted: { label: 'Unlisted (link only)', icon: EyeOff },
+  public: { label: 'Public', icon: Globe },
+};
+
+export const getListShareUrl = (slug: string) => {
+  const url = new URL(window.location.origin + window.location.pathname);
+  url.searchParams.set('list', slug);
+  return url.toString();
+};
+
+export function Lists({ user, onShowList, onLocationClick }: ListsProps) {
+  const [lists, setLists] = useState<CuratedList[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [newTitle, setNewTitle] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [newVisibility, setNewVisibility] = useState<ListVisibility>('private');
+  const [openList, setOpenList] = useState<CuratedList | null>(null);
+  const [savedPlaces, setSavedPlaces] = useState<Location[]>([]);
+
+  useEffect(() => {
+    loadLists();
+  }, [user]);
+
+  const loadLists = async () => {
+    setLoading(true);
+    try {
+      const { lists: fetchedLists } = await api.getMyLists();
+      setLists(fetchedLists);
+    } catch (error) {
+      console.error('❌ Failed to load lists:', error);
+      setLists([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openListDetails = async (list: CuratedList) => {
+    if (openList?.id === list.id) {
+      setOpenList(null);
+      return;
+    }
+
+    try {
+      const [{ list: fullList }, { favorites }, { wantToGo }] = await Promise.all([
+        api.getList(list.slug),
+        api.getFavorites(),
+        api.getWantToGo(),
+      ]);
+      setOpenList(fullList);
+
+      // Places the user already saved are the candidates for adding
+      const byId = new Map<string, Location>();
+      [...favorites, ...wantToGo].forEach(loc => byId.set(loc.id, loc));
+      setSavedPlaces(Array.from(byId.values()));
+    } catch (error) {
+      console.error('❌ Failed to open list:', error);
+      toast.error('Failed to open list');
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newTitle.trim()) return;
+    try {
+      const { list } = await api.createList({ title: newTitle, description: newDescription, visibility: newVisibility });
+      setLists(prev => [{ ...list, entryCount: 0 }, ...prev]);
+      setNewTitle('');
+      setNewDescription('');
+      setNewVisibility('private');
+      setCreating(false);
+      toast.success(`Created "${list.title}"`);
+    } catch (error: any) {
+      console.error('Failed to create list:', error);
+      toast.error(error.message || 'Failed to create list');
+    }
+  };
+
+  const handleDelete = async (list: CuratedList) => {
+    if (!confirm(`Delete "${list.title}"? This cannot be undone.`)) return;
+    try {
+      await api.deleteList(list.id);
+      setLists(prev => prev.filter(l => l.id !== list.id));
+      if (openList?.id === list.id) setOpenList(null);
+      toast.success('List deleted');
+    } catch (error) {
+      console.error('Failed to delete list:', error);
+      toast.error('Failed to delete list');
+    }
+  };
+
+  const handleVisibilityChange = async (list: CuratedList, visibility: ListVisibility) => {
+    try {
+      await api.updateList(list.id, { visibility });
+      setLists(prev => prev.map(l => (l.id === list.id ? { ...l, visibility } : l)));
+      setOpenList(prev => (prev?.id === list.id ? { ...prev, visibility } : prev));
+    } catch (error) {
+      console.error('Failed to update list:', error);
+      toast.error('Failed to update list');
+    }
+  };
+
+  const handleCopyLink = async (list: CuratedList) => {
+    try {
+      await navigator.clipboard.writeText(getListShareUrl(list.slug));
+      toast.success(list.visibility === 'private' ? 'Link copied - only you can open it while the list is private' : 'Link copied');
+    } catch {
+      toast.error('Failed to copy link');
+    }
+  };
+
+  const updateOpenEntries = (entries: CuratedListEntry[]) => {
+    if (!openList) return;
+    setOpenList({ ...openList, entries, entryCount: entries.length });
+    setLists(prev => prev.map(l => (l.id === openList.id ? { ...l, entryCount: entries.length } : l)));
+  };
+
+  const handleAddEntry = async (locationId: string) => {
+    if (!openList) return;
+    try {
+      const { entry } = await api.addListEntry(openList.id, locationId);
+      updateOpenEntries([...(openList.entries || []), entry]);
+      toast.success(`Added ${entry.location.name}`);
+    } catch (error: any) {
+      console.error('Failed to add to list:', error);
+      toast.error(error.message || 'Failed to add to list');
+    }
+  };
+
+  const handleNoteSave = async (entry: CuratedListEntry, note: string) => {
+    if (!openList || (entry.note || '') === note.trim()) return;
+    try {
+      await api.updateListEntry(openList.id, entry.id, note.trim() || null);
+      updateOpenEntries((openList.entries || []).map(e => (e.id === entry.id ? { ...e, note: note.trim() || null } : e)));
+    } catch (error) {
+      console.error('Failed to save note:', error);
+      toast.error('Failed to save note');
+    }
+  };
+
+  const handleRemoveEntry = async (entry: CuratedListEntry) => {
+    if (!openList) return;
+    try {
+      await api.removeListEntry(openList.id, entry.id);
+      updateOpenEntries((openList.entries || []).filter(e => e.id !== entry.id));
+    } catch (error) {
+      console.error('Failed to remove entry:', error);
+      toast.error('Failed to remove from list');
+    }
+  };
+
+  const handleMoveEntry = async (index: number, direction: -1 | 1) => {
+    if (!openList?.entries) return;
+    const entries = [...openList.entries];
+    const target = index + direction;
+    if (target < 0 || target >= entries.length) return;
+
+    [entries[index], entries[target]] = [entries[target], entries[index]];
+    const previous = openList.entries;
+    updateOpenEntries(entries);
+
+    try {
+      await api.reorderListEntries(openList.id, entries.map(e => e.id));
+    } catch (error) {
+      console.error('Failed to reorder list:', error);
+      toast.error('Failed to reorder list');
+      updateOpenEntries(previous);
+    }
+  };
+
+  const addablePlaces = savedPlaces.filter(place => !openList?.entries?.some(e => e.location.id === place.id));
+
+  return (
+    <Card className="bg-white">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <ListOrdered className="h-5 w-5 text-emerald-600" />
+            Lists
+          </span>
+          <Button size="sm" variant="outline" className="gap-1 text-xs" onClick={() => setCreating(!creating)}>
+            <Plus className="h-3.5 w-3.5" />
+            New list
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          {lists.length === 0 ? 'Curate and share your own guides' : `${lists.length} list${lists.length !== 1 ? 's' : ''}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {/* New list form */}
+        {creating && (
+          <div className="space-y-2 p-3 bg-slate-50 rounded-lg">
+            <Input
+              placeholder="Best omakase in Tokyo"
+              value={newTitle}
+              maxLength={120}
+              onChange={(e) => setNewTitle(e.target.value)}
+            />
+            <Textarea
+              placeholder="What's this list about? (optional)"
+              value={newDescription}
+              onChange={(e) => setNewDescription(e.target.value)}
+              rows={2}
+            />
+            <div className="flex items-center gap-2">
+              <Select value={newVisibility} onValueChange={(v) => setNewVisibility(v as ListVisibility)}>
+                <SelectTrigger size="sm" className="text-xs flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(VISIBILITY_OPTIONS) as ListVisibility[]).map(v => (
+                    <SelectItem key={v} value={v} className="text-xs">{VISIBILITY_OPTIONS[v].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" onClick={handleCreate} disabled={!newTitle.trim()}>
+                Create
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-8 text-slate-500">
+            Loading lists...
+          </div>
+        ) : lists.length === 0 && !creating ? (
+          <div className="text-center py-8">
+            <ListOrdered className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-sm text-gray-500">
+              Group places into lists like "Date night SD" and share them
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+            {lists.map(list => {
+              const VisibilityIcon = VISIBILITY_OPTIONS[list.visibility].icon;
+              const isOpen = openList?.id === list.id;
+
+              return (
+                <div key={list.id} className="p-3 bg-slate-50 rounded-lg">
+                  <div className="flex items-start justify-between gap-2">
+                    <button className="flex-1 text-left min-w-0" onClick={() => openListDetails(list)}>
+                      <h4 className="font-semibold text-gray-900 text-sm truncate flex items-center gap-1.5">
+                        <VisibilityIcon className="h-3 w-3 text-slate-400 flex-shrink-0" />
+                        {list.title}
+                      </h4>
+                      <p className="text-xs text-gray-500">
+                        {list.entryCount ?? 0} place{list.entryCount !== 1 ? 's' : ''}
+                      </p>
+                    </button>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button title="Show on map" onClick={() => onShowList(list.slug)} className="p-1.5 rounded hover:bg-white">
+                        <MapIcon className="h-4 w-4 text-slate-600" />
+                      </button>
+                      <button title="Copy share link" onClick={() => handleCopyLink(list)} className="p-1.5 rounded hover:bg-white">
+                        <Link2 className="h-4 w-4 text-slate-600" />
+                      </button>
+                      <button title="Delete list" onClick={() => handleDelete(list)} className="p-1.5 rounded hover:bg-red-50">
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {isOpen && openList && (
+                    <div className="mt-3 space-y-2">
+                      {openList.description && (
+                        <p className="text-xs text-gray-600">{openList.description}</p>
+                      )}
+
+                      <Select value={openList.visibility} onValueChange={(v) => handleVisibilityChange(list, v as ListVisibility)}>
+                        <SelectTrigger size="sm" className="text-xs bg-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(VISIBILITY_OPTIONS) as ListVisibility[]).map(v => (
+                            <SelectItem key={v} value={v} className="text-xs">{VISIBILITY_OPTIONS[v].label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+
+                      {/* Entries */}
+                      {(openList.entries || []).map((entry, index) => (
+                        <div key={entry.id} className="p-2 bg-white rounded-md space-y-1.5">
+                          <div className="flex items-center justify-between gap-2">
+                            <button
+                              className="text-sm font-medium text-gray-900 text-left truncate"
+                              onClick={() => onLocationClick?.(entry.location)}
+                            >
+                              {index + 1}. {entry.location.name}
+                            </button>
+                            <div className="flex items-center flex-shrink-0">
+                              <button onClick={() => handleMoveEntry(index, -1)} disabled={index === 0} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30">
+                                <ChevronUp className="h-3.5 w-3.5" />
+                              </button>
+                              <button onClick={() => handleMoveEntry(index, 1)} disabled={index === (openList.entries?.length || 0) - 1} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30">
+                                <ChevronDown className="h-3.5 w-3.5" />
+                              </button>
+                              <button onClick={() => handleRemoveEntry(entry)} className="p-1 rounded hover:bg-red-50">
+                                <X className="h-3.5 w-3.5 text-red-500" />
+                              </button>
+                            </div>
+                          </div>
+                          <Textarea
+                            defaultValue={entry.note || ''}
+                            placeholder="Add a note (what to order, when to go...)"
+                            rows={2}
+                            className="text-xs"
+                            onBlur={(e) => handleNoteSave(entry, e.target.value)}
+                          />
+                        </div>
+                      ))}
+
+                      {/* Add from saved places */}
+                      {addablePlaces.length > 0 ? (
+                        <Select value="" onValueChange={handleAddEntry}>
+                          <SelectTrigger size="sm" className="text-xs bg-white">
+                            <SelectValue placeholder="Add a saved place..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {addablePlaces.map(place => (
+                              <SelectItem key={place.id} value={place.id} className="text-xs">{place.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <p className="text-xs text-gray-500">
+                          Favorite or bookmark places to add them here
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -39,9 +39,10 @@ export function LocationInfoWindow({
     rating: null, 
     count: null 
   });
-  const [userRating, setUserRating] = useState<number>(0);
+  const [userRating, setUserRating] = useState<number | null>(null);
   const [hoverRating, setHoverRating] = useState<number>(0);
-  const [communityRatingCount, setCommunityRatingCount] = useState<number>(0);
+  const [communityScore, setCommunityScore] = useState<number | null>(location.lvAvgUserScore ?? location.lvCrowdsourceScore ?? null);
+  const [communityRatingCount, setCommunityRatingCount] = useState<number>(location.lvUserRatingsCount || 0);
 
   useEffect(() => {
     if (location.place_id) {
@@ -52,7 +53,8 @@ export function LocationInfoWindow({
       checkIfWantToGo();
       loadUserRating();
     }
-    loadCommunityRatingCount();
+    setCommunityScore(location.lvAvgUserScore ?? location.lvCrowdsourceScore ?? null);
+    setCommunityRatingCount(location.lvUserRatingsCount || 0);
   }, [location, isAuthenticated, user]);
 
   const checkIfFavorite = async () => {
@@ -80,24 +82,16 @@ export function LocationInfoWindow({
   const loadUserRating = async () => {
     if (!user) return;
     try {
-      const { rating } = await api.getUserRating(location.id);
-      setUserRating(rating || 0);
+      const { rating, lvAvgUserScore, lvUserRatingsCount } = await api.getMyRating(location.id);
+      setUserRating(rating);
+      setCommunityScore(lvAvgUserScore);
+      setCommunityRatingCount(lvUserRatingsCount || 0);
     } catch (error) {
       console.error('Failed to load user rating:', error);
       // Silently fail - database may not be set up yet
     }
   };
 
-  const loadCommunityRatingCount = async () => {
-    try {
-      const { count } = await api.getCommunityRatingCount(location.id);
-      setCommunityRatingCount(count || 0);
-    } catch (error) {
-      console.error('Failed to load community rating count:', error);
-      // Silently fail - database may not be set up yet
-    }
-  };
-
   const fetchGooglePlaceDetails = async () => {
     if (!location.place_id) {
       console.log('No place_id for location:', location.name);
@@ -114,7 +108,7 @@ export function LocationInfoWindow({
     console.log('Fetching place details for:', location.name, 'place_id:', location.place_id);
 
     try {
-      const { details } = await api.getGooglePlaceDetails(location.place_id);
+      const details = await api.getGooglePlaceDetails(location.place_id);
       
       console.log('Received place details:', details);
       
@@ -191,10 +185,11 @@ export function LocationInfoWindow({
 
     try {
       console.log('Saving rating:', rating, 'for location:', location.id);
-      await api.setUserRating(location.id, rating);
-      setUserRating(rating);
+      const result = await api.setMyRating(location.id, rating);
+      setUserRating(result.rating);
+      setCommunityScore(result.lvAvgUserScore);
+      setCommunityRatingCount(result.lvUserRatingsCount || 0);
       toast.success(`Rated ${rating.toFixed(1)}/10!`);
-      loadCommunityRatingCount(); // Refresh count
     } catch (error: any) {
       console.error('Failed to set rating:', error);
       console.error('Error details:', error.message);
@@ -202,6 +197,21 @@ export function LocationInfoWindow({
     }
   };
 
+  const handleClearRating = async () => {
+    if (!isAuthenticated || !user) return;
+
+    try {
+      const result = await api.deleteMyRating(location.id);
+      setUserRating(null);
+      setCommunityScore(result.lvAvgUserScore);
+      setCommunityRatingCount(result.lvUserRatingsCount || 0);
+      toast.success('Your score was removed');
+    } catch (error: any) {
+      console.error('Failed to remove rating:', error);
+      toast.error('Failed to remove rating. Please try again.');
+    }
+  };
+
   const renderStars = (rating: number | null) => {
     if (!rating) return null;
     const stars = [];
@@ -282,7 +292,7 @@ export function LocationInfoWindow({
           <div className="relative mb-4 bg-gray-100 rounded-lg overflow-hidden">
             <div className="aspect-video">
               <img
-                src={`https://maps.googleapis.com/maps/api/place/photo?maxwidth=400&photo_reference=${photos[currentPhotoIndex].photoReference}&key=${(window as any).GOOGLE_MAPS_API_KEY}`}
+                src={photos[currentPhotoIndex].photoReference}
                 alt={`${location.name} - Photo ${currentPhotoIndex + 1}`}
                 className="w-full h-full object-cover"
               />
@@ -332,9 +342,19 @@ export function LocationInfoWindow({
           {/* My Rating (for logged-in users) */}
           {isAuthenticated && user && (
             <div className="mb-3 p-3 bg-gray-50 rounded-lg border border-gray-200">
-              <p className="text-xs font-medium text-gray-600 mb-2">My Rating</p>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-xs font-medium text-gray-600">Your score</p>
+                {userRating !== null && (
+                  <button
+                    onClick={handleClearRating}
+                    className="text-xs text-gray-400 hover:text-gray-600 transition-colors"
+                  >
+                    Clear
+                  </button>
+                )}
+              </div>
               <RatingSlider
-                value={userRating}
+                value={userRating ?? 0}
                 onChange={handleRatingClick}
                 disabled={false}
                 compact={true}
@@ -362,7 +382,7 @@ export function LocationInfoWindow({
               </div>
               <div className="flex items-center gap-1">
                 <Star className="w-4 h-4 fill-blue-400 text-blue-400" />
-                <span className="font-semibold">{location.lvCrowdsourceScore?.toFixed(1) ?? '—'}</span>
+                <span className="font-semibold">{communityScore?.toFixed(1) ?? '—'}</span>
                 {communityRatingCount > 0 && (
                   <span className="text-xs text-gray-500 ml-1">({communityRatingCount})</span>
                 )}
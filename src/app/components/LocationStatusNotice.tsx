@@ -0,0 +1,45 @@
+import React from 'react';
+import { ArrowRight, Ban, Clock } from 'lucide-react';
+import type { Location } from '../../utils/api';
+import { LOCATION_STATUS_LABELS } from '../../utils/locationStatus';
+
+interface LocationStatusNoticeProps {
+  location: Location;
+  onSuccessorClick?: (successor: Location) => void;
+}
+
+/**
+ * Flags a saved location that isn't open, with a link to where a moved
+ * place went. Renders nothing for open locations.
+ */
+export function LocationStatusNotice({ location, onSuccessorClick }: LocationStatusNoticeProps) {
+  if (!location.status || location.status === 'open') return null;
+
+  const temporary = location.status === 'temporarily_closed';
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-1">
+      <span
+        className={`inline-flex items-center gap-1 px-1.5 py-0.5 text-[11px] font-medium rounded ${
+          temporary ? 'bg-amber-100 text-amber-800' : 'bg-gray-200 text-gray-700'
+        }`}
+      >
+        {temporary ? <Clock className="w-3 h-3" /> : <Ban className="w-3 h-3" />}
+        {LOCATION_STATUS_LABELS[location.status]}
+      </span>
+
+      {location.status === 'moved' && location.successor && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onSuccessorClick?.(location.successor!);
+          }}
+          className="inline-flex items-center gap-1 text-[11px] text-blue-600 hover:underline"
+        >
+          Now at {location.successor.name}
+          <ArrowRight className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -17,7 +17,7 @@ interface LuxuryMarkerProps {
 }
 
 // Color palette for different rating tiers
-const getMarkerStyle = (rating: number) => {
+export const getMarkerStyle = (rating: number) => {
   // 10+ Best in the World - Deep burgundy/maroon
   if (rating >= 10) return {
     primary: '#7a1f35', // Rich deep red
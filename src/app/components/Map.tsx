@@ -1,11 +1,13 @@
-import React, { useEffect, useState, useMemo, useCallback } from 'react';
+import React, { useEffect, useState, useMemo, useCallback, useRef } from 'react';
 import { Map as GoogleMap, AdvancedMarker, useMap } from '@vis.gl/react-google-maps';
-import type { Location, User } from '@/utils/api';
+import type { Location, User, MapCluster } from '@/utils/api';
+import type { Role } from '@/utils/roles';
 import { api } from '@/utils/api';
 import { GooglePlaceInfoWindow } from './GooglePlaceInfoWindow';
 import { MobileInfoSheet } from './MobileInfoSheet';
 import { CityInfoWindow } from './CityInfoWindow';
 import { LuxuryMarker } from './LuxuryMarker';
+import { ClusterMarker } from './ClusterMarker';
 import { PlaceIdValidationPopup } from './PlaceIdValidationPopup';
 import { HeatMapOverlay } from './HeatMapOverlay';
 import { Locate, Plus, Minus, Filter } from 'lucide-react';
@@ -20,7 +22,7 @@ interface MapProps {
   googleMapsApiKey: string;
   onLocationClick?: (location: Location) => void;
   onAddLocationRequest?: (place: any) => void;
-  user?: { id: string; email: string; name: string; role: 'user' | 'editor' } | null;
+  user?: { id: string; email: string; name: string; role: Role } | null;
   isAuthenticated?: boolean;
   onFavoriteToggle?: (locationId: string, placeData?: { name?: string; lat?: number; lng?: number; formatted_address?: string }) => void;
   onWantToGoToggle?: (locationId: string, placeData?: { name?: string; lat?: number; lng?: number; formatted_address?: string; place_id?: string }) => void;
@@ -47,8 +49,14 @@ interface MapProps {
   onFilterMenuToggle?: (open: boolean) => void;
   onLVMarkersToggle?: () => void;
   onMichelinMarkersToggle?: () => void;
+  showClosedPlaces?: boolean; // Include permanently closed and moved locations
+  onClosedPlacesToggle?: () => void;
+  serverClustering?: boolean; // Off while the locations prop is a hand-picked subset (list, award filter)
 }
 
+// Below this zoom, rated locations are fetched as server-side clusters
+const CLUSTER_ZOOM_THRESHOLD = 13;
+
 // Helper functions for marker styling
 const getMarkerColor = (rating: number = 5) => {
   // Modern, natural luxury color palette
@@ -185,13 +193,18 @@ export function Map({
   showMichelinMarkers,
   filterMenuOpen,
   onFilterMenuToggle,
+  serverClustering = true,
   onLVMarkersToggle,
-  onMichelinMarkersToggle
+  onMichelinMarkersToggle,
+  showClosedPlaces = false,
+  onClosedPlacesToggle
 }: MapProps) {
   const map = useMap();
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [locationPermissionDenied, setLocationPermissionDenied] = useState(false);
   const [currentZoom, setCurrentZoom] = useState<number>(14);
+  const [clusters, setClusters] = useState<MapCluster[] | null>(null);
+  const clusterRequestRef = useRef(0);
   const [validationPopup, setValidationPopup] = useState<{
     michelinData: {
       id: number;
@@ -210,6 +223,7 @@ export function Map({
       userRatingCount?: number;
       priceLevel?: string;
       types?: string[];
+      photoUri?: string;
     };
     confidenceScore: number;
   } | null>(null);
@@ -541,6 +555,84 @@ export function Map({
     };
   }, [map]);
 
+  // Fetch clusters when the map settles at a zoomed-out level
+  useEffect(() => {
+    if (!map) return;
+
+    const clusteringEnabled = serverClustering && !showHeatMap && !showSearchResults && (showLVMarkers || showMichelinMarkers);
+
+    const loadClusters = async () => {
+      const zoom = map.getZoom();
+      const bounds = map.getBounds();
+      if (!clusteringEnabled || zoom === undefined || zoom >= CLUSTER_ZOOM_THRESHOLD || !bounds) {
+        setClusters(null);
+        return;
+      }
+
+      const requestId = ++clusterRequestRef.current;
+      const ne = bounds.getNorthEast();
+      const sw = bounds.getSouthWest();
+      const layers: Array<'lv' | 'michelin'> = [];
+      if (showLVMarkers) layers.push('lv');
+      if (showMichelinMarkers) layers.push('michelin');
+
+      try {
+        const result = await api.getClusters(
+          { south: sw.lat(), west: sw.lng(), north: ne.lat(), east: ne.lng() },
+          zoom,
+          layers,
+          showClosedPlaces
+        );
+        // Ignore responses for viewports the user has already left
+        if (requestId === clusterRequestRef.current) {
+          setClusters(result.clusters);
+        }
+      } catch (error) {
+        console.error('❌ Failed to load clusters:', error);
+        if (requestId === clusterRequestRef.current) {
+          setClusters(null); // Fall back to individual markers
+        }
+      }
+    };
+
+    loadClusters();
+    const idleListener = map.addListener('idle', loadClusters);
+
+    return () => {
+      idleListener.remove();
+    };
+  }, [map, serverClustering, showHeatMap, showSearchResults, showLVMarkers, showMichelinMarkers, showClosedPlaces]);
+
+  // Markers to draw: while clustered, only personal markers and single-location clusters stay individual
+  const visibleMarkers = useMemo(() => {
+    if (!clusters) return unifiedMarkers;
+
+    const singletonIds = new Set(clusters.filter(c => c.count === 1).map(c => c.locationId));
+    return unifiedMarkers.filter(marker =>
+      marker.type === 'favorite' || marker.type === 'want-to-go' || singletonIds.has(marker.id)
+    );
+  }, [clusters, unifiedMarkers]);
+
+  // Clusters drawn as bubbles - singletons we already have a full marker for are skipped
+  const clusterBubbles = useMemo(() => {
+    if (!clusters) return [];
+    const markerIds = new Set(visibleMarkers.map(m => m.id));
+    return clusters.filter(c => !(c.count === 1 && c.locationId && markerIds.has(c.locationId)));
+  }, [clusters, visibleMarkers]);
+
+  // Zoom into a cluster until it splits apart
+  const handleClusterClick = useCallback((cluster: MapCluster) => {
+    if (!map) return;
+
+    const { south, west, north, east } = cluster.bounds;
+    if (north - south < 0.0001 && east - west < 0.0001) {
+      map.panTo({ lat: cluster.lat, lng: cluster.lng });
+      map.setZoom(Math.max(cluster.expansionZoom, CLUSTER_ZOOM_THRESHOLD));
+    } else {
+      map.fitBounds({ south, west, north, east }, 60);
+    }
+  }, [map]);
+
   // Add POI click listener (for Google POIs on the map)
   useEffect(() => {
     if (!map) return;
@@ -634,8 +726,23 @@ export function Map({
       // Support both placeId (camelCase from backend) and place_id (snake_case)
       const placeId = location.placeId || location.place_id;
       
-      // ❌ REMOVED: Special Michelin validation flow - no longer needed
-      // All Michelin data is now in locations table with proper Place IDs
+      // Michelin locations without a Place ID: offer a low-confidence Google
+      // match for crowd validation (confident matches are linked by discovery)
+      if (!placeId && location.michelinId) {
+        try {
+          const suggestion = await api.suggestPlaceForMichelin(Number(location.michelinId));
+          if (suggestion.needsReview && suggestion.suggestedPlace && suggestion.michelinData) {
+            setValidationPopup({
+              michelinData: suggestion.michelinData,
+              suggestedPlace: suggestion.suggestedPlace,
+              confidenceScore: suggestion.confidenceScore ?? 0,
+            });
+            return;
+          }
+        } catch (error) {
+          console.error('Failed to load Place ID suggestion:', error);
+        }
+      }
       
       // If no place_id, create a minimal PlaceResult from LV data
       if (!placeId) {
@@ -810,6 +917,25 @@ export function Map({
                       }`} />
                     </div>
                   </button>
+
+                  {/* Closed Places Toggle */}
+                  <button
+                    onClick={() => {
+                      if (onClosedPlacesToggle) {
+                        onClosedPlacesToggle();
+                      }
+                    }}
+                    className="w-full flex items-center justify-between px-3 py-2.5 rounded-lg hover:bg-slate-100 transition-all"
+                  >
+                    <span className="text-sm font-medium text-gray-700">Closed Places</span>
+                    <div className={`w-10 h-6 rounded-full transition-all ${
+                      showClosedPlaces ? 'bg-gray-700' : 'bg-gray-300'
+                    }`}>
+                      <div className={`w-4 h-4 bg-white rounded-full shadow-md transition-all transform ${
+                        showClosedPlaces ? 'translate-x-5 translate-y-1' : 'translate-x-1 translate-y-1'
+                      }`} />
+                    </div>
+                  </button>
                 </div>
               </motion.div>
             )}
@@ -878,8 +1004,20 @@ export function Map({
           gestureHandling: 'greedy',
         }}
       >
+        {/* Cluster bubbles - zoomed-out views only */}
+        {clusterBubbles.map((cluster) => (
+          <AdvancedMarker
+            key={cluster.id}
+            position={{ lat: cluster.lat, lng: cluster.lng }}
+            onClick={() => handleClusterClick(cluster)}
+            zIndex={90}
+          >
+            <ClusterMarker cluster={cluster} />
+          </AdvancedMarker>
+        ))}
+
         {/* Unified Smart Markers - Single marker per location based on priority */}
-        {unifiedMarkers.map((marker, index) => {
+        {visibleMarkers.map((marker, index) => {
           const scale = showHeatMap ? 0.8 : 1;
 
           // ✅ SIMPLIFIED: All markers now have location data from locations table
@@ -1004,6 +1142,7 @@ export function Map({
               }}
               totalLVRatings={cityStats.totalLVRatings}
               totalFavorites={cityStats.totalFavorites}
+              onLocationClick={handleMarkerClick}
             />
           )}
         </div>
@@ -1070,20 +1209,32 @@ export function Map({
               // Close popup immediately to prevent hung state
               setValidationPopup(null);
 
-              // If auto-updated or confirmed, reload the locations
-              if (result.autoUpdated || status === 'confirmed') {
+              // The vote reached consensus and the Place ID was linked - reload the locations
+              if (result.autoUpdated) {
                 console.log('🔄 Place ID updated, refreshing locations...');
-                
+
                 // ✅ UPDATED: Trigger parent refresh to reload locations from database
                 if (onRefresh) {
                   onRefresh();
                 }
-                
+
                 // Show success message
                 toast.success('Location verified! You can now add LV ratings.');
+              } else {
+                toast.success('Thanks for your vote!', {
+                  description: result.status === 'contested'
+                    ? 'Votes are split - an editor will review this match.'
+                    : 'The match is linked once enough people agree.',
+                });
               }
-            } catch (error) {
+            } catch (error: any) {
               console.error('❌ Error submitting validation:', error);
+              if (error.status === 409) {
+                // Already linked or settled by someone else
+                setValidationPopup(null);
+                onRefresh?.();
+                return;
+              }
               toast.error('Failed to submit verification. Please try again.');
               // Still close the popup
               setValidationPopup(null);
@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Upload, RefreshCw, Pause, Play, Trash2, FileText } from 'lucide-react';
+import { toast } from 'sonner';
+import { api, type MichelinImportRun, type MichelinImportChange, type MichelinChangeType } from '../../utils/api';
+
+const BATCH_SIZE = 200;
+
+const CHANGE_LABELS: Record<MichelinChangeType, string> = {
+  new: 'New',
+  gained_star: 'Gained stars',
+  lost_star: 'Lost stars',
+  closed: 'Closed',
+  award_changed: 'Award changed',
+  updated: 'Details updated',
+};
+
+const CHANGE_COLORS: Record<MichelinChangeType, string> = {
+  new: 'bg-blue-50 border-blue-200 text-blue-900',
+  gained_star: 'bg-green-50 border-green-200 text-green-900',
+  lost_star: 'bg-red-50 border-red-200 text-red-900',
+  closed: 'bg-gray-100 border-gray-300 text-gray-900',
+  award_changed: 'bg-amber-50 border-amber-200 text-amber-900',
+  updated: 'bg-slate-50 border-slate-200 text-slate-900',
+};
+
+interface MichelinImportPanelProps {
+  onApplied?: () => void; // Refresh locations once an import finishes
+}
+
+export function MichelinImportPanel({ onApplied }: MichelinImportPanelProps) {
+  const [run, setRun] = useState<MichelinImportRun | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [partial, setPartial] = useState(false);
+  const [guideYear, setGuideYear] = useState(new Date().getFullYear());
+  const [isDiffing, setIsDiffing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [previewType, setPreviewType] = useState<MichelinChangeType | null>(null);
+  const [preview, setPreview] = useState<MichelinImportChange[]>([]);
+  const pauseRequested = useRef(false);
+
+  // Pick up an unfinished run so an interrupted import can be resumed
+  useEffect(() => {
+    api.getMichelinImportRuns()
+      .then(({ runs }) => setRun(runs[0] || null))
+      .catch(error => console.error('Failed to load Michelin import runs:', error));
+  }, []);
+
+  const isOpen = run?.status === 'pending' || run?.status === 'applying';
+
+  const handleDiff = async () => {
+    if (!file) return;
+    setIsDiffing(true);
+    setPreviewType(null);
+
+    try {
+      const data = await file.text();
+      const format = file.name.toLowerCase().endsWith('.json') || data.trimStart().startsWith('[') ? 'json' : 'csv';
+      const result = await api.startMichelinImport(format, data, partial, guideYear);
+      setRun(result.run);
+      setFile(null);
+
+      if (result.run.changeCount === 0) {
+        toast.success('Michelin data is already up to date');
+      } else {
+        toast.info(`Found ${result.run.changeCount.toLocaleString()} changes`, {
+          description: 'Review the diff, then apply it'
+        });
+      }
+    } catch (error: any) {
+      console.error('Failed to diff Michelin dataset:', error);
+      toast.error('Failed to read Michelin dataset', {
+        description: error.message || 'Please check the console for details'
+      });
+    } finally {
+      setIsDiffing(false);
+    }
+  };
+
+  const handlePreview = async (type: MichelinChangeType) => {
+    if (!run) return;
+    if (previewType === type) {
+      setPreviewType(null);
+      return;
+    }
+
+    setPreviewType(type);
+    setPreview([]);
+    try {
+      const result = await api.getMichelinImportRun(run.id, { type, limit: 50 });
+      setPreview(result.changes);
+    } catch (error) {
+      console.error('Failed to load import changes:', error);
+      toast.error('Failed to load changes');
+    }
+  };
+
+  const handleApply = async () => {
+    if (!run) return;
+    setIsApplying(true);
+    pauseRequested.current = false;
+
+    try {
+      let current = run;
+      let remaining = run.changeCount - run.appliedCount - run.failedCount;
+
+      while (remaining > 0 && !pauseRequested.current) {
+        const result = await api.applyMichelinImportBatch(current.id, BATCH_SIZE);
+        current = result.run;
+        remaining = result.remaining;
+        setRun(current);
+      }
+
+      if (remaining === 0) {
+        toast.success('Michelin import applied', {
+          description: `${current.appliedCount.toLocaleString()} changes applied${current.failedCount > 0 ? `, ${current.failedCount} failed` : ''}`
+        });
+        onApplied?.();
+      } else {
+        toast.info('Import paused - resume any time');
+      }
+    } catch (error: any) {
+      console.error('Failed to apply Michelin import:', error);
+      toast.error('Import stopped', {
+        description: `${error.message || 'Unknown error'} - resume to continue where it left off`
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!run || !confirm('Discard this import? Changes already applied are kept.')) return;
+    try {
+      const result = await api.discardMichelinImport(run.id);
+      setRun(result.run);
+      setPreviewType(null);
+    } catch (error: any) {
+      toast.error('Failed to discard import', { description: error.message });
+    }
+  };
+
+  const processed = run ? run.appliedCount + run.failedCount : 0;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-1">Import Michelin Guide Dataset</p>
+        <p className="text-xs text-muted-foreground mb-3">
+          Upload the Michelin dataset (CSV with the standard column headers, or a JSON array). It is compared
+          with the current data first, and linked locations pick up star changes when the diff is applied.
+        </p>
+
+        {!isOpen && (
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 px-3 py-2 border border-dashed border-gray-300 rounded-lg text-sm text-gray-600 cursor-pointer hover:bg-gray-50">
+              <FileText className="h-4 w-4 text-gray-400" />
+              <span className="truncate">{file ? file.name : 'Choose a .csv or .json file'}</span>
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              Guide year
+              <input
+                type="number"
+                min={1900}
+                max={2100}
+                value={guideYear}
+                onChange={(e) => setGuideYear(parseInt(e.target.value) || new Date().getFullYear())}
+                className="w-20 px-2 py-1 border border-gray-300 rounded-md text-xs"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              <input type="checkbox" checked={partial} onChange={(e) => setPartial(e.target.checked)} />
+              Partial dataset (don't mark missing restaurants as closed)
+            </label>
+            <button
+              onClick={handleDiff}
+              disabled={!file || isDiffing}
+              className={`inline-flex items-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium transition-all ${
+                !file || isDiffing
+                  ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                  : 'bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white shadow-md hover:shadow-lg'
+              }`}
+            >
+              {isDiffing ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              {isDiffing ? 'Comparing...' : 'Compare with database'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {run && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>
+              {isOpen ? 'Open import' : `Last import (${run.status})`} · {run.guideYear} guide · {run.totalRows.toLocaleString()} rows
+              {run.skippedRows > 0 && ` · ${run.skippedRows} skipped`}
+              {run.partial && ' · partial'}
+            </span>
+            <span>{new Date(run.createdAt).toLocaleString()}</span>
+          </div>
+
+          {/* Diff summary - click a tile to list its restaurants */}
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(CHANGE_LABELS) as MichelinChangeType[]).map(type => (
+              <button
+                key={type}
+                onClick={() => handlePreview(type)}
+                disabled={!run.summary[type]}
+                className={`text-left rounded-lg border p-2 ${CHANGE_COLORS[type]} ${previewType === type ? 'ring-2 ring-offset-1 ring-gray-400' : ''} disabled:opacity-50`}
+              >
+                <div className="text-lg font-semibold">{(run.summary[type] || 0).toLocaleString()}</div>
+                <div className="text-[11px]">{CHANGE_LABELS[type]}</div>
+              </button>
+            ))}
+          </div>
+          <p className="text-[11px] text-gray-500">
+            {(run.summary.unchanged || 0).toLocaleString()} unchanged
+            {run.summary.duplicates > 0 && ` · ${run.summary.duplicates} duplicate rows ignored`}
+          </p>
+
+          {previewType && (
+            <div className="max-h-48 overflow-y-auto border-t border-gray-100 pt-2 space-y-1">
+              {preview.map(change => (
+                <div key={change.id} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="truncate">
+                    <span className="font-medium text-gray-800">{change.name}</span>
+                    {change.location && <span className="text-gray-500"> · {change.location}</span>}
+                  </span>
+                  <span className={`flex-shrink-0 ${change.error ? 'text-red-600' : 'text-gray-500'}`}>
+                    {change.error || `${change.oldAward || '—'} → ${change.newAward || '—'}`}
+                  </span>
+                </div>
+              ))}
+              {run.summary[previewType] > preview.length && preview.length > 0 && (
+                <p className="text-[11px] text-gray-400">…and {(run.summary[previewType] - preview.length).toLocaleString()} more</p>
+              )}
+            </div>
+          )}
+
+          {/* Apply progress */}
+          {run.changeCount > 0 && (run.status !== 'pending' || isApplying) && (
+            <div className="space-y-1">
+              <div className="w-full bg-red-100 rounded-full h-2 overflow-hidden">
+                <div
+                  className="bg-red-600 h-full transition-all duration-300 ease-out"
+                  style={{ width: `${(processed / run.changeCount * 100).toFixed(1)}%` }}
+                />
+              </div>
+              <div className="flex items-center justify-between text-xs text-gray-600">
+                <span>{processed.toLocaleString()} / {run.changeCount.toLocaleString()} applied</span>
+                {run.failedCount > 0 && <span className="text-red-600">{run.failedCount} failed</span>}
+              </div>
+            </div>
+          )}
+
+          {isOpen && (
+            <div className="flex items-center gap-2">
+              {isApplying ? (
+                <button
+                  onClick={() => { pauseRequested.current = true; }}
+                  className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-gray-100 hover:bg-gray-200 text-gray-700"
+                >
+                  <Pause className="h-4 w-4" />
+                  Pause
+                </button>
+              ) : (
+                <button
+                  onClick={handleApply}
+                  className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-red-600 hover:bg-red-700 text-white"
+                >
+                  <Play className="h-4 w-4" />
+                  {run.status === 'applying' ? 'Resume import' : `Apply ${run.changeCount.toLocaleString()} changes`}
+                </button>
+              )}
+              <button
+                onClick={handleDiscard}
+                disabled={isApplying}
+                className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-100 disabled:opacity-50"
+              >
+                <Trash2 className="h-4 w-4" />
+                Discard
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
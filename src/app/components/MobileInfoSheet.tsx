@@ -4,15 +4,16 @@ import { motion, AnimatePresence, PanInfo, useMotionValue, useTransform } from '
 import { Award, Users, Star, ChevronLeft, ChevronRight, MapPin, Edit3, Navigation, Heart, Bookmark, Calendar, X, ExternalLink, Share2 } from 'lucide-react';
 import { EditorRatingModal } from './EditorRatingModal';
 import { api, type Location } from '../../utils/api';
+import { hasRole, type Role } from '../../utils/roles';
 import { MichelinFlower, MichelinStar, MichelinBib, MichelinPlate, MichelinGreenStar } from '@/app/components/MichelinIcons';
 import { GoogleReviewsModal } from './GoogleReviewsModal';
 import { PhotoGalleryModal } from './PhotoGalleryModal';
-import { projectId, publicAnonKey } from '/utils/supabase/info';
+import { RatingSlider } from './RatingSlider';
 
 interface MobileInfoSheetProps {
   place: google.maps.places.PlaceResult;
   onClose: () => void;
-  user: { id: string; email: string; name: string; role: 'user' | 'editor' } | null;
+  user: { id: string; email: string; name: string; role: Role } | null;
   isAuthenticated: boolean;
   onFavoriteToggle?: (locationId: string, placeData?: { name?: string; lat?: number; lng?: number; formatted_address?: string; place_id?: string }) => void;
   onWantToGoToggle?: (locationId: string, placeData?: { name?: string; lat?: number; lng?: number; formatted_address?: string; place_id?: string }) => void;
@@ -45,6 +46,10 @@ export function MobileInfoSheet({
   const [placeDetails, setPlaceDetails] = useState<any>(null);
   const [loadingDetails, setLoadingDetails] = useState(false);
   const [dragProgress, setDragProgress] = useState(0);
+  const [myRating, setMyRating] = useState<number | null>(null);
+  const [savingMyRating, setSavingMyRating] = useState(false);
+  const [crowdScore, setCrowdScore] = useState<number | null>(null);
+  const [crowdCount, setCrowdCount] = useState(0);
   const y = useMotionValue(0);
   const opacity = useTransform(y, [0, 300], [1, 0]);
 
@@ -74,6 +79,64 @@ export function MobileInfoSheet({
     setCurrentPhotoIndex(0);
   }, [place.place_id]);
 
+  // Load the signed-in user's own score for this LV location
+  useEffect(() => {
+    setMyRating(null);
+    setCrowdScore(lvLocation?.lvAvgUserScore ?? lvLocation?.lvCrowdsourceScore ?? null);
+    setCrowdCount(lvLocation?.lvUserRatingsCount || 0);
+
+    if (!isAuthenticated || !lvLocation?.id) return;
+
+    api.getMyRating(lvLocation.id)
+      .then(({ rating, lvAvgUserScore, lvUserRatingsCount }) => {
+        setMyRating(rating);
+        setCrowdScore(lvAvgUserScore);
+        setCrowdCount(lvUserRatingsCount || 0);
+      })
+      .catch((error) => {
+        console.error('Failed to load your rating:', error);
+        // Silently fail - user_ratings may not be set up yet
+      });
+  }, [lvLocation?.id, isAuthenticated]);
+
+  const handleMyRatingChange = async (rating: number) => {
+    if (!lvLocation?.id) return;
+
+    setSavingMyRating(true);
+    try {
+      const result = await api.setMyRating(lvLocation.id, rating);
+      setMyRating(result.rating);
+      setCrowdScore(result.lvAvgUserScore);
+      setCrowdCount(result.lvUserRatingsCount || 0);
+      toast.success(`Rated ${rating.toFixed(1)}/10!`);
+      onRefresh?.();
+    } catch (error: any) {
+      console.error('Failed to save your rating:', error);
+      toast.error('Failed to save rating. Please try again.');
+    } finally {
+      setSavingMyRating(false);
+    }
+  };
+
+  const handleClearMyRating = async () => {
+    if (!lvLocation?.id) return;
+
+    setSavingMyRating(true);
+    try {
+      const result = await api.deleteMyRating(lvLocation.id);
+      setMyRating(null);
+      setCrowdScore(result.lvAvgUserScore);
+      setCrowdCount(result.lvUserRatingsCount || 0);
+      toast.success('Your score was removed');
+      onRefresh?.();
+    } catch (error: any) {
+      console.error('Failed to remove your rating:', error);
+      toast.error('Failed to remove rating. Please try again.');
+    } finally {
+      setSavingMyRating(false);
+    }
+  };
+
   const nextPhoto = () => {
     setCurrentPhotoIndex((prev) => (prev + 1) % photos.length);
   };
@@ -158,20 +221,7 @@ export function MobileInfoSheet({
     
     setLoadingDetails(true);
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-48182530/google-places/${place.place_id}/details`,
-        {
-          headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
-          },
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch place details');
-      }
-      
-      const data = await response.json();
+      const data = await api.getGooglePlaceDetails(place.place_id);
       setPlaceDetails(data);
       console.log('📍 Fetched place details:', data);
     } catch (error) {
@@ -414,7 +464,7 @@ export function MobileInfoSheet({
 
             {/* Ratings */}
             <div className="space-y-3">
-              {lvLocation && (lvLocation.lvEditorsScore || lvLocation.lvCrowdsourceScore) && (
+              {lvLocation && (lvLocation.lvEditorsScore || crowdScore) && (
                 <>
                   {lvLocation.lvEditorsScore && (
                     <div className="flex items-center justify-between p-4 bg-gradient-to-r from-amber-50 to-orange-50 rounded-xl border border-amber-200">
@@ -433,7 +483,7 @@ export function MobileInfoSheet({
                     </div>
                   )}
 
-                  {lvLocation.lvCrowdsourceScore && (
+                  {crowdScore && (
                     <div className="flex items-center justify-between p-4 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl border border-blue-200">
                       <div className="flex items-center gap-3">
                         <div className="p-2 bg-blue-100 rounded-lg">
@@ -441,11 +491,13 @@ export function MobileInfoSheet({
                         </div>
                         <div>
                           <div className="text-xs font-medium text-blue-900 uppercase tracking-wide">LV Crowd Score</div>
-                          <div className="text-sm text-blue-700">Community favorite</div>
+                          <div className="text-sm text-blue-700">
+                            {crowdCount > 0 ? `${crowdCount} ${crowdCount === 1 ? 'rating' : 'ratings'}` : 'Community favorite'}
+                          </div>
                         </div>
                       </div>
                       <div className="text-3xl font-bold text-blue-900">
-                        {lvLocation.lvCrowdsourceScore.toFixed(1)}
+                        {crowdScore.toFixed(1)}
                       </div>
                     </div>
                   )}
@@ -523,6 +575,30 @@ export function MobileInfoSheet({
               )}
             </div>
 
+            {/* Your Score (signed-in users, LV locations only) */}
+            {isAuthenticated && lvLocation && (
+              <div className="p-4 bg-gray-50 rounded-xl border border-gray-200">
+                <div className="flex items-center justify-between mb-3">
+                  <div className="text-sm font-medium text-gray-700">Your score</div>
+                  {myRating !== null && (
+                    <button
+                      onClick={handleClearMyRating}
+                      disabled={savingMyRating}
+                      className="text-xs text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+                    >
+                      Clear
+                    </button>
+                  )}
+                </div>
+                <RatingSlider
+                  value={myRating ?? 0}
+                  onChange={handleMyRatingChange}
+                  disabled={savingMyRating}
+                  compact={true}
+                />
+              </div>
+            )}
+
             {/* Tags */}
             {lvLocation?.tags && lvLocation.tags.length > 0 && (
               <div>
@@ -562,7 +638,7 @@ export function MobileInfoSheet({
             </button>
 
             {/* Editor Button */}
-            {isAuthenticated && user?.role === 'editor' && (
+            {isAuthenticated && hasRole(user?.role, 'editor') && (
               <button 
                 onClick={() => setShowEditorModal(true)}
                 className="w-full flex items-center justify-center gap-2 py-4 bg-amber-500 hover:bg-amber-600 text-white rounded-xl font-medium transition-all"
@@ -583,6 +659,8 @@ export function MobileInfoSheet({
             currentMichelinScore={lvLocation?.michelinScore}
             currentTags={lvLocation?.tags || []}
             michelinId={lvLocation?.michelinId}
+            currentStatus={lvLocation ? lvLocation.status || 'open' : undefined}
+            currentSuccessorId={lvLocation?.successorLocationId}
             placeData={{
               name: place.name || 'Unknown Place',
               lat,
@@ -5,18 +5,23 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { X, Download, Trash2, RefreshCw, Activity, AlertCircle, MousePointer, TrendingUp } from 'lucide-react';
+import { X, Download, Trash2, RefreshCw, Activity, AlertCircle, MousePointer, TrendingUp, Server, Globe, Bell } from 'lucide-react';
 import { monitor } from '../../utils/monitoring';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { ServerMetricsPanel } from './ServerMetricsPanel';
+import { FieldDataPanel } from './FieldDataPanel';
+import { AlertsPanel } from './AlertsPanel';
+import type { Role } from '../../utils/roles';
 
 interface MonitoringDashboardProps {
   isOpen: boolean;
   onClose: () => void;
+  userRole?: Role | null;
 }
 
-export function MonitoringDashboard({ isOpen, onClose }: MonitoringDashboardProps) {
+export function MonitoringDashboard({ isOpen, onClose, userRole }: MonitoringDashboardProps) {
   const [summary, setSummary] = useState<any>(null);
   const [refreshKey, setRefreshKey] = useState(0);
 
@@ -106,6 +111,18 @@ export function MonitoringDashboard({ isOpen, onClose }: MonitoringDashboardProp
                 <MousePointer className="w-4 h-4 mr-2" />
                 User Actions
               </TabsTrigger>
+              <TabsTrigger value="server">
+                <Server className="w-4 h-4 mr-2" />
+                Server
+              </TabsTrigger>
+              <TabsTrigger value="field">
+                <Globe className="w-4 h-4 mr-2" />
+                Field data
+              </TabsTrigger>
+              <TabsTrigger value="alerts">
+                <Bell className="w-4 h-4 mr-2" />
+                Alerts
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="overview" className="space-y-4">
@@ -378,6 +395,18 @@ export function MonitoringDashboard({ isOpen, onClose }: MonitoringDashboardProp
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="server">
+              <ServerMetricsPanel />
+            </TabsContent>
+
+            <TabsContent value="field">
+              <FieldDataPanel />
+            </TabsContent>
+
+            <TabsContent value="alerts">
+              <AlertsPanel userRole={userRole} />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
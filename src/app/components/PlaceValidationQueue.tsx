@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { Check, ExternalLink, Loader2, RefreshCw, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { api, type PlaceSuggestionReview, type PlaceSuggestionStatus } from '../../utils/api';
+
+const QUEUE_TABS: { status: PlaceSuggestionStatus; label: string }[] = [
+  { status: 'contested', label: 'Contested' },
+  { status: 'pending', label: 'Awaiting votes' },
+];
+
+interface PlaceValidationQueueProps {
+  onResolved?: () => void; // Refresh locations after a link is applied
+}
+
+/**
+ * Crowd-validated Place ID matches that need an editor: split votes
+ * ('contested') or ones still short of quorum. Linking or blacklisting here
+ * overrides the vote.
+ */
+export function PlaceValidationQueue({ onResolved }: PlaceValidationQueueProps) {
+  const [status, setStatus] = useState<PlaceSuggestionStatus>('contested');
+  const [suggestions, setSuggestions] = useState<PlaceSuggestionReview[]>([]);
+  const [config, setConfig] = useState<{ quorum: number; threshold: number } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  const loadQueue = async () => {
+    setLoading(true);
+    try {
+      const result = await api.getPlaceValidationQueue(status);
+      setSuggestions(result.suggestions);
+      setConfig(result.config);
+    } catch (error) {
+      console.error('Failed to load Place ID review queue:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadQueue();
+  }, [status]);
+
+  const handleResolve = async (suggestion: PlaceSuggestionReview, decision: 'apply' | 'blacklist') => {
+    const key = `${suggestion.michelinId}:${suggestion.placeId}`;
+    setResolving(key);
+    try {
+      await api.resolveMichelinPlace(suggestion.michelinId, suggestion.placeId, decision);
+      setSuggestions(current => current.filter(item => item !== suggestion));
+      toast.success(decision === 'apply' ? 'Place ID linked' : 'Suggestion blacklisted', {
+        description: suggestion.restaurant?.name,
+      });
+      if (decision === 'apply') onResolved?.();
+    } catch (error: any) {
+      console.error('Failed to resolve Place ID suggestion:', error);
+      toast.error('Failed to resolve suggestion', { description: error.message });
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-1">Place ID Review Queue</p>
+        <p className="text-xs text-muted-foreground">
+          Crowd votes link a match once {config ? `${config.quorum} weighted votes agree ${Math.round(config.threshold * 100)}%` : 'enough people agree'}.
+          Split decisions land here.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        {QUEUE_TABS.map(tab => (
+          <button
+            key={tab.status}
+            onClick={() => setStatus(tab.status)}
+            className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
+              status === tab.status ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+        <button
+          onClick={loadQueue}
+          disabled={loading}
+          className="ml-auto p-1.5 rounded-lg text-gray-500 hover:bg-gray-100"
+          title="Refresh"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {!loading && suggestions.length === 0 && (
+        <p className="text-xs text-muted-foreground py-2">Nothing to review.</p>
+      )}
+
+      <div className="space-y-2">
+        {suggestions.map(suggestion => {
+          const key = `${suggestion.michelinId}:${suggestion.placeId}`;
+          const busy = resolving === key;
+
+          return (
+            <div key={key} className="border border-gray-200 rounded-lg p-3 flex items-start gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {suggestion.restaurant?.name || `Michelin #${suggestion.michelinId}`}
+                </p>
+                {suggestion.restaurant?.address && (
+                  <p className="text-xs text-muted-foreground truncate">{suggestion.restaurant.address}</p>
+                )}
+                <a
+                  href={`https://www.google.com/maps/place/?q=place_id:${suggestion.placeId}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline mt-1"
+                >
+                  Suggested place
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+                <p className="text-[11px] text-gray-500 mt-1">
+                  {suggestion.votes.confirmed} confirm · {suggestion.votes.rejected} reject · {suggestion.votes.unsure} unsure
+                  {' '}({suggestion.votes.voters} {suggestion.votes.voters === 1 ? 'voter' : 'voters'})
+                </p>
+              </div>
+
+              <div className="flex items-center gap-1.5">
+                {busy ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                ) : (
+                  <>
+                    <button
+                      onClick={() => handleResolve(suggestion, 'apply')}
+                      className="p-2 rounded-lg bg-green-50 text-green-700 hover:bg-green-100"
+                      title="Link this place"
+                    >
+                      <Check className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleResolve(suggestion, 'blacklist')}
+                      className="p-2 rounded-lg bg-red-50 text-red-700 hover:bg-red-100"
+                      title="Never suggest this place again"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
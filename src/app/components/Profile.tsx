@@ -1,10 +1,22 @@
 import React from 'react';
-import { User as UserIcon, Mail, Shield, Calendar, MapPin, RefreshCw, Star, Loader2 } from 'lucide-react';
+import { User as UserIcon, Mail, Shield, Calendar, MapPin, Star, Loader2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import type { User } from '../../utils/api';
-import { toast } from 'sonner';
-import { api } from '../../utils/api';
 import { AdminStatsPanel } from './AdminStatsPanel';
+import { GoogleUsagePanel } from './GoogleUsagePanel';
+import { AdminPanel } from './AdminPanel';
+import { MichelinImportPanel } from './MichelinImportPanel';
+import { BackgroundJobCard } from './BackgroundJobCard';
+import { PlaceValidationQueue } from './PlaceValidationQueue';
+import { DuplicateLocationsPanel } from './DuplicateLocationsPanel';
+import { hasRole, ROLE_LABELS, type Role } from '../../utils/roles';
+
+const ACCOUNT_TYPES: Record<Role, string> = {
+  user: 'Standard User',
+  contributor: 'Contributor (can link Michelin places)',
+  editor: 'LV Editor (can add locations)',
+  admin: 'Administrator (manages roles)',
+};
 
 interface ProfileProps {
   user: User;
@@ -23,218 +35,6 @@ export function Profile({
   wantToGoCount = 0,
   onMichelinSyncComplete,
 }: ProfileProps) {
-  const [isSyncing, setIsSyncing] = React.useState(false);
-  const [syncProgress, setSyncProgress] = React.useState<{
-    total: number;
-    current: number;
-    imported: number;
-    added: number;
-  } | null>(null);
-
-  const [isDiscovering, setIsDiscovering] = React.useState(false);
-  const [discoveryProgress, setDiscoveryProgress] = React.useState<{
-    total: number;
-    current: number;
-    discovered: number;
-  } | null>(null);
-
-  const [isBackfilling, setIsBackfilling] = React.useState(false);
-
-  const handleMichelinSyncBatch = async () => {
-    setIsSyncing(true);
-    setSyncProgress(null);
-    
-    try {
-      const BATCH_SIZE = 1000; // Process 1000 restaurants at a time
-      let offset = 0;
-      let totalAvailable = 0;
-      let totalAdded = 0;
-      let totalImported = 0;
-      let hasMore = true;
-
-      toast.info('Starting Michelin Guide batch import...', {
-        description: 'This will import all 18,000+ restaurants in batches'
-      });
-
-      // First batch to get total count
-      while (hasMore) {
-        console.log(`🔄 Syncing batch at offset ${offset}...`);
-        
-        const result = await api.syncMichelinData(offset, BATCH_SIZE);
-        
-        console.log('✅ Batch sync result:', result);
-        
-        if (!result.success) {
-          toast.error('Batch sync failed', {
-            description: result.message
-          });
-          break;
-        }
-
-        totalAvailable = result.totalAvailable || 0;
-        totalAdded += result.added || 0;
-        totalImported += result.imported || 0;
-
-        // Update progress
-        setSyncProgress({
-          total: totalAvailable,
-          current: offset + (result.imported || 0),
-          imported: totalImported,
-          added: totalAdded
-        });
-
-        // Move to next batch
-        offset += BATCH_SIZE;
-
-        // Check if we've processed all data
-        if (offset >= totalAvailable) {
-          hasMore = false;
-        }
-
-        // Show progress toast
-        toast.info(`Import progress: ${Math.min(offset, totalAvailable)}/${totalAvailable}`, {
-          description: `Added ${totalAdded} new restaurants`
-        });
-
-        // Small delay to avoid overwhelming the server
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
-
-      toast.success('Michelin Guide import complete!', {
-        description: `Successfully imported ${totalImported} restaurants, added ${totalAdded} new entries`
-      });
-
-      // Refresh locations on the map
-      if (onMichelinSyncComplete) {
-        onMichelinSyncComplete();
-      }
-    } catch (error: any) {
-      console.error('Failed to sync Michelin data:', error);
-      toast.error('Failed to sync Michelin data', {
-        description: error.message || 'Please check the console for details'
-      });
-    } finally {
-      setIsSyncing(false);
-      setSyncProgress(null);
-    }
-  };
-
-  const handleMichelinPlaceIdDiscovery = async () => {
-    setIsDiscovering(true);
-    setDiscoveryProgress(null);
-    
-    try {
-      const BATCH_SIZE = 50; // Process 50 restaurants at a time to avoid API rate limits
-      let offset = 0;
-      let totalProcessed = 0;
-      let totalDiscovered = 0;
-      let hasMore = true;
-
-      toast.info('Starting Google Place ID discovery...', {
-        description: 'This will enrich Michelin restaurants with Google Place IDs'
-      });
-
-      while (hasMore) {
-        console.log(`🔍 Discovering Place IDs at offset ${offset}...`);
-        
-        const result = await api.discoverMichelinPlaceIds(offset, BATCH_SIZE);
-        
-        console.log('✅ Discovery result:', result);
-        
-        if (!result.success) {
-          toast.error('Place ID discovery failed', {
-            description: result.message
-          });
-          break;
-        }
-
-        totalProcessed += result.processed;
-        totalDiscovered += result.discovered;
-
-        // Update progress
-        setDiscoveryProgress({
-          total: totalProcessed + BATCH_SIZE, // Estimate total
-          current: totalProcessed,
-          discovered: totalDiscovered
-        });
-
-        // If we processed less than BATCH_SIZE, we're done
-        if (result.processed < BATCH_SIZE) {
-          hasMore = false;
-        } else {
-          // Move to next batch
-          offset += BATCH_SIZE;
-          
-          // Show progress toast
-          toast.info(`Discovery progress: ${totalProcessed} processed`, {
-            description: `Found ${totalDiscovered} Google Place IDs`
-          });
-          
-          // Delay to avoid rate limiting (Google Places API has rate limits)
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
-      }
-
-      toast.success('Place ID discovery complete!', {
-        description: `Discovered ${totalDiscovered} Place IDs out of ${totalProcessed} restaurants`
-      });
-
-      // Refresh locations on the map
-      if (onMichelinSyncComplete) {
-        onMichelinSyncComplete();
-      }
-    } catch (error: any) {
-      console.error('Failed to discover Place IDs:', error);
-      toast.error('Failed to discover Place IDs', {
-        description: error.message || 'Please check the console for details'
-      });
-    } finally {
-      setIsDiscovering(false);
-      setDiscoveryProgress(null);
-    }
-  };
-
-  const handleBackfillMichelinData = async () => {
-    setIsBackfilling(true);
-    
-    try {
-      toast.info('Starting Michelin data backfill to locations...', {
-        description: 'This will sync validated Michelin restaurants to the locations table'
-      });
-
-      console.log('🔄 Calling backfillMichelinLocations API...');
-      const result = await api.backfillMichelinLocations();
-      
-      console.log('✅ Backfill result:', result);
-      
-      if (!result.success) {
-        const errorMsg = result.error || result.details || 'Unknown error';
-        console.error('❌ Backfill failed:', errorMsg);
-        toast.error('Backfill failed', {
-          description: errorMsg
-        });
-        return;
-      }
-
-      toast.success('Michelin data backfill complete!', {
-        description: `Updated ${result.updated} locations, created ${result.created} new locations${result.errors > 0 ? ` (${result.errors} errors)` : ''}`
-      });
-
-      // Refresh locations on the map
-      if (onMichelinSyncComplete) {
-        onMichelinSyncComplete();
-      }
-    } catch (error: any) {
-      console.error('Failed to backfill Michelin data:', error);
-      const errorMsg = error?.message || error?.error || error?.details || 'Please check the console for details';
-      toast.error('Failed to backfill Michelin data', {
-        description: errorMsg
-      });
-    } finally {
-      setIsBackfilling(false);
-    }
-  };
-
   return (
     <div className="space-y-6">
       {/* Profile Header */}
@@ -254,11 +54,11 @@ export function Profile({
             
             {/* Role Badge */}
             <div className={`px-4 py-1.5 rounded-full text-xs font-medium ${
-              user.role === 'editor' 
+              hasRole(user.role, 'editor') 
                 ? 'bg-amber-100 text-amber-800' 
                 : 'bg-slate-100 text-slate-700'
             }`}>
-              {user.role === 'editor' ? '✨ LV Editor' : 'Voyageur'}
+              {ROLE_LABELS[user.role] ?? 'Voyageur'}
             </div>
           </div>
         </CardContent>
@@ -283,7 +83,7 @@ export function Profile({
             <div>
               <p className="text-sm font-medium text-gray-700">Account Type</p>
               <p className="text-sm text-muted-foreground">
-                {user.role === 'editor' ? 'LV Editor (can add locations)' : 'Standard User'}
+                {ACCOUNT_TYPES[user.role] ?? 'Standard User'}
               </p>
             </div>
           </div>
@@ -359,13 +159,23 @@ export function Profile({
         </CardContent>
       </Card>
 
+      {/* User roles - Admin Only */}
+      {hasRole(user.role, 'admin') && (
+        <AdminPanel currentUser={user} />
+      )}
+
+      {/* Google API Usage - Admin Only */}
+      {hasRole(user.role, 'admin') && (
+        <GoogleUsagePanel />
+      )}
+
       {/* Admin Stats Panel - Editor Only */}
-      {user.role === 'editor' && (
+      {hasRole(user.role, 'editor') && (
         <AdminStatsPanel />
       )}
 
       {/* Michelin Guide Data Management - Editor Only */}
-      {user.role === 'editor' && (
+      {hasRole(user.role, 'editor') && (
         <Card>
           <CardHeader>
             <CardTitle className="text-lg flex items-center gap-2">
@@ -375,138 +185,50 @@ export function Profile({
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              <div className="flex items-start gap-3">
-                <div className="flex-1">
-                  <p className="text-sm font-medium text-gray-700 mb-1">Sync Michelin Guide Database</p>
-                  <p className="text-xs text-muted-foreground mb-3">
-                    Updates the Le Voyageur database with the latest Michelin Guide restaurants worldwide. 
-                    This data is publicly available to all users after syncing.
-                  </p>
-                  <button
-                    onClick={handleMichelinSyncBatch}
-                    disabled={isSyncing}
-                    className={`inline-flex items-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium transition-all ${
-                      isSyncing
-                        ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
-                        : 'bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white shadow-md hover:shadow-lg'
-                    }`}
-                  >
-                    <RefreshCw className={`h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
-                    {isSyncing ? 'Syncing Michelin Guide...' : 'Sync Michelin Guide'}
-                  </button>
-                </div>
-              </div>
-              
-              {/* Progress Bar */}
-              {syncProgress && (
-                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-2">
-                  <div className="flex items-center justify-between text-sm">
-                    <span className="font-medium text-blue-900">Import Progress</span>
-                    <span className="text-blue-700">
-                      {syncProgress.current.toLocaleString()} / {syncProgress.total.toLocaleString()}
-                    </span>
-                  </div>
-                  <div className="w-full bg-blue-200 rounded-full h-2 overflow-hidden">
-                    <div 
-                      className="bg-blue-600 h-full transition-all duration-300 ease-out"
-                      style={{ width: `${(syncProgress.current / syncProgress.total * 100).toFixed(1)}%` }}
-                    />
-                  </div>
-                  <div className="flex items-center justify-between text-xs text-blue-700">
-                    <span>Processed: {syncProgress.imported.toLocaleString()}</span>
-                    <span>New entries: {syncProgress.added.toLocaleString()}</span>
-                  </div>
-                </div>
-              )}
-              
-              {/* Info Box */}
-              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
-                <p className="text-xs text-amber-800">
-                  <strong>Note:</strong> The full import of 18,000+ restaurants will take several minutes. 
-                  All synced Michelin ratings will be visible on the map with special red star markers.
-                </p>
-              </div>
+              <MichelinImportPanel onApplied={onMichelinSyncComplete} />
               
               {/* Divider */}
               <div className="border-t border-gray-200 my-4" />
               
               {/* Google Place ID Discovery */}
-              <div className="flex items-start gap-3">
-                <div className="flex-1">
-                  <p className="text-sm font-medium text-gray-700 mb-1">Discover Google Place IDs</p>
-                  <p className="text-xs text-muted-foreground mb-3">
-                    Enriches Michelin restaurant data with accurate Google Place IDs for better integration. 
-                    This process uses the Google Places API and may take time.
-                  </p>
-                  <button
-                    onClick={handleMichelinPlaceIdDiscovery}
-                    disabled={isDiscovering || isSyncing}
-                    className={`inline-flex items-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium transition-all ${
-                      isDiscovering || isSyncing
-                        ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
-                        : 'bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white shadow-md hover:shadow-lg'
-                    }`}
-                  >
-                    <MapPin className={`h-4 w-4 ${isDiscovering ? 'animate-pulse' : ''}`} />
-                    {isDiscovering ? 'Discovering Place IDs...' : 'Discover Place IDs'}
-                  </button>
-                </div>
-              </div>
-              
-              {/* Discovery Progress Bar */}
-              {discoveryProgress && (
-                <div className="bg-green-50 border border-green-200 rounded-lg p-4 space-y-2">
-                  <div className="flex items-center justify-between text-sm">
-                    <span className="font-medium text-green-900">Discovery Progress</span>
-                    <span className="text-green-700">
-                      {discoveryProgress.current.toLocaleString()} processed
-                    </span>
-                  </div>
-                  <div className="w-full bg-green-200 rounded-full h-2 overflow-hidden">
-                    <div 
-                      className="bg-green-600 h-full transition-all duration-300 ease-out animate-pulse"
-                      style={{ width: '100%' }}
-                    />
-                  </div>
-                  <div className="flex items-center justify-between text-xs text-green-700">
-                    <span>Place IDs found: {discoveryProgress.discovered.toLocaleString()}</span>
-                    <span>{Math.round((discoveryProgress.discovered / Math.max(1, discoveryProgress.current)) * 100)}% success rate</span>
-                  </div>
-                </div>
-              )}
+              <BackgroundJobCard
+                type="michelin-place-discovery"
+                title="Discover Google Place IDs"
+                description="Enriches Michelin restaurant data with accurate Google Place IDs for better integration. Runs on the server in batches - you can close this page and come back to it."
+                startLabel="Discover Place IDs"
+                icon={MapPin}
+                accent="blue"
+                counterLabels={{ discovered: 'found', needsReview: 'need review', unmatched: 'not found', errors: 'errors' }}
+                onDone={onMichelinSyncComplete}
+              />
               
               {/* Info Box for Place ID Discovery */}
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
                 <p className="text-xs text-blue-800">
-                  <strong>Tip:</strong> Run this after syncing Michelin data to link restaurants with Google Places for richer information and accurate InfoWindows.
+                  <strong>Tip:</strong> Run this after importing Michelin data to link restaurants with Google Places for richer information and accurate InfoWindows.
                 </p>
               </div>
               
               {/* Divider */}
               <div className="border-t border-gray-200 my-4" />
               
+              {/* Crowd-validated Place IDs needing an editor */}
+              <PlaceValidationQueue onResolved={onMichelinSyncComplete} />
+              
+              {/* Divider */}
+              <div className="border-t border-gray-200 my-4" />
+              
               {/* Backfill Michelin Data */}
-              <div className="flex items-start gap-3">
-                <div className="flex-1">
-                  <p className="text-sm font-medium text-gray-700 mb-1">Backfill Michelin Locations</p>
-                  <p className="text-xs text-muted-foreground mb-3">
-                    Syncs validated Michelin restaurants to the locations table. This creates or updates locations 
-                    with Michelin stars, Bib Gourmand, and other distinctions for display on the map.
-                  </p>
-                  <button
-                    onClick={handleBackfillMichelinData}
-                    disabled={isBackfilling || isDiscovering || isSyncing}
-                    className={`inline-flex items-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium transition-all ${
-                      isBackfilling || isDiscovering || isSyncing
-                        ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
-                        : 'bg-gradient-to-r from-green-600 to-green-700 hover:from-green-700 hover:to-green-800 text-white shadow-md hover:shadow-lg'
-                    }`}
-                  >
-                    <Loader2 className={`h-4 w-4 ${isBackfilling ? 'animate-spin' : ''}`} />
-                    {isBackfilling ? 'Backfilling Locations...' : 'Backfill to Locations'}
-                  </button>
-                </div>
-              </div>
+              <BackgroundJobCard
+                type="michelin-backfill"
+                title="Backfill Michelin Locations"
+                description="Syncs validated Michelin restaurants to the locations table. This creates or updates locations with Michelin stars, Bib Gourmand, and other distinctions for display on the map."
+                startLabel="Backfill to Locations"
+                icon={Loader2}
+                accent="green"
+                counterLabels={{ updated: 'updated', created: 'created', skipped: 'skipped', errors: 'errors' }}
+                onDone={onMichelinSyncComplete}
+              />
               
               {/* Info Box for Backfill */}
               <div className="bg-purple-50 border border-purple-200 rounded-lg p-3">
@@ -515,6 +237,12 @@ export function Profile({
                   to the locations table. This is the final step to make Michelin restaurants visible on the map.
                 </p>
               </div>
+              
+              {/* Divider */}
+              <div className="border-t border-gray-200 my-4" />
+              
+              {/* Duplicate finder and merge tool */}
+              <DuplicateLocationsPanel onMerged={onMichelinSyncComplete} />
             </div>
           </CardContent>
         </Card>
@@ -72,6 +72,9 @@ export function SearchAutocomplete({ onPlaceSelect, onTagSelect, onClear, mapBou
   const inputRef = useRef<HTMLInputElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const places = useMapsLibrary('places');
+  // One token from the first keystroke to the picked place's details, so
+  // Google bills the autocomplete requests as a single session
+  const sessionTokenRef = useRef<unknown>(null);
   
   // 🚀 Cache all locations to avoid fetching 3x per search
   const [allLocationsCache, setAllLocationsCache] = useState<Location[]>([]);
@@ -140,7 +143,11 @@ export function SearchAutocomplete({ onPlaceSelect, onTagSelect, onClear, mapBou
           );
           
           // Access AutocompleteSuggestion from the places library
-          const { AutocompleteSuggestion } = await google.maps.importLibrary("places") as any;
+          const { AutocompleteSuggestion, AutocompleteSessionToken } = await google.maps.importLibrary("places") as any;
+          if (!sessionTokenRef.current) {
+            sessionTokenRef.current = new AutocompleteSessionToken();
+          }
+          request.sessionToken = sessionTokenRef.current;
           const autocompletePromise = AutocompleteSuggestion.fetchAutocompleteSuggestions(request);
           
           // Race between API call and timeout
@@ -159,7 +166,9 @@ export function SearchAutocomplete({ onPlaceSelect, onTagSelect, onClear, mapBou
                 structured_formatting: {
                   main_text: placePrediction?.structuredFormat?.mainText?.text || placePrediction?.mainText?.text || placePrediction?.text?.text || 'Unknown',
                   secondary_text: placePrediction?.structuredFormat?.secondaryText?.text || placePrediction?.secondaryText?.text || '',
-                }
+                },
+                // toPlace() keeps the session token for the details request
+                placePrediction,
               };
             }).filter(p => p.place_id && p.description); // Filter out invalid predictions
             
@@ -389,12 +398,16 @@ export function SearchAutocomplete({ onPlaceSelect, onTagSelect, onClear, mapBou
     setSupabaseTags([]);
     setMichelinLocations([]);
     setLvLocations([]);
+    // The details request below ends the session; the next search starts a new one
+    sessionTokenRef.current = null;
 
     try {
       // Use the new Place API instead of deprecated PlacesService
       const { Place } = await google.maps.importLibrary("places") as google.maps.PlacesLibrary;
       
-      const place = new Place({
+      // Autocomplete predictions carry their session; text search results don't
+      const placePrediction = (prediction as any).placePrediction;
+      const place = placePrediction ? placePrediction.toPlace() : new Place({
         id: prediction.place_id,
       });
 
@@ -638,6 +651,7 @@ export function SearchAutocomplete({ onPlaceSelect, onTagSelect, onClear, mapBou
   };
 
   const handleClear = () => {
+    sessionTokenRef.current = null;
     setSearchValue('');
     setGooglePredictions([]);
     setGoogleTextSearchResults([]);
@@ -0,0 +1,312 @@
+import React, { useState, useEffect } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+  type ChartConfig,
+} from './ui/chart';
+import { api, type MetricsHistory, type MetricsBreakdownEntry } from '../../utils/api';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const RANGE_OPTIONS = [
+  { label: '1h', ms: HOUR_MS },
+  { label: '6h', ms: 6 * HOUR_MS },
+  { label: '24h', ms: 24 * HOUR_MS },
+  { label: '7d', ms: 7 * 24 * HOUR_MS },
+] as const;
+
+const latencyChartConfig = {
+  p50Ms: { label: 'p50', color: '#22c55e' },
+  p95Ms: { label: 'p95', color: '#f59e0b' },
+  p99Ms: { label: 'p99', color: '#ef4444' },
+} satisfies ChartConfig;
+
+const trafficChartConfig = {
+  requests: { label: 'Requests', color: '#3b82f6' },
+  errors: { label: 'Errors', color: '#ef4444' },
+} satisfies ChartConfig;
+
+// Minute steps show the time, coarser ones the date too
+const formatStep = (time: string, stepMinutes: number) =>
+  new Date(time).toLocaleString(undefined, stepMinutes >= 360
+    ? { month: 'short', day: 'numeric', hour: 'numeric' }
+    : { hour: 'numeric', minute: '2-digit' });
+
+const formatMs = (ms: number | null) => (ms == null ? '—' : `${Math.round(ms)}ms`);
+
+function BreakdownTable({ title, entries, onSelect }: {
+  title: string;
+  entries: MetricsBreakdownEntry[];
+  onSelect?: (name: string) => void;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-center text-gray-500 py-6 text-sm">Nothing recorded in this range</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b">
+                  <th className="py-2 pr-4 font-medium">Name</th>
+                  <th className="py-2 px-2 font-medium text-right">Count</th>
+                  <th className="py-2 px-2 font-medium text-right">Errors</th>
+                  <th className="py-2 px-2 font-medium text-right">p50</th>
+                  <th className="py-2 px-2 font-medium text-right">p95</th>
+                  <th className="py-2 pl-2 font-medium text-right">p99</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr
+                    key={entry.name}
+                    onClick={() => onSelect?.(entry.name)}
+                    className={`border-b last:border-0 ${onSelect ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                  >
+                    <td className="py-2 pr-4 font-mono text-xs break-all">{entry.name}</td>
+                    <td className="py-2 px-2 text-right">{entry.requests.toLocaleString()}</td>
+                    <td className={`py-2 px-2 text-right ${entry.errors > 0 ? 'text-red-600 font-medium' : ''}`}>
+                      {entry.errors > 0 ? `${entry.errors} (${(entry.errorRate * 100).toFixed(1)}%)` : '0'}
+                    </td>
+                    <td className="py-2 px-2 text-right">{formatMs(entry.p50Ms)}</td>
+                    <td className="py-2 px-2 text-right">{formatMs(entry.p95Ms)}</td>
+                    <td className={`py-2 pl-2 text-right ${entry.p99Ms != null && entry.p99Ms > 1000 ? 'text-red-600 font-medium' : ''}`}>
+                      {formatMs(entry.p99Ms)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ThrottleTable({ entries }: { entries: MetricsBreakdownEntry[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Rate Limiting</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-center text-gray-500 py-6 text-sm">No rate-limited requests in this range</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b">
+                <th className="py-2 pr-4 font-medium">Policy</th>
+                <th className="py-2 px-2 font-medium text-right">Checked</th>
+                <th className="py-2 pl-2 font-medium text-right">Throttled (429)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <tr key={entry.name} className="border-b last:border-0">
+                  <td className="py-2 pr-4 font-mono text-xs">{entry.name}</td>
+                  <td className="py-2 px-2 text-right">{entry.requests.toLocaleString()}</td>
+                  <td className={`py-2 pl-2 text-right ${entry.errors > 0 ? 'text-amber-600 font-medium' : ''}`}>
+                    {entry.errors > 0 ? `${entry.errors.toLocaleString()} (${(entry.errorRate * 100).toFixed(1)}%)` : '0'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Server-side request and database history from the persisted per-minute
+ * rollups (every function instance, not just the one that answered)
+ */
+export function ServerMetricsPanel() {
+  const [rangeMs, setRangeMs] = useState<number>(HOUR_MS);
+  const [route, setRoute] = useState<string>('');
+  const [history, setHistory] = useState<MetricsHistory | null>(null);
+  const [routeNames, setRouteNames] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadHistory();
+  }, [rangeMs, route]);
+
+  const loadHistory = async () => {
+    setLoading(true);
+    try {
+      const to = new Date();
+      const result = await api.getMetrics({ from: new Date(to.getTime() - rangeMs), to, route: route || undefined });
+      setHistory(result.history);
+      // Keep the full route list while one route is selected
+      if (!route) setRouteNames(result.history.routes.map(entry => entry.name).sort());
+      setError(null);
+    } catch (err: any) {
+      console.error('Failed to load server metrics:', err);
+      setError(err.status === 403 ? 'Server metrics are available to editors' : err.message || 'Failed to load server metrics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const stepMinutes = history?.stepMinutes || 1;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {RANGE_OPTIONS.map(option => (
+          <button
+            key={option.label}
+            onClick={() => setRangeMs(option.ms)}
+            className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
+              rangeMs === option.ms ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        <select
+          value={route}
+          onChange={(e) => setRoute(e.target.value)}
+          className="ml-2 px-2 py-1.5 border border-gray-300 rounded-lg text-xs max-w-xs"
+        >
+          <option value="">All routes</option>
+          {routeNames.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <button
+          onClick={loadHistory}
+          disabled={loading}
+          className="ml-auto p-1.5 rounded-lg text-gray-500 hover:bg-gray-100"
+          title="Refresh"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {history && (
+        <>
+          {history.truncated && (
+            <p className="text-xs text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
+              This range has more data than one query reads - the oldest minutes are left out. Pick a shorter range or one route.
+            </p>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Request Latency{route ? ` · ${route}` : ''}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={latencyChartConfig} className="aspect-auto h-56 w-full">
+                <LineChart data={history.series.route} margin={{ left: -10, right: 8, top: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="time"
+                    tickLine={false}
+                    axisLine={false}
+                    minTickGap={32}
+                    tickFormatter={(value) => formatStep(String(value), stepMinutes)}
+                  />
+                  <YAxis tickLine={false} axisLine={false} width={50} unit="ms" />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatStep(String(value), stepMinutes)} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {(Object.keys(latencyChartConfig) as Array<keyof typeof latencyChartConfig>).map(key => (
+                    <Line
+                      key={key}
+                      dataKey={key}
+                      type="monotone"
+                      stroke={`var(--color-${key})`}
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls={false}
+                    />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Traffic (per {stepMinutes >= 60 ? `${stepMinutes / 60}h` : `${stepMinutes}min`})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={trafficChartConfig} className="aspect-auto h-40 w-full">
+                <BarChart data={history.series.route} margin={{ left: -20, right: 8, top: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="time"
+                    tickLine={false}
+                    axisLine={false}
+                    minTickGap={32}
+                    tickFormatter={(value) => formatStep(String(value), stepMinutes)}
+                  />
+                  <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatStep(String(value), stepMinutes)} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="requests" fill="var(--color-requests)" />
+                  <Bar dataKey="errors" fill="var(--color-errors)" />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Database Latency</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={latencyChartConfig} className="aspect-auto h-48 w-full">
+                <LineChart data={history.series.db} margin={{ left: -10, right: 8, top: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="time"
+                    tickLine={false}
+                    axisLine={false}
+                    minTickGap={32}
+                    tickFormatter={(value) => formatStep(String(value), stepMinutes)}
+                  />
+                  <YAxis tickLine={false} axisLine={false} width={50} unit="ms" />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatStep(String(value), stepMinutes)} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {(Object.keys(latencyChartConfig) as Array<keyof typeof latencyChartConfig>).map(key => (
+                    <Line
+                      key={key}
+                      dataKey={key}
+                      type="monotone"
+                      stroke={`var(--color-${key})`}
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls={false}
+                    />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <BreakdownTable title="Routes (slowest p95 first)" entries={history.routes} onSelect={setRoute} />
+          <BreakdownTable title="Database Tables" entries={history.tables} />
+          <ThrottleTable entries={history.throttles || []} />
+        </>
+      )}
+    </div>
+  );
+}
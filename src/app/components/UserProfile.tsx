@@ -4,6 +4,7 @@ import { motion, AnimatePresence } from 'motion/react';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import type { User as UserType } from '../../utils/api';
+import { hasRole, ROLE_LABELS } from '../../utils/roles';
 
 interface UserProfileProps {
   user: UserType;
@@ -74,8 +75,8 @@ export function UserProfile({ user, onSignOut }: UserProfileProps) {
         <div className="hidden md:flex flex-col items-start">
           <div className="flex items-center gap-2">
             <span className="text-sm font-medium text-slate-900">{user.name}</span>
-            <Badge variant={user.role === 'editor' ? 'default' : 'outline'} className="text-xs">
-              {user.role === 'editor' ? 'Editor' : 'Traveler'}
+            <Badge variant={hasRole(user.role, 'editor') ? 'default' : 'outline'} className="text-xs">
+              {ROLE_LABELS[user.role] ?? '🌍 Traveler'}
             </Badge>
           </div>
           <span className="text-xs text-slate-500">{user.email}</span>
@@ -103,8 +104,8 @@ export function UserProfile({ user, onSignOut }: UserProfileProps) {
                 <div className="flex-1 min-w-0">
                   <p className="font-medium text-slate-900 truncate">{user.name}</p>
                   <p className="text-sm text-slate-500 truncate">{user.email}</p>
-                  <Badge variant={user.role === 'editor' ? 'default' : 'outline'} className="mt-1 text-xs">
-                    {user.role === 'editor' ? '✨ Editor' : '🌍 Traveler'}
+                  <Badge variant={hasRole(user.role, 'editor') ? 'default' : 'outline'} className="mt-1 text-xs">
+                    {ROLE_LABELS[user.role] ?? '🌍 Traveler'}
                   </Badge>
                 </div>
               </div>
@@ -4,6 +4,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import type { Location, User } from '../../utils/api';
 import { api } from '../../utils/api';
 import { toast } from 'sonner';
+import { LocationStatusNotice } from './LocationStatusNotice';
+import { isClosedLocation } from '../../utils/locationStatus';
 
 interface WantToGoProps {
   user: User;
@@ -69,11 +71,11 @@ export function WantToGo({ user, userLocation, onLocationClick }: WantToGoProps)
     }
   };
 
-  // Sort want-to-go locations by distance from user location - Memoized for performance
+  // Sort want-to-go locations by distance from user location, closed places last - Memoized for performance
   const sortedWantToGo = useMemo(() => {
-    if (!userLocation) return wantToGo;
-    
     return [...wantToGo].sort((a, b) => {
+      const closedOrder = Number(isClosedLocation(a)) - Number(isClosedLocation(b));
+      if (closedOrder !== 0 || !userLocation) return closedOrder;
       const distanceA = calculateDistance(userLocation.lat, userLocation.lng, a.lat, a.lng);
       const distanceB = calculateDistance(userLocation.lat, userLocation.lng, b.lat, b.lng);
       return distanceA - distanceB;
@@ -119,7 +121,9 @@ export function WantToGo({ user, userLocation, onLocationClick }: WantToGoProps)
               return (
                 <div
                   key={location.id}
-                  className="group p-4 bg-slate-50 hover:bg-slate-100 rounded-lg transition-all cursor-pointer border border-slate-200"
+                  className={`group p-4 bg-slate-50 hover:bg-slate-100 rounded-lg transition-all cursor-pointer border border-slate-200 ${
+                    isClosedLocation(location) ? 'opacity-60' : ''
+                  }`}
                   onClick={() => onLocationClick?.(location)}
                 >
                   <div className="flex items-start justify-between">
@@ -127,6 +131,7 @@ export function WantToGo({ user, userLocation, onLocationClick }: WantToGoProps)
                       <h4 className="font-semibold text-slate-900 mb-1 truncate">
                         {location.name}
                       </h4>
+                      <LocationStatusNotice location={location} onSuccessorClick={onLocationClick} />
                       
                       {location.description && (
                         <p className="text-xs text-slate-600 mb-2 line-clamp-1">
@@ -1,6 +1,10 @@
 import { createClient } from '@supabase/supabase-js';
 import { projectId, publicAnonKey } from '/utils/supabase/info.tsx';
 import { locationCache, placeDetailsCache, michelinCache } from './cache';
+import { locationStore, type LocationChanges } from './locationStore';
+import { offlineDb } from './offlineDb';
+import type { Role } from './roles';
+import { offlineQueue, isNetworkError, type OfflineMutation, type OfflineMutationKind } from './offlineQueue';
 
 const supabaseUrl = `https://${projectId}.supabase.co`;
 
@@ -30,6 +34,8 @@ export const supabase = getSupabaseClient();
 
 const API_BASE = `${supabaseUrl}/functions/v1/make-server-48182530`;
 
+export type LocationStatus = 'open' | 'temporarily_closed' | 'permanently_closed' | 'moved';
+
 export interface Location {
   id: string;
   name: string;
@@ -69,6 +75,12 @@ export interface Location {
   updatedAt?: string;
   favoritesCount?: number; // Number of users who have favorited this location
   wantToGoCount?: number; // Number of users who have marked this as want to go
+  // Lifecycle
+  status?: LocationStatus; // Missing on older rows means 'open'
+  successorLocationId?: string | null; // Where a 'moved' location went
+  statusSource?: 'editor' | 'google' | null;
+  statusUpdatedAt?: string | null;
+  successor?: Location | null; // Included on favorites/want-to-go for moved locations
   
   // Deprecated fields (for backward compatibility during migration)
   /** @deprecated Use lvEditorScore instead */
@@ -79,11 +91,530 @@ export interface Location {
   michelinScore?: number;
 }
 
+export interface UserRatingResponse {
+  rating: number | null; // Current user's score, null if not rated
+  locationId?: string;
+  lvAvgUserScore: number | null;
+  lvUserRatingsCount: number;
+}
+
+export interface LocationHistoryEntry {
+  id: number;
+  locationId: string | null;
+  michelinId?: number | null;
+  action: 'create' | 'update' | 'delete' | 'revert';
+  source: 'location' | 'rating' | 'link-place' | 'history' | 'michelin-import' | 'merge';
+  changedFields: string[];
+  before: Record<string, any> | null; // Raw locations row (snake_case)
+  after: Record<string, any> | null;
+  changedBy: string | null;
+  changedByName: string | null;
+  revertedFromId: number | null;
+  createdAt: string;
+}
+
+export interface EditorScoresResponse {
+  aggregate: number | null; // Published lvEditorScore
+  strategy: 'mean' | 'median' | 'lead';
+  appliedStrategy: 'mean' | 'median' | 'lead'; // 'lead' falls back to 'mean' when the lead editor hasn't rated
+  leadEditorId: string | null;
+  spread: number; // Highest minus lowest editor score
+  threshold: number;
+  disagreement: boolean;
+  scores: Array<{
+    editorId: string;
+    editorName: string | null;
+    score: number;
+    updatedAt?: string;
+    isMine?: boolean;
+  }>;
+  myScore?: number | null; // The requesting editor's own score
+}
+
+export interface MapCluster {
+  id: string;
+  lat: number;
+  lng: number;
+  count: number;
+  avgLvScore: number | null;
+  topScore: number | null;
+  michelin: {
+    threeStars: number;
+    twoStars: number;
+    oneStar: number;
+    bibGourmand: number;
+    greenStar: number;
+  };
+  bounds: { south: number; west: number; north: number; east: number };
+  expansionZoom: number; // Zoom at which this cluster splits apart
+  // Only present for single-location clusters
+  locationId?: string;
+  name?: string;
+  googlePlaceId?: string | null;
+}
+
+export interface LocationQuery {
+  bounds?: { south: number; west: number; north: number; east: number };
+  minScore?: number;
+  maxScore?: number;
+  tags?: string[];
+  tagsMode?: 'all' | 'any';
+  michelinStars?: Array<1 | 2 | 3>;
+  greenStar?: boolean;
+  cuisine?: string;
+  city?: string;
+  country?: string;
+  updatedSince?: string; // ISO date
+  // name | score | userScore | michelinStars | updatedAt | createdAt, "-" prefix for descending
+  sort?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface LocationPage {
+  locations: Location[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export type ListVisibility = 'private' | 'unlisted' | 'public';
+
+export interface CuratedListEntry {
+  id: string;
+  note: string | null;
+  position: number;
+  addedAt: string;
+  location: Location;
+}
+
+export interface CuratedList {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  visibility: ListVisibility;
+  ownerId: string;
+  ownerName: string | null;
+  createdAt: string;
+  updatedAt: string;
+  entryCount?: number;
+  entries?: CuratedListEntry[];
+}
+
+export interface CityGuideEntry {
+  id: string;
+  blurb: string | null;
+  position: number;
+  location: Location;
+}
+
+export interface CityGuideSection {
+  id: string;
+  title: string;
+  description: string | null;
+  position: number;
+  entries: CityGuideEntry[];
+}
+
+export interface CityGuide {
+  id: string;
+  cityId: string;
+  cityName: string;
+  country: string | null;
+  center: { lat: number; lng: number };
+  radiusKm: number;
+  intro: string | null;
+  published: boolean;
+  updatedAt: string;
+  stats: {
+    ratedPlaceCount: number;
+    avgLvScore: number | null;
+    michelinStarredCount: number;
+    bibGourmandCount: number;
+    entryCount: number;
+  };
+  sections: CityGuideSection[];
+}
+
+export interface CityGuideInput {
+  cityName?: string;
+  country?: string | null;
+  lat?: number;
+  lng?: number;
+  radiusKm?: number;
+  intro?: string | null;
+  published?: boolean;
+}
+
+export type MichelinChangeType = 'new' | 'gained_star' | 'lost_star' | 'award_changed' | 'updated' | 'closed';
+
+export interface MichelinImportRun {
+  id: string;
+  status: 'pending' | 'applying' | 'completed' | 'discarded';
+  format: 'csv' | 'json';
+  partial: boolean;
+  guideYear: number;
+  totalRows: number;
+  skippedRows: number;
+  summary: Record<MichelinChangeType | 'unchanged' | 'duplicates', number>;
+  changeCount: number;
+  appliedCount: number;
+  failedCount: number;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export interface MichelinImportChange {
+  id: number;
+  type: MichelinChangeType;
+  michelinId: number | null;
+  name: string;
+  location: string | null;
+  oldAward: string | null;
+  newAward: string | null;
+  appliedAt: string | null;
+  error: string | null;
+}
+
+export type JobType = 'michelin-place-discovery' | 'michelin-backfill';
+export type JobState = 'queued' | 'running' | 'waiting' | 'failed' | 'done';
+
+export interface Job {
+  id: string;
+  type: JobType;
+  state: JobState;
+  params: Record<string, unknown>;
+  progress: { done: number; total: number };
+  counters: Record<string, number>;
+  logs: { at: string; level: 'info' | 'warn' | 'error'; message: string }[];
+  error: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface SuggestedGooglePlace {
+  id: string;
+  displayName: string;
+  formattedAddress: string;
+  distance: number; // meters
+  rating?: number;
+  userRatingCount?: number;
+  priceLevel?: string;
+  types?: string[];
+  photoUri?: string;
+}
+
+// GET /michelin/:id/suggest-place - 'auto' matches are linked by Place ID
+// discovery, 'review' ones go to crowd validation
+export interface MichelinPlaceSuggestion {
+  hasPlaceId?: boolean;
+  googlePlaceId?: string;
+  hasResults?: boolean;
+  message?: string;
+  suggestedPlace?: SuggestedGooglePlace;
+  confidenceScore?: number; // 0-100
+  matchSignals?: { name: number | null; distance: number; address: number | null; type: number | null };
+  decision?: 'auto' | 'review' | 'none';
+  needsReview?: boolean;
+  alternatives?: (SuggestedGooglePlace & { confidenceScore: number })[];
+  michelinData?: { id: number; name: string; address: string; location: string; lat: number; lng: number };
+}
+
+export interface DuplicateLocationSummary {
+  id: string;
+  name: string;
+  address?: string | null;
+  city?: string | null;
+  country?: string | null;
+  lat: number;
+  lng: number;
+  googlePlaceId?: string | null;
+  michelinId?: string | number | null;
+  michelinStars?: number | null;
+  michelinDistinction?: string | null;
+  lvEditorScore?: number | null;
+  category?: string | null;
+  createdAt?: string;
+}
+
+export type DuplicateReason = 'same-google-place' | 'same-michelin' | 'michelin-place-link' | 'nearby-similar-name';
+
+export interface DuplicatePair {
+  a: DuplicateLocationSummary;
+  b: DuplicateLocationSummary;
+  confidence: number; // 0-100
+  distanceMeters: number;
+  reasons: DuplicateReason[];
+  signals: { name: number | null; distance: number; address: number | null; type: number | null } | null;
+}
+
+// Field groups a merge can take from either location
+export type MergeFieldGroup =
+  | 'name' | 'description' | 'address' | 'position' | 'category' | 'tags'
+  | 'cuisine' | 'area' | 'image' | 'editorNotes' | 'google' | 'michelin';
+
+export interface MergeResult {
+  location: Location;
+  moved: Record<'favorites' | 'want_to_go' | 'user_ratings' | 'editor_scores' | 'list_entries' | 'city_guide_entries', number>;
+}
+
+export type PlaceVoteStatus = 'confirmed' | 'rejected' | 'unsure';
+export type PlaceSuggestionStatus = 'pending' | 'contested' | 'applied' | 'blacklisted' | 'superseded';
+
+export interface PlaceVoteResult {
+  success: boolean;
+  status: PlaceSuggestionStatus;
+  autoUpdated: boolean; // The vote settled it and the link was applied
+  validationCounts: { confirmed: number; rejected: number; unsure: number };
+}
+
+// A suggested Place ID with its weighted crowd tally (editor review queue)
+export interface PlaceSuggestionReview {
+  michelinId: number;
+  placeId: string;
+  status: PlaceSuggestionStatus;
+  votes: { confirmed: number; rejected: number; unsure: number; voters: number };
+  restaurant: { name: string; address?: string; location?: string } | null;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type GooglePlaceDetailTier = 'basic' | 'contact' | 'full';
+
+export interface GooglePlaceDetails {
+  place_id: string;
+  name?: string;
+  formatted_address?: string;
+  location: { lat: number; lng: number } | null;
+  rating?: number;
+  user_ratings_total?: number;
+  business_status?: string;
+  google_maps_url?: string;
+  website?: string;
+  formatted_phone_number?: string;
+  opening_hours?: { open_now?: boolean; weekday_text: string[] } | null;
+  reviews: {
+    author_name: string;
+    author_url?: string;
+    profile_photo_url?: string;
+    rating: number;
+    relative_time_description: string;
+    text: string;
+    time: number;
+  }[];
+  photos: { photoReference: string; width: number; height: number }[]; // photoReference is a proxied image URL
+  fetched_at: string;
+}
+
+export interface AdminStats {
+  totalUsers: number;
+  totalLocations: number;
+  totalFavorites: number;
+  totalWantToGo: number;
+  lvRatedLocations: number;
+  michelinLocations: number;
+}
+
+export interface AdminStatsPoint {
+  date: string; // YYYY-MM-DD (UTC)
+  signups: number;
+  favorites: number;
+  wantToGo: number;
+  editorRatings: number;
+}
+
+export interface AdminStatsBreakdown {
+  name: string;
+  locations: number;
+  lvRated: number;
+  michelin: number;
+}
+
+// Server metrics history (per-minute rollups across every instance)
+export interface MetricsPoint {
+  time: string; // Start of the step (ISO)
+  requests: number;
+  errors: number; // 5xx responses / failed queries
+  avgMs: number | null;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  p99Ms: number | null;
+}
+
+export interface MetricsBreakdownEntry {
+  name: string; // "GET /locations/:id" or a table name
+  requests: number;
+  errors: number;
+  errorRate: number; // 0-1
+  avgMs: number | null;
+  maxMs: number;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  p99Ms: number | null;
+}
+
+export interface MetricsHistory {
+  from: string;
+  to: string;
+  stepMinutes: number;
+  series: { route: MetricsPoint[]; db: MetricsPoint[] };
+  routes: MetricsBreakdownEntry[];
+  tables: MetricsBreakdownEntry[];
+  throttles: MetricsBreakdownEntry[]; // Per rate limit policy: requests checked, errors refused (429)
+  truncated: boolean;
+}
+
+// Field data reported by browsers via POST /telemetry
+export interface TelemetryBreakdownEntry {
+  name: string; // "Chrome 120" or an app version
+  sessions: number;
+  errors: number;
+}
+
+export interface TelemetryMetricSummary {
+  type: 'api' | 'component' | 'interaction' | 'navigation' | 'network' | 'action';
+  name: string;
+  count: number;
+  failed: number;
+  p50Ms: number | null; // Null for actions
+  p95Ms: number | null;
+  p99Ms: number | null;
+}
+
+export interface TelemetryErrorGroup {
+  fingerprint: string;
+  type: 'error' | 'warning' | 'crash';
+  message: string; // Latest sample
+  stack: string | null;
+  component: string | null;
+  occurrences: number;
+  sessions: number;
+  browsers: string[];
+  appVersions: string[];
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface TelemetrySummary {
+  from: string;
+  to: string;
+  totals: { sessions: number; metrics: number; errors: number };
+  browsers: TelemetryBreakdownEntry[];
+  appVersions: TelemetryBreakdownEntry[];
+  metrics: TelemetryMetricSummary[];
+  errorGroups: TelemetryErrorGroup[];
+  truncated: boolean;
+}
+
+export type AlertMetric = 'error_rate' | 'avg_ms' | 'p50_ms' | 'p95_ms' | 'p99_ms';
+export type AlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+export type AlertChannel =
+  | { type: 'webhook'; url: string }
+  | { type: 'email'; to: string }
+  | { type: 'local' };
+
+export interface AlertRuleInput {
+  name: string;
+  kind: 'route' | 'db';
+  target: string | null; // "GET /locations", "/locations" (any method) or a table; null for all
+  metric: AlertMetric;
+  comparator: '>' | '<';
+  threshold: number; // 0-1 for error_rate, otherwise ms
+  windowMinutes: number;
+  minRequests: number;
+  channels: AlertChannel[];
+  enabled: boolean;
+}
+
+export interface AlertRule extends AlertRuleInput {
+  id: string;
+  condition: string; // e.g. "5xx rate on /locations > 5% over 5 min"
+  lastValue: number | null; // Null when the last window had too little traffic
+  lastEvaluatedAt: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string | null; // Null once the rule is deleted
+  ruleName: string;
+  condition: string;
+  status: AlertStatus;
+  value: number | null;
+  lastValue: number | null;
+  threshold: number;
+  openedAt: string;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  resolvedAt: string | null;
+  resolvedBy: string | null; // Null when it resolved by itself
+}
+
+export interface AlertEvent {
+  id: number;
+  event: 'opened' | 'acknowledged' | 'resolved' | 'notified' | 'notify_failed';
+  actor: string | null;
+  value: number | null;
+  detail: string | null;
+  createdAt: string;
+}
+
+// ok: everything; no-photos: no new photos; cached-only: cached details only
+export type GoogleBudgetLevel = 'ok' | 'no-photos' | 'cached-only';
+
+export interface GoogleUsageEntry {
+  name: string;
+  calls: number;
+  costUsd: number;
+}
+
+export interface GoogleUsageReport {
+  from: string; // UTC dates, inclusive
+  to: string;
+  budget: { day: string; spentUsd: number; budgetUsd: number; level: GoogleBudgetLevel };
+  totals: { calls: number; costUsd: number };
+  days: Array<{ day: string; calls: number; costUsd: number }>;
+  skus: GoogleUsageEntry[];
+  routes: GoogleUsageEntry[];
+  users: Array<{ userId: string | null; userName: string | null; calls: number; costUsd: number }>; // null: anonymous
+}
+
+export interface MichelinAwardChange {
+  id: number;
+  michelinId: number;
+  guideYear: number;
+  type: 'baseline' | 'new' | 'gained_star' | 'lost_star' | 'award_changed' | 'closed';
+  award: string | null;
+  previousAward: string | null;
+  greenStar: boolean;
+  name: string;
+  location: string | null; // "City, Country"
+  lat: number | null;
+  lng: number | null;
+  recordedAt: string;
+}
+
 export interface User {
   id: string;
   email: string;
   name: string;
-  role: 'user' | 'editor';
+  role: Role;
+  permissions?: string[];
+}
+
+export interface RoleMatrix {
+  roles: Array<{ role: Role; permissions: string[] }>;
+  permissions: Array<{ permission: string; minRole: Role; description: string }>;
 }
 
 let accessToken: string | null = null;
@@ -159,7 +690,14 @@ const fetchWithAuth = async (url: string, options: RequestInit = {}) => {
         throw new Error('Session expired - please sign in again');
       }
       
-      throw new Error(error.error || `HTTP error! status: ${response.status}`);
+      // Keep the status so callers can tell conflicts (409) from other failures
+      const httpError: any = new Error(
+        response.status === 429 && error.retryAfter
+          ? `Too many requests - try again in ${error.retryAfter}s`
+          : error.error || `HTTP error! status: ${response.status}`
+      );
+      httpError.status = response.status;
+      throw httpError;
     }
 
     return response.json();
@@ -176,6 +714,101 @@ const fetchWithAuth = async (url: string, options: RequestInit = {}) => {
   }
 };
 
+type PlaceData = { name?: string; lat?: number; lng?: number; formatted_address?: string; place_id?: string };
+
+const getSessionUserId = async (): Promise<string | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user?.id ?? null;
+};
+
+// Favorites / want-to-go snapshots are per user - several people may share a device
+const getOfflineListKey = async (kind: OfflineMutationKind): Promise<string | null> => {
+  const userId = await getSessionUserId();
+  return userId ? `${kind}:${userId}` : null;
+};
+
+// Last synced list with any queued offline toggles applied on top
+const getOfflineList = async (kind: OfflineMutationKind): Promise<Location[]> => {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return [];
+  }
+  const list = (await offlineDb.get<Location[]>('kv', `${kind}:${userId}`)) || [];
+  const pending = (await offlineQueue.pending(userId)).filter(m => m.kind === kind);
+
+  await locationStore.ready();
+  let result = [...list];
+  pending.forEach(m => {
+    if (m.action === 'remove') {
+      result = result.filter(loc => loc.id !== m.locationId && loc.googlePlaceId !== m.locationId);
+    } else if (!result.some(loc => loc.id === m.locationId)) {
+      const known = locationStore.get(m.locationId);
+      result.push(known || {
+        id: m.locationId,
+        name: m.placeData?.name || 'Unknown',
+        lat: m.placeData?.lat || 0,
+        lng: m.placeData?.lng || 0,
+        description: m.placeData?.formatted_address,
+        placeId: m.placeData?.place_id,
+        googlePlaceId: m.placeData?.place_id,
+        tags: [],
+      });
+    }
+  });
+  return result;
+};
+
+const saveOfflineList = async (kind: OfflineMutationKind, list: Location[]) => {
+  const key = await getOfflineListKey(kind);
+  if (key) {
+    await offlineDb.put('kv', list, key);
+  }
+};
+
+// Send a favorite / want-to-go toggle, or queue it when there is no connection
+const sendListMutation = async (
+  kind: OfflineMutationKind,
+  action: 'add' | 'remove',
+  locationId: string,
+  placeData?: PlaceData
+) => {
+  const path = kind === 'favorite' ? 'favorites' : 'want-to-go';
+  const queue = async () => {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      throw new Error('Not authenticated - please sign in again');
+    }
+    await offlineQueue.enqueue({ userId, kind, action, locationId, placeData });
+    return { success: true, queued: true };
+  };
+
+  if (!navigator.onLine) {
+    return queue();
+  }
+
+  try {
+    const result = await fetchWithAuth(`${API_BASE}/${path}/${locationId}`, action === 'add'
+      ? { method: 'POST', body: JSON.stringify(placeData || {}) }
+      : { method: 'DELETE' });
+
+    // ✅ Invalidate relevant caches
+    locationCache.invalidate('all-locations');
+
+    return result;
+  } catch (error) {
+    if (isNetworkError(error)) {
+      return queue();
+    }
+    throw error;
+  }
+};
+
+export interface OfflineReplayResult {
+  applied: number;
+  conflicts: Array<{ mutation: OfflineMutation; reason: string }>;
+  remaining: number;
+}
+
 export const api = {
   // Auth
   signUp: async (email: string, password: string, name: string) => {
@@ -276,19 +909,16 @@ export const api = {
     return userData;
   },
 
-  updateUserRole: async (role: 'user' | 'editor') => {
-    return fetchWithAuth(`${API_BASE}/user/role`, {
-      method: 'POST',
-      body: JSON.stringify({ role }),
-    });
-  },
-
   // Admin endpoints
   getAllUsers: async (): Promise<{ users: User[] }> => {
     return fetchWithAuth(`${API_BASE}/admin/users`);
   },
 
-  updateUserRoleByAdmin: async (userId: string, role: 'user' | 'editor') => {
+  getRoleMatrix: async (): Promise<RoleMatrix> => {
+    return fetchWithAuth(`${API_BASE}/admin/roles`);
+  },
+
+  updateUserRoleByAdmin: async (userId: string, role: Role) => {
     return fetchWithAuth(`${API_BASE}/admin/users/${userId}/role`, {
       method: 'PUT',
       body: JSON.stringify({ role }),
@@ -303,6 +933,21 @@ export const api = {
       return { locations: cached };
     }
 
+    // 📴 Offline - serve the last synced snapshot
+    await locationStore.ready();
+    if (!navigator.onLine && locationStore.size() > 0) {
+      return { locations: locationStore.getAll() };
+    }
+
+    // ✅ Delta sync into the persistent store - returning users only download changes
+    try {
+      const locations = await api.syncLocationChanges();
+      locationCache.set('all-locations', locations);
+      return { locations };
+    } catch (error) {
+      console.warn('⚠️ Location delta sync failed, falling back to full fetch:', error);
+    }
+
     // Public endpoint - doesn't require auth
     // Try without auth first, then fallback to anon key if JWT verification is enabled
     let response = await fetch(`${API_BASE}/locations`, {
@@ -324,6 +969,10 @@ export const api = {
     }
 
     if (!response.ok) {
+      // Offline or server down - the last synced snapshot is better than nothing
+      if (locationStore.size() > 0) {
+        return { locations: locationStore.getAll() };
+      }
       const error = await response.json().catch(() => ({ error: response.statusText }));
       console.error('❌ getLocations error:', error);
       throw new Error(error.error || `HTTP error! status: ${response.status}`);
@@ -337,6 +986,98 @@ export const api = {
     return data;
   },
 
+  // Pull every page of GET /locations/changes since the last sync and merge it into the store
+  syncLocationChanges: async (): Promise<Location[]> => {
+    await locationStore.ready();
+    const since = locationStore.getSyncToken();
+    let cursor: string | null = null;
+    let syncToken: string | null = null;
+    let isFirstPage = true;
+    let upserted = 0;
+    let deleted = 0;
+
+    do {
+      const params = new URLSearchParams();
+      if (since) params.set('since', since);
+      if (cursor) params.set('cursor', cursor);
+
+      const response = await fetch(`${API_BASE}/locations/changes?${params.toString()}`, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${publicAnonKey}`,
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(error.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const page: LocationChanges = await response.json();
+      locationStore.applyPage(page, isFirstPage);
+
+      // The first page's token covers the whole sync
+      syncToken = syncToken ?? page.syncToken;
+      cursor = page.nextCursor;
+      isFirstPage = false;
+      upserted += page.upserts.length;
+      deleted += page.deleted.length;
+    } while (cursor);
+
+    if (syncToken) {
+      await locationStore.commit(syncToken);
+    }
+
+    console.log(`🔄 Location sync${since ? '' : ' (full)'}: ${upserted} upserted, ${deleted} deleted, ${locationStore.size()} total`);
+    return locationStore.getAll();
+  },
+
+  // Filtered, cursor-paginated locations (e.g. 2-star places in Lyon scored >= 9)
+  queryLocations: async (query: LocationQuery = {}): Promise<LocationPage> => {
+    const params = new URLSearchParams();
+    if (query.bounds) {
+      const { south, west, north, east } = query.bounds;
+      params.set('bounds', [south, west, north, east].join(','));
+    }
+    if (query.minScore !== undefined) params.set('minScore', query.minScore.toString());
+    if (query.maxScore !== undefined) params.set('maxScore', query.maxScore.toString());
+    query.tags?.forEach(tag => params.append('tags[]', tag));
+    if (query.tagsMode) params.set('tagsMode', query.tagsMode);
+    if (query.michelinStars?.length) params.set('michelinStars', query.michelinStars.join(','));
+    if (query.greenStar !== undefined) params.set('greenStar', String(query.greenStar));
+    if (query.cuisine) params.set('cuisine', query.cuisine);
+    if (query.city) params.set('city', query.city);
+    if (query.country) params.set('country', query.country);
+    if (query.updatedSince) params.set('updatedSince', query.updatedSince);
+    params.set('sort', query.sort || 'name');
+    if (query.cursor) params.set('cursor', query.cursor);
+    if (query.limit) params.set('limit', query.limit.toString());
+
+    // ✅ Cached per query - invalidating 'all-locations' clears these too
+    const cacheKey = `all-locations?${params.toString()}`;
+    const cached = locationCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await fetch(`${API_BASE}/locations?${params.toString()}`, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${publicAnonKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: response.statusText }));
+      console.error('❌ queryLocations error:', error);
+      throw new Error(error.error || `HTTP error! status: ${response.status}`);
+    }
+
+    const data: LocationPage = await response.json();
+    locationCache.set(cacheKey, data);
+    return data;
+  },
+
   getLocationsByTag: async (tag: string): Promise<{ locations: Location[] }> => {
     // Public endpoint - doesn't require auth
     // Try without auth first, then fallback to anon key if JWT verification is enabled
@@ -387,49 +1128,158 @@ export const api = {
     });
   },
 
+  // Mark a location open/closed/moved (editors only); 'moved' needs a successor
+  setLocationStatus: async (
+    id: string,
+    status: LocationStatus,
+    successorLocationId?: string | null
+  ): Promise<Location> => {
+    const result = await fetchWithAuth(`${API_BASE}/locations/${encodeURIComponent(id)}/status`, {
+      method: 'PUT',
+      body: JSON.stringify({ status, successorLocationId: status === 'moved' ? successorLocationId : null }),
+    });
+
+    // ✅ Invalidate relevant caches
+    locationCache.invalidate('all-locations');
+
+    return result;
+  },
+
   // Guides
-  getCityGuide: async (cityId: string) => {
-    return fetchWithAuth(`${API_BASE}/guides/${cityId}`);
+  // Published guides are public - an editor's token also unlocks drafts and canEdit
+  getCityGuide: async (cityId: string): Promise<{ guide: CityGuide | null; canEdit: boolean }> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const response = await fetch(`${API_BASE}/guides/${encodeURIComponent(cityId)}`, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session?.access_token || publicAnonKey}`,
+      },
+    });
+
+    const data = await response.json().catch(() => ({}));
+
+    // No guide for this city yet
+    if (response.status === 404) {
+      return { guide: null, canEdit: !!data.canEdit };
+    }
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+
+    return data;
   },
 
-  // Favorites
-  getFavorites: async (): Promise<{ favorites: Location[] }> => {
-    return fetchWithAuth(`${API_BASE}/favorites`);
+  saveCityGuide: async (cityId: string, input: CityGuideInput): Promise<{ guide: CityGuide }> => {
+    return fetchWithAuth(`${API_BASE}/guides/${encodeURIComponent(cityId)}`, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+  },
+
+  deleteCityGuide: async (cityId: string) => {
+    return fetchWithAuth(`${API_BASE}/guides/${encodeURIComponent(cityId)}`, {
+      method: 'DELETE',
+    });
   },
 
-  addFavorite: async (locationId: string, placeData?: { name?: string; lat?: number; lng?: number; formatted_address?: string; place_id?: string }) => {
-    const result = await fetchWithAuth(`${API_BASE}/favorites/${locationId}`, {
+  addGuideSection: async (cityId: string, section: { title: string; description?: string }): Promise<{ guide: CityGuide }> => {
+    return fetchWithAuth(`${API_BASE}/guides/${encodeURIComponent(cityId)}/sections`, {
       method: 'POST',
-      body: JSON.stringify(placeData || {}),
+      body: JSON.stringify(section),
     });
-    
-    // ✅ Invalidate relevant caches
-    locationCache.invalidate('all-locations');
-    
-    return result;
   },
 
-  removeFavorite: async (locationId: string) => {
-    const result = await fetchWithAuth(`${API_BASE}/favorites/${locationId}`, {
+  updateGuideSection: async (cityId: string, sectionId: string, section: { title?: string; description?: string | null }): Promise<{ guide: CityGuide }> => {
+    return fetchWithAuth(`${API_BASE}/guides/${encodeURIComponent(cityId)}/sections/${sectionId}`, {
+      method: 'PUT',
+      body: JSON.stringify(section),
+    });
+  },
+
+  deleteGuideSection: async (cityId: string, sectionId: string): Promise<{ guide: CityGuide }> => {
+    return fetchWithAuth(`${API_BASE}/guides/${encodeURIComponent(cityId)}/sections/${sectionId}`, {
       method: 'DELETE',
     });
-    
-    // ✅ Invalidate relevant caches
-    locationCache.invalidate('all-locations');
-    
-    return result;
   },
 
-  // Get total favorites count for locations in a city
-  getCityFavorites: async (locationIds: string[]): Promise<{ totalFavorites: number }> => {
-    // Public endpoint - uses anon key for platform JWT verification
-    try {
-      const response = await fetch(`${API_BASE}/favorites/city-stats`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${publicAnonKey}`, // Add anon key to pass platform JWT verification
-        },
+  addGuideEntry: async (cityId: string, sectionId: string, locationId: string, blurb?: string): Promise<{ guide: CityGuide }> => {
+    return fetchWithAuth(`${API_BASE}/guides/${encodeURIComponent(cityId)}/sections/${sectionId}/entries`, {
+      method: 'POST',
+      body: JSON.stringify({ locationId, blurb }),
+    });
+  },
+
+  updateGuideEntry: async (cityId: string, entryId: string, blurb: string | null): Promise<{ guide: CityGuide }> => {
+    return fetchWithAuth(`${API_BASE}/guides/${encodeURIComponent(cityId)}/entries/${entryId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ blurb }),
+    });
+  },
+
+  removeGuideEntry: async (cityId: string, entryId: string): Promise<{ guide: CityGuide }> => {
+    return fetchWithAuth(`${API_BASE}/guides/${encodeURIComponent(cityId)}/entries/${entryId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  reorderCityGuide: async (cityId: string, sections: Array<{ id: string; entryIds: string[] }>): Promise<{ guide: CityGuide }> => {
+    return fetchWithAuth(`${API_BASE}/guides/${encodeURIComponent(cityId)}/order`, {
+      method: 'PUT',
+      body: JSON.stringify({ sections }),
+    });
+  },
+
+  // Locations within radiusKm of a point, nearest first - PUBLIC ENDPOINT
+  getNearbyLocations: async (lat: number, lng: number, radiusKm: number, limit = 500): Promise<{ locations: Array<Location & { distanceKm: number }> }> => {
+    const params = new URLSearchParams({ lat: String(lat), lng: String(lng), radius: String(radiusKm), limit: String(limit) });
+    const response = await fetch(`${API_BASE}/locations/nearby?${params}`, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${publicAnonKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return response.json();
+  },
+
+  // Favorites
+  getFavorites: async (): Promise<{ favorites: Location[] }> => {
+    try {
+      const result = await fetchWithAuth(`${API_BASE}/favorites`);
+      await saveOfflineList('favorite', result.favorites);
+      // Toggles still waiting to replay must not flicker back
+      return { favorites: await getOfflineList('favorite') };
+    } catch (error) {
+      if (isNetworkError(error)) {
+        console.log('📴 Offline - using saved favorites');
+        return { favorites: await getOfflineList('favorite') };
+      }
+      throw error;
+    }
+  },
+
+  addFavorite: async (locationId: string, placeData?: PlaceData) => {
+    return sendListMutation('favorite', 'add', locationId, placeData);
+  },
+
+  removeFavorite: async (locationId: string) => {
+    return sendListMutation('favorite', 'remove', locationId);
+  },
+
+  // Get total favorites count for locations in a city
+  getCityFavorites: async (locationIds: string[]): Promise<{ totalFavorites: number }> => {
+    // Public endpoint - uses anon key for platform JWT verification
+    try {
+      const response = await fetch(`${API_BASE}/favorites/city-stats`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${publicAnonKey}`, // Add anon key to pass platform JWT verification
+        },
         body: JSON.stringify({ locationIds }),
       });
 
@@ -450,30 +1300,158 @@ export const api = {
 
   // Want to Go
   getWantToGo: async (): Promise<{ wantToGo: Location[] }> => {
-    return fetchWithAuth(`${API_BASE}/want-to-go`);
+    try {
+      const result = await fetchWithAuth(`${API_BASE}/want-to-go`);
+      await saveOfflineList('want-to-go', result.wantToGo);
+      return { wantToGo: await getOfflineList('want-to-go') };
+    } catch (error) {
+      if (isNetworkError(error)) {
+        console.log('📴 Offline - using saved want to go list');
+        return { wantToGo: await getOfflineList('want-to-go') };
+      }
+      throw error;
+    }
+  },
+
+  addWantToGo: async (locationId: string, placeData?: PlaceData) => {
+    return sendListMutation('want-to-go', 'add', locationId, placeData);
+  },
+
+  removeWantToGo: async (locationId: string) => {
+    return sendListMutation('want-to-go', 'remove', locationId);
+  },
+
+  // Replay the signed-in user's favorite / want-to-go toggles queued while offline, oldest first
+  replayOfflineMutations: async (): Promise<OfflineReplayResult> => {
+    const result: OfflineReplayResult = { applied: 0, conflicts: [], remaining: 0 };
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return result;
+    }
+    const pending = await offlineQueue.pending(userId);
+
+    for (const mutation of pending) {
+      const path = mutation.kind === 'favorite' ? 'favorites' : 'want-to-go';
+      try {
+        if (mutation.action === 'add') {
+          await fetchWithAuth(`${API_BASE}/${path}/${mutation.locationId}`, {
+            method: 'POST',
+            body: JSON.stringify(mutation.placeData || {}),
+          });
+        } else {
+          // The server keeps the row if it was re-added after this removal (409)
+          await fetchWithAuth(`${API_BASE}/${path}/${mutation.locationId}?queuedAt=${encodeURIComponent(mutation.queuedAt)}`, {
+            method: 'DELETE',
+          });
+        }
+        result.applied++;
+        await offlineQueue.remove(mutation.id!);
+      } catch (error: any) {
+        if (isNetworkError(error) || error.status === 401 || error.status >= 500) {
+          // Still offline, signed out or server trouble - keep the rest for the next attempt
+          result.remaining = pending.length - result.applied - result.conflicts.length;
+          break;
+        }
+        // The server rejected it (conflict, location gone) - drop it and report
+        console.warn('⚠️ Dropping conflicting offline change:', mutation, error.message);
+        result.conflicts.push({ mutation, reason: error.message });
+        await offlineQueue.remove(mutation.id!);
+      }
+    }
+
+    if (result.applied > 0) {
+      // ✅ Invalidate relevant caches
+      locationCache.invalidate('all-locations');
+    }
+
+    console.log('🔄 Offline replay:', result);
+    return result;
+  },
+
+  // Curated lists
+  getMyLists: async (): Promise<{ lists: CuratedList[] }> => {
+    return fetchWithAuth(`${API_BASE}/lists`);
+  },
+
+  getPublicLists: async (): Promise<{ lists: CuratedList[] }> => {
+    // Public endpoint - doesn't require auth
+    const response = await fetch(`${API_BASE}/lists/public`, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${publicAnonKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return response.json();
+  },
+
+  // Public and unlisted lists work signed out - the owner's token unlocks private ones
+  getList: async (slug: string): Promise<{ list: CuratedList }> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const response = await fetch(`${API_BASE}/lists/${encodeURIComponent(slug)}`, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session?.access_token || publicAnonKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: response.statusText }));
+      throw new Error(error.error || `HTTP error! status: ${response.status}`);
+    }
+
+    return response.json();
   },
 
-  addWantToGo: async (locationId: string, placeData?: { name?: string; lat?: number; lng?: number; formatted_address?: string; place_id?: string }) => {
-    const result = await fetchWithAuth(`${API_BASE}/want-to-go/${locationId}`, {
+  createList: async (data: { title: string; description?: string; visibility?: ListVisibility }): Promise<{ list: CuratedList }> => {
+    return fetchWithAuth(`${API_BASE}/lists`, {
       method: 'POST',
-      body: JSON.stringify(placeData || {}),
+      body: JSON.stringify(data),
     });
-    
-    // ✅ Invalidate relevant caches
-    locationCache.invalidate('all-locations');
-    
-    return result;
   },
 
-  removeWantToGo: async (locationId: string) => {
-    const result = await fetchWithAuth(`${API_BASE}/want-to-go/${locationId}`, {
+  updateList: async (listId: string, data: { title?: string; description?: string | null; visibility?: ListVisibility }): Promise<{ list: CuratedList }> => {
+    return fetchWithAuth(`${API_BASE}/lists/${listId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  deleteList: async (listId: string) => {
+    return fetchWithAuth(`${API_BASE}/lists/${listId}`, {
       method: 'DELETE',
     });
-    
-    // ✅ Invalidate relevant caches
-    locationCache.invalidate('all-locations');
-    
-    return result;
+  },
+
+  addListEntry: async (listId: string, locationId: string, note?: string): Promise<{ entry: CuratedListEntry }> => {
+    return fetchWithAuth(`${API_BASE}/lists/${listId}/entries`, {
+      method: 'POST',
+      body: JSON.stringify({ locationId, note }),
+    });
+  },
+
+  updateListEntry: async (listId: string, entryId: string, note: string | null) => {
+    return fetchWithAuth(`${API_BASE}/lists/${listId}/entries/${entryId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ note }),
+    });
+  },
+
+  removeListEntry: async (listId: string, entryId: string) => {
+    return fetchWithAuth(`${API_BASE}/lists/${listId}/entries/${entryId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  reorderListEntries: async (listId: string, entryIds: string[]) => {
+    return fetchWithAuth(`${API_BASE}/lists/${listId}/entries/order`, {
+      method: 'PUT',
+      body: JSON.stringify({ entryIds }),
+    });
   },
 
   // Get place stats (favorites and want-to-go counts) - PUBLIC ENDPOINT
@@ -521,7 +1499,7 @@ export const api = {
   // Editor: Update location rating and tags
   updateLocationRating: async (
     locationId: string, 
-    lvEditorsScore?: number, 
+    lvEditorsScore?: number | null, // null removes this editor's score
     michelinScore?: number,
     tags?: string[],
     placeData?: {
@@ -539,72 +1517,263 @@ export const api = {
     });
   },
 
-  // User Ratings
-  getUserRating: async (locationId: string): Promise<{ rating: number | null }> => {
-    return fetchWithAuth(`${API_BASE}/ratings/${locationId}`);
+  // Editor: Individual editor scores and how they reconcile into lvEditorScore
+  getEditorScores: async (locationId: string): Promise<EditorScoresResponse> => {
+    return fetchWithAuth(`${API_BASE}/locations/${encodeURIComponent(locationId)}/editor-scores`);
+  },
+
+  // Editor: Location history / audit trail
+  getLocationHistory: async (locationId: string): Promise<{ locationId: string | null; history: LocationHistoryEntry[] }> => {
+    return fetchWithAuth(`${API_BASE}/locations/${encodeURIComponent(locationId)}/history`);
+  },
+
+  revertLocationToHistory: async (locationId: string, entryId: number): Promise<Location> => {
+    const result = await fetchWithAuth(`${API_BASE}/locations/${encodeURIComponent(locationId)}/history/${entryId}/revert`, {
+      method: 'POST',
+    });
+    
+    // ✅ Invalidate relevant caches
+    locationCache.invalidate('all-locations');
+    
+    return result;
+  },
+
+  // Duplicate locations (editors only)
+  findDuplicateLocations: async (options: { minConfidence?: number; limit?: number; bounds?: string } = {}): Promise<{ pairs: DuplicatePair[] }> => {
+    const params = new URLSearchParams();
+    if (options.minConfidence) params.set('minConfidence', String(options.minConfidence));
+    if (options.limit) params.set('limit', String(options.limit));
+    if (options.bounds) params.set('bounds', options.bounds);
+    return fetchWithAuth(`${API_BASE}/locations/duplicates?${params.toString()}`);
+  },
+
+  getLocationDuplicates: async (locationId: string): Promise<{ pairs: DuplicatePair[] }> => {
+    return fetchWithAuth(`${API_BASE}/locations/${encodeURIComponent(locationId)}/duplicates`);
+  },
+
+  dismissDuplicateLocations: async (locationIdA: string, locationIdB: string): Promise<{ success: boolean }> => {
+    return fetchWithAuth(`${API_BASE}/locations/duplicates/dismiss`, {
+      method: 'POST',
+      body: JSON.stringify({ locationIds: [locationIdA, locationIdB] }),
+    });
   },
 
-  setUserRating: async (locationId: string, rating: number) => {
-    return fetchWithAuth(`${API_BASE}/ratings/${locationId}`, {
+  // Merge `duplicateId` into `survivorId`; unpicked field groups keep the survivor's values
+  mergeLocations: async (
+    survivorId: string,
+    duplicateId: string,
+    fields: Partial<Record<MergeFieldGroup, 'survivor' | 'duplicate'>> = {}
+  ): Promise<MergeResult> => {
+    const result = await fetchWithAuth(`${API_BASE}/locations/${encodeURIComponent(survivorId)}/merge`, {
       method: 'POST',
+      body: JSON.stringify({ duplicateId, fields }),
+    });
+
+    // ✅ Invalidate relevant caches
+    locationCache.invalidate('all-locations');
+
+    return result;
+  },
+
+  // User Ratings (personal 0.0-10.0 score; feeds lvAvgUserScore)
+  getMyRating: async (locationId: string): Promise<UserRatingResponse> => {
+    return fetchWithAuth(`${API_BASE}/locations/${encodeURIComponent(locationId)}/my-rating`);
+  },
+
+  setMyRating: async (locationId: string, rating: number): Promise<UserRatingResponse> => {
+    const result = await fetchWithAuth(`${API_BASE}/locations/${encodeURIComponent(locationId)}/my-rating`, {
+      method: 'PUT',
       body: JSON.stringify({ rating }),
     });
+    
+    // ✅ Invalidate relevant caches (crowd score changed)
+    locationCache.invalidate('all-locations');
+    
+    return result;
   },
 
-  getCommunityRatingCount: async (locationId: string): Promise<{ count: number }> => {
-    return fetchWithAuth(`${API_BASE}/ratings/${locationId}/count`);
+  deleteMyRating: async (locationId: string): Promise<UserRatingResponse> => {
+    const result = await fetchWithAuth(`${API_BASE}/locations/${encodeURIComponent(locationId)}/my-rating`, {
+      method: 'DELETE',
+    });
+    
+    // ✅ Invalidate relevant caches (crowd score changed)
+    locationCache.invalidate('all-locations');
+    
+    return result;
   },
 
   // Google Places
-  getGooglePlaceDetails: async (placeId: string) => {
+  // Cached on the server; photo URLs point at the server's /photos proxy - PUBLIC ENDPOINT
+  getGooglePlaceDetails: async (placeId: string, tier: GooglePlaceDetailTier = 'full'): Promise<GooglePlaceDetails> => {
     // ✅ Check cache first
-    const cacheKey = `place-details-${placeId}`;
+    const cacheKey = `place-details-${placeId}-${tier}`;
     const cached = placeDetailsCache.get(cacheKey);
     if (cached) {
       return cached;
     }
 
-    const data = await fetchWithAuth(`${API_BASE}/google/place/${encodeURIComponent(placeId)}`);
-    
-    // ✅ Cache the result
-    placeDetailsCache.set(cacheKey, data);
-    
-    return data;
+    try {
+      const response = await fetch(`${API_BASE}/google-places/${encodeURIComponent(placeId)}/details?tier=${tier}`, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${publicAnonKey}`,
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        const httpError: any = new Error(error.error || `HTTP error! status: ${response.status}`);
+        httpError.status = response.status;
+        throw httpError;
+      }
+
+      const data: GooglePlaceDetails = await response.json();
+      
+      // ✅ Cache the result (and keep it for offline viewing)
+      placeDetailsCache.set(cacheKey, data);
+      if (tier === 'full') {
+        await offlineDb.put('placeDetails', { data, viewedAt: new Date().toISOString() }, placeId);
+      }
+      
+      return data;
+    } catch (error) {
+      const saved = await offlineDb.get<{ data: GooglePlaceDetails }>('placeDetails', placeId);
+      if (saved && isNetworkError(error)) {
+        console.log('📴 Offline - using saved place details:', placeId);
+        return saved.data;
+      }
+      throw error;
+    }
   },
 
   // Michelin Data
-  syncMichelinData: async (offset: number = 0, limit: number = 500): Promise<{ success: boolean; added: number; message: string; totalAvailable?: number; imported?: number }> => {
-    return fetchWithAuth(`${API_BASE}/michelin/sync`, {
-      method: 'POST',
+  // Award changes from imports - PUBLIC ENDPOINT
+  // since: guide year or ISO timestamp (defaults to the latest guide year on the server)
+  getMichelinChanges: async (
+    options: { since?: number | string; region?: string; types?: MichelinAwardChange['type'][]; limit?: number } = {}
+  ): Promise<{ changes: MichelinAwardChange[]; guideYear: number | null }> => {
+    const params = new URLSearchParams();
+    if (options.since !== undefined) params.set('since', String(options.since));
+    if (options.region) params.set('region', options.region);
+    if (options.types?.length) params.set('type', options.types.join(','));
+    if (options.limit) params.set('limit', String(options.limit));
+    const query = params.toString();
+
+    const response = await fetch(`${API_BASE}/michelin/changes${query ? `?${query}` : ''}`, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${publicAnonKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return response.json();
+  },
+
+  getMichelinAwardHistory: async (michelinId: number): Promise<{ history: MichelinAwardChange[] }> => {
+    const response = await fetch(`${API_BASE}/michelin/${michelinId}/awards`, {
       headers: {
         'Content-Type': 'application/json',
+        'Authorization': `Bearer ${publicAnonKey}`,
       },
-      body: JSON.stringify({ offset, limit }),
     });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return response.json();
   },
 
-  discoverMichelinPlaceIds: async (offset: number = 0, limit: number = 50): Promise<{ success: boolean; processed: number; discovered: number; message: string }> => {
-    return fetchWithAuth(`${API_BASE}/michelin/discover-place-ids`, {
+  // Diff a Michelin dataset (file contents) against the database - nothing is applied yet
+  startMichelinImport: async (format: 'csv' | 'json', data: string, partial = false, guideYear?: number): Promise<{ run: MichelinImportRun }> => {
+    return fetchWithAuth(`${API_BASE}/michelin/sync`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ offset, limit }),
+      body: JSON.stringify({ format, data, partial, guideYear }),
     });
   },
 
-  backfillMichelinLocations: async (): Promise<{ success: boolean; updated: number; created: number; errors: number; total: number }> => {
-    return fetchWithAuth(`${API_BASE}/michelin/backfill-locations`, {
+  getMichelinImportRuns: async (): Promise<{ runs: MichelinImportRun[] }> => {
+    return fetchWithAuth(`${API_BASE}/michelin/sync/runs`);
+  },
+
+  getMichelinImportRun: async (
+    runId: string,
+    options: { type?: MichelinChangeType; offset?: number; limit?: number } = {}
+  ): Promise<{ run: MichelinImportRun; changes: MichelinImportChange[]; total: number }> => {
+    const params = new URLSearchParams();
+    if (options.type) params.set('type', options.type);
+    if (options.offset) params.set('offset', String(options.offset));
+    if (options.limit) params.set('limit', String(options.limit));
+    const query = params.toString();
+    return fetchWithAuth(`${API_BASE}/michelin/sync/${runId}${query ? `?${query}` : ''}`);
+  },
+
+  // Apply the next batch of an import run; call until remaining is 0
+  applyMichelinImportBatch: async (runId: string, limit = 200): Promise<{ run: MichelinImportRun; applied: number; failed: number; remaining: number }> => {
+    return fetchWithAuth(`${API_BASE}/michelin/sync/${runId}/apply`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
+      body: JSON.stringify({ limit }),
+    });
+  },
+
+  discardMichelinImport: async (runId: string): Promise<{ run: MichelinImportRun }> => {
+    return fetchWithAuth(`${API_BASE}/michelin/sync/${runId}/discard`, {
+      method: 'POST',
+    });
+  },
+
+  // Background jobs (Place ID discovery, Michelin backfill)
+  startJob: async (type: JobType, params: Record<string, unknown> = {}): Promise<{ job: Job }> => {
+    return fetchWithAuth(`${API_BASE}/jobs`, {
+      method: 'POST',
+      body: JSON.stringify({ type, params }),
+    });
+  },
+
+  getJobs: async (options: { type?: JobType; active?: boolean } = {}): Promise<{ jobs: Job[] }> => {
+    const params = new URLSearchParams();
+    if (options.type) params.set('type', options.type);
+    if (options.active) params.set('active', 'true');
+    const query = params.toString();
+    return fetchWithAuth(`${API_BASE}/jobs${query ? `?${query}` : ''}`);
+  },
+
+  // Polling also keeps the job running between server-side slices
+  getJob: async (jobId: string): Promise<{ job: Job }> => {
+    return fetchWithAuth(`${API_BASE}/jobs/${jobId}`);
+  },
+
+  cancelJob: async (jobId: string): Promise<{ job: Job }> => {
+    return fetchWithAuth(`${API_BASE}/jobs/${jobId}/cancel`, {
+      method: 'POST',
+    });
+  },
+
+  resumeJob: async (jobId: string): Promise<{ job: Job }> => {
+    return fetchWithAuth(`${API_BASE}/jobs/${jobId}/resume`, {
+      method: 'POST',
     });
   },
 
   // Admin
-  getAdminStats: async (): Promise<{ stats: { totalUsers: number; totalLocations: number; totalFavorites: number; totalWantToGo: number; lvRatedLocations: number; michelinLocations: number } }> => {
-    return fetchWithAuth(`${API_BASE}/admin/stats`);
+  getAdminStats: async (days = 30): Promise<{
+    stats: AdminStats;
+    timeSeries: AdminStatsPoint[];
+    breakdowns: { cities: AdminStatsBreakdown[]; countries: AdminStatsBreakdown[] };
+    days: number;
+  }> => {
+    return fetchWithAuth(`${API_BASE}/admin/stats?days=${days}`);
   },
 
   getMichelinRating: async (lat: number, lng: number, name?: string): Promise<{ michelinScore: number | null; hasMichelinRating: boolean }> => {
@@ -674,8 +1843,39 @@ export const api = {
     }
   },
 
+  // Map clusters for a viewport (bounds = south,west,north,east)
+  getClusters: async (
+    bounds: { south: number; west: number; north: number; east: number },
+    zoom: number,
+    layers: Array<'lv' | 'michelin'> = ['lv', 'michelin'],
+    includeClosed = false // Permanently closed and moved locations are left out by default
+  ): Promise<{ clusters: MapCluster[]; zoom: number; total: number }> => {
+    // Public endpoint - doesn't require auth
+    const params = new URLSearchParams({
+      bounds: [bounds.south, bounds.west, bounds.north, bounds.east].join(','),
+      zoom: Math.floor(zoom).toString(),
+      layers: layers.join(','),
+    });
+    if (includeClosed) params.set('includeClosed', 'true');
+
+    const response = await fetch(`${API_BASE}/clusters?${params.toString()}`, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${publicAnonKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: response.statusText }));
+      console.error('❌ getClusters error:', error);
+      throw new Error(error.error || `HTTP error! status: ${response.status}`);
+    }
+
+    return response.json();
+  },
+
   // Suggest Google Place ID for a Michelin restaurant
-  suggestPlaceForMichelin: async (michelinId: number) => {
+  suggestPlaceForMichelin: async (michelinId: number): Promise<MichelinPlaceSuggestion> => {
     // Public endpoint - doesn't require auth
     const response = await fetch(`${API_BASE}/michelin/${michelinId}/suggest-place`, {
       headers: {
@@ -694,7 +1894,7 @@ export const api = {
   },
 
   // Validate a suggested Place ID for a Michelin restaurant
-  validateMichelinPlace: async (michelinId: number, placeId: string, status: 'confirmed' | 'rejected' | 'unsure') => {
+  validateMichelinPlace: async (michelinId: number, placeId: string, status: PlaceVoteStatus): Promise<PlaceVoteResult> => {
     const response = await fetchWithAuth(`${API_BASE}/michelin/${michelinId}/validate-place`, {
       method: 'POST',
       headers: {
@@ -707,9 +1907,113 @@ export const api = {
     return response;
   },
 
+  // Editor review queue of crowd-validated Place IDs (contested by default)
+  getPlaceValidationQueue: async (
+    status: PlaceSuggestionStatus = 'contested'
+  ): Promise<{ config: { quorum: number; threshold: number }; suggestions: PlaceSuggestionReview[] }> => {
+    return fetchWithAuth(`${API_BASE}/michelin/place-validations?status=${status}`);
+  },
+
+  // Settle a suggested Place ID by hand: link it or blacklist it
+  resolveMichelinPlace: async (
+    michelinId: number,
+    placeId: string,
+    decision: 'apply' | 'blacklist'
+  ): Promise<{ success: boolean; suggestion: PlaceSuggestionReview }> => {
+    return fetchWithAuth(`${API_BASE}/michelin/${michelinId}/resolve-place`, {
+      method: 'POST',
+      body: JSON.stringify({ placeId, decision }),
+    });
+  },
+
   // Monitoring & Metrics
-  getMetrics: async (): Promise<any> => {
-    return fetchWithAuth(`${API_BASE}/metrics`);
+  // Live instance snapshot plus persisted history (default last hour)
+  getMetrics: async (
+    options: { from?: Date; to?: Date; route?: string } = {}
+  ): Promise<{ success: boolean; metrics: any; history: MetricsHistory; timestamp: string }> => {
+    const params = new URLSearchParams();
+    if (options.from) params.set('from', options.from.toISOString());
+    if (options.to) params.set('to', options.to.toISOString());
+    if (options.route) params.set('route', options.route);
+    const query = params.toString();
+    return fetchWithAuth(`${API_BASE}/metrics${query ? `?${query}` : ''}`);
+  },
+
+  // Field data across sessions (default last day)
+  getTelemetrySummary: async (
+    options: { from?: Date; to?: Date; browser?: string; appVersion?: string } = {}
+  ): Promise<TelemetrySummary> => {
+    const params = new URLSearchParams();
+    if (options.from) params.set('from', options.from.toISOString());
+    if (options.to) params.set('to', options.to.toISOString());
+    if (options.browser) params.set('browser', options.browser);
+    if (options.appVersion) params.set('appVersion', options.appVersion);
+    const query = params.toString();
+    return fetchWithAuth(`${API_BASE}/telemetry/summary${query ? `?${query}` : ''}`);
+  },
+
+  getAlertRules: async (): Promise<{ rules: AlertRule[] }> => {
+    return fetchWithAuth(`${API_BASE}/alert-rules`);
+  },
+
+  createAlertRule: async (rule: Partial<AlertRuleInput>): Promise<{ rule: AlertRule }> => {
+    return fetchWithAuth(`${API_BASE}/alert-rules`, {
+      method: 'POST',
+      body: JSON.stringify(rule),
+    });
+  },
+
+  updateAlertRule: async (ruleId: string, updates: Partial<AlertRuleInput>): Promise<{ rule: AlertRule }> => {
+    return fetchWithAuth(`${API_BASE}/alert-rules/${ruleId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  },
+
+  deleteAlertRule: async (ruleId: string): Promise<{ success: boolean }> => {
+    return fetchWithAuth(`${API_BASE}/alert-rules/${ruleId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  // Run every rule now
+  evaluateAlerts: async (): Promise<{ evaluated: number; opened: number; resolved: number }> => {
+    return fetchWithAuth(`${API_BASE}/alerts/evaluate`, {
+      method: 'POST',
+    });
+  },
+
+  // 'active' is open and acknowledged
+  getAlerts: async (status?: AlertStatus | 'active'): Promise<{ alerts: Alert[] }> => {
+    return fetchWithAuth(`${API_BASE}/alerts${status ? `?status=${status}` : ''}`);
+  },
+
+  getAlert: async (alertId: string): Promise<{ alert: Alert; events: AlertEvent[] }> => {
+    return fetchWithAuth(`${API_BASE}/alerts/${alertId}`);
+  },
+
+  acknowledgeAlert: async (alertId: string): Promise<{ alert: Alert }> => {
+    return fetchWithAuth(`${API_BASE}/alerts/${alertId}/acknowledge`, {
+      method: 'POST',
+    });
+  },
+
+  resolveAlert: async (alertId: string): Promise<{ alert: Alert }> => {
+    return fetchWithAuth(`${API_BASE}/alerts/${alertId}/resolve`, {
+      method: 'POST',
+    });
+  },
+
+  // Google API calls and estimated cost for the last `days` days (admins only)
+  getGoogleUsage: async (days = 30): Promise<GoogleUsageReport> => {
+    return fetchWithAuth(`${API_BASE}/admin/google-usage?days=${days}`);
+  },
+
+  // Insert the sample locations (editors only)
+  seedDatabase: async (): Promise<{ success: boolean; locations: Location[] }> => {
+    return fetchWithAuth(`${API_BASE}/seed`, {
+      method: 'POST',
+    });
   },
 
   getHealth: async (): Promise<{ status: string; timestamp: string; uptime: number }> => {
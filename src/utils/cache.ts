@@ -50,10 +50,16 @@ export class Cache<T = any> {
 
   /**
    * Invalidate a specific cache entry or all entries
+   * Query variants stored as `${key}?...` are invalidated with their base key
    */
   invalidate(key?: string): void {
     if (key) {
       this.cache.delete(key);
+      for (const cachedKey of this.cache.keys()) {
+        if (cachedKey.startsWith(`${key}?`)) {
+          this.cache.delete(cachedKey);
+        }
+      }
       console.log(`🗑️ Invalidated cache: ${key}`);
     } else {
       this.cache.clear();
@@ -0,0 +1,20 @@
+/**
+ * Location lifecycle (mirrors supabase/functions/server/location_status.tsx)
+ * Closed locations keep their rows so saved lists can flag them
+ */
+
+import type { Location, LocationStatus } from './api';
+
+export const LOCATION_STATUS_LABELS: Record<LocationStatus, string> = {
+  open: 'Open',
+  temporarily_closed: 'Temporarily closed',
+  permanently_closed: 'Permanently closed',
+  moved: 'Moved',
+};
+
+/**
+ * True when a location is no longer a place to go (hidden from the map by
+ * default). Temporarily closed places still count as open here.
+ */
+export const isClosedLocation = (location: Pick<Location, 'status'>): boolean =>
+  location.status === 'permanently_closed' || location.status === 'moved';
@@ -0,0 +1,127 @@
+/**
+ * Persistent client-side location store
+ * Keeps the full location catalog in IndexedDB together with the sync
+ * token from GET /locations/changes, so returning users only download
+ * deltas and the map still works offline
+ */
+
+import type { Location } from './api';
+import { offlineDb } from './offlineDb';
+
+const STORAGE_KEY = 'locations';
+// Snapshots written before the move to IndexedDB
+const LEGACY_STORAGE_KEY = 'lv_location_store';
+const STORE_VERSION = 1;
+
+interface PersistedStore {
+  version: number;
+  syncToken: string | null;
+  locations: Location[];
+}
+
+export interface LocationChanges {
+  full: boolean;
+  upserts: Location[];
+  deleted: Array<{ id: string; deletedAt: string }>;
+  syncToken: string;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export class LocationStore {
+  private locations = new Map<string, Location>();
+  private syncToken: string | null = null;
+  private loading: Promise<void> | null = null;
+
+  /**
+   * Load the persisted snapshot (once per page load). Await before reading.
+   */
+  ready(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      let stored = await offlineDb.get<PersistedStore>('kv', STORAGE_KEY);
+
+      // One-time move from localStorage
+      const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (legacy) {
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        stored = stored ?? JSON.parse(legacy);
+      }
+
+      if (!stored || stored.version !== STORE_VERSION) return;
+
+      stored.locations.forEach(loc => this.locations.set(loc.id, loc));
+      this.syncToken = stored.syncToken;
+      console.log(`📦 Location store loaded: ${this.locations.size} locations (synced ${this.syncToken ?? 'never'})`);
+    } catch (error) {
+      console.warn('⚠️ Failed to load location store - starting fresh:', error);
+      this.locations.clear();
+      this.syncToken = null;
+    }
+  }
+
+  /**
+   * Write the snapshot back. A failed write only costs us persistence -
+   * the in-memory copy stays valid.
+   */
+  private async persist(): Promise<void> {
+    const stored: PersistedStore = {
+      version: STORE_VERSION,
+      syncToken: this.syncToken,
+      locations: Array.from(this.locations.values()),
+    };
+    await offlineDb.put('kv', stored, STORAGE_KEY);
+  }
+
+  getSyncToken(): string | null {
+    return this.syncToken;
+  }
+
+  getAll(): Location[] {
+    return Array.from(this.locations.values());
+  }
+
+  get(id: string): Location | undefined {
+    return this.locations.get(id);
+  }
+
+  size(): number {
+    return this.locations.size;
+  }
+
+  /**
+   * Merge one page of changes. `full` pages replace the store (first page
+   * clears it), incremental pages upsert rows and drop tombstoned ones.
+   */
+  applyPage(changes: LocationChanges, isFirstPage: boolean): void {
+    if (changes.full && isFirstPage) {
+      this.locations.clear();
+    }
+
+    changes.upserts.forEach(loc => this.locations.set(loc.id, loc));
+    changes.deleted.forEach(({ id }) => this.locations.delete(id));
+  }
+
+  /**
+   * Record the sync token once every page of a sync has been merged
+   */
+  async commit(syncToken: string): Promise<void> {
+    this.syncToken = syncToken;
+    await this.persist();
+  }
+
+  async clear(): Promise<void> {
+    this.locations.clear();
+    this.syncToken = null;
+    this.loading = Promise.resolve();
+    await offlineDb.delete('kv', STORAGE_KEY);
+  }
+}
+
+export const locationStore = new LocationStore();
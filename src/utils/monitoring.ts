@@ -2,9 +2,26 @@
  * Frontend Performance Monitoring and Crash Logging Utilities
  * 
  * This module provides comprehensive logging, error tracking, and performance
- * monitoring for the Le Voyageur frontend application.
+ * monitoring for the Le Voyageur frontend application. Besides the local
+ * copy in localStorage, errors (every session) and performance metrics and
+ * action names (a sample of sessions) are batched to POST /telemetry.
  */
 
+import { projectId } from '/utils/supabase/info.tsx';
+
+const TELEMETRY_URL = `https://${projectId}.supabase.co/functions/v1/make-server-48182530/telemetry`;
+
+// Off in development unless a sample rate is configured explicitly
+const TELEMETRY_ENABLED = !import.meta.env.DEV || import.meta.env.VITE_TELEMETRY_SAMPLE_RATE !== undefined;
+const TELEMETRY_SAMPLE_RATE = Math.min(Math.max(Number(import.meta.env.VITE_TELEMETRY_SAMPLE_RATE ?? 0.25) || 0, 0), 1);
+const APP_VERSION = import.meta.env.VITE_APP_VERSION || 'dev';
+
+const TELEMETRY_FLUSH_INTERVAL_MS = 30 * 1000;
+// Flush early at these sizes - sendBeacon payloads are capped around 64KB
+const TELEMETRY_BATCH_METRICS = 100;
+const TELEMETRY_BATCH_ERRORS = 10;
+const TELEMETRY_STACK_LENGTH = 2000;
+
 export interface PerformanceMetric {
   type: 'api' | 'component' | 'interaction' | 'navigation' | 'network';
   name: string;
@@ -45,12 +62,20 @@ export interface SessionInfo {
   viewport: { width: number; height: number };
 }
 
+interface TelemetryQueue {
+  metrics: Array<Pick<PerformanceMetric, 'type' | 'name' | 'duration' | 'status' | 'error'>>;
+  errors: Array<Pick<ErrorLog, 'type' | 'message' | 'stack' | 'component' | 'url' | 'timestamp'>>;
+  actions: Array<Pick<UserAction, 'action' | 'component'>>;
+}
+
 // In-memory storage with localStorage persistence
 class MonitoringStore {
   private performanceMetrics: PerformanceMetric[] = [];
   private errorLogs: ErrorLog[] = [];
   private userActions: UserAction[] = [];
   private sessionInfo: SessionInfo | null = null;
+  private telemetryQueue: TelemetryQueue = { metrics: [], errors: [], actions: [] };
+  private telemetrySampled = false; // Whether this session sends metrics and actions
 
   private readonly MAX_METRICS = 500;
   private readonly MAX_ERRORS = 100;
@@ -67,6 +92,72 @@ class MonitoringStore {
       this.loadFromStorage();
       this.setupGlobalErrorHandlers();
       this.setupPerformanceObserver();
+      this.setupTelemetry();
+    }
+  }
+
+  private setupTelemetry() {
+    if (!TELEMETRY_ENABLED) return;
+
+    // Decided once per session so a sampled session reports completely
+    let sampled = sessionStorage.getItem('lv_telemetry_sampled');
+    if (sampled === null) {
+      sampled = Math.random() < TELEMETRY_SAMPLE_RATE ? '1' : '0';
+      sessionStorage.setItem('lv_telemetry_sampled', sampled);
+    }
+    this.telemetrySampled = sampled === '1';
+
+    setInterval(() => this.flushTelemetry(), TELEMETRY_FLUSH_INTERVAL_MS);
+
+    // The page may never come back - hand the rest to sendBeacon
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') this.flushTelemetry(true);
+    });
+    window.addEventListener('pagehide', () => this.flushTelemetry(true));
+  }
+
+  /**
+   * Send queued telemetry. Failed sends are dropped rather than retried so
+   * reporting can never pile up or loop.
+   */
+  public flushTelemetry(useBeacon = false) {
+    if (!TELEMETRY_ENABLED || !this.sessionInfo) return;
+
+    const queue = this.telemetryQueue;
+    if (queue.metrics.length === 0 && queue.errors.length === 0 && queue.actions.length === 0) return;
+    this.telemetryQueue = { metrics: [], errors: [], actions: [] };
+
+    // text/plain keeps both paths free of a CORS preflight
+    const body = JSON.stringify({
+      session: {
+        sessionId: this.sessionInfo.sessionId,
+        appVersion: APP_VERSION,
+        userAgent: this.sessionInfo.userAgent,
+        sampleRate: TELEMETRY_SAMPLE_RATE,
+      },
+      ...queue,
+    });
+
+    if (useBeacon && navigator.sendBeacon?.(TELEMETRY_URL, new Blob([body], { type: 'text/plain;charset=UTF-8' }))) {
+      return;
+    }
+    fetch(TELEMETRY_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain;charset=UTF-8' },
+      body,
+      keepalive: true,
+    }).catch(() => {});
+  }
+
+  private queueTelemetry<K extends keyof TelemetryQueue>(kind: K, entry: TelemetryQueue[K][number]) {
+    if (!TELEMETRY_ENABLED) return;
+
+    (this.telemetryQueue[kind] as Array<TelemetryQueue[K][number]>).push(entry);
+    if (
+      this.telemetryQueue.metrics.length + this.telemetryQueue.actions.length >= TELEMETRY_BATCH_METRICS ||
+      this.telemetryQueue.errors.length >= TELEMETRY_BATCH_ERRORS
+    ) {
+      this.flushTelemetry();
     }
   }
 
@@ -224,8 +315,8 @@ class MonitoringStore {
         const resourceObserver = new PerformanceObserver((list) => {
           for (const entry of list.getEntries()) {
             const resourceEntry = entry as PerformanceResourceTiming;
-            // Only log API calls to our backend
-            if (resourceEntry.name.includes('supabase.co/functions/v1')) {
+            // Only log API calls to our backend (not the telemetry it reports itself)
+            if (resourceEntry.name.includes('supabase.co/functions/v1') && !resourceEntry.name.startsWith(TELEMETRY_URL)) {
               this.logPerformance({
                 type: 'network',
                 name: resourceEntry.name.split('/').pop() || 'unknown',
@@ -256,6 +347,11 @@ class MonitoringStore {
       this.performanceMetrics.shift();
     }
 
+    if (this.telemetrySampled) {
+      const { type, name, duration, status, error } = metric;
+      this.queueTelemetry('metrics', { type, name, duration, status, error });
+    }
+
     // Log to console with emojis for visibility
     const emoji = metric.error ? '🔴' : metric.duration > 1000 ? '🟡' : '🟢';
     const typeEmoji = {
@@ -297,6 +393,16 @@ class MonitoringStore {
         this.errorLogs.shift();
       }
 
+      // Errors are reported from every session, sampled or not
+      this.queueTelemetry('errors', {
+        type: error.type,
+        message: error.message,
+        stack: error.stack?.slice(0, TELEMETRY_STACK_LENGTH),
+        component: error.component,
+        url: error.url,
+        timestamp: error.timestamp,
+      });
+
       // Log to console with full details (safely)
       console.error('🔴 [ERROR] ========================================');
       console.error(`Type: ${error.type}`);
@@ -333,6 +439,11 @@ class MonitoringStore {
       this.userActions.shift();
     }
 
+    // Names only - action metadata stays on the device
+    if (this.telemetrySampled) {
+      this.queueTelemetry('actions', { action: action.action, component: action.component });
+    }
+
     // Log to console
     console.log(`👆 [ACTION] ${action.action}${action.component ? ` in ${action.component}` : ''}`, action.metadata || '');
 
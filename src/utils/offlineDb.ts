@@ -0,0 +1,90 @@
+/**
+ * IndexedDB persistence for offline use
+ * A tiny promise wrapper around three object stores:
+ * - kv: location snapshot, favorites and want-to-go lists
+ * - placeDetails: place details the user has viewed
+ * - mutations: favorite / want-to-go toggles queued while offline
+ *
+ * Every call degrades to a no-op when IndexedDB is unavailable
+ * (private browsing, old browsers) so callers never need to check.
+ */
+
+const DB_NAME = 'lv-offline';
+const DB_VERSION = 1;
+
+export type OfflineStoreName = 'kv' | 'placeDetails' | 'mutations';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('kv')) db.createObjectStore('kv');
+      if (!db.objectStoreNames.contains('placeDetails')) db.createObjectStore('placeDetails');
+      if (!db.objectStoreNames.contains('mutations')) {
+        db.createObjectStore('mutations', { keyPath: 'id', autoIncrement: true });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('⚠️ IndexedDB unavailable - offline data disabled:', request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Run one request in its own transaction
+const run = async <T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T | undefined> => {
+  const db = await openDb();
+  if (!db) return undefined;
+
+  return new Promise(resolve => {
+    try {
+      const tx = db.transaction(storeName, mode);
+      const request = makeRequest(tx.objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => {
+        console.warn(`⚠️ IndexedDB ${mode} on ${storeName} failed:`, request.error);
+        resolve(undefined);
+      };
+    } catch (error) {
+      console.warn(`⚠️ IndexedDB ${mode} on ${storeName} failed:`, error);
+      resolve(undefined);
+    }
+  });
+};
+
+export const offlineDb = {
+  get: <T = any>(storeName: OfflineStoreName, key: IDBValidKey) =>
+    run<T>(storeName, 'readonly', store => store.get(key)),
+
+  getAll: async <T = any>(storeName: OfflineStoreName): Promise<T[]> =>
+    (await run<T[]>(storeName, 'readonly', store => store.getAll())) || [],
+
+  // key is omitted for stores with a keyPath (mutations)
+  put: (storeName: OfflineStoreName, value: any, key?: IDBValidKey) =>
+    run<IDBValidKey>(storeName, 'readwrite', store => (key === undefined ? store.put(value) : store.put(value, key))),
+
+  delete: (storeName: OfflineStoreName, key: IDBValidKey) =>
+    run<void>(storeName, 'readwrite', store => store.delete(key)),
+
+  clear: (storeName: OfflineStoreName) =>
+    run<void>(storeName, 'readwrite', store => store.clear()),
+};
@@ -0,0 +1,96 @@
+/**
+ * Offline mutation queue
+ * Favorite / want-to-go toggles made without a connection are stored in
+ * IndexedDB and replayed in order once the browser is back online. Each
+ * change belongs to the user who made it and is only replayed for them, so
+ * a shared device never syncs one person's toggles into another's account.
+ */
+
+import { offlineDb } from './offlineDb';
+
+export type OfflineMutationKind = 'favorite' | 'want-to-go';
+
+export interface OfflineMutation {
+  id?: number;
+  userId: string;
+  kind: OfflineMutationKind;
+  action: 'add' | 'remove';
+  locationId: string;
+  placeData?: { name?: string; lat?: number; lng?: number; formatted_address?: string; place_id?: string };
+  queuedAt: string; // When the user made the change - the server uses it to detect newer edits
+}
+
+type QueueListener = (pendingCount: number) => void;
+
+// Listener -> user whose pending changes it counts
+const listeners = new Map<QueueListener, string>();
+
+const notify = async () => {
+  const mutations = await offlineDb.getAll<OfflineMutation>('mutations');
+  listeners.forEach((userId, listener) => listener(mutations.filter(m => m.userId === userId).length));
+};
+
+/**
+ * True for errors that mean "no connection" rather than "server said no"
+ */
+export const isNetworkError = (error: any): boolean =>
+  (typeof navigator !== 'undefined' && !navigator.onLine) ||
+  error instanceof TypeError ||
+  error?.message === 'Failed to fetch';
+
+export const offlineQueue = {
+  /**
+   * Queue a toggle. An opposite toggle for the same place still waiting in
+   * the queue cancels out instead of being replayed twice.
+   */
+  enqueue: async (mutation: Omit<OfflineMutation, 'id' | 'queuedAt'>): Promise<void> => {
+    const pending = await offlineDb.getAll<OfflineMutation>('mutations');
+    const previous = pending.find(m =>
+      m.userId === mutation.userId && m.kind === mutation.kind && m.locationId === mutation.locationId
+    );
+
+    if (previous?.id !== undefined) {
+      await offlineDb.delete('mutations', previous.id);
+      if (previous.action !== mutation.action) {
+        console.log(`📴 Offline ${mutation.kind} ${mutation.action} cancels queued ${previous.action}:`, mutation.locationId);
+        await notify();
+        return;
+      }
+    }
+
+    await offlineDb.put('mutations', { ...mutation, queuedAt: new Date().toISOString() });
+    console.log(`📴 Queued offline ${mutation.kind} ${mutation.action}:`, mutation.locationId);
+    await notify();
+  },
+
+  /**
+   * A user's queued mutations, oldest first
+   */
+  pending: async (userId: string): Promise<OfflineMutation[]> => {
+    const mutations = await offlineDb.getAll<OfflineMutation>('mutations');
+    return mutations
+      .filter(m => m.userId === userId)
+      .sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+  },
+
+  remove: async (id: number): Promise<void> => {
+    await offlineDb.delete('mutations', id);
+    await notify();
+  },
+
+  clear: async (): Promise<void> => {
+    await offlineDb.clear('mutations');
+    await notify();
+  },
+
+  /**
+   * Subscribe to a user's pending-count changes (for the offline indicator)
+   */
+  subscribe: (userId: string, listener: QueueListener): (() => void) => {
+    listeners.set(listener, userId);
+    notify();
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
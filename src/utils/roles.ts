@@ -0,0 +1,22 @@
+/**
+ * Role hierarchy (mirrors supabase/functions/server/roles.tsx)
+ * The server is the authority on permissions - the client only uses the
+ * ordering to decide which UI to show
+ */
+
+export const ROLES = ['user', 'contributor', 'editor', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  user: '🌍 Traveler',
+  contributor: '🧭 Contributor',
+  editor: '✨ Editor',
+  admin: '👑 Admin',
+};
+
+/**
+ * True when `role` is `minRole` or above it
+ */
+export const hasRole = (role: string | null | undefined, minRole: Role): boolean =>
+  ROLES.indexOf(role as Role) >= ROLES.indexOf(minRole);
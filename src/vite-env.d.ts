@@ -2,6 +2,8 @@
 
 interface ImportMetaEnv {
   readonly VITE_GOOGLE_MAPS_API_KEY: string;
+  readonly VITE_APP_VERSION?: string; // Reported with telemetry
+  readonly VITE_TELEMETRY_SAMPLE_RATE?: string; // 0-1 share of sessions sending metrics (default 0.25)
   // Add other env variables here as needed
 }
 
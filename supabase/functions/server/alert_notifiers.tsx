@@ -0,0 +1,175 @@
+/**
+ * Alert Notifiers
+ * Where alert notifications go. Each rule lists its channels: a generic
+ * webhook (JSON POST; the `text` field makes Slack-style incoming webhooks
+ * work as-is), an email outbox row for the mail worker to send, or the local
+ * sink, which only writes to the function log.
+ *
+ * Set ALERT_DELIVERY=local to send every notification to the local sink
+ * instead of its channels - for local development and staging, where
+ * webhooks and mail shouldn't fire.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export const ALERT_CHANNEL_TYPES = ['webhook', 'email', 'local'] as const;
+
+export type AlertChannelType = typeof ALERT_CHANNEL_TYPES[number];
+
+export type AlertChannel =
+  | { type: 'webhook'; url: string }
+  | { type: 'email'; to: string }
+  | { type: 'local' };
+
+export interface AlertNotification {
+  event: 'opened' | 'resolved';
+  alertId: string;
+  ruleId: string;
+  ruleName: string;
+  message: string;
+  value: number | null;
+  threshold: number;
+  at: string;
+}
+
+export interface AlertDelivery {
+  channel: string; // describeAlertChannel()
+  error: string | null;
+}
+
+interface AlertNotifier {
+  send(supabase: SupabaseClient, channel: AlertChannel, notification: AlertNotification): Promise<void>;
+}
+
+const MAX_CHANNELS = 5;
+const WEBHOOK_TIMEOUT_MS = 5000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function notificationSubject(notification: AlertNotification): string {
+  return notification.event === 'opened'
+    ? `🚨 ${notification.ruleName}`
+    : `✅ Resolved: ${notification.ruleName}`;
+}
+
+const NOTIFIERS: Record<AlertChannelType, AlertNotifier> = {
+  webhook: {
+    async send(_supabase, channel, notification) {
+      if (channel.type !== 'webhook') return;
+
+      const response = await fetch(channel.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          text: `${notificationSubject(notification)} - ${notification.message}`,
+          alert: notification,
+        }),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded ${response.status}`);
+      }
+    },
+  },
+
+  // The mail worker picks up pending rows; nothing is sent from here
+  email: {
+    async send(supabase, channel, notification) {
+      if (channel.type !== 'email') return;
+
+      const { error } = await supabase.from('email_outbox').insert({
+        to_address: channel.to,
+        subject: notificationSubject(notification),
+        body: `${notification.message}\n\nAlert ${notification.alertId} ${notification.event} at ${notification.at}`,
+        status: 'pending',
+      });
+      if (error) throw new Error(error.message);
+    },
+  },
+
+  local: {
+    async send(_supabase, _channel, notification) {
+      console.log(`🔔 ${notificationSubject(notification)} - ${notification.message}`);
+    },
+  },
+};
+
+export function getAlertDeliveryMode(): 'live' | 'local' {
+  return Deno.env.get('ALERT_DELIVERY') === 'local' ? 'local' : 'live';
+}
+
+export function describeAlertChannel(channel: AlertChannel): string {
+  switch (channel.type) {
+    case 'webhook':
+      return `webhook ${new URL(channel.url).host}`;
+    case 'email':
+      return `email ${channel.to}`;
+    default:
+      return 'local';
+  }
+}
+
+/**
+ * Validate a rule's channels. An empty list is allowed - the alert is then
+ * only logged.
+ */
+export function parseAlertChannels(value: unknown): AlertChannel[] | string {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) return 'channels must be an array';
+  if (value.length > MAX_CHANNELS) return `A rule can have at most ${MAX_CHANNELS} channels`;
+
+  const channels: AlertChannel[] = [];
+  for (const entry of value) {
+    switch (entry?.type) {
+      case 'webhook': {
+        let url: URL;
+        try {
+          url = new URL(String(entry.url));
+        } catch {
+          return 'Webhook channels need a valid url';
+        }
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+          return 'Webhook urls must use http or https';
+        }
+        channels.push({ type: 'webhook', url: url.toString() });
+        break;
+      }
+      case 'email': {
+        const to = typeof entry.to === 'string' ? entry.to.trim() : '';
+        if (!EMAIL_PATTERN.test(to)) return 'Email channels need a valid to address';
+        channels.push({ type: 'email', to });
+        break;
+      }
+      case 'local':
+        channels.push({ type: 'local' });
+        break;
+      default:
+        return `Channel type must be one of: ${ALERT_CHANNEL_TYPES.join(', ')}`;
+    }
+  }
+  return channels;
+}
+
+/**
+ * Send a notification to every channel (or only the local sink, see
+ * getAlertDeliveryMode). A failing channel doesn't stop the others; each
+ * outcome is returned for the alert history.
+ */
+export async function deliverAlertNotification(
+  supabase: SupabaseClient,
+  channels: AlertChannel[],
+  notification: AlertNotification
+): Promise<AlertDelivery[]> {
+  const targets: AlertChannel[] = getAlertDeliveryMode() === 'local' || channels.length === 0
+    ? [{ type: 'local' }]
+    : channels;
+
+  return Promise.all(targets.map(async channel => {
+    try {
+      await NOTIFIERS[channel.type].send(supabase, channel, notification);
+      return { channel: describeAlertChannel(channel), error: null };
+    } catch (error: any) {
+      console.error(`⚠️ Failed to notify ${describeAlertChannel(channel)}:`, error);
+      return { channel: describeAlertChannel(channel), error: error.message || String(error) };
+    }
+  }));
+}
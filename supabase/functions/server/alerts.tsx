@@ -0,0 +1,618 @@
+/**
+ * Alerting
+ * Rules over the persisted metric rollups (metrics_store.tsx), e.g. "5xx
+ * rate > 5% over 5 min on /locations" or "p95 of GET
+ * /google-places/:placeId/details > 3000ms". Every instance evaluates the
+ * enabled rules about once a minute while it serves traffic; POST
+ * /alerts/evaluate runs them on demand.
+ *
+ * A breaching rule opens an alert, which an editor can acknowledge. It
+ * resolves by itself once the rule stops breaching, or by hand. A rule has at
+ * most one unresolved alert (enforced by a partial unique index, so two
+ * instances can't both open one). Every transition and notification is kept
+ * in alert_events; resolved alerts stay as history.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { queryMetricTotals, type MetricKind, type MetricsTotals } from './metrics_store.tsx';
+import {
+  deliverAlertNotification,
+  parseAlertChannels,
+  type AlertChannel,
+  type AlertNotification,
+} from './alert_notifiers.tsx';
+
+export const ALERT_METRICS = ['error_rate', 'avg_ms', 'p50_ms', 'p95_ms', 'p99_ms'] as const;
+export const ALERT_COMPARATORS = ['>', '<'] as const;
+export const ALERT_STATUSES = ['open', 'acknowledged', 'resolved'] as const;
+
+export type AlertMetric = typeof ALERT_METRICS[number];
+export type AlertComparator = typeof ALERT_COMPARATORS[number];
+export type AlertStatus = typeof ALERT_STATUSES[number];
+
+// Alerts in these states still need attention
+export const ACTIVE_ALERT_STATUSES: AlertStatus[] = ['open', 'acknowledged'];
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  error_rate: '5xx rate',
+  avg_ms: 'Average latency',
+  p50_ms: 'p50 latency',
+  p95_ms: 'p95 latency',
+  p99_ms: 'p99 latency',
+};
+
+const MAX_NAME_LENGTH = 100;
+const MAX_WINDOW_MINUTES = 60;
+const DEFAULT_MIN_REQUESTS = 20;
+const MAX_ALERTS_LISTED = 100;
+
+export interface AlertConfig {
+  evaluationIntervalMs: number;
+}
+
+export interface AlertRuleInput {
+  name: string;
+  kind: MetricKind;
+  target: string | null; // Route name, bare path (any method) or table; null for all
+  metric: AlertMetric;
+  comparator: AlertComparator;
+  threshold: number; // 0-1 for error_rate, otherwise ms
+  windowMinutes: number;
+  minRequests: number; // Fewer requests than this in the window is "no data"
+  channels: AlertChannel[];
+  enabled: boolean;
+}
+
+export interface AlertRuleRow {
+  id: string;
+  name: string;
+  kind: MetricKind;
+  target: string | null;
+  metric: AlertMetric;
+  comparator: AlertComparator;
+  threshold: number;
+  window_minutes: number;
+  min_requests: number;
+  channels: AlertChannel[];
+  enabled: boolean;
+  last_value: number | null;
+  last_evaluated_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AlertRow {
+  id: string;
+  rule_id: string | null; // Null once the rule is deleted
+  rule_name: string;
+  condition: string;
+  status: AlertStatus;
+  value: number | null; // When it opened
+  last_value: number | null;
+  threshold: number;
+  opened_at: string;
+  acknowledged_at: string | null;
+  acknowledged_by: string | null;
+  resolved_at: string | null;
+  resolved_by: string | null; // Null when it resolved by itself
+}
+
+export interface AlertEventRow {
+  id: number;
+  alert_id: string;
+  event: 'opened' | 'acknowledged' | 'resolved' | 'notified' | 'notify_failed';
+  actor: string | null;
+  value: number | null;
+  detail: string | null;
+  created_at: string;
+}
+
+export interface AlertEvaluationResult {
+  evaluated: number;
+  opened: number;
+  resolved: number;
+}
+
+let lastEvaluationAt = 0;
+let evaluating: Promise<AlertEvaluationResult> | null = null;
+
+export function getAlertConfig(): AlertConfig {
+  const evaluationIntervalMs = Number(Deno.env.get('ALERT_EVALUATION_INTERVAL_MS'));
+
+  return {
+    evaluationIntervalMs: Number.isFinite(evaluationIntervalMs) && evaluationIntervalMs >= 10 * 1000
+      ? evaluationIntervalMs
+      : 60 * 1000,
+  };
+}
+
+export function isAlertStatus(value: unknown): value is AlertStatus {
+  return typeof value === 'string' && (ALERT_STATUSES as readonly string[]).includes(value);
+}
+
+function isAlertMetric(value: unknown): value is AlertMetric {
+  return typeof value === 'string' && (ALERT_METRICS as readonly string[]).includes(value);
+}
+
+function isAlertComparator(value: unknown): value is AlertComparator {
+  return typeof value === 'string' && (ALERT_COMPARATORS as readonly string[]).includes(value);
+}
+
+function formatMetricValue(metric: AlertMetric, value: number): string {
+  return metric === 'error_rate' ? `${Math.round(value * 1000) / 10}%` : `${Math.round(value)}ms`;
+}
+
+/**
+ * e.g. "5xx rate on /locations > 5% over 5 min"
+ */
+export function describeAlertCondition(rule: AlertRuleInput | AlertRuleRow): string {
+  const windowMinutes = 'windowMinutes' in rule ? rule.windowMinutes : rule.window_minutes;
+  const target = rule.target || (rule.kind === 'db' ? 'all tables' : 'all routes');
+  return `${METRIC_LABELS[rule.metric]} on ${target} ${rule.comparator} ${formatMetricValue(rule.metric, rule.threshold)} over ${windowMinutes} min`;
+}
+
+/**
+ * Whether a metric name falls under a rule's target. A target without a
+ * method ("/locations") matches the route under every method.
+ */
+export function matchesAlertTarget(target: string | null, name: string): boolean {
+  if (!target) return true;
+  if (target === name) return true;
+  return target.startsWith('/') && name.slice(name.indexOf(' ') + 1) === target;
+}
+
+function ruleToInput(rule: AlertRuleRow): AlertRuleInput {
+  return {
+    name: rule.name,
+    kind: rule.kind,
+    target: rule.target,
+    metric: rule.metric,
+    comparator: rule.comparator,
+    threshold: rule.threshold,
+    windowMinutes: rule.window_minutes,
+    minRequests: rule.min_requests,
+    channels: rule.channels || [],
+    enabled: rule.enabled,
+  };
+}
+
+/**
+ * Validate a rule from a request body. With `existing`, fields left out of
+ * the body keep their current values (PUT).
+ */
+export function parseAlertRuleInput(body: any, existing?: AlertRuleRow): AlertRuleInput | string {
+  if (!body || typeof body !== 'object') return 'Body must be an object';
+  const base = existing ? ruleToInput(existing) : null;
+  const pick = (key: keyof AlertRuleInput) => (body[key] !== undefined ? body[key] : base?.[key]);
+
+  const name = typeof pick('name') === 'string' ? pick('name').trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) return `name is required (at most ${MAX_NAME_LENGTH} characters)`;
+
+  const kind = pick('kind') ?? 'route';
+  if (kind !== 'route' && kind !== 'db') return "kind must be 'route' or 'db'";
+
+  const rawTarget = pick('target');
+  if (rawTarget !== null && rawTarget !== undefined && typeof rawTarget !== 'string') return 'target must be a string';
+  const target = rawTarget?.trim() || null;
+
+  const metric = pick('metric');
+  if (!isAlertMetric(metric)) return `metric must be one of: ${ALERT_METRICS.join(', ')}`;
+
+  const comparator = pick('comparator') ?? '>';
+  if (!isAlertComparator(comparator)) return `comparator must be one of: ${ALERT_COMPARATORS.join(', ')}`;
+
+  const threshold = Number(pick('threshold'));
+  if (!Number.isFinite(threshold) || threshold < 0) return 'threshold must be a non-negative number';
+  if (metric === 'error_rate' && threshold > 1) return 'error_rate thresholds are fractions between 0 and 1';
+
+  const windowMinutes = Number(pick('windowMinutes') ?? 5);
+  if (!Number.isInteger(windowMinutes) || windowMinutes < 1 || windowMinutes > MAX_WINDOW_MINUTES) {
+    return `windowMinutes must be a whole number from 1 to ${MAX_WINDOW_MINUTES}`;
+  }
+
+  const minRequests = Number(pick('minRequests') ?? DEFAULT_MIN_REQUESTS);
+  if (!Number.isInteger(minRequests) || minRequests < 0) return 'minRequests must be a non-negative whole number';
+
+  const channels = parseAlertChannels(pick('channels'));
+  if (typeof channels === 'string') return channels;
+
+  const enabled = pick('enabled') ?? true;
+  if (typeof enabled !== 'boolean') return 'enabled must be a boolean';
+
+  return { name, kind, target, metric, comparator, threshold, windowMinutes, minRequests, channels, enabled };
+}
+
+function formatRuleForDB(input: AlertRuleInput) {
+  return {
+    name: input.name,
+    kind: input.kind,
+    target: input.target,
+    metric: input.metric,
+    comparator: input.comparator,
+    threshold: input.threshold,
+    window_minutes: input.windowMinutes,
+    min_requests: input.minRequests,
+    channels: input.channels,
+    enabled: input.enabled,
+  };
+}
+
+export function formatAlertRuleForAPI(rule: AlertRuleRow) {
+  return {
+    id: rule.id,
+    ...ruleToInput(rule),
+    condition: describeAlertCondition(rule),
+    lastValue: rule.last_value,
+    lastEvaluatedAt: rule.last_evaluated_at,
+    createdBy: rule.created_by,
+    createdAt: rule.created_at,
+    updatedAt: rule.updated_at,
+  };
+}
+
+export function formatAlertForAPI(alert: AlertRow) {
+  return {
+    id: alert.id,
+    ruleId: alert.rule_id,
+    ruleName: alert.rule_name,
+    condition: alert.condition,
+    status: alert.status,
+    value: alert.value,
+    lastValue: alert.last_value,
+    threshold: alert.threshold,
+    openedAt: alert.opened_at,
+    acknowledgedAt: alert.acknowledged_at,
+    acknowledgedBy: alert.acknowledged_by,
+    resolvedAt: alert.resolved_at,
+    resolvedBy: alert.resolved_by,
+  };
+}
+
+export function formatAlertEventForAPI(event: AlertEventRow) {
+  return {
+    id: event.id,
+    event: event.event,
+    actor: event.actor,
+    value: event.value,
+    detail: event.detail,
+    createdAt: event.created_at,
+  };
+}
+
+export async function getAlertRules(supabase: SupabaseClient): Promise<AlertRuleRow[]> {
+  const { data, error } = await supabase.from('alert_rules').select('*').order('created_at');
+  if (error) throw new Error(error.message);
+  return (data || []) as AlertRuleRow[];
+}
+
+export async function getAlertRule(supabase: SupabaseClient, ruleId: string): Promise<AlertRuleRow | null> {
+  const { data, error } = await supabase.from('alert_rules').select('*').eq('id', ruleId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return data as AlertRuleRow | null;
+}
+
+export async function createAlertRule(
+  supabase: SupabaseClient,
+  input: AlertRuleInput,
+  userId: string | null
+): Promise<AlertRuleRow> {
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .insert({ ...formatRuleForDB(input), created_by: userId })
+    .select()
+    .single();
+  if (error) throw new Error(error.message);
+  return data as AlertRuleRow;
+}
+
+export async function updateAlertRule(
+  supabase: SupabaseClient,
+  ruleId: string,
+  input: AlertRuleInput
+): Promise<AlertRuleRow> {
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .update({ ...formatRuleForDB(input), updated_at: new Date().toISOString() })
+    .eq('id', ruleId)
+    .select()
+    .single();
+  if (error) throw new Error(error.message);
+  return data as AlertRuleRow;
+}
+
+async function recordAlertEvents(
+  supabase: SupabaseClient,
+  events: Array<Pick<AlertEventRow, 'alert_id' | 'event'> & Partial<Pick<AlertEventRow, 'actor' | 'value' | 'detail'>>>
+) {
+  if (events.length === 0) return;
+  const { error } = await supabase.from('alert_events').insert(events);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Resolve the given unresolved alert. Returns null if it was already
+ * resolved (by another instance or editor).
+ */
+async function markResolved(
+  supabase: SupabaseClient,
+  alert: AlertRow,
+  options: { userId: string | null; value?: number | null; detail: string }
+): Promise<AlertRow | null> {
+  const { data, error } = await supabase
+    .from('alerts')
+    .update({
+      status: 'resolved',
+      resolved_at: new Date().toISOString(),
+      resolved_by: options.userId,
+      ...(options.value !== undefined ? { last_value: options.value } : {}),
+    })
+    .eq('id', alert.id)
+    .in('status', ACTIVE_ALERT_STATUSES)
+    .select()
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+
+  await recordAlertEvents(supabase, [{
+    alert_id: alert.id,
+    event: 'resolved',
+    actor: options.userId,
+    value: options.value ?? null,
+    detail: options.detail,
+  }]);
+  return data as AlertRow;
+}
+
+/**
+ * Delete a rule. Its unresolved alert is resolved first; past alerts keep
+ * the rule's name and condition.
+ */
+export async function deleteAlertRule(supabase: SupabaseClient, ruleId: string, userId: string | null): Promise<void> {
+  const { data: active, error: activeError } = await supabase
+    .from('alerts')
+    .select('*')
+    .eq('rule_id', ruleId)
+    .in('status', ACTIVE_ALERT_STATUSES);
+  if (activeError) throw new Error(activeError.message);
+
+  for (const alert of (active || []) as AlertRow[]) {
+    await markResolved(supabase, alert, { userId, detail: 'Rule deleted' });
+  }
+
+  const { error } = await supabase.from('alert_rules').delete().eq('id', ruleId);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Alerts, newest first. `status` is one state or 'active' (open and
+ * acknowledged).
+ */
+export async function listAlerts(
+  supabase: SupabaseClient,
+  options: { status?: AlertStatus | 'active'; limit?: number } = {}
+): Promise<AlertRow[]> {
+  let query = supabase
+    .from('alerts')
+    .select('*')
+    .order('opened_at', { ascending: false })
+    .limit(Math.min(options.limit || MAX_ALERTS_LISTED, MAX_ALERTS_LISTED));
+
+  if (options.status === 'active') query = query.in('status', ACTIVE_ALERT_STATUSES);
+  else if (options.status) query = query.eq('status', options.status);
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return (data || []) as AlertRow[];
+}
+
+export async function getAlert(supabase: SupabaseClient, alertId: string): Promise<AlertRow | null> {
+  const { data, error } = await supabase.from('alerts').select('*').eq('id', alertId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return data as AlertRow | null;
+}
+
+export async function getAlertEvents(supabase: SupabaseClient, alertId: string): Promise<AlertEventRow[]> {
+  const { data, error } = await supabase
+    .from('alert_events')
+    .select('*')
+    .eq('alert_id', alertId)
+    .order('created_at');
+  if (error) throw new Error(error.message);
+  return (data || []) as AlertEventRow[];
+}
+
+/**
+ * Acknowledge an open alert. Returns null if it isn't open.
+ */
+export async function acknowledgeAlert(
+  supabase: SupabaseClient,
+  alert: AlertRow,
+  userId: string
+): Promise<AlertRow | null> {
+  const { data, error } = await supabase
+    .from('alerts')
+    .update({ status: 'acknowledged', acknowledged_at: new Date().toISOString(), acknowledged_by: userId })
+    .eq('id', alert.id)
+    .eq('status', 'open')
+    .select()
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+
+  await recordAlertEvents(supabase, [{ alert_id: alert.id, event: 'acknowledged', actor: userId }]);
+  return data as AlertRow;
+}
+
+/**
+ * Resolve an alert by hand. If the rule is still breaching, the next
+ * evaluation opens a new alert.
+ */
+export function resolveAlert(supabase: SupabaseClient, alert: AlertRow, userId: string): Promise<AlertRow | null> {
+  return markResolved(supabase, alert, { userId, detail: 'Resolved by hand' });
+}
+
+function readMetric(totals: MetricsTotals, metric: AlertMetric): number | null {
+  switch (metric) {
+    case 'error_rate':
+      return totals.errorRate;
+    case 'avg_ms':
+      return totals.avgMs;
+    case 'p50_ms':
+      return totals.p50Ms;
+    case 'p95_ms':
+      return totals.p95Ms;
+    case 'p99_ms':
+      return totals.p99Ms;
+  }
+}
+
+async function notify(supabase: SupabaseClient, rule: AlertRuleRow, alert: AlertRow, event: AlertNotification['event']) {
+  const value = event === 'opened' ? alert.value : alert.last_value;
+  const deliveries = await deliverAlertNotification(supabase, rule.channels || [], {
+    event,
+    alertId: alert.id,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    message: value === null
+      ? alert.condition
+      : `${alert.condition} - now ${formatMetricValue(rule.metric, value)}`,
+    value,
+    threshold: alert.threshold,
+    at: new Date().toISOString(),
+  });
+
+  await recordAlertEvents(supabase, deliveries.map(delivery => ({
+    alert_id: alert.id,
+    event: delivery.error ? 'notify_failed' : 'notified',
+    detail: delivery.error ? `${delivery.channel}: ${delivery.error}` : delivery.channel,
+  })));
+}
+
+async function openAlert(supabase: SupabaseClient, rule: AlertRuleRow, value: number): Promise<AlertRow | null> {
+  const { data, error } = await supabase
+    .from('alerts')
+    .insert({
+      rule_id: rule.id,
+      rule_name: rule.name,
+      condition: describeAlertCondition(rule),
+      status: 'open',
+      value,
+      last_value: value,
+      threshold: rule.threshold,
+    })
+    .select()
+    .single();
+
+  // Another instance opened it first
+  if (error?.code === '23505') return null;
+  if (error) throw new Error(error.message);
+
+  await recordAlertEvents(supabase, [{ alert_id: data.id, event: 'opened', value }]);
+  return data as AlertRow;
+}
+
+async function evaluateRule(
+  supabase: SupabaseClient,
+  rule: AlertRuleRow,
+  active: AlertRow | undefined,
+  now: Date
+): Promise<'opened' | 'resolved' | null> {
+  const totals = await queryMetricTotals(supabase, {
+    kind: rule.kind,
+    from: new Date(now.getTime() - rule.window_minutes * 60 * 1000),
+    to: now,
+    matchName: name => matchesAlertTarget(rule.target, name),
+  });
+  const value = totals.requests >= Math.max(rule.min_requests, 1) ? readMetric(totals, rule.metric) : null;
+
+  const { error: ruleError } = await supabase
+    .from('alert_rules')
+    .update({ last_value: value, last_evaluated_at: now.toISOString() })
+    .eq('id', rule.id);
+  if (ruleError) throw new Error(ruleError.message);
+
+  // Too little traffic to judge - leave any alert as it is
+  if (value === null) return null;
+
+  const breaching = rule.comparator === '>' ? value > rule.threshold : value < rule.threshold;
+
+  if (breaching && !active) {
+    const alert = await openAlert(supabase, rule, value);
+    if (!alert) return null;
+    console.log(`🚨 Alert opened: ${alert.condition} (${formatMetricValue(rule.metric, value)})`);
+    await notify(supabase, rule, alert, 'opened');
+    return 'opened';
+  }
+
+  if (breaching && active) {
+    const { error } = await supabase.from('alerts').update({ last_value: value }).eq('id', active.id);
+    if (error) throw new Error(error.message);
+    return null;
+  }
+
+  if (!breaching && active) {
+    const resolved = await markResolved(supabase, active, {
+      userId: null,
+      value,
+      detail: `Recovered at ${formatMetricValue(rule.metric, value)}`,
+    });
+    if (!resolved) return null;
+    console.log(`✅ Alert resolved: ${resolved.condition}`);
+    await notify(supabase, rule, resolved, 'resolved');
+    return 'resolved';
+  }
+
+  return null;
+}
+
+/**
+ * True when this instance hasn't evaluated the rules for the evaluation
+ * interval
+ */
+export function isAlertEvaluationDue(config: AlertConfig = getAlertConfig()): boolean {
+  return !evaluating && Date.now() - lastEvaluationAt >= config.evaluationIntervalMs;
+}
+
+/**
+ * Evaluate every enabled rule, opening and resolving alerts. A failing rule
+ * is logged and skipped. Concurrent calls share one evaluation.
+ */
+export function evaluateAlertRules(supabase: SupabaseClient): Promise<AlertEvaluationResult> {
+  if (evaluating) return evaluating;
+
+  evaluating = (async () => {
+    lastEvaluationAt = Date.now();
+    const now = new Date();
+    const result: AlertEvaluationResult = { evaluated: 0, opened: 0, resolved: 0 };
+
+    const rules = (await getAlertRules(supabase)).filter(rule => rule.enabled);
+    if (rules.length === 0) return result;
+
+    const { data: active, error } = await supabase
+      .from('alerts')
+      .select('*')
+      .in('rule_id', rules.map(rule => rule.id))
+      .in('status', ACTIVE_ALERT_STATUSES);
+    if (error) throw new Error(error.message);
+
+    const activeByRule = new Map(((active || []) as AlertRow[]).map(alert => [alert.rule_id, alert]));
+
+    for (const rule of rules) {
+      try {
+        const outcome = await evaluateRule(supabase, rule, activeByRule.get(rule.id), now);
+        result.evaluated++;
+        if (outcome === 'opened') result.opened++;
+        if (outcome === 'resolved') result.resolved++;
+      } catch (ruleError) {
+        console.error(`⚠️ Failed to evaluate alert rule ${rule.name}:`, ruleError);
+      }
+    }
+
+    return result;
+  })().finally(() => {
+    evaluating = null;
+  });
+
+  return evaluating;
+}
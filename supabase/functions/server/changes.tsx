@@ -0,0 +1,72 @@
+/**
+ * Location Delta Sync
+ * Tombstones and sync tokens for GET /locations/changes, so returning
+ * clients download only rows changed since their last sync
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+// Tombstones older than this are purged; older sync tokens get a full resync
+export const TOMBSTONE_RETENTION_DAYS = 90;
+
+// Sync tokens are moved back by this much so rows written by transactions
+// still in flight when we read are picked up next time (upserts are idempotent)
+export const SYNC_OVERLAP_MS = 30 * 1000;
+
+export interface Tombstone {
+  id: string;
+  deletedAt: string;
+}
+
+/**
+ * Token the client sends as ?since= on its next sync
+ */
+export function createSyncToken(requestStartedAt: number): string {
+  return new Date(requestStartedAt - SYNC_OVERLAP_MS).toISOString();
+}
+
+/**
+ * True when `since` predates the tombstone retention window - deletes
+ * before that can no longer be reported, so the client must resync fully
+ */
+export function isSyncTokenExpired(since: string): boolean {
+  const cutoff = Date.now() - TOMBSTONE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return Date.parse(since) < cutoff;
+}
+
+/**
+ * Locations deleted since a timestamp
+ */
+export async function getTombstones(supabase: SupabaseClient, since: string): Promise<Tombstone[]> {
+  const { data, error } = await supabase
+    .from('location_tombstones')
+    .select('location_id, deleted_at')
+    .gte('deleted_at', since)
+    .order('deleted_at', { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data || []).map(t => ({ id: t.location_id, deletedAt: t.deleted_at }));
+}
+
+/**
+ * Drop tombstones past the retention window
+ * Never throws - purging is housekeeping and must not fail a sync
+ */
+export async function purgeExpiredTombstones(supabase: SupabaseClient): Promise<void> {
+  try {
+    const cutoff = new Date(Date.now() - TOMBSTONE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { error } = await supabase
+      .from('location_tombstones')
+      .delete()
+      .lt('deleted_at', cutoff);
+
+    if (error) {
+      console.error('⚠️ Failed to purge location tombstones:', error);
+    }
+  } catch (error) {
+    console.error('⚠️ Failed to purge location tombstones:', error);
+  }
+}
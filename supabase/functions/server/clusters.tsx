@@ -0,0 +1,164 @@
+/**
+ * Map Clustering
+ * Groups locations into grid clusters in Web Mercator pixel space so a
+ * zoomed-out map draws one bubble per cell instead of hundreds of markers
+ */
+
+import type { BoundingBox } from './spatial.tsx';
+
+// Cells are CLUSTER_CELL_PX screen pixels wide at the requested zoom
+export const CLUSTER_CELL_PX = 80;
+// From this zoom on every location is returned as its own point
+export const CLUSTER_MAX_ZOOM = 16;
+
+// Only the columns clustering needs - keeps world-scale queries light
+export const CLUSTER_SELECT = 'id, name, lat, lng, lv_editor_score, lv_avg_user_score, michelin_stars, michelin_distinction, michelin_green_star, google_place_id';
+
+export type ClusterLayer = 'lv' | 'michelin';
+
+export interface ClusterPointRow {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  lv_editor_score?: number | null;
+  lv_avg_user_score?: number | null;
+  michelin_stars?: number | null;
+  michelin_distinction?: string | null;
+  michelin_green_star?: boolean | null;
+  google_place_id?: string | null;
+}
+
+export interface MichelinBreakdown {
+  threeStars: number;
+  twoStars: number;
+  oneStar: number;
+  bibGourmand: number;
+  greenStar: number;
+}
+
+export interface MapCluster {
+  id: string;
+  lat: number;
+  lng: number;
+  count: number;
+  avgLvScore: number | null;
+  topScore: number | null;
+  michelin: MichelinBreakdown;
+  bounds: BoundingBox;
+  // Zoom at which the cluster's cell splits apart
+  expansionZoom: number;
+  // Set when count === 1 so the client can draw a regular marker
+  locationId?: string;
+  name?: string;
+  googlePlaceId?: string | null;
+}
+
+function lvScore(row: ClusterPointRow): number | null {
+  return row.lv_editor_score ?? row.lv_avg_user_score ?? null;
+}
+
+function hasMichelin(row: ClusterPointRow): boolean {
+  return !!(row.michelin_stars || row.michelin_distinction);
+}
+
+/**
+ * Keep only rows that belong to one of the requested marker layers
+ */
+export function filterByLayers(rows: ClusterPointRow[], layers: ClusterLayer[]): ClusterPointRow[] {
+  return rows.filter(row =>
+    (layers.includes('lv') && lvScore(row) !== null) ||
+    (layers.includes('michelin') && hasMichelin(row))
+  );
+}
+
+/**
+ * Project a coordinate to world pixels at a zoom level (Web Mercator)
+ */
+function toWorldPixels(lat: number, lng: number, zoom: number): { x: number; y: number } {
+  const scale = 256 * Math.pow(2, zoom);
+  const sinLat = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+}
+
+function emptyBreakdown(): MichelinBreakdown {
+  return { threeStars: 0, twoStars: 0, oneStar: 0, bibGourmand: 0, greenStar: 0 };
+}
+
+/**
+ * Group rows into grid clusters for a zoom level
+ */
+export function buildClusters(rows: ClusterPointRow[], zoom: number): MapCluster[] {
+  const z = Math.max(0, Math.min(Math.floor(zoom), CLUSTER_MAX_ZOOM));
+  const cells = new Map<string, ClusterPointRow[]>();
+
+  rows.forEach(row => {
+    if (row.lat == null || row.lng == null) return;
+
+    // Past CLUSTER_MAX_ZOOM every row gets its own cell
+    let key = row.id;
+    if (z < CLUSTER_MAX_ZOOM) {
+      const { x, y } = toWorldPixels(row.lat, row.lng, z);
+      key = `${z}:${Math.floor(x / CLUSTER_CELL_PX)}:${Math.floor(y / CLUSTER_CELL_PX)}`;
+    }
+
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(row);
+    } else {
+      cells.set(key, [row]);
+    }
+  });
+
+  const clusters: MapCluster[] = [];
+
+  cells.forEach((members, key) => {
+    const michelin = emptyBreakdown();
+    const scores: number[] = [];
+    let south = 90, north = -90, west = 180, east = -180;
+    let latSum = 0, lngSum = 0;
+
+    members.forEach(row => {
+      latSum += row.lat;
+      lngSum += row.lng;
+      south = Math.min(south, row.lat);
+      north = Math.max(north, row.lat);
+      west = Math.min(west, row.lng);
+      east = Math.max(east, row.lng);
+
+      const score = lvScore(row);
+      if (score !== null) scores.push(Number(score));
+
+      if (row.michelin_stars === 3) michelin.threeStars++;
+      else if (row.michelin_stars === 2) michelin.twoStars++;
+      else if (row.michelin_stars === 1) michelin.oneStar++;
+      else if (row.michelin_distinction?.toLowerCase().includes('bib gourmand')) michelin.bibGourmand++;
+      if (row.michelin_green_star) michelin.greenStar++;
+    });
+
+    const cluster: MapCluster = {
+      id: key,
+      lat: latSum / members.length,
+      lng: lngSum / members.length,
+      count: members.length,
+      avgLvScore: scores.length > 0 ? Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 10) / 10 : null,
+      topScore: scores.length > 0 ? Math.max(...scores) : null,
+      michelin,
+      bounds: { south, west, north, east },
+      expansionZoom: Math.min(z + 2, CLUSTER_MAX_ZOOM),
+    };
+
+    if (members.length === 1) {
+      cluster.locationId = members[0].id;
+      cluster.name = members[0].name;
+      cluster.googlePlaceId = members[0].google_place_id ?? null;
+    }
+
+    clusters.push(cluster);
+  });
+
+  return clusters;
+}
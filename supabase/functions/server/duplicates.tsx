@@ -0,0 +1,428 @@
+/**
+ * Duplicate Locations
+ * Finds locations that describe the same place and merges them. Pairs come
+ * from two sources: shared external IDs (the same Google Place or Michelin
+ * restaurant, directly or through michelin_restaurants.google_place_id) and
+ * nearby rows with similar names, scored by place_matcher.tsx. Editors can
+ * dismiss false positives; merging keeps one survivor, copies the fields the
+ * editor picks from the duplicate and moves every favorite, want-to-go,
+ * rating and list/guide entry over before deleting the duplicate.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { scoreMatch, type MatchSignals } from './place_matcher.tsx';
+import { haversineKm, queryBoundingBox, type BoundingBox } from './spatial.tsx';
+import { recomputeUserScore } from './user_ratings.tsx';
+import { reconcileEditorScores } from './editor_scores.tsx';
+import { fetchAllRows, type LocationRow } from './helpers.tsx';
+
+export const DEFAULT_MIN_DUPLICATE_CONFIDENCE = 60;
+export const MAX_DUPLICATE_PAIRS = 500;
+
+// Nearby pairs are only considered within this distance
+const PROXIMITY_METERS = 300;
+// Grid cell size for the proximity scan (~330m of latitude)
+const CELL_DEGREES = 0.003;
+const PAGE_SIZE = 1000;
+
+const DUPLICATE_SELECT = 'id, name, address, city, country, lat, lng, google_place_id, michelin_id, michelin_stars, michelin_distinction, lv_editor_score, category, created_at';
+
+export type DuplicateReason = 'same-google-place' | 'same-michelin' | 'michelin-place-link' | 'nearby-similar-name';
+
+export interface DuplicatePair {
+  a: LocationRow;
+  b: LocationRow;
+  confidence: number; // 0-100
+  distanceMeters: number;
+  reasons: DuplicateReason[];
+  signals: MatchSignals | null;
+}
+
+// Field groups an editor can take from either side of a merge. Related
+// columns travel together (a Michelin link brings its award with it).
+export const MERGE_FIELD_GROUPS = {
+  name: ['name'],
+  description: ['description'],
+  address: ['address', 'city', 'country'],
+  position: ['lat', 'lng'],
+  category: ['category'],
+  tags: ['tags'],
+  cuisine: ['cuisine'],
+  area: ['area'],
+  image: ['image'],
+  editorNotes: ['lv_editor_notes'],
+  google: ['google_place_id', 'google_rating', 'google_ratings_count'],
+  michelin: [
+    'michelin_id',
+    'michelin_stars',
+    'michelin_distinction',
+    'michelin_green_star',
+    'michelin_price',
+    'michelin_cuisine',
+    'michelin_description',
+    'michelin_url',
+    'michelin_website_url',
+    'michelin_phone_number',
+    'michelin_facilities',
+  ],
+} as const;
+
+export type MergeFieldGroup = keyof typeof MERGE_FIELD_GROUPS;
+export type MergeSide = 'survivor' | 'duplicate';
+
+// Tables whose rows point at a location, and the column that must stay
+// unique per location (a user favorites a place once)
+const LOCATION_CHILD_TABLES = [
+  { table: 'favorites', ownerColumn: 'user_id' },
+  { table: 'want_to_go', ownerColumn: 'user_id' },
+  { table: 'user_ratings', ownerColumn: 'user_id' },
+  { table: 'editor_scores', ownerColumn: 'editor_user_id' },
+  { table: 'list_entries', ownerColumn: 'list_id' },
+  { table: 'city_guide_entries', ownerColumn: 'section_id' },
+] as const;
+
+export type MovedCounts = Record<typeof LOCATION_CHILD_TABLES[number]['table'], number>;
+
+export function isMergeFieldGroup(value: unknown): value is MergeFieldGroup {
+  return typeof value === 'string' && value in MERGE_FIELD_GROUPS;
+}
+
+/**
+ * Validate the { group: 'survivor' | 'duplicate' } picks of a merge request
+ */
+export function parseMergeFields(value: unknown): Partial<Record<MergeFieldGroup, MergeSide>> | string {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) return 'fields must be an object';
+
+  const picks: Partial<Record<MergeFieldGroup, MergeSide>> = {};
+  for (const [group, side] of Object.entries(value)) {
+    if (!isMergeFieldGroup(group)) return `Unknown field group: ${group}`;
+    if (side !== 'survivor' && side !== 'duplicate') return `fields.${group} must be 'survivor' or 'duplicate'`;
+    picks[group] = side;
+  }
+  return picks;
+}
+
+// Pairs are stored and compared with the smaller id first
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function orderPair(a: string, b: string): [string, string] {
+  return a < b ? [a, b] : [b, a];
+}
+
+async function getDismissedPairs(supabase: SupabaseClient): Promise<Set<string>> {
+  const rows = await fetchAllRows<{ location_a: string; location_b: string }>(() =>
+    supabase.from('location_duplicate_dismissals').select('location_a, location_b')
+  );
+  return new Set(rows.map(row => pairKey(row.location_a, row.location_b)));
+}
+
+// Google Place IDs of linked Michelin restaurants, by Michelin id
+async function getMichelinPlaceLinks(supabase: SupabaseClient, michelinIds: string[]): Promise<Map<string, string>> {
+  const links = new Map<string, string>();
+
+  for (let i = 0; i < michelinIds.length; i += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('michelin_restaurants')
+      .select('id, google_place_id')
+      .in('id', michelinIds.slice(i, i + PAGE_SIZE))
+      .not('google_place_id', 'is', null);
+    if (error) throw new Error(error.message);
+    (data || []).forEach(row => links.set(String(row.id), row.google_place_id));
+  }
+
+  return links;
+}
+
+// The Google Place a location's Michelin restaurant is linked to
+function linkedPlaceOf(row: LocationRow, michelinPlaceLinks: Map<string, string>): string | undefined {
+  return row.michelin_id ? michelinPlaceLinks.get(String(row.michelin_id)) : undefined;
+}
+
+/**
+ * Score one pair of locations, or null when they are clearly different
+ * places (two distinct Michelin restaurants are never the same one)
+ */
+export function scoreDuplicatePair(
+  a: LocationRow,
+  b: LocationRow,
+  michelinPlaceLinks: Map<string, string> = new Map()
+): DuplicatePair | null {
+  const distanceMeters = haversineKm(a.lat, a.lng, b.lat, b.lng) * 1000;
+  const reasons: DuplicateReason[] = [];
+
+  if (a.google_place_id && a.google_place_id === b.google_place_id) reasons.push('same-google-place');
+  if (a.michelin_id && String(a.michelin_id) === String(b.michelin_id)) reasons.push('same-michelin');
+
+  if (
+    (a.google_place_id && linkedPlaceOf(b, michelinPlaceLinks) === a.google_place_id) ||
+    (b.google_place_id && linkedPlaceOf(a, michelinPlaceLinks) === b.google_place_id)
+  ) {
+    reasons.push('michelin-place-link');
+  }
+
+  if (reasons.length > 0) {
+    return { a, b, confidence: 100, distanceMeters, reasons, signals: null };
+  }
+
+  if (a.michelin_id && b.michelin_id) return null;
+
+  const match = scoreMatch(
+    { name: a.name, lat: a.lat, lng: a.lng, address: a.address },
+    { name: b.name, lat: b.lat, lng: b.lng, address: b.address }
+  );
+  let confidence = match.confidence;
+
+  // Google already tells these two apart
+  if (a.google_place_id && b.google_place_id) confidence = Math.round(confidence * 0.7);
+
+  return { a, b, confidence, distanceMeters, reasons: ['nearby-similar-name'], signals: match.signals };
+}
+
+/**
+ * Scan locations (all of them, or those inside bounds) for likely
+ * duplicates, most confident first. Dismissed pairs are skipped.
+ */
+export async function findDuplicatePairs(
+  supabase: SupabaseClient,
+  options: { bounds?: BoundingBox | null; minConfidence?: number; limit?: number } = {}
+): Promise<DuplicatePair[]> {
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_DUPLICATE_CONFIDENCE;
+  const limit = Math.min(options.limit ?? 100, MAX_DUPLICATE_PAIRS);
+
+  const rows = options.bounds
+    ? await queryBoundingBox<LocationRow>(supabase, 'locations', options.bounds, { select: DUPLICATE_SELECT })
+    : await fetchAllRows<LocationRow>(() => supabase.from('locations').select(DUPLICATE_SELECT).order('id'));
+
+  const located = rows.filter(row => row.lat != null && row.lng != null);
+  const michelinIds = [...new Set(located.filter(row => row.michelin_id).map(row => String(row.michelin_id)))];
+  const [dismissed, michelinPlaceLinks] = await Promise.all([
+    getDismissedPairs(supabase),
+    getMichelinPlaceLinks(supabase, michelinIds),
+  ]);
+
+  const pairs = new Map<string, DuplicatePair>();
+  const consider = (a: LocationRow, b: LocationRow) => {
+    const key = pairKey(a.id, b.id);
+    if (a.id === b.id || pairs.has(key) || dismissed.has(key)) return;
+    const pair = scoreDuplicatePair(a, b, michelinPlaceLinks);
+    if (pair && pair.confidence >= minConfidence) pairs.set(key, pair);
+  };
+
+  // Shared external IDs, however far apart the rows are
+  const byGooglePlace = new Map<string, LocationRow[]>();
+  located.forEach(row => {
+    const placeIds = [row.google_place_id, linkedPlaceOf(row, michelinPlaceLinks)].filter(Boolean) as string[];
+    new Set(placeIds).forEach(placeId => {
+      const group = byGooglePlace.get(placeId) || [];
+      group.push(row);
+      byGooglePlace.set(placeId, group);
+    });
+  });
+  byGooglePlace.forEach(group => {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) consider(group[i], group[j]);
+    }
+  });
+
+  // Nearby rows: bucket into grid cells and compare each row with its own
+  // and the neighbouring cells
+  const cells = new Map<string, LocationRow[]>();
+  const cellOf = (row: LocationRow) => [Math.floor(row.lat / CELL_DEGREES), Math.floor(row.lng / CELL_DEGREES)];
+  located.forEach(row => {
+    const key = cellOf(row).join(':');
+    const cell = cells.get(key) || [];
+    cell.push(row);
+    cells.set(key, cell);
+  });
+
+  located.forEach(row => {
+    const [latCell, lngCell] = cellOf(row);
+    for (let dLat = -1; dLat <= 1; dLat++) {
+      for (let dLng = -1; dLng <= 1; dLng++) {
+        (cells.get(`${latCell + dLat}:${lngCell + dLng}`) || []).forEach(other => {
+          if (other.id <= row.id) return;
+          if (haversineKm(row.lat, row.lng, other.lat, other.lng) * 1000 > PROXIMITY_METERS) return;
+          consider(row, other);
+        });
+      }
+    }
+  });
+
+  return [...pairs.values()]
+    .sort((x, y) => y.confidence - x.confidence || x.distanceMeters - y.distanceMeters)
+    .slice(0, limit);
+}
+
+/**
+ * Likely duplicates of one location
+ */
+export async function findDuplicatesOf(
+  supabase: SupabaseClient,
+  location: LocationRow,
+  minConfidence = DEFAULT_MIN_DUPLICATE_CONFIDENCE
+): Promise<DuplicatePair[]> {
+  const radiusDegrees = PROXIMITY_METERS / 111000;
+  const lngDegrees = radiusDegrees / Math.max(Math.cos(location.lat * Math.PI / 180), 0.01);
+  const nearby = await queryBoundingBox<LocationRow>(supabase, 'locations', {
+    south: location.lat - radiusDegrees,
+    north: location.lat + radiusDegrees,
+    west: location.lng - lngDegrees,
+    east: location.lng + lngDegrees,
+  }, { select: DUPLICATE_SELECT });
+
+  // Rows sharing an ID can sit anywhere
+  const idFilters = [
+    location.google_place_id ? `google_place_id.eq.${location.google_place_id}` : null,
+    location.michelin_id ? `michelin_id.eq.${location.michelin_id}` : null,
+  ].filter(Boolean);
+  let sharing: LocationRow[] = [];
+  if (idFilters.length > 0) {
+    const { data, error } = await supabase.from('locations').select(DUPLICATE_SELECT).or(idFilters.join(','));
+    if (error) throw new Error(error.message);
+    sharing = (data || []) as LocationRow[];
+  }
+
+  const candidates = new Map<string, LocationRow>();
+  [...nearby, ...sharing].forEach(row => {
+    if (row.id !== location.id) candidates.set(row.id, row);
+  });
+
+  const michelinIds = [...new Set([location, ...candidates.values()].filter(row => row.michelin_id).map(row => String(row.michelin_id)))];
+  const [dismissed, michelinPlaceLinks] = await Promise.all([
+    getDismissedPairs(supabase),
+    getMichelinPlaceLinks(supabase, michelinIds),
+  ]);
+
+  return [...candidates.values()]
+    .filter(row => !dismissed.has(pairKey(location.id, row.id)))
+    .map(row => scoreDuplicatePair(location, row, michelinPlaceLinks))
+    .filter((pair): pair is DuplicatePair => !!pair && pair.confidence >= minConfidence)
+    .sort((x, y) => y.confidence - x.confidence || x.distanceMeters - y.distanceMeters);
+}
+
+/**
+ * Mark a pair as "not a duplicate" so the finder stops offering it
+ */
+export async function dismissDuplicatePair(
+  supabase: SupabaseClient,
+  locationIdA: string,
+  locationIdB: string,
+  userId: string
+): Promise<void> {
+  const [locationA, locationB] = orderPair(locationIdA, locationIdB);
+  const { error } = await supabase
+    .from('location_duplicate_dismissals')
+    .upsert({ location_a: locationA, location_b: locationB, dismissed_by: userId }, { onConflict: 'location_a,location_b' });
+
+  if (error) throw new Error(error.message);
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Column values the survivor ends up with. Unpicked groups keep the
+ * survivor's values, filling gaps from the duplicate; tags are combined.
+ */
+export function buildMergedFields(
+  survivor: Record<string, any>,
+  duplicate: Record<string, any>,
+  picks: Partial<Record<MergeFieldGroup, MergeSide>>
+): Record<string, any> {
+  const merged: Record<string, any> = {};
+
+  (Object.keys(MERGE_FIELD_GROUPS) as MergeFieldGroup[]).forEach(group => {
+    const columns = MERGE_FIELD_GROUPS[group];
+    let side = picks[group];
+
+    if (!side && group === 'tags') {
+      merged.tags = [...new Set([...(survivor.tags || []), ...(duplicate.tags || [])])];
+      return;
+    }
+    if (!side) {
+      // The group's first column says whether the survivor has it at all
+      side = isBlank(survivor[columns[0]]) && !isBlank(duplicate[columns[0]]) ? 'duplicate' : 'survivor';
+    }
+
+    const source = side === 'duplicate' ? duplicate : survivor;
+    columns.forEach(column => {
+      merged[column] = source[column] ?? null;
+    });
+  });
+
+  return merged;
+}
+
+/**
+ * Merge `duplicate` into `survivor` and delete it. Returns the updated
+ * survivor and how many child rows moved.
+ *
+ * The merge itself runs in one transaction (merge_locations() in
+ * location_duplicates.sql), so a failure leaves both locations as they were.
+ * The cached user and editor scores are refreshed afterwards - they're
+ * derived from the moved rows and can always be recomputed.
+ */
+export async function mergeLocations(
+  supabase: SupabaseClient,
+  survivor: LocationRow,
+  duplicate: LocationRow,
+  picks: Partial<Record<MergeFieldGroup, MergeSide>>,
+  userId: string
+): Promise<{ location: LocationRow; moved: MovedCounts }> {
+  const { data: moved, error } = await supabase.rpc('merge_locations', {
+    p_survivor: survivor.id,
+    p_duplicate: duplicate.id,
+    p_fields: buildMergedFields(survivor, duplicate, picks),
+    p_children: LOCATION_CHILD_TABLES,
+    p_user_id: userId,
+  });
+  if (error) throw new Error(error.message);
+
+  // Ratings moved over - refresh the cached aggregates
+  await recomputeUserScore(supabase, survivor.id);
+  if ((moved as MovedCounts).editor_scores > 0) {
+    const summary = await reconcileEditorScores(supabase, survivor.id);
+    const { error: scoreError } = await supabase
+      .from('locations')
+      .update({ lv_editor_score: summary.aggregate })
+      .eq('id', survivor.id);
+    if (scoreError) throw new Error(scoreError.message);
+  }
+
+  const { data: location, error: readError } = await supabase.from('locations').select('*').eq('id', survivor.id).single();
+  if (readError) throw new Error(readError.message);
+
+  return { location: location as LocationRow, moved: moved as MovedCounts };
+}
+
+export function formatDuplicatePairForAPI(pair: DuplicatePair) {
+  const summarize = (row: LocationRow) => ({
+    id: row.id,
+    name: row.name,
+    address: row.address,
+    city: row.city,
+    country: row.country,
+    lat: row.lat,
+    lng: row.lng,
+    googlePlaceId: row.google_place_id,
+    michelinId: row.michelin_id,
+    michelinStars: row.michelin_stars,
+    michelinDistinction: row.michelin_distinction,
+    lvEditorScore: row.lv_editor_score,
+    category: row.category,
+    createdAt: row.created_at,
+  });
+
+  return {
+    a: summarize(pair.a),
+    b: summarize(pair.b),
+    confidence: pair.confidence,
+    distanceMeters: Math.round(pair.distanceMeters),
+    reasons: pair.reasons,
+    signals: pair.signals,
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Multi-Editor Score Reconciliation
+ * Keeps each editor's score separately in editor_scores and publishes an
+ * aggregate (mean, median or lead editor) as locations.lv_editor_score
+ *
+ * Configuration (environment variables):
+ * - EDITOR_SCORE_STRATEGY: 'mean' (default) | 'median' | 'lead'
+ * - EDITOR_SCORE_LEAD_EDITOR_ID: user_id of the lead editor (strategy 'lead')
+ * - EDITOR_SCORE_DISAGREEMENT_THRESHOLD: max - min spread that counts as a disagreement (default 1.5)
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export type EditorScoreStrategy = 'mean' | 'median' | 'lead';
+
+export interface EditorScoreConfig {
+  strategy: EditorScoreStrategy;
+  leadEditorId: string | null;
+  disagreementThreshold: number;
+}
+
+export interface EditorScoreRow {
+  location_id: string;
+  editor_user_id: string;
+  score: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface EditorScoreSummary {
+  aggregate: number | null;
+  strategy: EditorScoreStrategy;
+  // Strategy actually used - 'lead' falls back to 'mean' when the lead editor hasn't rated
+  appliedStrategy: EditorScoreStrategy;
+  leadEditorId: string | null;
+  spread: number;
+  threshold: number;
+  disagreement: boolean;
+  scores: EditorScoreRow[];
+}
+
+const DEFAULT_DISAGREEMENT_THRESHOLD = 1.5;
+
+/**
+ * Read the reconciliation settings from the environment
+ */
+export function getEditorScoreConfig(): EditorScoreConfig {
+  const strategy = (Deno.env.get('EDITOR_SCORE_STRATEGY') || 'mean').toLowerCase();
+  const threshold = parseFloat(Deno.env.get('EDITOR_SCORE_DISAGREEMENT_THRESHOLD') || '');
+
+  return {
+    strategy: strategy === 'median' || strategy === 'lead' ? strategy : 'mean',
+    leadEditorId: Deno.env.get('EDITOR_SCORE_LEAD_EDITOR_ID') || null,
+    disagreementThreshold: isNaN(threshold) ? DEFAULT_DISAGREEMENT_THRESHOLD : threshold,
+  };
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Reduce individual editor scores to the published score
+ */
+export function aggregateEditorScores(scores: EditorScoreRow[], config: EditorScoreConfig): EditorScoreSummary {
+  const values = scores.map(s => Number(s.score)).sort((a, b) => a - b);
+  const spread = values.length > 1 ? roundScore(values[values.length - 1] - values[0]) : 0;
+
+  let aggregate: number | null = null;
+  let appliedStrategy: EditorScoreStrategy = config.strategy;
+
+  if (values.length > 0) {
+    const lead = config.strategy === 'lead' && config.leadEditorId
+      ? scores.find(s => s.editor_user_id === config.leadEditorId)
+      : undefined;
+
+    if (lead) {
+      aggregate = Number(lead.score);
+    } else if (config.strategy === 'median') {
+      const mid = Math.floor(values.length / 2);
+      aggregate = values.length % 2 === 0 ? (values[mid - 1] + values[mid]) / 2 : values[mid];
+    } else {
+      appliedStrategy = 'mean';
+      aggregate = values.reduce((sum, v) => sum + v, 0) / values.length;
+    }
+
+    aggregate = roundScore(aggregate);
+  }
+
+  return {
+    aggregate,
+    strategy: config.strategy,
+    appliedStrategy,
+    leadEditorId: config.leadEditorId,
+    spread,
+    threshold: config.disagreementThreshold,
+    disagreement: spread > config.disagreementThreshold,
+    scores,
+  };
+}
+
+/**
+ * Fetch every editor's score for a location
+ */
+export async function getEditorScores(supabase: SupabaseClient, locationId: string): Promise<EditorScoreRow[]> {
+  const { data, error } = await supabase
+    .from('editor_scores')
+    .select('*')
+    .eq('location_id', locationId)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data || []) as EditorScoreRow[];
+}
+
+/**
+ * Save (or with a null score, remove) one editor's score for a location
+ */
+export async function saveEditorScore(
+  supabase: SupabaseClient,
+  locationId: string,
+  editorUserId: string,
+  score: number | null
+): Promise<void> {
+  if (score === null) {
+    const { error } = await supabase
+      .from('editor_scores')
+      .delete()
+      .eq('location_id', locationId)
+      .eq('editor_user_id', editorUserId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    return;
+  }
+
+  const { error } = await supabase
+    .from('editor_scores')
+    .upsert({
+      location_id: locationId,
+      editor_user_id: editorUserId,
+      score,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'location_id,editor_user_id' });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Recompute the published score for a location from all editor scores
+ */
+export async function reconcileEditorScores(supabase: SupabaseClient, locationId: string): Promise<EditorScoreSummary> {
+  const scores = await getEditorScores(supabase, locationId);
+  const summary = aggregateEditorScores(scores, getEditorScoreConfig());
+
+  console.log(`📊 Editor scores for ${locationId}: ${scores.length} editors, ${summary.appliedStrategy} = ${summary.aggregate ?? '—'}, spread ${summary.spread}${summary.disagreement ? ' ⚠️ disagreement' : ''}`);
+
+  return summary;
+}
@@ -0,0 +1,431 @@
+/**
+ * Google Place Details Cache & Photo Proxy
+ * Place details are cached in google_place_cache per field-mask tier and
+ * served stale-while-revalidate. Photos go through GET /photos/:ref, so the
+ * server key never reaches the browser; fetched images are kept in the
+ * place-photos storage bucket.
+ *
+ * Every Google call is metered (google_usage.tsx). Once the daily budget
+ * runs low, photos are only served from the bucket, and once it is spent,
+ * details come from the cache whatever their age or tier.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { HttpError, runInBackground } from './helpers.tsx';
+import { syncStatusFromGoogle } from './location_status.tsx';
+import { getGoogleBudget, googleBudgetError, recordGoogleCall } from './google_usage.tsx';
+import type { GoogleSku, GoogleUsageContext } from './google_usage.tsx';
+
+// Field-mask tiers, cheapest first. Each tier includes the fields of the ones
+// before it, so a cached higher tier also answers a lower-tier request.
+export const DETAIL_TIERS = ['basic', 'contact', 'full'] as const;
+
+export type DetailTier = typeof DETAIL_TIERS[number];
+
+const TIER_FIELDS: Record<DetailTier, string[]> = {
+  basic: ['id', 'displayName', 'formattedAddress', 'location', 'rating', 'userRatingCount', 'googleMapsUri', 'businessStatus'],
+  contact: ['websiteUri', 'nationalPhoneNumber', 'currentOpeningHours'],
+  full: ['reviews', 'photos'],
+};
+
+// How long an entry is served without a refresh, and how long a stale entry
+// may still be served while (or because) the refresh fails
+const FRESH_MS: Record<DetailTier, number> = {
+  basic: 7 * 24 * 60 * 60 * 1000,
+  contact: 24 * 60 * 60 * 1000,
+  full: 24 * 60 * 60 * 1000,
+};
+const MAX_STALE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Reviews are billed as Atmosphere data; the other tiers' fields as Enterprise
+const TIER_SKUS: Record<DetailTier, GoogleSku> = {
+  basic: 'place-details-enterprise',
+  contact: 'place-details-enterprise',
+  full: 'place-details-atmosphere',
+};
+
+// Photos are resized to one of these widths so the bucket holds a bounded
+// number of variants per photo
+const PHOTO_WIDTHS = [400, 800, 1600, 2400] as const;
+export const PHOTO_BUCKET = 'place-photos';
+const PHOTO_NAME_PATTERN = /^places\/[A-Za-z0-9_-]+\/photos\/[A-Za-z0-9_-]+$/;
+
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS';
+
+export interface CachedPhoto {
+  name: string; // Places v1 resource name: places/{placeId}/photos/{photoId}
+  width: number;
+  height: number;
+}
+
+// Transformed details as stored in the cache (photo URLs are added per request)
+export interface PlaceDetails {
+  place_id: string;
+  name?: string;
+  formatted_address?: string;
+  location: { lat: number; lng: number } | null;
+  rating?: number;
+  user_ratings_total?: number;
+  business_status?: string;
+  google_maps_url?: string;
+  website?: string;
+  formatted_phone_number?: string;
+  opening_hours?: { open_now?: boolean; weekday_text: string[] } | null;
+  reviews?: any[];
+  photos?: CachedPhoto[];
+}
+
+interface PlaceCacheRow {
+  place_id: string;
+  tier: DetailTier;
+  data: PlaceDetails;
+  fetched_at: string;
+}
+
+export function isDetailTier(value: unknown): value is DetailTier {
+  return typeof value === 'string' && (DETAIL_TIERS as readonly string[]).includes(value);
+}
+
+export function getFieldMask(tier: DetailTier): string {
+  return DETAIL_TIERS
+    .slice(0, DETAIL_TIERS.indexOf(tier) + 1)
+    .flatMap(t => TIER_FIELDS[t])
+    .join(',');
+}
+
+/**
+ * Map a Places v1 response to the app's (legacy Places API shaped) format
+ */
+export function transformPlaceDetails(placeData: any): PlaceDetails {
+  return {
+    place_id: placeData.id,
+    name: placeData.displayName?.text,
+    formatted_address: placeData.formattedAddress,
+    location: placeData.location ? {
+      lat: placeData.location.latitude,
+      lng: placeData.location.longitude,
+    } : null,
+    rating: placeData.rating,
+    user_ratings_total: placeData.userRatingCount,
+    business_status: placeData.businessStatus,
+    google_maps_url: placeData.googleMapsUri,
+    website: placeData.websiteUri,
+    formatted_phone_number: placeData.nationalPhoneNumber,
+    opening_hours: placeData.currentOpeningHours ? {
+      open_now: placeData.currentOpeningHours.openNow,
+      weekday_text: placeData.currentOpeningHours.weekdayDescriptions || [],
+    } : null,
+    // Google returns at most 5 reviews
+    reviews: placeData.reviews?.map((review: any) => ({
+      author_name: review.authorAttribution?.displayName || 'Anonymous',
+      author_url: review.authorAttribution?.uri,
+      profile_photo_url: review.authorAttribution?.photoUri,
+      rating: review.rating || 0,
+      relative_time_description: review.relativePublishTimeDescription || '',
+      text: review.text?.text || review.originalText?.text || '',
+      time: new Date(review.publishTime).getTime() / 1000, // Unix timestamp
+    })),
+    // Google returns at most 10 photos
+    photos: placeData.photos?.map((photo: any) => ({
+      name: photo.name,
+      width: photo.widthPx || 800,
+      height: photo.heightPx || 600,
+    })),
+  };
+}
+
+/**
+ * Fetch place details from Places v1 with the tier's field mask
+ */
+export async function fetchPlaceDetails(
+  apiKey: string,
+  placeId: string,
+  tier: DetailTier,
+  usage: GoogleUsageContext
+): Promise<PlaceDetails> {
+  const response = await fetch(`https://places.googleapis.com/v1/places/${encodeURIComponent(placeId)}`, {
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Goog-Api-Key': apiKey,
+      'X-Goog-FieldMask': getFieldMask(tier),
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`❌ Google Places API error for ${placeId}:`, response.status, errorText);
+    // Keep Google's status so the route can pass 404s (unknown place) through
+    throw new HttpError(response.status, 'Failed to fetch place details');
+  }
+
+  recordGoogleCall(TIER_SKUS[tier], usage);
+  return transformPlaceDetails(await response.json());
+}
+
+// Text Search field masks: enough to score a match, or also what the
+// validation popup shows
+const SEARCH_FIELD_MASKS = {
+  match: 'places.id,places.displayName,places.formattedAddress,places.location,places.types',
+  preview: 'places.id,places.displayName,places.formattedAddress,places.location,places.types,places.rating,places.userRatingCount,places.priceLevel,places.photos',
+} as const;
+
+const SEARCH_SKUS: Record<keyof typeof SEARCH_FIELD_MASKS, GoogleSku> = {
+  match: 'text-search-pro',
+  preview: 'text-search-enterprise',
+};
+
+/**
+ * Places v1 Text Search biased to a point; returns the raw places
+ */
+export async function searchPlacesNear(
+  apiKey: string,
+  textQuery: string,
+  lat: number,
+  lng: number,
+  usage: GoogleUsageContext,
+  options: { maxResults?: number; fields?: keyof typeof SEARCH_FIELD_MASKS } = {}
+): Promise<any[]> {
+  const response = await fetch('https://places.googleapis.com/v1/places:searchText', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Goog-Api-Key': apiKey,
+      'X-Goog-FieldMask': SEARCH_FIELD_MASKS[options.fields || 'match'],
+    },
+    body: JSON.stringify({
+      textQuery,
+      locationBias: {
+        circle: {
+          center: { latitude: lat, longitude: lng },
+          radius: 100, // 100 meters
+        },
+      },
+      maxResultCount: options.maxResults || 5,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`❌ Google Places search error for "${textQuery}":`, response.status, errorText);
+    throw new HttpError(response.status, 'Failed to search Google Places');
+  }
+
+  recordGoogleCall(SEARCH_SKUS[options.fields || 'match'], usage);
+  const data = await response.json();
+  return data.places || [];
+}
+
+/**
+ * Freshest cached entry that covers the requested tier
+ */
+async function getCachedDetails(supabase: SupabaseClient, placeId: string, tier: DetailTier): Promise<PlaceCacheRow | null> {
+  const { data, error } = await supabase
+    .from('google_place_cache')
+    .select('place_id, tier, data, fetched_at')
+    .eq('place_id', placeId)
+    .in('tier', DETAIL_TIERS.slice(DETAIL_TIERS.indexOf(tier)))
+    .order('fetched_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data as PlaceCacheRow | null;
+}
+
+async function storeDetails(supabase: SupabaseClient, placeId: string, tier: DetailTier, details: PlaceDetails): Promise<void> {
+  const { error } = await supabase
+    .from('google_place_cache')
+    .upsert({ place_id: placeId, tier, data: details, fetched_at: new Date().toISOString() }, { onConflict: 'place_id,tier' });
+
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Let the location with this Place ID follow freshly fetched details'
+ * business status, in the background
+ */
+function syncStatusInBackground(supabase: SupabaseClient, placeId: string, details: PlaceDetails) {
+  if (!details.business_status) return;
+  runInBackground(
+    syncStatusFromGoogle(supabase, placeId, details.business_status)
+      .catch(error => console.error('⚠️ Failed to sync location status:', error))
+  );
+}
+
+// Refreshes in flight in this isolate, so a burst of stale hits triggers one fetch
+const refreshing = new Set<string>();
+
+function refreshInBackground(
+  supabase: SupabaseClient,
+  apiKey: string,
+  placeId: string,
+  tier: DetailTier,
+  usage: GoogleUsageContext
+) {
+  const key = `${placeId}:${tier}`;
+  if (refreshing.has(key)) return;
+  refreshing.add(key);
+
+  runInBackground(
+    fetchPlaceDetails(apiKey, placeId, tier, usage)
+      .then(details => {
+        syncStatusInBackground(supabase, placeId, details);
+        return storeDetails(supabase, placeId, tier, details);
+      })
+      .then(() => console.log(`🔄 Refreshed cached details for ${placeId} (${tier})`))
+      .catch(error => console.error(`❌ Background refresh failed for ${placeId}:`, error))
+      .finally(() => refreshing.delete(key))
+  );
+}
+
+/**
+ * Cached place details, stale-while-revalidate:
+ * - fresh entry: served as is (HIT)
+ * - stale entry within MAX_STALE_MS: served, refreshed in the background (STALE)
+ * - otherwise fetched from Google and stored (MISS); if Google fails, any
+ *   cached copy is still better than an error
+ * Whenever details are fetched, the matching location follows their business
+ * status (syncStatusFromGoogle).
+ * With the daily budget spent, nothing is fetched: any cached tier is served
+ * (STALE), and a place never cached fails with googleBudgetError().
+ */
+export async function getPlaceDetails(
+  supabase: SupabaseClient,
+  apiKey: string,
+  placeId: string,
+  tier: DetailTier,
+  usage: GoogleUsageContext
+): Promise<{ details: PlaceDetails; cache: CacheStatus; fetchedAt: string }> {
+  const cached = await getCachedDetails(supabase, placeId, tier);
+  const age = cached ? Date.now() - new Date(cached.fetched_at).getTime() : Infinity;
+
+  if (cached && age < FRESH_MS[cached.tier]) {
+    return { details: cached.data, cache: 'HIT', fetchedAt: cached.fetched_at };
+  }
+
+  if ((await getGoogleBudget(supabase)).level === 'cached-only') {
+    const fallback = cached || await getCachedDetails(supabase, placeId, DETAIL_TIERS[0]);
+    if (!fallback) throw googleBudgetError();
+    console.warn(`⚠️ Google budget spent, serving cached details for ${placeId} (${fallback.tier})`);
+    return { details: fallback.data, cache: 'STALE', fetchedAt: fallback.fetched_at };
+  }
+
+  if (cached && age < MAX_STALE_MS) {
+    refreshInBackground(supabase, apiKey, placeId, tier, usage);
+    return { details: cached.data, cache: 'STALE', fetchedAt: cached.fetched_at };
+  }
+
+  try {
+    const details = await fetchPlaceDetails(apiKey, placeId, tier, usage);
+    syncStatusInBackground(supabase, placeId, details);
+    await storeDetails(supabase, placeId, tier, details).catch(error =>
+      console.error(`❌ Failed to cache details for ${placeId}:`, error)
+    );
+    return { details, cache: 'MISS', fetchedAt: new Date().toISOString() };
+  } catch (error) {
+    if (!cached) throw error;
+    console.warn(`⚠️ Serving expired cache for ${placeId}:`, error);
+    return { details: cached.data, cache: 'STALE', fetchedAt: cached.fetched_at };
+  }
+}
+
+/**
+ * Opaque, URL-safe reference for a photo resource name
+ */
+export function encodePhotoRef(name: string): string {
+  return btoa(name).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Resource name behind a photo reference, or null for anything that isn't a
+ * Places photo (the proxy must not fetch arbitrary Google resources)
+ */
+export function decodePhotoRef(ref: string): string | null {
+  try {
+    const base64 = ref.replace(/-/g, '+').replace(/_/g, '/');
+    const name = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+    return PHOTO_NAME_PATTERN.test(name) ? name : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Snap a requested width to the nearest cached variant at or above it
+ */
+export function parsePhotoWidth(value: string | undefined): number {
+  const width = parseInt(value || '');
+  if (isNaN(width) || width <= 0) return PHOTO_WIDTHS[1];
+  return PHOTO_WIDTHS.find(w => w >= width) ?? PHOTO_WIDTHS[PHOTO_WIDTHS.length - 1];
+}
+
+/**
+ * Proxy URL for a photo, as returned to clients
+ */
+export function getPhotoUrl(baseUrl: string, name: string, width: number): string {
+  return `${baseUrl}/photos/${encodePhotoRef(name)}?maxWidthPx=${width}`;
+}
+
+/**
+ * Details in API format: cached photo names become proxy URLs
+ */
+export function formatPlaceDetailsForAPI(details: PlaceDetails, baseUrl: string, photoWidth = PHOTO_WIDTHS[PHOTO_WIDTHS.length - 1]) {
+  return {
+    ...details,
+    reviews: details.reviews || [],
+    photos: (details.photos || []).map(photo => ({
+      photoReference: getPhotoUrl(baseUrl, photo.name, photoWidth),
+      width: photo.width,
+      height: photo.height,
+    })),
+  };
+}
+
+/**
+ * Photo bytes for a resource name and width: from the bucket when cached,
+ * otherwise from Google (then stored in the background) while the budget
+ * still allows new photos
+ */
+export async function getPhoto(
+  supabase: SupabaseClient,
+  apiKey: string,
+  name: string,
+  width: number,
+  usage: GoogleUsageContext
+): Promise<{ body: ArrayBuffer; contentType: string; cache: CacheStatus }> {
+  const path = `${name.replace(/^places\//, '')}/${width}`;
+
+  const { data: stored } = await supabase.storage.from(PHOTO_BUCKET).download(path);
+  if (stored) {
+    return { body: await stored.arrayBuffer(), contentType: stored.type || 'image/jpeg', cache: 'HIT' };
+  }
+
+  if ((await getGoogleBudget(supabase)).level !== 'ok') {
+    throw googleBudgetError();
+  }
+
+  const response = await fetch(`https://places.googleapis.com/v1/${name}/media?maxWidthPx=${width}`, {
+    headers: { 'X-Goog-Api-Key': apiKey },
+  });
+
+  if (!response.ok) {
+    console.error(`❌ Google photo error for ${name}:`, response.status, await response.text());
+    throw new HttpError(response.status === 404 ? 404 : 502, 'Failed to fetch photo');
+  }
+
+  recordGoogleCall('place-photo', usage);
+  const contentType = response.headers.get('Content-Type') || 'image/jpeg';
+  const body = await response.arrayBuffer();
+
+  runInBackground(
+    supabase.storage
+      .from(PHOTO_BUCKET)
+      .upload(path, body, { contentType, upsert: true })
+      .then(({ error }) => {
+        if (error) console.error(`❌ Failed to cache photo ${name}:`, error.message);
+      })
+      .catch(error => console.error(`❌ Failed to cache photo ${name}:`, error))
+  );
+
+  return { body, contentType, cache: 'MISS' };
+}
@@ -0,0 +1,383 @@
+/**
+ * Google API Metering & Budget
+ * Every billable Places API (New) call made by the server is counted per
+ * SKU, route, user and UTC day, with an estimated cost from list prices.
+ * Counts are held per instance and flushed to google_api_usage like the
+ * metric rollups: each instance owns its rows and rewrites them as the day
+ * fills.
+ *
+ * A daily budget (GOOGLE_DAILY_BUDGET_USD) degrades service instead of
+ * failing it: past GOOGLE_PHOTO_BUDGET_RATIO of the budget no new photos
+ * are fetched, and past the budget only cached details are served. Text
+ * searches have no cache, so they stop until the next UTC day.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { HttpError } from './helpers.tsx';
+
+export const GOOGLE_SKUS = [
+  'place-details-enterprise',
+  'place-details-atmosphere',
+  'place-photo',
+  'text-search-pro',
+  'text-search-enterprise',
+] as const;
+
+export type GoogleSku = typeof GOOGLE_SKUS[number];
+
+// USD per 1000 calls - list prices before the monthly free allowance, so
+// the estimate errs high
+const SKU_PRICES_PER_1000: Record<GoogleSku, number> = {
+  'place-details-enterprise': 20, // rating, hours, phone and website fields
+  'place-details-atmosphere': 25, // + reviews
+  'place-photo': 7,
+  'text-search-pro': 32,
+  'text-search-enterprise': 35, // + rating and price level
+};
+
+// ok: everything; no-photos: details but no new photos; cached-only: no Google calls
+export type BudgetLevel = 'ok' | 'no-photos' | 'cached-only';
+
+export interface GoogleUsageContext {
+  route: string; // e.g. "GET /google-places/:placeId/details" or "job michelin-place-discovery"
+  userId: string | null;
+}
+
+export interface GoogleBudgetConfig {
+  dailyBudgetUsd: number;
+  photoBudgetRatio: number;
+  retentionDays: number;
+}
+
+export interface GoogleBudget {
+  day: string; // UTC date
+  spentUsd: number;
+  budgetUsd: number;
+  level: BudgetLevel;
+}
+
+interface UsageCounter {
+  day: string;
+  sku: GoogleSku;
+  route: string;
+  userKey: string; // User ID, or '' for anonymous callers
+  calls: number;
+  dirty: boolean;
+}
+
+interface UsageRow {
+  day: string;
+  sku: GoogleSku;
+  route: string;
+  user_key: string;
+  instance_id: string;
+  calls: number;
+  cost_usd: number;
+}
+
+export interface UsageBreakdownEntry {
+  name: string;
+  calls: number;
+  costUsd: number;
+}
+
+export interface GoogleUsageReport {
+  from: string; // UTC dates, inclusive
+  to: string;
+  budget: GoogleBudget;
+  totals: { calls: number; costUsd: number };
+  days: Array<{ day: string; calls: number; costUsd: number }>;
+  skus: UsageBreakdownEntry[];
+  routes: UsageBreakdownEntry[];
+  users: Array<{ userId: string | null; userName: string | null; calls: number; costUsd: number }>; // null: anonymous
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 1000;
+const FLUSH_INTERVAL_MS = 30 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+// Other instances' spend is re-read at most this often
+const SPEND_REFRESH_MS = 60 * 1000;
+export const MAX_REPORT_DAYS = 90;
+const MAX_REPORT_USERS = 20;
+
+const INSTANCE_ID = crypto.randomUUID();
+
+const counters = new Map<string, UsageCounter>();
+let lastFlushAt = Date.now();
+let lastPurgeAt = 0;
+let flushing: Promise<void> | null = null;
+let otherInstancesSpend: { day: string; usd: number; readAt: number } | null = null;
+
+export function getGoogleBudgetConfig(): GoogleBudgetConfig {
+  const dailyBudgetUsd = Number(Deno.env.get('GOOGLE_DAILY_BUDGET_USD'));
+  const photoBudgetRatio = Number(Deno.env.get('GOOGLE_PHOTO_BUDGET_RATIO'));
+  const retentionDays = Number(Deno.env.get('GOOGLE_USAGE_RETENTION_DAYS'));
+
+  return {
+    dailyBudgetUsd: Number.isFinite(dailyBudgetUsd) && dailyBudgetUsd > 0 ? dailyBudgetUsd : 50,
+    photoBudgetRatio: Number.isFinite(photoBudgetRatio) && photoBudgetRatio > 0 && photoBudgetRatio <= 1 ? photoBudgetRatio : 0.8,
+    retentionDays: Number.isFinite(retentionDays) && retentionDays >= 1 ? retentionDays : 400,
+  };
+}
+
+function utcDay(timestamp = Date.now()): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function costOf(sku: GoogleSku, calls: number): number {
+  return (calls * SKU_PRICES_PER_1000[sku]) / 1000;
+}
+
+function roundUsd(usd: number): number {
+  return Math.round(usd * 10000) / 10000;
+}
+
+/**
+ * Count one billable call
+ */
+export function recordGoogleCall(sku: GoogleSku, context: GoogleUsageContext) {
+  const day = utcDay();
+  const userKey = context.userId || '';
+  const key = `${day}|${sku}|${context.route}|${userKey}`;
+
+  let counter = counters.get(key);
+  if (!counter) {
+    counter = { day, sku, route: context.route, userKey, calls: 0, dirty: true };
+    counters.set(key, counter);
+  }
+  counter.calls++;
+  counter.dirty = true;
+}
+
+/**
+ * Seconds until the budget resets at the next UTC midnight
+ */
+export function secondsUntilBudgetReset(): number {
+  return Math.ceil((DAY_MS - (Date.now() % DAY_MS)) / 1000);
+}
+
+/**
+ * Error for a call the budget doesn't allow (503 with Retry-After)
+ */
+export function googleBudgetError(): HttpError {
+  const e = new HttpError(503, 'Google API daily budget reached');
+  e.retryAfter = secondsUntilBudgetReset();
+  return e;
+}
+
+function ownSpend(day: string): number {
+  let usd = 0;
+  for (const counter of counters.values()) {
+    if (counter.day === day) usd += costOf(counter.sku, counter.calls);
+  }
+  return usd;
+}
+
+async function readOtherInstancesSpend(supabase: SupabaseClient, day: string): Promise<number> {
+  let usd = 0;
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('google_api_usage')
+      .select('cost_usd')
+      .eq('day', day)
+      .neq('instance_id', INSTANCE_ID)
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    (data || []).forEach(row => { usd += Number(row.cost_usd); });
+    if (!data || data.length < PAGE_SIZE) return usd;
+  }
+}
+
+/**
+ * Today's estimated spend across instances and what it still allows. If the
+ * other instances' spend can't be read, the last known figure is used.
+ */
+export async function getGoogleBudget(
+  supabase: SupabaseClient,
+  config: GoogleBudgetConfig = getGoogleBudgetConfig()
+): Promise<GoogleBudget> {
+  const day = utcDay();
+
+  if (!otherInstancesSpend || otherInstancesSpend.day !== day || Date.now() - otherInstancesSpend.readAt >= SPEND_REFRESH_MS) {
+    try {
+      otherInstancesSpend = { day, usd: await readOtherInstancesSpend(supabase, day), readAt: Date.now() };
+    } catch (error) {
+      console.error('⚠️ Failed to read Google API spend:', error);
+      const usd = otherInstancesSpend?.day === day ? otherInstancesSpend.usd : 0;
+      otherInstancesSpend = { day, usd, readAt: Date.now() };
+    }
+  }
+
+  const spentUsd = otherInstancesSpend.usd + ownSpend(day);
+  const level: BudgetLevel = spentUsd >= config.dailyBudgetUsd
+    ? 'cached-only'
+    : spentUsd >= config.dailyBudgetUsd * config.photoBudgetRatio
+      ? 'no-photos'
+      : 'ok';
+
+  return { day, spentUsd: roundUsd(spentUsd), budgetUsd: config.dailyBudgetUsd, level };
+}
+
+/**
+ * Throw googleBudgetError() unless the budget still allows uncached calls
+ */
+export async function assertGoogleBudget(supabase: SupabaseClient): Promise<void> {
+  if ((await getGoogleBudget(supabase)).level === 'cached-only') {
+    throw googleBudgetError();
+  }
+}
+
+export function isGoogleUsageFlushDue(): boolean {
+  if (flushing) return false;
+  const today = utcDay();
+  const intervalElapsed = Date.now() - lastFlushAt >= FLUSH_INTERVAL_MS;
+
+  for (const counter of counters.values()) {
+    if (counter.dirty && (intervalElapsed || counter.day < today)) return true;
+  }
+  return false;
+}
+
+/**
+ * Write this instance's changed counters. Past days are forgotten once
+ * written; rows past the retention window are purged about once an hour.
+ * Concurrent calls share one flush.
+ */
+export function flushGoogleUsage(
+  supabase: SupabaseClient,
+  config: GoogleBudgetConfig = getGoogleBudgetConfig()
+): Promise<void> {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    const today = utcDay();
+    const dirty = [...counters.values()].filter(counter => counter.dirty);
+    lastFlushAt = Date.now();
+
+    if (dirty.length > 0) {
+      dirty.forEach(counter => { counter.dirty = false; });
+      const { error } = await supabase.from('google_api_usage').upsert(
+        dirty.map(counter => ({
+          day: counter.day,
+          sku: counter.sku,
+          route: counter.route,
+          user_key: counter.userKey,
+          instance_id: INSTANCE_ID,
+          calls: counter.calls,
+          cost_usd: roundUsd(costOf(counter.sku, counter.calls)),
+          updated_at: new Date().toISOString(),
+        })),
+        { onConflict: 'day,sku,route,user_key,instance_id' }
+      );
+
+      if (error) {
+        dirty.forEach(counter => { counter.dirty = true; });
+        throw new Error(error.message);
+      }
+    }
+
+    for (const [key, counter] of counters) {
+      if (counter.day < today && !counter.dirty) counters.delete(key);
+    }
+
+    if (Date.now() - lastPurgeAt >= PURGE_INTERVAL_MS) {
+      lastPurgeAt = Date.now();
+      const { error } = await supabase
+        .from('google_api_usage')
+        .delete()
+        .lt('day', utcDay(Date.now() - config.retentionDays * DAY_MS));
+      if (error) throw new Error(error.message);
+    }
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+}
+
+function addTo(map: Map<string, UsageBreakdownEntry>, name: string, row: UsageRow) {
+  const entry = map.get(name) || { name, calls: 0, costUsd: 0 };
+  entry.calls += row.calls;
+  entry.costUsd += Number(row.cost_usd);
+  map.set(name, entry);
+}
+
+function sortedEntries(map: Map<string, UsageBreakdownEntry>): UsageBreakdownEntry[] {
+  return [...map.values()]
+    .map(entry => ({ ...entry, costUsd: roundUsd(entry.costUsd) }))
+    .sort((a, b) => b.costUsd - a.costUsd);
+}
+
+/**
+ * Usage for the last `days` UTC days (today included): per day, SKU, route
+ * and top users. This instance's unflushed counts are flushed first.
+ */
+export async function getGoogleUsageReport(supabase: SupabaseClient, days: number): Promise<GoogleUsageReport> {
+  const dayCount = Math.min(Math.max(Math.floor(days) || 1, 1), MAX_REPORT_DAYS);
+  await flushGoogleUsage(supabase);
+
+  const to = utcDay();
+  const from = utcDay(Date.now() - (dayCount - 1) * DAY_MS);
+  const rows: UsageRow[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('google_api_usage')
+      .select('day, sku, route, user_key, instance_id, calls, cost_usd')
+      .gte('day', from)
+      .lte('day', to)
+      .order('day')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    rows.push(...((data || []) as UsageRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const byDay = new Map<string, UsageBreakdownEntry>();
+  for (let i = dayCount - 1; i >= 0; i--) {
+    const day = utcDay(Date.now() - i * DAY_MS);
+    byDay.set(day, { name: day, calls: 0, costUsd: 0 });
+  }
+  const bySku = new Map<string, UsageBreakdownEntry>();
+  const byRoute = new Map<string, UsageBreakdownEntry>();
+  const byUser = new Map<string, UsageBreakdownEntry>();
+
+  rows.forEach(row => {
+    addTo(byDay, row.day, row);
+    addTo(bySku, row.sku, row);
+    addTo(byRoute, row.route, row);
+    addTo(byUser, row.user_key, row);
+  });
+
+  const topUsers = sortedEntries(byUser).slice(0, MAX_REPORT_USERS);
+  const userIds = topUsers.map(entry => entry.name).filter(Boolean);
+  const names = new Map<string, string>();
+  if (userIds.length > 0) {
+    const { data, error } = await supabase.from('user_metadata').select('user_id, name').in('user_id', userIds);
+    if (error) throw new Error(error.message);
+    (data || []).forEach(user => names.set(user.user_id, user.name));
+  }
+
+  const dayEntries = [...byDay.values()];
+  return {
+    from,
+    to,
+    budget: await getGoogleBudget(supabase),
+    totals: {
+      calls: dayEntries.reduce((sum, entry) => sum + entry.calls, 0),
+      costUsd: roundUsd(dayEntries.reduce((sum, entry) => sum + entry.costUsd, 0)),
+    },
+    days: dayEntries.map(entry => ({ day: entry.name, calls: entry.calls, costUsd: roundUsd(entry.costUsd) })),
+    skus: sortedEntries(bySku),
+    routes: sortedEntries(byRoute),
+    users: topUsers.map(entry => ({
+      userId: entry.name || null,
+      userName: entry.name ? names.get(entry.name) || null : null,
+      calls: entry.calls,
+      costUsd: entry.costUsd,
+    })),
+  };
+}
@@ -0,0 +1,333 @@
+/**
+ * City Guides
+ * Editor-written guides keyed by the city's Google Place ID: an intro,
+ * ordered sections ("Top tasting menus", "Casual") holding ordered location
+ * entries with blurbs, and live stats for the area around the city center
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { formatLocationForAPI, type LocationRow } from './helpers.tsx';
+import { queryRadius } from './spatial.tsx';
+
+// Matches the radius the client uses for city stats
+export const DEFAULT_GUIDE_RADIUS_KM = 50;
+export const MAX_GUIDE_RADIUS_KM = 200;
+export const MAX_GUIDE_INTRO_LENGTH = 5000;
+export const MAX_SECTION_TITLE_LENGTH = 120;
+export const MAX_BLURB_LENGTH = 1000;
+
+export interface GuideRow {
+  id: string;
+  city_id: string;
+  city_name: string;
+  country: string | null;
+  lat: number;
+  lng: number;
+  radius_km: number;
+  intro: string | null;
+  published: boolean;
+  created_by: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GuideSectionRow {
+  id: string;
+  guide_id: string;
+  title: string;
+  description: string | null;
+  position: number;
+}
+
+export interface GuideEntryRow {
+  id: string;
+  section_id: string;
+  location_id: string;
+  blurb: string | null;
+  position: number;
+  locations?: LocationRow | null;
+}
+
+export interface GuideStats {
+  ratedPlaceCount: number;
+  avgLvScore: number | null;
+  michelinStarredCount: number;
+  bibGourmandCount: number;
+  entryCount: number;
+}
+
+export interface GuideOrder {
+  sections: Array<{ id: string; entryIds: string[] }>;
+}
+
+function optionalText(value: unknown, max: number, field: string): string | null | { error: string } {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') return { error: `${field} must be a string` };
+  const trimmed = value.trim();
+  if (trimmed.length > max) return { error: `${field} must be at most ${max} characters` };
+  return trimmed || null;
+}
+
+/**
+ * Validate the guide header for PUT /guides/:cityId. cityName, lat and lng
+ * are required when the guide is created. Returns an error message or the
+ * DB columns to write.
+ */
+export function parseGuideInput(body: any, isNew: boolean): Partial<GuideRow> | string {
+  const row: Partial<GuideRow> = {};
+
+  if (body.cityName !== undefined || isNew) {
+    if (typeof body.cityName !== 'string' || !body.cityName.trim()) return 'cityName is required';
+    row.city_name = body.cityName.trim();
+  }
+
+  if (body.lat !== undefined || body.lng !== undefined || isNew) {
+    const lat = Number(body.lat);
+    const lng = Number(body.lng);
+    if (isNaN(lat) || isNaN(lng) || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+      return 'lat and lng must be valid coordinates';
+    }
+    row.lat = lat;
+    row.lng = lng;
+  }
+
+  if (body.radiusKm !== undefined) {
+    const radiusKm = Number(body.radiusKm);
+    if (isNaN(radiusKm) || radiusKm <= 0 || radiusKm > MAX_GUIDE_RADIUS_KM) {
+      return `radiusKm must be between 0 and ${MAX_GUIDE_RADIUS_KM}`;
+    }
+    row.radius_km = radiusKm;
+  }
+
+  if (body.country !== undefined) {
+    const country = optionalText(body.country, 100, 'country');
+    if (country && typeof country === 'object') return country.error;
+    row.country = country;
+  }
+
+  if (body.intro !== undefined) {
+    const intro = optionalText(body.intro, MAX_GUIDE_INTRO_LENGTH, 'intro');
+    if (intro && typeof intro === 'object') return intro.error;
+    row.intro = intro;
+  }
+
+  if (body.published !== undefined) {
+    row.published = !!body.published;
+  }
+
+  return row;
+}
+
+/**
+ * Validate a section body. Returns an error message or the DB columns.
+ */
+export function parseSectionInput(body: any, isNew: boolean): Partial<GuideSectionRow> | string {
+  const row: Partial<GuideSectionRow> = {};
+
+  if (body.title !== undefined || isNew) {
+    const title = typeof body.title === 'string' ? body.title.trim() : '';
+    if (!title) return 'title is required';
+    if (title.length > MAX_SECTION_TITLE_LENGTH) return `title must be at most ${MAX_SECTION_TITLE_LENGTH} characters`;
+    row.title = title;
+  }
+
+  if (body.description !== undefined) {
+    const description = optionalText(body.description, MAX_BLURB_LENGTH, 'description');
+    if (description && typeof description === 'object') return description.error;
+    row.description = description;
+  }
+
+  return row;
+}
+
+/**
+ * Validate an entry blurb (null/empty clears it)
+ */
+export function parseBlurb(value: unknown): string | null | { error: string } {
+  return optionalText(value, MAX_BLURB_LENGTH, 'blurb');
+}
+
+/**
+ * Validate a { sections: [{ id, entryIds }] } reorder body
+ */
+export function parseGuideOrder(body: any): GuideOrder | string {
+  if (!Array.isArray(body?.sections)) return 'sections must be an array';
+
+  for (const section of body.sections) {
+    if (typeof section?.id !== 'string' || !Array.isArray(section.entryIds) ||
+        section.entryIds.some((id: unknown) => typeof id !== 'string')) {
+      return 'each section needs an id and an entryIds array';
+    }
+  }
+
+  return { sections: body.sections.map((s: any) => ({ id: s.id, entryIds: s.entryIds })) };
+}
+
+/**
+ * Load a guide with its sections and entries (joined with locations)
+ */
+export async function loadGuide(supabase: SupabaseClient, cityId: string): Promise<{
+  guide: GuideRow;
+  sections: GuideSectionRow[];
+  entries: GuideEntryRow[];
+} | null> {
+  const { data: guide, error } = await supabase
+    .from('city_guides')
+    .select('*')
+    .eq('city_id', cityId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!guide) return null;
+
+  const { data: sections, error: sectionsError } = await supabase
+    .from('city_guide_sections')
+    .select('*')
+    .eq('guide_id', guide.id)
+    .order('position', { ascending: true });
+
+  if (sectionsError) throw new Error(sectionsError.message);
+
+  const sectionIds = (sections || []).map(s => s.id);
+  let entries: GuideEntryRow[] = [];
+
+  if (sectionIds.length > 0) {
+    const { data, error: entriesError } = await supabase
+      .from('city_guide_entries')
+      .select('*, locations (*)')
+      .in('section_id', sectionIds)
+      .order('position', { ascending: true });
+
+    if (entriesError) throw new Error(entriesError.message);
+    entries = (data || []) as GuideEntryRow[];
+  }
+
+  return { guide: guide as GuideRow, sections: (sections || []) as GuideSectionRow[], entries };
+}
+
+/**
+ * Stats for the area the guide covers (every location within radius_km of
+ * the city center, not only the guide's own entries)
+ */
+export async function computeGuideStats(supabase: SupabaseClient, guide: GuideRow, entryCount: number): Promise<GuideStats> {
+  const rows = await queryRadius<LocationRow>(
+    supabase,
+    'locations',
+    guide.lat,
+    guide.lng,
+    guide.radius_km || DEFAULT_GUIDE_RADIUS_KM,
+    { select: 'id, lat, lng, lv_editor_score, michelin_stars, michelin_distinction' }
+  );
+
+  const scores = rows
+    .map(row => row.lv_editor_score)
+    .filter((score): score is number => score !== null && score !== undefined && score > 0)
+    .map(Number);
+
+  return {
+    ratedPlaceCount: scores.length,
+    avgLvScore: scores.length > 0 ? Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 10) / 10 : null,
+    michelinStarredCount: rows.filter(row => (row.michelin_stars || 0) > 0).length,
+    bibGourmandCount: rows.filter(row => row.michelin_distinction?.toLowerCase().includes('bib gourmand')).length,
+    entryCount,
+  };
+}
+
+/**
+ * Position after the last section of a guide / entry of a section
+ */
+export async function getNextPosition(
+  supabase: SupabaseClient,
+  table: 'city_guide_sections' | 'city_guide_entries',
+  parentColumn: 'guide_id' | 'section_id',
+  parentId: string
+): Promise<number> {
+  const { data, error } = await supabase
+    .from(table)
+    .select('position')
+    .eq(parentColumn, parentId)
+    .order('position', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ? data.position + 1 : 0;
+}
+
+/**
+ * Apply a new section order and entry placement. Entries may move between
+ * sections; sections or entries not mentioned keep their current place.
+ */
+export async function applyGuideOrder(
+  supabase: SupabaseClient,
+  sections: GuideSectionRow[],
+  entries: GuideEntryRow[],
+  order: GuideOrder
+): Promise<void> {
+  const sectionIds = new Set(sections.map(s => s.id));
+  const orderedSections = order.sections.filter(s => sectionIds.has(s.id));
+
+  const sectionPositions = [
+    ...orderedSections.map(s => s.id),
+    ...sections.map(s => s.id).filter(id => !orderedSections.some(o => o.id === id)),
+  ];
+
+  for (const [position, id] of sectionPositions.entries()) {
+    if (sections.find(s => s.id === id)?.position === position) continue;
+    const { error } = await supabase.from('city_guide_sections').update({ position }).eq('id', id);
+    if (error) throw new Error(error.message);
+  }
+
+  const entryIds = new Set(entries.map(e => e.id));
+  for (const section of orderedSections) {
+    for (const [position, entryId] of section.entryIds.filter(id => entryIds.has(id)).entries()) {
+      const entry = entries.find(e => e.id === entryId)!;
+      if (entry.section_id === section.id && entry.position === position) continue;
+
+      const { error } = await supabase
+        .from('city_guide_entries')
+        .update({ section_id: section.id, position })
+        .eq('id', entryId);
+      if (error) throw new Error(error.message);
+    }
+  }
+}
+
+/**
+ * Convert a loaded guide to API format
+ */
+export function formatGuideForAPI(
+  guide: GuideRow,
+  sections: GuideSectionRow[],
+  entries: GuideEntryRow[],
+  stats: GuideStats
+) {
+  return {
+    id: guide.id,
+    cityId: guide.city_id,
+    cityName: guide.city_name,
+    country: guide.country,
+    center: { lat: guide.lat, lng: guide.lng },
+    radiusKm: guide.radius_km,
+    intro: guide.intro,
+    published: guide.published,
+    updatedAt: guide.updated_at,
+    stats,
+    sections: sections.map(section => ({
+      id: section.id,
+      title: section.title,
+      description: section.description,
+      position: section.position,
+      entries: entries
+        .filter(entry => entry.section_id === section.id && entry.locations)
+        .sort((a, b) => a.position - b.position)
+        .map(entry => ({
+          id: entry.id,
+          blurb: entry.blurb,
+          position: entry.position,
+          location: formatLocationForAPI(entry.locations as LocationRow),
+        })),
+    })),
+  };
+}
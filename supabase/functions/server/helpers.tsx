@@ -2,6 +2,8 @@
  * Helper functions for data transformation between database and API
  */
 
+import type { LocationStatus, StatusSource } from './location_status.tsx';
+
 // Database row type (snake_case from Supabase)
 export interface LocationRow {
   id: string;
@@ -30,6 +32,10 @@ export interface LocationRow {
   description?: string | null;
   google_place_id?: string | null;
   michelin_id?: string | null;
+  status?: LocationStatus | null;
+  successor_location_id?: string | null;
+  status_source?: StatusSource | null;
+  status_updated_at?: string | null;
   created_at?: string;
   updated_at?: string;
   created_by_user_id?: string | null;
@@ -67,6 +73,12 @@ export interface LocationAPI {
   googlePlaceId?: string | null;
   michelinId?: string | null;
   placeId?: string | null; // Backward compat alias for googlePlaceId
+  // Lifecycle
+  status: LocationStatus;
+  successorLocationId?: string | null; // Set when status is 'moved'
+  statusSource?: StatusSource | null;
+  statusUpdatedAt?: string | null;
+  successor?: LocationAPI | null; // Included in favorites / want-to-go lists
   // Metadata
   createdBy?: string | null;
   createdAt?: string;
@@ -126,6 +138,11 @@ export function formatLocationForAPI(loc: LocationRow, favoritesCount?: number,
     googlePlaceId: loc.google_place_id,
     michelinId: loc.michelin_id,
     placeId: loc.google_place_id, // Backward compat alias
+    // Lifecycle
+    status: loc.status || 'open',
+    successorLocationId: loc.successor_location_id,
+    statusSource: loc.status_source,
+    statusUpdatedAt: loc.status_updated_at,
     // Metadata
     createdBy: loc.created_by_user_id,
     createdAt: loc.created_at,
@@ -198,4 +215,52 @@ export function formatLocationForDB(updates: any): any {
   }
   
   return dbUpdates;
-}
\ No newline at end of file
+}
+const PAGE_SIZE = 1000;
+
+/**
+ * Read every row a query returns (PostgREST caps responses at 1000 rows)
+ */
+export async function fetchAllRows<T>(buildQuery: () => any): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await buildQuery().range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/**
+ * Check whether an ID is a location UUID (as opposed to a Google Place ID)
+ */
+export function isUUID(id: string) {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
+}
+
+/**
+ * Error that carries the HTTP status a route should answer with
+ */
+export class HttpError extends Error {
+  status: number;
+  retryAfter?: number; // Seconds, sent as Retry-After
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Let work outlive the response: the edge runtime keeps the isolate alive
+ * until the promise settles (elsewhere the promise simply runs on)
+ */
+export function runInBackground(task: Promise<unknown>) {
+  const runtime = (globalThis as any).EdgeRuntime;
+  if (runtime?.waitUntil) {
+    runtime.waitUntil(task);
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Location History / Audit Trail
+ * Append-only log of every create, update and delete made through the
+ * location, rating and link-place routes, with snapshots for rollback
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export type HistoryAction = 'create' | 'update' | 'delete' | 'revert';
+export type HistorySource = 'location' | 'rating' | 'link-place' | 'history' | 'michelin-import' | 'merge';
+
+// Columns an editor can roll back. Cached aggregates (user scores, counts)
+// and timestamps are deliberately excluded - they are derived data.
+export const REVERTIBLE_FIELDS = [
+  'name',
+  'description',
+  'address',
+  'city',
+  'country',
+  'lat',
+  'lng',
+  'category',
+  'tags',
+  'cuisine',
+  'area',
+  'image',
+  'lv_editor_score',
+  'lv_editor_notes',
+  'google_place_id',
+  'michelin_id',
+  'status',
+  'successor_location_id',
+  'status_source',
+] as const;
+
+export interface HistoryEntryRow {
+  id: number;
+  location_id: string | null;
+  michelin_id: number | null;
+  action: HistoryAction;
+  source: HistorySource;
+  changed_fields: string[] | null;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  changed_by_user_id: string | null;
+  reverted_from_id?: number | null;
+  created_at: string;
+}
+
+interface RecordHistoryInput {
+  locationId?: string | null;
+  michelinId?: number | null;
+  action: HistoryAction;
+  source: HistorySource;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  userId?: string | null;
+  revertedFromId?: number | null;
+}
+
+/**
+ * List the fields whose values differ between two snapshots
+ */
+export function diffFields(before?: Record<string, any> | null, after?: Record<string, any> | null): string[] {
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changed: string[] = [];
+
+  keys.forEach(key => {
+    if (key === 'updated_at' || key === 'created_at') return;
+    const a = before?.[key] ?? null;
+    const b = after?.[key] ?? null;
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changed.push(key);
+    }
+  });
+
+  return changed.sort();
+}
+
+/**
+ * Append an entry to location_history
+ * Never throws - a failed audit write is logged but must not fail the edit itself
+ */
+export async function recordLocationHistory(supabase: SupabaseClient, input: RecordHistoryInput): Promise<void> {
+  try {
+    const changedFields = diffFields(input.before, input.after);
+
+    // Nothing changed - don't clutter the timeline
+    if (input.action === 'update' && changedFields.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('location_history')
+      .insert({
+        location_id: input.locationId ?? input.after?.id ?? input.before?.id ?? null,
+        michelin_id: input.michelinId ?? null,
+        action: input.action,
+        source: input.source,
+        changed_fields: changedFields,
+        before: input.before ?? null,
+        after: input.after ?? null,
+        changed_by_user_id: input.userId ?? null,
+        reverted_from_id: input.revertedFromId ?? null,
+      });
+
+    if (error) {
+      console.error('⚠️ Failed to record location history:', error);
+    }
+  } catch (error) {
+    console.error('⚠️ Failed to record location history:', error);
+  }
+}
+
+/**
+ * Build the column values needed to restore a location to a history entry.
+ * For delete entries the "before" snapshot is the last known state.
+ */
+export function getRevertTarget(entry: HistoryEntryRow): Record<string, any> | null {
+  const snapshot = entry.action === 'delete' ? entry.before : entry.after;
+  if (!snapshot) return null;
+
+  const target: Record<string, any> = {};
+  REVERTIBLE_FIELDS.forEach(field => {
+    if (field in snapshot) {
+      target[field] = snapshot[field];
+    }
+  });
+
+  return target;
+}
+
+/**
+ * Convert a history row (snake_case) to API format (camelCase)
+ */
+export function formatHistoryEntryForAPI(entry: HistoryEntryRow, userNames?: Map<string, string>) {
+  return {
+    id: entry.id,
+    locationId: entry.location_id,
+    michelinId: entry.michelin_id,
+    action: entry.action,
+    source: entry.source,
+    changedFields: entry.changed_fields || [],
+    before: entry.before,
+    after: entry.after,
+    changedBy: entry.changed_by_user_id,
+    changedByName: entry.changed_by_user_id ? userNames?.get(entry.changed_by_user_id) || null : null,
+    revertedFromId: entry.reverted_from_id ?? null,
+    createdAt: entry.created_at,
+  };
+}
@@ -2,8 +2,171 @@ import { Hono } from "npm:hono@4";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
 import { createClient } from "npm:@supabase/supabase-js@2";
-import { getMichelinRating } from "./michelin.tsx";
-import { formatLocationForAPI, formatLocationForDB, type LocationRow } from "./helpers.tsx";
+import { getMichelinRating, formatMichelinRestaurantForMap } from "./michelin.tsx";
+import {
+  parseBounds,
+  normalizeBounds,
+  queryBoundingBox,
+  queryNearby,
+  applyBoundsFilter,
+  DEFAULT_NEAREST_MAX_RADIUS_KM,
+} from "./spatial.tsx";
+import {
+  parseLocationFilters,
+  parseSort,
+  decodeCursor,
+  cursorOrGroup,
+  applyLocationFilters,
+  applyOrGroups,
+  nextCursorFor,
+  SORT_FIELDS,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+} from "./location_query.tsx";
+import {
+  createSyncToken,
+  isSyncTokenExpired,
+  getTombstones,
+  purgeExpiredTombstones,
+} from "./changes.tsx";
+import { buildClusters, filterByLayers, CLUSTER_SELECT, type ClusterLayer, type ClusterPointRow } from "./clusters.tsx";
+import { formatLocationForAPI, formatLocationForDB, isUUID, runInBackground, type LocationRow } from "./helpers.tsx";
+import { normalizeUserScore, getUserScore, recomputeUserScore, MAX_USER_SCORE } from "./user_ratings.tsx";
+import {
+  recordLocationHistory,
+  getRevertTarget,
+  formatHistoryEntryForAPI,
+  type HistoryEntryRow,
+} from "./history.tsx";
+import {
+  saveEditorScore,
+  reconcileEditorScores,
+  getEditorScoreConfig,
+  type EditorScoreSummary,
+} from "./editor_scores.tsx";
+import {
+  parseListInput,
+  parseEntryNote,
+  generateListSlug,
+  canViewList,
+  getNextEntryPosition,
+  reorderListEntries,
+  formatListForAPI,
+  formatListEntryForAPI,
+  type ListRow,
+  type ListEntryRow,
+} from "./lists.tsx";
+import {
+  parseGuideInput,
+  parseSectionInput,
+  parseBlurb,
+  parseGuideOrder,
+  loadGuide,
+  computeGuideStats,
+  getNextPosition,
+  applyGuideOrder,
+  formatGuideForAPI,
+  type GuideRow,
+} from "./guides.tsx";
+import {
+  CHANGE_TYPES,
+  DEFAULT_IMPORT_BATCH_SIZE,
+  MAX_IMPORT_BATCH_SIZE,
+  isImportFormat,
+  parseMichelinDataset,
+  loadAllMichelinRestaurants,
+  diffMichelinDataset,
+  createImportRun,
+  applyImportBatch,
+  formatImportRunForAPI,
+  formatImportChangeForAPI,
+  type ImportRunRow,
+  type ImportChangeRow,
+} from "./michelin_import.tsx";
+import {
+  AWARD_CHANGE_TYPES,
+  MAX_AWARD_FEED_LIMIT,
+  isAwardChangeType,
+  parseGuideYear,
+  parseSince,
+  getLatestGuideYear,
+  latestPerRestaurant,
+  formatAwardChangeForAPI,
+  type AwardHistoryRow,
+} from "./michelin_awards.tsx";
+import {
+  parseStatsDays,
+  getAdminCounters,
+  getDailySeries,
+  getLocationBreakdowns,
+} from "./stats.tsx";
+import {
+  isDetailTier,
+  getPlaceDetails,
+  formatPlaceDetailsForAPI,
+  decodePhotoRef,
+  parsePhotoWidth,
+  getPhoto,
+  getPhotoUrl,
+} from "./google_places.tsx";
+import { findGoogleMatches } from "./place_matcher.tsx";
+import {
+  SUGGESTION_STATUSES,
+  RESOLUTIONS,
+  RESOLVED_STATUSES,
+  EDITOR_VOTE_WEIGHT,
+  isVoteStatus,
+  isSuggestionStatus,
+  isResolution,
+  getConsensusConfig,
+  getSuggestion,
+  getBlacklistedPlaceIds,
+  recordVote,
+  evaluateSuggestion,
+  resolveSuggestion,
+  formatSuggestionForAPI,
+  type SuggestionRow,
+} from "./place_consensus.tsx";
+import {
+  DEFAULT_MIN_DUPLICATE_CONFIDENCE,
+  findDuplicatePairs,
+  findDuplicatesOf,
+  dismissDuplicatePair,
+  parseMergeFields,
+  mergeLocations,
+  formatDuplicatePairForAPI,
+} from "./duplicates.tsx";
+import {
+  CLOSED_STATUSES,
+  isLocationStatus,
+  setLocationStatus,
+  closeMovedTo,
+  getSuccessors,
+} from "./location_status.tsx";
+import {
+  JOB_TYPES,
+  ACTIVE_JOB_STATES,
+  isJobType,
+  getJobPermission,
+  getJob,
+  getActiveJob,
+  createJob,
+  advanceJob,
+  cancelJob,
+  resumeJob,
+  formatJobForAPI,
+  type JobRow,
+} from "./jobs.tsx";
+import {
+  ROLES,
+  isRole,
+  hasRole,
+  hasPermission,
+  getEffectivePermissions,
+  getRoleMatrix,
+  type Role,
+  type Permission,
+} from "./roles.tsx";
 import {
   performanceMiddleware,
   errorHandlerMiddleware,
@@ -11,6 +174,44 @@ import {
   getMetricsSummary,
   logError,
 } from "./monitoring.tsx";
+import { isMetricsFlushDue, flushMetrics, parseMetricsRange, queryMetrics } from "./metrics_store.tsx";
+import {
+  parseTelemetryBatch,
+  recordTelemetryBatch,
+  purgeExpiredTelemetry,
+  getTelemetrySummary,
+  getTelemetryConfig,
+} from "./telemetry.tsx";
+import { rateLimit } from "./rate_limit.tsx";
+import {
+  getGoogleBudget,
+  assertGoogleBudget,
+  isGoogleUsageFlushDue,
+  flushGoogleUsage,
+  getGoogleUsageReport,
+  MAX_REPORT_DAYS,
+} from "./google_usage.tsx";
+import {
+  isAlertEvaluationDue,
+  evaluateAlertRules,
+  parseAlertRuleInput,
+  getAlertRules,
+  getAlertRule,
+  createAlertRule,
+  updateAlertRule,
+  deleteAlertRule,
+  listAlerts,
+  getAlert,
+  getAlertEvents,
+  acknowledgeAlert,
+  resolveAlert,
+  isAlertStatus,
+  formatAlertRuleForAPI,
+  formatAlertForAPI,
+  formatAlertEventForAPI,
+  ALERT_STATUSES,
+  type AlertStatus,
+} from "./alerts.tsx";
 
 /**
  * IMPORTANT: Platform-level JWT verification is DISABLED
@@ -35,6 +236,31 @@ app.use('*', errorHandlerMiddleware());
 // Enable performance monitoring
 app.use('*', performanceMiddleware());
 
+// Persist metric rollups in the background once they're due
+app.use('*', async (c, next) => {
+  await next();
+  if (isMetricsFlushDue()) {
+    runInBackground(
+      flushMetrics(getSupabaseAdmin()).catch(error => console.error('⚠️ Failed to flush metrics:', error))
+    );
+  }
+  if (isGoogleUsageFlushDue()) {
+    runInBackground(
+      flushGoogleUsage(getSupabaseAdmin()).catch(error => console.error('⚠️ Failed to flush Google API usage:', error))
+    );
+  }
+});
+
+// Evaluate alert rules in the background about once a minute per instance
+app.use('*', async (c, next) => {
+  await next();
+  if (isAlertEvaluationDue()) {
+    runInBackground(
+      evaluateAlertRules(getSupabaseAdmin()).catch(error => console.error('⚠️ Failed to evaluate alert rules:', error))
+    );
+  }
+});
+
 // Enable logger
 app.use('*', logger(console.log));
 
@@ -112,61 +338,315 @@ async function verifyAuth(c: any, next: any) {
   }
 }
 
-// Middleware to verify editor role
-async function verifyEditor(c: any, next: any) {
-  const userId = c.get('userId');
-  
+// Resolve the caller on public routes - anonymous (or anon-key) requests get null
+async function getOptionalUserId(c: any): Promise<string | null> {
+  const authHeader = c.req.header('Authorization');
+  if (!authHeader) return null;
+
+  const { data: { user } } = await getSupabaseClient().auth.getUser(authHeader.replace('Bearer ', ''));
+  return user?.id ?? null;
+}
+
+// Like verifyAuth for public routes: sets userId when the token is valid and
+// lets anonymous callers through
+async function optionalAuth(c: any, next: any) {
   try {
-    // Query the user_metadata table to get the authoritative role
-    const supabase = getSupabaseAdmin();
-    const { data: userData, error } = await supabase
-      .from('user_metadata')
-      .select('role')
-      .eq('user_id', userId)
-      .single();
+    const userId = await getOptionalUserId(c);
+    if (userId) c.set('userId', userId);
+  } catch (error: any) {
+    console.log('⚠️ Optional auth failed:', error.message);
+  }
+  return await next();
+}
+
+// Load the caller's role from the user_metadata table (authoritative), once per request
+async function getRequestRole(c: any): Promise<string | null> {
+  const cached = c.get('userRole');
+  if (cached !== undefined) return cached;
+
+  const supabase = getSupabaseAdmin();
+  const { data: userData, error } = await supabase
+    .from('user_metadata')
+    .select('role')
+    .eq('user_id', c.get('userId'))
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(error.message);
+  }
+
+  const role = userData?.role ?? null;
+  c.set('userRole', role);
+  return role;
+}
 
-    if (error || !userData) {
-      console.log('❌ User not found in user_metadata table:', userId);
+// Shared body of requireRole / requirePermission (runs after verifyAuth)
+async function authorize(c: any, next: any, allowed: (role: string | null) => boolean, requirement: string) {
+  try {
+    const role = await getRequestRole(c);
+
+    if (!role) {
+      console.log('❌ User not found in user_metadata table:', c.get('userId'));
       return c.json({ error: 'Forbidden - User not found' }, 403);
     }
 
-    const role = userData.role;
-    if (role !== 'editor') {
-      console.log('❌ User is not an editor. Role from user_metadata table:', role);
-      return c.json({ error: 'Forbidden - Editor role required' }, 403);
+    if (!allowed(role)) {
+      console.log(`❌ Role '${role}' lacks ${requirement}`);
+      return c.json({ error: `Forbidden - ${requirement} required`, role }, 403);
     }
-    
-    console.log('✅ Editor role verified from user_metadata table:', role);
-    
+
     // Continue to next middleware/handler
     return await next();
   } catch (error) {
-    console.error('❌ Error in verifyEditor:', error);
-    return c.json({ error: 'Failed to verify editor role' }, 500);
+    console.error('❌ Error checking role:', error);
+    return c.json({ error: 'Failed to verify user role' }, 500);
+  }
+}
+
+// Middleware requiring a minimum role in the hierarchy
+function requireRole(minRole: Role) {
+  return (c: any, next: any) => authorize(c, next, role => hasRole(role, minRole), `${minRole} role`);
+}
+
+// Middleware requiring a permission (see roles.tsx for who holds it)
+function requirePermission(permission: Permission) {
+  return (c: any, next: any) => authorize(c, next, role => hasPermission(role, permission), `'${permission}' permission`);
+}
+
+// Look up a location by UUID or, failing that, by Google Place ID
+async function findLocationByIdOrPlaceId(supabase: any, locationId: string) {
+  const { data, error } = await supabase
+    .from('locations')
+    .select('*')
+    .eq(isUUID(locationId) ? 'id' : 'google_place_id', locationId)
+    .maybeSingle();
+  
+  if (error) {
+    console.error('❌ Error looking up location:', locationId, error);
+    return null;
+  }
+  
+  return data as LocationRow | null;
+}
+
+// Store one editor's score (null removes it) and return the reconciled published score
+async function applyEditorScore(
+  supabase: any,
+  locationId: string,
+  userId: string,
+  lvEditorsScore: number | null | undefined
+): Promise<EditorScoreSummary | null> {
+  if (lvEditorsScore === undefined) return null;
+  await saveEditorScore(supabase, locationId, userId, lvEditorsScore);
+  return reconcileEditorScores(supabase, locationId);
+}
+
+// Map editor_scores rows to API format with editor names
+async function formatEditorScoreSummary(supabase: any, summary: EditorScoreSummary) {
+  const editorIds = summary.scores.map(s => s.editor_user_id);
+  const names = new Map<string, string>();
+  if (editorIds.length > 0) {
+    const { data: users } = await supabase
+      .from('user_metadata')
+      .select('user_id, name, email')
+      .in('user_id', editorIds);
+    users?.forEach((u: any) => names.set(u.user_id, u.name || u.email));
+  }
+  
+  return {
+    aggregate: summary.aggregate,
+    strategy: summary.strategy,
+    appliedStrategy: summary.appliedStrategy,
+    leadEditorId: summary.leadEditorId,
+    spread: summary.spread,
+    threshold: summary.threshold,
+    disagreement: summary.disagreement,
+    scores: summary.scores.map(s => ({
+      editorId: s.editor_user_id,
+      editorName: names.get(s.editor_user_id) || null,
+      score: Number(s.score),
+      updatedAt: s.updated_at,
+    })),
+  };
+}
+
+// Format saved locations, attaching the successor of any that moved
+async function formatSavedLocations(
+  supabase: any,
+  rows: LocationRow[],
+  favCountMap: Map<string, number>,
+  wtgCountMap: Map<string, number>
+) {
+  const successors = await getSuccessors(supabase, rows);
+
+  return rows.map(loc => {
+    const successor = loc.successor_location_id ? successors.get(loc.successor_location_id) : null;
+    return {
+      ...formatLocationForAPI(loc, favCountMap.get(loc.id), wtgCountMap.get(loc.id)),
+      successor: successor ? formatLocationForAPI(successor as LocationRow) : null,
+    };
+  });
+}
+
+// Count favorites / want-to-go per location for the given location IDs
+async function getEngagementCounts(supabase: any, locationIds: string[]) {
+  // Initialize count maps
+  const favCountMap = new Map<string, number>();
+  const wtgCountMap = new Map<string, number>();
+  
+  // Only query counts if we have locations (avoid Bad Request from empty .in() query)
+  if (locationIds.length > 0) {
+    console.log('📊 Querying counts for', locationIds.length, 'locations');
+    
+    // Optimize: Only query favorites/want-to-go for the locations we're returning
+    try {
+      const favResult = await supabase
+        .from('favorites')
+        .select('location_id')
+        .in('location_id', locationIds);
+      
+      console.log('📊 Favorites query:', { hasError: !!favResult.error, count: favResult.data?.length });
+      
+      if (favResult.error) {
+        // Silently skip if table doesn't exist - run /CREATE_MISSING_TABLES.sql to fix
+        console.log('⚠️ Favorites table not accessible - counts will be 0');
+      } else if (favResult.data) {
+        // Create a map of location_id to favorites count
+        favResult.data.forEach((fav: any) => {
+          const count = favCountMap.get(fav.location_id) || 0;
+          favCountMap.set(fav.location_id, count + 1);
+        });
+      }
+    } catch (e) {
+      // Silently skip exceptions
+    }
+    
+    // Optimize: Only query want-to-go for the locations we're returning
+    try {
+      const wtgResult = await supabase
+        .from('want_to_go')
+        .select('location_id')
+        .in('location_id', locationIds);
+      
+      console.log('📊 Want-to-go query:', { hasError: !!wtgResult.error, count: wtgResult.data?.length });
+      
+      if (wtgResult.error) {
+        // Silently skip if table doesn't exist - run /CREATE_MISSING_TABLES.sql to fix
+        console.log('⚠️ Want-to-go table not accessible - counts will be 0');
+      } else if (wtgResult.data) {
+        // Create a map of location_id to want-to-go count
+        wtgResult.data.forEach((wtg: any) => {
+          const count = wtgCountMap.get(wtg.location_id) || 0;
+          wtgCountMap.set(wtg.location_id, count + 1);
+        });
+      }
+    } catch (e) {
+      // Silently skip exceptions
+    }
+  }
+  
+  console.log('📊 Favorites count map entries:', favCountMap.size);
+  console.log('📊 Want-to-go count map entries:', wtgCountMap.size);
+  
+  return { favCountMap, wtgCountMap };
+}
+
+// Offline clients replay queued removals with ?queuedAt=<when the user removed it>.
+// If the row was (re)created after that - e.g. on another device - the newer add wins.
+async function isSavedAfterQueuedRemoval(
+  supabase: any,
+  table: 'favorites' | 'want_to_go',
+  userId: string,
+  locationId: string,
+  queuedAt: string | undefined
+): Promise<boolean> {
+  if (!queuedAt || isNaN(Date.parse(queuedAt))) return false;
+  
+  const { data: existing } = await supabase
+    .from(table)
+    .select('created_at')
+    .eq('user_id', userId)
+    .eq('location_id', locationId)
+    .maybeSingle();
+  
+  return !!existing?.created_at && Date.parse(existing.created_at) > Date.parse(queuedAt);
+}
+
+// Parse ?lat=&lng=&radius=(km)&k= for the nearby routes
+// Returns an error message string when the query is invalid
+function parseNearbyQuery(c: any) {
+  const lat = parseFloat(c.req.query('lat') ?? '');
+  const lng = parseFloat(c.req.query('lng') ?? '');
+  const radiusParam = c.req.query('radius');
+  const kParam = c.req.query('k');
+  
+  if (isNaN(lat) || isNaN(lng) || lat < -90 || lat > 90) {
+    return 'Valid lat and lng query parameters are required';
+  }
+  if (!radiusParam && !kParam) {
+    return 'Either radius (km) or k is required';
   }
+  
+  const radiusKm = radiusParam ? parseFloat(radiusParam) : undefined;
+  const k = kParam ? parseInt(kParam) : undefined;
+  
+  if (radiusKm !== undefined && (isNaN(radiusKm) || radiusKm <= 0 || radiusKm > DEFAULT_NEAREST_MAX_RADIUS_KM * 10)) {
+    return `radius must be between 0 and ${DEFAULT_NEAREST_MAX_RADIUS_KM * 10} km`;
+  }
+  if (k !== undefined && (isNaN(k) || k < 1 || k > 200)) {
+    return 'k must be between 1 and 200';
+  }
+  
+  return { lat, lng, radiusKm, k, limit: Math.min(parseInt(c.req.query('limit') || '500'), 2000) };
 }
 
 // ============================================
 // PUBLIC ROUTES (No Auth Required)
 // ============================================
 
-// Get Google Maps API key
+// Get the browser Google Maps key (Maps JavaScript API). This is a separate,
+// referrer-restricted key - GOOGLE_MAPS_API_KEY is the server's Places key
+// and never leaves the server.
+// Deploys from before GOOGLE_MAPS_BROWSER_KEY existed keep serving the old key
 app.get('/make-server-48182530/config/google-maps-key', (c) => {
-  const apiKey = Deno.env.get('GOOGLE_MAPS_API_KEY');
+  let apiKey = Deno.env.get('GOOGLE_MAPS_BROWSER_KEY');
+  if (!apiKey) {
+    apiKey = Deno.env.get('GOOGLE_MAPS_API_KEY');
+    if (apiKey) {
+      console.warn('⚠️ GOOGLE_MAPS_BROWSER_KEY not set - serving GOOGLE_MAPS_API_KEY to the browser. Set a referrer-restricted browser key.');
+    }
+  }
   if (!apiKey) {
     return c.json({ error: 'Google Maps API key not configured' }, 500);
   }
   return c.json({ apiKey });
 });
 
-// Get Google Place details with reviews and photos
-app.get('/make-server-48182530/google-places/:placeId/details', async (c) => {
+// Public URL of this function - photo URLs point back at the /photos proxy
+function getFunctionBaseUrl() {
+  return `${Deno.env.get('SUPABASE_URL')}/functions/v1/make-server-48182530`;
+}
+
+// A Google call refused by the daily budget (see google_usage.tsx)
+function googleBudgetResponse(c: any, error: any) {
+  c.header('Retry-After', String(error.retryAfter));
+  return c.json({ error: error.message, retryAfter: error.retryAfter }, 503);
+}
+
+// Get Google Place details (cached, stale-while-revalidate)
+// ?tier=basic|contact|full picks the field mask (default full: reviews + photos).
+// Photos are left out once the daily Google budget runs low.
+app.get('/make-server-48182530/google-places/:placeId/details', rateLimit('google-place-details'), async (c) => {
   console.log('📍 GET /google-places/:placeId/details - Start');
   const placeId = c.req.param('placeId');
+  const tier = c.req.query('tier') || 'full';
   
   if (!placeId) {
     return c.json({ error: 'Place ID is required' }, 400);
   }
+  if (!isDetailTier(tier)) {
+    return c.json({ error: 'tier must be basic, contact or full' }, 400);
+  }
 
   const googleMapsApiKey = Deno.env.get('GOOGLE_MAPS_API_KEY');
   if (!googleMapsApiKey) {
@@ -174,115 +654,145 @@ app.get('/make-server-48182530/google-places/:placeId/details', async (c) => {
   }
 
   try {
-    // Use the new Places API (v1) to get place details
-    const placeDetailsUrl = `https://places.googleapis.com/v1/places/${placeId}`;
-    
-    console.log(`🔍 Fetching details for Place ID: ${placeId}`);
-    
-    const response = await fetch(placeDetailsUrl, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Goog-Api-Key': googleMapsApiKey,
-        // Request reviews and photos in the field mask
-        'X-Goog-FieldMask': 'id,displayName,formattedAddress,location,rating,userRatingCount,reviews,photos,websiteUri,nationalPhoneNumber,googleMapsUri,currentOpeningHours',
-      },
-    });
+    const supabase = getSupabaseAdmin();
+    const usage = { route: 'GET /google-places/:placeId/details', userId: await getOptionalUserId(c) };
+    const { details, cache, fetchedAt } = await getPlaceDetails(supabase, googleMapsApiKey, placeId, tier, usage);
+    const budget = await getGoogleBudget(supabase);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`❌ Google Places API error:`, response.status, errorText);
-      return c.json({ error: 'Failed to fetch place details' }, response.status);
-    }
+    console.log(`✅ Place details for ${details.name || placeId} (${tier}, ${cache})`);
 
-    const placeData = await response.json();
-    console.log(`✅ Fetched place details: ${placeData.displayName?.text || 'Unknown'}`);
-    console.log(`📸 Photos from main call: ${placeData.photos?.length || 0}`);
-    console.log(`⭐ Reviews: ${placeData.reviews?.length || 0}`);
+    c.header('X-Cache', cache);
+    return c.json({
+      ...formatPlaceDetailsForAPI(budget.level === 'ok' ? details : { ...details, photos: [] }, getFunctionBaseUrl()),
+      fetched_at: fetchedAt,
+    });
+  } catch (error: any) {
+    console.error('❌ Error fetching place details:', error);
+    if (error.status === 503) {
+      return googleBudgetResponse(c, error);
+    }
+    if (error.status === 404 || error.status === 400) {
+      return c.json({ error: 'Place not found' }, 404);
+    }
+    return c.json({ error: error.message || 'Internal server error' }, 502);
+  }
+});
 
-    // Google Places API v1 returns max 10 photos by default
-    // All available photos are returned in the photos array - this is the limit from Google
-    // We'll return all of them at high resolution
-    const allPhotos = placeData.photos?.map((photo: any) => ({
-      photoReference: `https://places.googleapis.com/v1/${photo.name}/media?key=${googleMapsApiKey}&maxHeightPx=2400&maxWidthPx=2400`,
-      width: photo.widthPx || 800,
-      height: photo.heightPx || 600,
-    })) || [];
+// Proxy a Google place photo so the API key stays on the server
+// :ref comes from a details response, ?maxWidthPx= is snapped to a cached size
+app.get('/make-server-48182530/photos/:ref', rateLimit('google-photos'), async (c) => {
+  const name = decodePhotoRef(c.req.param('ref'));
+  if (!name) {
+    return c.json({ error: 'Invalid photo reference' }, 400);
+  }
 
-    console.log(`📸 Total photos being returned: ${allPhotos.length}`);
-
-    // Transform the response to match our app's expected format
-    const transformedData = {
-      place_id: placeData.id,
-      name: placeData.displayName?.text,
-      formatted_address: placeData.formattedAddress,
-      location: placeData.location ? {
-        lat: placeData.location.latitude,
-        lng: placeData.location.longitude,
-      } : null,
-      rating: placeData.rating,
-      user_ratings_total: placeData.userRatingCount,
-      website: placeData.websiteUri,
-      formatted_phone_number: placeData.nationalPhoneNumber,
-      google_maps_url: placeData.googleMapsUri,
-      opening_hours: placeData.currentOpeningHours ? {
-        open_now: placeData.currentOpeningHours.openNow,
-        weekday_text: placeData.currentOpeningHours.weekdayDescriptions || [],
-      } : null,
-      // Transform reviews (Google returns max 5 most relevant reviews)
-      reviews: placeData.reviews?.map((review: any) => ({
-        author_name: review.authorAttribution?.displayName || 'Anonymous',
-        author_url: review.authorAttribution?.uri,
-        profile_photo_url: review.authorAttribution?.photoUri,
-        rating: review.rating || 0,
-        relative_time_description: review.relativePublishTimeDescription || '',
-        text: review.text?.text || review.originalText?.text || '',
-        time: new Date(review.publishTime).getTime() / 1000, // Convert to Unix timestamp
-      })) || [],
-      // All available photos at high resolution
-      photos: allPhotos,
-    };
+  const googleMapsApiKey = Deno.env.get('GOOGLE_MAPS_API_KEY');
+  if (!googleMapsApiKey) {
+    return c.json({ error: 'Google Maps API key not configured' }, 500);
+  }
 
-    return c.json(transformedData);
+  try {
+    const supabase = getSupabaseAdmin();
+    const usage = { route: 'GET /photos/:ref', userId: await getOptionalUserId(c) };
+    const { body, contentType, cache } = await getPhoto(supabase, googleMapsApiKey, name, parsePhotoWidth(c.req.query('maxWidthPx')), usage);
+
+    // A reference always resolves to the same image, so browsers can keep it
+    return c.body(body, 200, {
+      'Content-Type': contentType,
+      'Cache-Control': 'public, max-age=604800, immutable',
+      'X-Cache': cache,
+    });
   } catch (error: any) {
-    console.error('❌ Error fetching place details:', error);
-    return c.json({ error: error.message || 'Internal server error' }, 500);
+    console.error('❌ Error in GET /photos/:ref:', error);
+    if (error.status === 503) {
+      return googleBudgetResponse(c, error);
+    }
+    return c.json({ error: error.message || 'Failed to fetch photo' }, error.status === 404 ? 404 : 502);
   }
 });
 
 // Get all locations (public - no auth required)
+// Filters: bounds, minScore, maxScore, tags[] (+ tagsMode=all|any), michelinStars, greenStar,
+// cuisine, city, country, updatedSince. Passing sort (e.g. "-score") or cursor switches to
+// cursor pagination and adds nextCursor / hasMore to the response.
 app.get('/make-server-48182530/locations', async (c) => {
   console.log('📍 GET /locations - Start');
   try {
     const supabase = getSupabaseAdmin();
     
     // Get query parameters for filtering
-    const bounds = c.req.query('bounds'); // Optional: "minLat,minLng,maxLat,maxLng"
-    const limit = parseInt(c.req.query('limit') || '1000');
+    // Optional: "minLat,minLng,maxLat,maxLng" - minLng > maxLng crosses the antimeridian
+    const bounds = parseBounds(c.req.query('bounds'));
+    const filters = parseLocationFilters(c);
+    if (typeof filters === 'string') {
+      return c.json({ error: filters }, 400);
+    }
     
-    let query = supabase
-      .from('locations')
-      .select('*');
+    // Cursor pagination kicks in when a sort or cursor is given
+    const cursorParam = c.req.query('cursor');
+    const sortParam = c.req.query('sort');
+    const paginated = !!(cursorParam || sortParam);
+    const sort = parseSort(sortParam);
+    if (!sort) {
+      return c.json({ error: `sort must be one of ${Object.keys(SORT_FIELDS).join(', ')} (prefix "-" for descending)` }, 400);
+    }
+    const cursor = decodeCursor(cursorParam);
+    if (cursorParam && !cursor) {
+      return c.json({ error: 'Invalid cursor' }, 400);
+    }
+    
+    const limit = paginated
+      ? Math.min(parseInt(c.req.query('limit') || String(DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE)
+      : parseInt(c.req.query('limit') || '1000');
+    
+    let locations: LocationRow[] | null = null;
+    let error: any = null;
+    let nextCursor: string | null = null;
     
-    // If bounds provided, filter by geographic bounds for map viewport
-    if (bounds) {
-      const [minLat, minLng, maxLat, maxLng] = bounds.split(',').map(Number);
-      if (!isNaN(minLat) && !isNaN(minLng) && !isNaN(maxLat) && !isNaN(maxLng)) {
+    if (bounds && !paginated) {
+      // Filter by geographic bounds for map viewport (spatial index, nearest-to-center first when capped)
+      console.log(`📍 Filtering by bounds: lat[${bounds.south},${bounds.north}] lng[${bounds.west},${bounds.east}]`);
+      try {
+        locations = await queryBoundingBox<LocationRow>(supabase, 'locations', bounds, {
+          limit,
+          filter: (query) => {
+            const orGroups: string[] = [];
+            return applyOrGroups(applyLocationFilters(query, filters, orGroups), orGroups);
+          },
+        });
+      } catch (e) {
+        error = e;
+      }
+    } else {
+      const orGroups: string[] = [];
+      let query: any = applyLocationFilters(supabase.from('locations').select('*'), filters, orGroups);
+      if (bounds) {
+        query = applyBoundsFilter(query, 'locations', bounds, orGroups);
+      }
+      
+      if (paginated) {
+        if (cursor) orGroups.push(cursorOrGroup(sort, cursor));
+        // id breaks ties so the order is stable across pages
         query = query
-          .gte('lat', minLat)
-          .lte('lat', maxLat)
-          .gte('lng', minLng)
-          .lte('lng', maxLng);
-        console.log(`📍 Filtering by bounds: lat[${minLat},${maxLat}] lng[${minLng},${maxLng}]`);
+          .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+          .order('id', { ascending: true });
+      }
+      query = applyOrGroups(query, orGroups);
+      
+      // Fetch one extra row to know whether another page exists
+      const result = await trackDatabaseOperation(
+        'SELECT',
+        'locations',
+        () => query.limit(paginated ? limit + 1 : limit)
+      );
+      locations = result.data;
+      error = result.error;
+      
+      if (paginated && locations && locations.length > limit) {
+        locations = locations.slice(0, limit);
+        nextCursor = nextCursorFor(locations[locations.length - 1], sort);
       }
     }
-    
-    // Fetch locations with limit
-    const { data: locations, error } = await trackDatabaseOperation(
-      'SELECT',
-      'locations',
-      () => query.limit(limit)
-    );
 
     if (error) {
       console.error('❌ Error fetching locations:', error);
@@ -294,106 +804,201 @@ app.get('/make-server-48182530/locations', async (c) => {
     // Extract location IDs for efficient counting
     const locationIds = locations?.map(loc => loc.id) || [];
     
-    // Initialize count maps
-    const favCountMap = new Map<string, number>();
-    const wtgCountMap = new Map<string, number>();
-    
-    // Only query counts if we have locations (avoid Bad Request from empty .in() query)
-    if (locationIds.length > 0) {
-      console.log('📊 Querying counts for', locationIds.length, 'locations');
-      
-      // Optimize: Only query favorites/want-to-go for the locations we're returning
-      try {
-        const favResult = await supabase
-          .from('favorites')
-          .select('location_id')
-          .in('location_id', locationIds);
-        
-        console.log('📊 Favorites query:', { hasError: !!favResult.error, count: favResult.data?.length });
-        
-        if (favResult.error) {
-          // Silently skip if table doesn't exist - run /CREATE_MISSING_TABLES.sql to fix
-          console.log('⚠️ Favorites table not accessible - counts will be 0');
-        } else if (favResult.data) {
-          // Create a map of location_id to favorites count
-          favResult.data.forEach(fav => {
-            const count = favCountMap.get(fav.location_id) || 0;
-            favCountMap.set(fav.location_id, count + 1);
-          });
-        }
-      } catch (e) {
-        // Silently skip exceptions
-      }
-      
-      // Optimize: Only query want-to-go for the locations we're returning
-      try {
-        const wtgResult = await supabase
-          .from('want_to_go')
-          .select('location_id')
-          .in('location_id', locationIds);
-        
-        console.log('📊 Want-to-go query:', { hasError: !!wtgResult.error, count: wtgResult.data?.length });
-        
-        if (wtgResult.error) {
-          // Silently skip if table doesn't exist - run /CREATE_MISSING_TABLES.sql to fix
-          console.log('⚠️ Want-to-go table not accessible - counts will be 0');
-        } else if (wtgResult.data) {
-          // Create a map of location_id to want-to-go count
-          wtgResult.data.forEach(wtg => {
-            const count = wtgCountMap.get(wtg.location_id) || 0;
-            wtgCountMap.set(wtg.location_id, count + 1);
-          });
-        }
-      } catch (e) {
-        // Silently skip exceptions
-      }
-    }
-    
-    console.log('📊 Favorites count map entries:', favCountMap.size);
-    console.log('📊 Want-to-go count map entries:', wtgCountMap.size);
+    const { favCountMap, wtgCountMap } = await getEngagementCounts(supabase, locationIds);
     
     // Convert database format to API format using helper
     const formattedLocations = locations?.map(loc => 
       formatLocationForAPI(loc as LocationRow, favCountMap.get(loc.id), wtgCountMap.get(loc.id))
     ) || [];
     
-    return c.json({ locations: formattedLocations });
+    return c.json(paginated
+      ? { locations: formattedLocations, nextCursor, hasMore: nextCursor !== null }
+      : { locations: formattedLocations });
   } catch (error) {
     console.error('❌ Error in GET /locations:', error);
     return c.json({ error: 'Failed to fetch locations' }, 500);
   }
 });
 
-// Get locations by tag (public - no auth required)
-app.get('/make-server-48182530/locations/tag/:tag', async (c) => {
-  console.log('📍 GET /locations/tag/:tag - Start');
-  const tag = c.req.param('tag');
-  console.log('Searching for tag:', tag);
+// Get locations near a point - radius and/or k-nearest (public - no auth required)
+app.get('/make-server-48182530/locations/nearby', async (c) => {
+  console.log('📍 GET /locations/nearby - Start');
+  const params = parseNearbyQuery(c);
+  if (typeof params === 'string') {
+    return c.json({ error: params }, 400);
+  }
   
   try {
     const supabase = getSupabaseAdmin();
-    // Use PostgreSQL array contains operator
-    const { data: locations, error } = await supabase
-      .from('locations')
-      .select('*')
-      .contains('tags', [tag])
-      .order('created_at', { ascending: false });
+    const locations = await queryNearby<LocationRow>(supabase, 'locations', params);
+    
+    console.log(`✅ Found ${locations.length} locations near (${params.lat}, ${params.lng})`);
+    
+    return c.json({
+      locations: locations.map(loc => ({
+        ...formatLocationForAPI(loc),
+        distanceKm: Math.round(loc.distanceKm * 1000) / 1000,
+      })),
+    });
+  } catch (error) {
+    console.error('❌ Error in GET /locations/nearby:', error);
+    return c.json({ error: 'Failed to fetch nearby locations' }, 500);
+  }
+});
 
-    if (error) {
-      console.error('❌ Error fetching locations by tag:', error);
-      return c.json({ error: 'Failed to fetch locations by tag' }, 500);
+// Get map clusters for a viewport (public - no auth required)
+// ?bounds=minLat,minLng,maxLat,maxLng&zoom=<map zoom>&layers=lv,michelin
+app.get('/make-server-48182530/clusters', async (c) => {
+  console.log('📍 GET /clusters - Start');
+  const bounds = parseBounds(c.req.query('bounds'));
+  const zoom = parseFloat(c.req.query('zoom') ?? '');
+  const layers = (c.req.query('layers') || 'lv,michelin')
+    .split(',')
+    .filter((layer): layer is ClusterLayer => layer === 'lv' || layer === 'michelin');
+  // Permanently closed and moved places are left out unless asked for
+  const includeClosed = c.req.query('includeClosed') === 'true';
+  
+  if (!bounds) {
+    return c.json({ error: 'bounds (minLat,minLng,maxLat,maxLng) is required' }, 400);
+  }
+  if (isNaN(zoom) || zoom < 0 || zoom > 22) {
+    return c.json({ error: 'zoom must be between 0 and 22' }, 400);
+  }
+  
+  try {
+    const supabase = getSupabaseAdmin();
+    
+    // No limit - every location in view must be counted, so the box is paged
+    // through; the layer prefilter keeps unrated places out of those pages
+    const layerGroups = [
+      ...(layers.includes('lv') ? ['lv_editor_score.not.is.null', 'lv_avg_user_score.not.is.null'] : []),
+      ...(layers.includes('michelin') ? ['michelin_stars.gt.0', 'michelin_distinction.not.is.null'] : []),
+    ];
+    if (layerGroups.length === 0) {
+      return c.json({ clusters: [], zoom, total: 0 });
     }
+    const rows = await queryBoundingBox<ClusterPointRow>(supabase, 'locations', bounds, {
+      select: CLUSTER_SELECT,
+      filter: query => {
+        query = query.or(layerGroups.join(','));
+        return includeClosed ? query : query.not('status', 'in', `(${CLOSED_STATUSES.join(',')})`);
+      },
+    });
+    const clusters = buildClusters(filterByLayers(rows, layers), zoom);
     
-    console.log('📍 GET /locations/tag - Found locations:', locations?.length || 0);
+    console.log(`✅ Built ${clusters.length} clusters from ${rows.length} locations at zoom ${zoom}`);
     
-    // Extract location IDs for efficient counting
-    const locationIds = locations?.map(loc => loc.id) || [];
+    return c.json({ clusters, zoom, total: clusters.reduce((sum, cl) => sum + cl.count, 0) });
+  } catch (error) {
+    console.error('❌ Error in GET /clusters:', error);
+    return c.json({ error: 'Failed to build clusters' }, 500);
+  }
+});
+
+// Get locations changed since a sync token (public - no auth required)
+// ?since=<syncToken from the previous response> - omit for a full snapshot
+// Pages with ?cursor= while hasMore; keep the syncToken from the first page
+app.get('/make-server-48182530/locations/changes', async (c) => {
+  console.log('📍 GET /locations/changes - Start');
+  const requestStartedAt = Date.now();
+  const sinceParam = c.req.query('since');
+  const cursorParam = c.req.query('cursor');
+  const limit = Math.min(parseInt(c.req.query('limit') || '500'), MAX_PAGE_SIZE);
+  
+  if (sinceParam && isNaN(Date.parse(sinceParam))) {
+    return c.json({ error: 'since must be an ISO timestamp' }, 400);
+  }
+  
+  const cursor = decodeCursor(cursorParam);
+  if (cursorParam && !cursor) {
+    return c.json({ error: 'Invalid cursor' }, 400);
+  }
+  
+  try {
+    const supabase = getSupabaseAdmin();
     
-    // Initialize count maps
-    const favCountMap = new Map<string, number>();
-    const wtgCountMap = new Map<string, number>();
+    // Too old to know what was deleted in between - send everything
+    const full = !sinceParam || isSyncTokenExpired(sinceParam);
+    const since = full ? null : new Date(sinceParam!).toISOString();
+    const sort = parseSort('updatedAt')!;
     
-    // Only query counts if we have locations
+    let query: any = supabase.from('locations').select('*');
+    if (since) query = query.gte('updated_at', since);
+    if (cursor) query = query.or(cursorOrGroup(sort, cursor));
+    query = query
+      .order('updated_at', { ascending: true, nullsFirst: false })
+      .order('id', { ascending: true })
+      .limit(limit + 1);
+    
+    const { data: rows, error } = await trackDatabaseOperation('SELECT', 'locations', () => query);
+    
+    if (error) {
+      console.error('❌ Error fetching location changes:', error);
+      return c.json({ error: 'Failed to fetch location changes' }, 500);
+    }
+    
+    let upserts = (rows || []) as LocationRow[];
+    let nextCursor: string | null = null;
+    if (upserts.length > limit) {
+      upserts = upserts.slice(0, limit);
+      nextCursor = nextCursorFor(upserts[upserts.length - 1], sort);
+    }
+    
+    // Tombstones only matter for incremental syncs, and only once per sync (first page)
+    const deleted = since && !cursor ? await getTombstones(supabase, since) : [];
+    
+    const { favCountMap, wtgCountMap } = await getEngagementCounts(supabase, upserts.map(loc => loc.id));
+    
+    if (full && !cursor) {
+      await purgeExpiredTombstones(supabase);
+    }
+    
+    console.log(`✅ Location changes${since ? ` since ${since}` : ' (full)'}: ${upserts.length} upserts, ${deleted.length} deleted${nextCursor ? ' (more pages)' : ''}`);
+    
+    return c.json({
+      full,
+      upserts: upserts.map(loc => formatLocationForAPI(loc, favCountMap.get(loc.id), wtgCountMap.get(loc.id))),
+      deleted,
+      syncToken: createSyncToken(requestStartedAt),
+      nextCursor,
+      hasMore: nextCursor !== null,
+    });
+  } catch (error) {
+    console.error('❌ Error in GET /locations/changes:', error);
+    return c.json({ error: 'Failed to fetch location changes' }, 500);
+  }
+});
+
+// Get locations by tag (public - no auth required)
+app.get('/make-server-48182530/locations/tag/:tag', async (c) => {
+  console.log('📍 GET /locations/tag/:tag - Start');
+  const tag = c.req.param('tag');
+  console.log('Searching for tag:', tag);
+  
+  try {
+    const supabase = getSupabaseAdmin();
+    // Use PostgreSQL array contains operator
+    const { data: locations, error } = await supabase
+      .from('locations')
+      .select('*')
+      .contains('tags', [tag])
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Error fetching locations by tag:', error);
+      return c.json({ error: 'Failed to fetch locations by tag' }, 500);
+    }
+    
+    console.log('📍 GET /locations/tag - Found locations:', locations?.length || 0);
+    
+    // Extract location IDs for efficient counting
+    const locationIds = locations?.map(loc => loc.id) || [];
+    
+    // Initialize count maps
+    const favCountMap = new Map<string, number>();
+    const wtgCountMap = new Map<string, number>();
+    
+    // Only query counts if we have locations
     if (locationIds.length > 0) {
       try {
         // Get favorites count for each location
@@ -540,6 +1145,7 @@ app.get('/make-server-48182530/user', async (c) => {
           id: userId,
           email: userEmail,
           role: 'user',
+          permissions: getEffectivePermissions('user'),
           name: userEmail?.split('@')[0] || 'User',
         }
       });
@@ -550,6 +1156,7 @@ app.get('/make-server-48182530/user', async (c) => {
       id: userData.user_id,
       email: userData.email,
       role: userData.role,
+      permissions: getEffectivePermissions(userData.role),
       name: userData.name,
       createdAt: userData.created_at,
       updatedAt: userData.updated_at,
@@ -564,7 +1171,7 @@ app.get('/make-server-48182530/user', async (c) => {
 });
 
 // Update user profile
-app.put('/make-server-48182530/user', verifyAuth, async (c) => {
+app.put('/make-server-48182530/user', verifyAuth, requirePermission('profile:write'), async (c) => {
   console.log('📍 PUT /user - Start');
   const userId = c.get('userId');
   const updates = await c.req.json();
@@ -613,9 +1220,12 @@ app.put('/make-server-48182530/user', verifyAuth, async (c) => {
 // FAVORITES ROUTES
 // ============================================
 
+const MAX_CITY_STATS_IDS = 5000;
+const CITY_STATS_CHUNK_SIZE = 200;
+
 // Get city favorites stats (public endpoint - aggregate data only)
 // IMPORTANT: This must be BEFORE the parametrized routes to avoid matching "city-stats" as a locationId
-app.post('/make-server-48182530/favorites/city-stats', async (c) => {
+app.post('/make-server-48182530/favorites/city-stats', rateLimit('city-stats'), async (c) => {
   console.log('📊 POST /favorites/city-stats - Start (PUBLIC ENDPOINT - NO AUTH)');
   console.log('📊 Request headers:', JSON.stringify(Object.fromEntries(c.req.raw.headers.entries())));
   
@@ -627,24 +1237,35 @@ app.post('/make-server-48182530/favorites/city-stats', async (c) => {
       console.log('❌ Invalid locationIds array');
       return c.json({ error: 'Invalid locationIds array' }, 400);
     }
+    if (locationIds.length > MAX_CITY_STATS_IDS) {
+      return c.json({ error: `locationIds can hold at most ${MAX_CITY_STATS_IDS} ids` }, 413);
+    }
+    if (!locationIds.every(isUUID)) {
+      return c.json({ error: 'locationIds must be location ids' }, 400);
+    }
 
     // Use getSupabaseAdmin to ensure we're using service role key
     const supabase = getSupabaseAdmin();
     console.log('📊 Using admin client for query');
     
-    // Count total favorites for all locations in this city
-    const { count, error } = await supabase
-      .from('favorites')
-      .select('*', { count: 'exact', head: true })
-      .in('location_id', locationIds);
-
-    if (error) {
-      console.error('❌ Error fetching city favorites:', error);
-      return c.json({ error: 'Failed to fetch city favorites', details: error.message }, 500);
+    // Count total favorites for all locations in this city, a chunk at a
+    // time so the id list stays within URL limits
+    let totalFavorites = 0;
+    for (let i = 0; i < locationIds.length; i += CITY_STATS_CHUNK_SIZE) {
+      const { count, error } = await supabase
+        .from('favorites')
+        .select('*', { count: 'exact', head: true })
+        .in('location_id', locationIds.slice(i, i + CITY_STATS_CHUNK_SIZE));
+
+      if (error) {
+        console.error('❌ Error fetching city favorites:', error);
+        return c.json({ error: 'Failed to fetch city favorites', details: error.message }, 500);
+      }
+      totalFavorites += count || 0;
     }
 
-    console.log('✅ City favorites count:', count);
-    return c.json({ totalFavorites: count || 0 });
+    console.log('✅ City favorites count:', totalFavorites);
+    return c.json({ totalFavorites });
   } catch (error) {
     console.error('❌ Error in POST /favorites/city-stats:', error);
     return c.json({ error: 'Failed to fetch city favorites', details: error.message }, 500);
@@ -746,11 +1367,13 @@ app.get('/make-server-48182530/favorites', verifyAuth, async (c) => {
       wtgCountMap.set(wtg.location_id, count + 1);
     });
     
-    // Extract and format location data using helper
-    const formattedFavorites = favorites?.map(fav => {
-      const loc = fav.locations as any;
-      return formatLocationForAPI(loc as LocationRow, favCountMap.get(loc.id), wtgCountMap.get(loc.id));
-    }) || [];
+    // Closed and moved places stay in the list - the client flags them
+    const formattedFavorites = await formatSavedLocations(
+      supabase,
+      (favorites || []).map(fav => fav.locations as any as LocationRow).filter(Boolean),
+      favCountMap,
+      wtgCountMap
+    );
     
     return c.json({ favorites: formattedFavorites });
   } catch (error) {
@@ -760,7 +1383,7 @@ app.get('/make-server-48182530/favorites', verifyAuth, async (c) => {
 });
 
 // Add a favorite
-app.post('/make-server-48182530/favorites/:locationId', verifyAuth, async (c) => {
+app.post('/make-server-48182530/favorites/:locationId', verifyAuth, requirePermission('lists:write'), async (c) => {
   console.log('📍 POST /favorites/:locationId - Start');
   const userId = c.get('userId');
   const locationId = c.req.param('locationId'); // This can be a place_id or UUID
@@ -876,7 +1499,7 @@ app.post('/make-server-48182530/favorites/:locationId', verifyAuth, async (c) =>
 });
 
 // Remove a favorite
-app.delete('/make-server-48182530/favorites/:locationId', verifyAuth, async (c) => {
+app.delete('/make-server-48182530/favorites/:locationId', verifyAuth, requirePermission('lists:write'), async (c) => {
   console.log('📍 DELETE /favorites/:locationId - Start');
   const userId = c.get('userId');
   const locationId = c.req.param('locationId');
@@ -884,6 +1507,11 @@ app.delete('/make-server-48182530/favorites/:locationId', verifyAuth, async (c)
   try {
     const supabase = getSupabaseAdmin();
     
+    if (await isSavedAfterQueuedRemoval(supabase, 'favorites', userId, locationId, c.req.query('queuedAt'))) {
+      console.log('⚠️ Favorite re-added after queued removal - keeping it:', locationId);
+      return c.json({ error: 'Favorite was added again after this removal', conflict: true }, 409);
+    }
+    
     const { error } = await supabase
       .from('favorites')
       .delete()
@@ -955,11 +1583,13 @@ app.get('/make-server-48182530/want-to-go', verifyAuth, async (c) => {
       wtgCountMap.set(wtg.location_id, count + 1);
     });
     
-    // Extract and format location data using helper
-    const formattedWantToGo = wantToGo?.map(wtg => {
-      const loc = wtg.locations as any;
-      return formatLocationForAPI(loc as LocationRow, favCountMap.get(loc.id), wtgCountMap.get(loc.id));
-    }) || [];
+    // Closed and moved places stay in the list - the client flags them
+    const formattedWantToGo = await formatSavedLocations(
+      supabase,
+      (wantToGo || []).map(wtg => wtg.locations as any as LocationRow).filter(Boolean),
+      favCountMap,
+      wtgCountMap
+    );
     
     return c.json({ wantToGo: formattedWantToGo });
   } catch (error) {
@@ -969,7 +1599,7 @@ app.get('/make-server-48182530/want-to-go', verifyAuth, async (c) => {
 });
 
 // Add to want to go list
-app.post('/make-server-48182530/want-to-go/:locationId', verifyAuth, async (c) => {
+app.post('/make-server-48182530/want-to-go/:locationId', verifyAuth, requirePermission('lists:write'), async (c) => {
   console.log('📍 POST /want-to-go/:locationId - Start');
   const userId = c.get('userId');
   const locationId = c.req.param('locationId'); // This can be a place_id or UUID
@@ -1085,7 +1715,7 @@ app.post('/make-server-48182530/want-to-go/:locationId', verifyAuth, async (c) =
 });
 
 // Remove from want to go list
-app.delete('/make-server-48182530/want-to-go/:locationId', verifyAuth, async (c) => {
+app.delete('/make-server-48182530/want-to-go/:locationId', verifyAuth, requirePermission('lists:write'), async (c) => {
   console.log('📍 DELETE /want-to-go/:locationId - Start');
   const userId = c.get('userId');
   const locationId = c.req.param('locationId');
@@ -1116,6 +1746,11 @@ app.delete('/make-server-48182530/want-to-go/:locationId', verifyAuth, async (c)
       console.log('✅ Found location_id:', dbLocationId);
     }
     
+    if (await isSavedAfterQueuedRemoval(supabase, 'want_to_go', userId, dbLocationId, c.req.query('queuedAt'))) {
+      console.log('⚠️ Want to go re-added after queued removal - keeping it:', dbLocationId);
+      return c.json({ error: 'Want to go was added again after this removal', conflict: true }, 409);
+    }
+    
     const { error } = await supabase
       .from('want_to_go')
       .delete()
@@ -1136,186 +1771,1313 @@ app.delete('/make-server-48182530/want-to-go/:locationId', verifyAuth, async (c)
 });
 
 // ============================================
-// EDITOR-ONLY ROUTES
+// CURATED LISTS ROUTES
 // ============================================
 
-// Create a new location (editors only)
-app.post('/make-server-48182530/locations', verifyAuth, verifyEditor, async (c) => {
-  console.log('📍 POST /locations - Start');
+// Load a list the current user owns (null when missing or not theirs)
+async function getOwnedList(supabase: any, listId: string, userId: string): Promise<ListRow | null> {
+  if (!isUUID(listId)) return null;
+
+  const { data, error } = await supabase
+    .from('lists')
+    .select('*')
+    .eq('id', listId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data || data.owner_user_id !== userId) return null;
+  return data as ListRow;
+}
+
+// Bump a list's updated_at after its entries change
+async function touchList(supabase: any, listId: string) {
+  await supabase
+    .from('lists')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', listId);
+}
+
+// Get the current user's lists (with entry counts)
+app.get('/make-server-48182530/lists', verifyAuth, async (c) => {
+  console.log('📍 GET /lists - Start');
   const userId = c.get('userId');
-  const location = await c.req.json();
 
-  if (!location.name || location.lat === undefined || location.lng === undefined) {
-    return c.json({ error: 'name, lat, and lng are required' }, 400);
+  try {
+    const supabase = getSupabaseAdmin();
+    const { data: lists, error } = await supabase
+      .from('lists')
+      .select('*, list_entries(count)')
+      .eq('owner_user_id', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Error fetching lists:', error);
+      return c.json({ error: 'Failed to fetch lists' }, 500);
+    }
+
+    return c.json({
+      lists: (lists || []).map((list: any) => ({
+        ...formatListForAPI(list),
+        entryCount: list.list_entries?.[0]?.count ?? 0,
+      })),
+    });
+  } catch (error) {
+    console.error('❌ Error in GET /lists:', error);
+    return c.json({ error: 'Failed to fetch lists' }, 500);
   }
+});
+
+// Browse public lists (newest first)
+app.get('/make-server-48182530/lists/public', async (c) => {
+  console.log('📍 GET /lists/public - Start');
+  const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '50') || 50, 1), 200);
 
   try {
     const supabase = getSupabaseAdmin();
-    
-    // Convert API format to database format using helper
-    const dbLocation = formatLocationForDB(location);
-    dbLocation.created_by_user_id = userId;
-    dbLocation.updated_by_user_id = userId;
-    
-    const { data: newLocation, error } = await supabase
-      .from('locations')
-      .insert(dbLocation)
+    const { data: lists, error } = await supabase
+      .from('lists')
+      .select('*, list_entries(count)')
+      .eq('visibility', 'public')
+      .order('updated_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('❌ Error fetching public lists:', error);
+      return c.json({ error: 'Failed to fetch lists' }, 500);
+    }
+
+    const ownerIds = [...new Set((lists || []).map((list: any) => list.owner_user_id))];
+    const { data: owners } = ownerIds.length > 0
+      ? await supabase.from('user_metadata').select('user_id, name').in('user_id', ownerIds)
+      : { data: [] };
+    const ownerNames = new Map((owners || []).map((o: any) => [o.user_id, o.name]));
+
+    return c.json({
+      lists: (lists || []).map((list: any) => ({
+        ...formatListForAPI(list, undefined, ownerNames.get(list.owner_user_id)),
+        entryCount: list.list_entries?.[0]?.count ?? 0,
+      })),
+    });
+  } catch (error) {
+    console.error('❌ Error in GET /lists/public:', error);
+    return c.json({ error: 'Failed to fetch lists' }, 500);
+  }
+});
+
+// Get a list with its entries by slug (public/unlisted for anyone, private for the owner)
+app.get('/make-server-48182530/lists/:slug', async (c) => {
+  console.log('📍 GET /lists/:slug - Start');
+  const slug = c.req.param('slug');
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const { data: list, error } = await supabase
+      .from('lists')
+      .select('*')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error fetching list:', error);
+      return c.json({ error: 'Failed to fetch list' }, 500);
+    }
+
+    // Private lists look like missing ones to everybody but the owner
+    const userId = list?.visibility === 'private' ? await getOptionalUserId(c) : null;
+    if (!list || !canViewList(list as ListRow, userId)) {
+      return c.json({ error: 'List not found' }, 404);
+    }
+
+    const { data: entries, error: entriesError } = await supabase
+      .from('list_entries')
+      .select('*, locations (*)')
+      .eq('list_id', list.id)
+      .order('position', { ascending: true });
+
+    if (entriesError) {
+      console.error('❌ Error fetching list entries:', entriesError);
+      return c.json({ error: 'Failed to fetch list' }, 500);
+    }
+
+    const { data: owner } = await supabase
+      .from('user_metadata')
+      .select('name')
+      .eq('user_id', list.owner_user_id)
+      .maybeSingle();
+
+    return c.json({ list: formatListForAPI(list as ListRow, (entries || []) as ListEntryRow[], owner?.name) });
+  } catch (error) {
+    console.error('❌ Error in GET /lists/:slug:', error);
+    return c.json({ error: 'Failed to fetch list' }, 500);
+  }
+});
+
+// Create a list
+app.post('/make-server-48182530/lists', verifyAuth, requirePermission('lists:write'), async (c) => {
+  console.log('📍 POST /lists - Start');
+  const userId = c.get('userId');
+  const input = parseListInput(await c.req.json(), true);
+
+  if (typeof input === 'string') {
+    return c.json({ error: input }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const slug = await generateListSlug(supabase, input.title!);
+
+    const { data: list, error } = await supabase
+      .from('lists')
+      .insert({
+        owner_user_id: userId,
+        slug,
+        title: input.title,
+        description: input.description ?? null,
+        visibility: input.visibility ?? 'private',
+      })
       .select()
       .single();
 
     if (error) {
-      console.error('❌ Error creating location:', error);
-      return c.json({ error: 'Failed to create location' }, 500);
+      console.error('❌ Error creating list:', error);
+      return c.json({ error: 'Failed to create list' }, 500);
     }
 
-    console.log('✅ Location created:', newLocation.id);
-    
-    // Convert database format to API format using helper
-    return c.json(formatLocationForAPI(newLocation as LocationRow));
+    console.log('✅ List created:', list.slug);
+    return c.json({ list: formatListForAPI(list as ListRow, []) }, 201);
   } catch (error) {
-    console.error('❌ Error in POST /locations:', error);
-    return c.json({ error: 'Failed to create location' }, 500);
+    console.error('❌ Error in POST /lists:', error);
+    return c.json({ error: 'Failed to create list' }, 500);
   }
 });
 
-// Update a location (editors only)
-app.put('/make-server-48182530/locations/:id', verifyAuth, verifyEditor, async (c) => {
-  console.log('📍 PUT /locations/:id - Start');
+// Update a list's title, description or visibility (owner only)
+app.put('/make-server-48182530/lists/:id', verifyAuth, requirePermission('lists:write'), async (c) => {
+  console.log('📍 PUT /lists/:id - Start');
   const userId = c.get('userId');
-  const locationId = c.req.param('id');
-  const updates = await c.req.json();
+  const listId = c.req.param('id');
+  const input = parseListInput(await c.req.json(), false);
+
+  if (typeof input === 'string') {
+    return c.json({ error: input }, 400);
+  }
 
   try {
     const supabase = getSupabaseAdmin();
-    
-    // Convert API format to database format using helper
-    const dbUpdates = formatLocationForDB(updates);
-    dbUpdates.updated_by_user_id = userId;
-    dbUpdates.updated_at = new Date().toISOString();
-    
-    const { data: updatedLocation, error } = await supabase
-      .from('locations')
-      .update(dbUpdates)
-      .eq('id', locationId)
+    if (!await getOwnedList(supabase, listId, userId)) {
+      return c.json({ error: 'List not found' }, 404);
+    }
+
+    const { data: list, error } = await supabase
+      .from('lists')
+      .update({ ...input, updated_at: new Date().toISOString() })
+      .eq('id', listId)
       .select()
       .single();
 
     if (error) {
-      console.error('❌ Error updating location:', error);
-      return c.json({ error: 'Failed to update location' }, 500);
+      console.error('❌ Error updating list:', error);
+      return c.json({ error: 'Failed to update list' }, 500);
     }
 
-    console.log('✅ Location updated:', locationId);
-    
-    // Convert database format to API format using helper
-    return c.json(formatLocationForAPI(updatedLocation as LocationRow));
+    return c.json({ list: formatListForAPI(list as ListRow) });
   } catch (error) {
-    console.error('❌ Error in PUT /locations:', error);
-    return c.json({ error: 'Failed to update location' }, 500);
+    console.error('❌ Error in PUT /lists/:id:', error);
+    return c.json({ error: 'Failed to update list' }, 500);
   }
 });
 
-// Delete a location (editors only)
-app.delete('/make-server-48182530/locations/:id', verifyAuth, verifyEditor, async (c) => {
-  console.log('📍 DELETE /locations/:id - Start');
-  const locationId = c.req.param('id');
+// Delete a list and its entries (owner only)
+app.delete('/make-server-48182530/lists/:id', verifyAuth, requirePermission('lists:write'), async (c) => {
+  console.log('📍 DELETE /lists/:id - Start');
+  const userId = c.get('userId');
+  const listId = c.req.param('id');
 
   try {
     const supabase = getSupabaseAdmin();
-    
-    // Foreign keys will cascade delete favorites/want_to_go
+    if (!await getOwnedList(supabase, listId, userId)) {
+      return c.json({ error: 'List not found' }, 404);
+    }
+
     const { error } = await supabase
-      .from('locations')
+      .from('lists')
       .delete()
-      .eq('id', locationId);
+      .eq('id', listId);
 
     if (error) {
-      console.error('❌ Error deleting location:', error);
-      return c.json({ error: 'Failed to delete location' }, 500);
+      console.error('❌ Error deleting list:', error);
+      return c.json({ error: 'Failed to delete list' }, 500);
     }
 
-    console.log('✅ Location deleted:', locationId);
     return c.json({ success: true });
   } catch (error) {
-    console.error('❌ Error in DELETE /locations:', error);
-    return c.json({ error: 'Failed to delete location' }, 500);
+    console.error('❌ Error in DELETE /lists/:id:', error);
+    return c.json({ error: 'Failed to delete list' }, 500);
   }
 });
 
-// Update location rating and tags (editors only)
-app.put('/make-server-48182530/locations/:id/rating', verifyAuth, verifyEditor, async (c) => {
-  console.log('📍 PUT /locations/:id/rating - Start');
+// Add a location to the end of a list
+app.post('/make-server-48182530/lists/:id/entries', verifyAuth, requirePermission('lists:write'), async (c) => {
+  console.log('📍 POST /lists/:id/entries - Start');
   const userId = c.get('userId');
-  const locationId = c.req.param('id');
-  const { lvEditorsScore, michelinScore, tags, placeData, michelinId } = await c.req.json();
-  
-  console.log('📍 Received michelinId:', michelinId, 'Type:', typeof michelinId);
+  const listId = c.req.param('id');
+  const { locationId, note } = await c.req.json();
 
-  if (lvEditorsScore !== undefined && (lvEditorsScore < 0 || lvEditorsScore > 11)) {
-    return c.json({ error: 'lvEditorsScore must be between 0.0 and 11.0' }, 400);
+  const parsedNote = parseEntryNote(note);
+  if (!locationId) {
+    return c.json({ error: 'locationId is required' }, 400);
   }
-
-  if (michelinScore !== undefined && (michelinScore < 0 || michelinScore > 11)) {
-    return c.json({ error: 'michelinScore must be between 0.0 and 11.0' }, 400);
+  if (parsedNote && typeof parsedNote === 'object') {
+    return c.json({ error: parsedNote.error }, 400);
   }
-  
-  // Convert michelinId to number if it's a string
-  const normalizedMichelinId = michelinId ? (typeof michelinId === 'string' ? parseInt(michelinId, 10) : michelinId) : null;
-  console.log('📍 Normalized michelinId:', normalizedMichelinId, 'Type:', typeof normalizedMichelinId);
 
   try {
     const supabase = getSupabaseAdmin();
-    
-    // Check if locationId is a UUID or a Google Place ID
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-    const isUUID = uuidRegex.test(locationId);
-    
-    let query = supabase.from('locations').select('*');
-    
-    if (isUUID) {
-      // It's a UUID, query by id
-      query = query.eq('id', locationId);
-    } else {
-      // It's a Google Place ID, query by google_place_id
-      query = query.eq('google_place_id', locationId);
+    if (!await getOwnedList(supabase, listId, userId)) {
+      return c.json({ error: 'List not found' }, 404);
     }
-    
-    const { data: existingLocation, error: fetchError } = await query.maybeSingle();
-    
-    // If location doesn't exist, create it automatically (only for Google Place IDs, not UUIDs)
-    if (fetchError || !existingLocation) {
-      // If it's a UUID and we can't find it, that's an error
-      if (isUUID) {
-        console.error('❌ Location with UUID not found:', locationId);
-        return c.json({ error: 'Location not found' }, 404);
-      }
-      
-      console.log('📍 Location not found, creating new location:', locationId);
-      
-      // Validate that we have the necessary place data to create the location
-      if (!placeData || !placeData.name || !placeData.lat || !placeData.lng) {
-        console.error('❌ Missing place data for creating location:', placeData);
-        return c.json({ 
-          error: 'Location not found and insufficient data provided to create it. Please provide placeData with name, lat, and lng.' 
-        }, 400);
+
+    // Accepts a location UUID or the Google Place ID of a saved location
+    const location = await findLocationByIdOrPlaceId(supabase, locationId);
+    if (!location) {
+      return c.json({ error: 'Location not found - save the place before adding it to a list' }, 404);
+    }
+
+    const { data: entry, error } = await supabase
+      .from('list_entries')
+      .insert({
+        list_id: listId,
+        location_id: location.id,
+        note: parsedNote,
+        position: await getNextEntryPosition(supabase, listId),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return c.json({ error: 'Location is already in this list' }, 409);
       }
-      
-      // Create the location
-      const newLocation = {
-        google_place_id: locationId,
-        name: placeData.name,
-        address: placeData.formatted_address || null,
-        lat: placeData.lat,
-        lng: placeData.lng,
-        google_rating: placeData.rating || null,
-        lv_editor_score: lvEditorsScore,
-        tags: tags || [],
-        michelin_id: normalizedMichelinId,
-        created_by_user_id: userId,
-        updated_by_user_id: userId,
-      };
-      
-      console.log('📍 Attempting to create location with data:', newLocation);
+      console.error('❌ Error adding list entry:', error);
+      return c.json({ error: 'Failed to add to list' }, 500);
+    }
+
+    await touchList(supabase, listId);
+
+    return c.json({ entry: formatListEntryForAPI({ ...entry, locations: location }) }, 201);
+  } catch (error) {
+    console.error('❌ Error in POST /lists/:id/entries:', error);
+    return c.json({ error: 'Failed to add to list' }, 500);
+  }
+});
+
+// Reorder a list's entries ({ entryIds } in the new order)
+app.put('/make-server-48182530/lists/:id/entries/order', verifyAuth, requirePermission('lists:write'), async (c) => {
+  console.log('📍 PUT /lists/:id/entries/order - Start');
+  const userId = c.get('userId');
+  const listId = c.req.param('id');
+  const { entryIds } = await c.req.json();
+
+  if (!Array.isArray(entryIds) || entryIds.some((id: unknown) => typeof id !== 'string')) {
+    return c.json({ error: 'entryIds must be an array of entry IDs' }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    if (!await getOwnedList(supabase, listId, userId)) {
+      return c.json({ error: 'List not found' }, 404);
+    }
+
+    await reorderListEntries(supabase, listId, entryIds);
+    await touchList(supabase, listId);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error in PUT /lists/:id/entries/order:', error);
+    return c.json({ error: 'Failed to reorder list' }, 500);
+  }
+});
+
+// Update an entry's note
+app.put('/make-server-48182530/lists/:id/entries/:entryId', verifyAuth, requirePermission('lists:write'), async (c) => {
+  console.log('📍 PUT /lists/:id/entries/:entryId - Start');
+  const userId = c.get('userId');
+  const listId = c.req.param('id');
+  const entryId = c.req.param('entryId');
+  const { note } = await c.req.json();
+
+  const parsedNote = parseEntryNote(note);
+  if (parsedNote && typeof parsedNote === 'object') {
+    return c.json({ error: parsedNote.error }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    if (!await getOwnedList(supabase, listId, userId)) {
+      return c.json({ error: 'List not found' }, 404);
+    }
+
+    const { data: entry, error } = await supabase
+      .from('list_entries')
+      .update({ note: parsedNote })
+      .eq('id', entryId)
+      .eq('list_id', listId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error updating list entry:', error);
+      return c.json({ error: 'Failed to update entry' }, 500);
+    }
+    if (!entry) {
+      return c.json({ error: 'Entry not found' }, 404);
+    }
+
+    await touchList(supabase, listId);
+    return c.json({ success: true, note: entry.note });
+  } catch (error) {
+    console.error('❌ Error in PUT /lists/:id/entries/:entryId:', error);
+    return c.json({ error: 'Failed to update entry' }, 500);
+  }
+});
+
+// Remove an entry from a list
+app.delete('/make-server-48182530/lists/:id/entries/:entryId', verifyAuth, requirePermission('lists:write'), async (c) => {
+  console.log('📍 DELETE /lists/:id/entries/:entryId - Start');
+  const userId = c.get('userId');
+  const listId = c.req.param('id');
+  const entryId = c.req.param('entryId');
+
+  try {
+    const supabase = getSupabaseAdmin();
+    if (!await getOwnedList(supabase, listId, userId)) {
+      return c.json({ error: 'List not found' }, 404);
+    }
+
+    const { error } = await supabase
+      .from('list_entries')
+      .delete()
+      .eq('id', entryId)
+      .eq('list_id', listId);
+
+    if (error) {
+      console.error('❌ Error removing list entry:', error);
+      return c.json({ error: 'Failed to remove entry' }, 500);
+    }
+
+    await touchList(supabase, listId);
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error in DELETE /lists/:id/entries/:entryId:', error);
+    return c.json({ error: 'Failed to remove entry' }, 500);
+  }
+});
+
+// ============================================
+// CITY GUIDE ROUTES
+// ============================================
+
+// Load a guide and format it with fresh stats
+async function getFormattedGuide(supabase: any, cityId: string) {
+  const loaded = await loadGuide(supabase, cityId);
+  if (!loaded) return null;
+
+  const { guide, sections, entries } = loaded;
+  const stats = await computeGuideStats(supabase, guide, entries.length);
+  return formatGuideForAPI(guide, sections, entries, stats);
+}
+
+// Look up the guide row for editor routes
+async function getGuideRow(supabase: any, cityId: string) {
+  const { data, error } = await supabase
+    .from('city_guides')
+    .select('*')
+    .eq('city_id', cityId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data as GuideRow | null;
+}
+
+// Record who last touched the guide
+async function touchGuide(supabase: any, guideId: string, userId: string) {
+  await supabase
+    .from('city_guides')
+    .update({ updated_at: new Date().toISOString(), updated_by: userId })
+    .eq('id', guideId);
+}
+
+// Get a city guide (published guides are public, drafts need guides:write)
+app.get('/make-server-48182530/guides/:cityId', async (c) => {
+  console.log('📍 GET /guides/:cityId - Start');
+  const cityId = c.req.param('cityId');
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const guide = await trackDatabaseOperation('SELECT', 'city_guides', () => getFormattedGuide(supabase, cityId));
+
+    let canEdit = false;
+    const userId = await getOptionalUserId(c);
+    if (userId) {
+      c.set('userId', userId);
+      canEdit = hasPermission(await getRequestRole(c), 'guides:write');
+    }
+
+    if (!guide || (!guide.published && !canEdit)) {
+      return c.json({ error: 'Guide not found', canEdit }, 404);
+    }
+
+    return c.json({ guide, canEdit });
+  } catch (error) {
+    console.error('❌ Error in GET /guides/:cityId:', error);
+    return c.json({ error: 'Failed to fetch guide' }, 500);
+  }
+});
+
+// Create or update a guide's header (intro, center, radius, published)
+app.put('/make-server-48182530/guides/:cityId', verifyAuth, requirePermission('guides:write'), async (c) => {
+  console.log('📍 PUT /guides/:cityId - Start');
+  const userId = c.get('userId');
+  const cityId = c.req.param('cityId');
+  const body = await c.req.json();
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const existing = await getGuideRow(supabase, cityId);
+
+    const input = parseGuideInput(body, !existing);
+    if (typeof input === 'string') {
+      return c.json({ error: input }, 400);
+    }
+
+    const now = new Date().toISOString();
+    const { error } = existing
+      ? await supabase
+          .from('city_guides')
+          .update({ ...input, updated_at: now, updated_by: userId })
+          .eq('id', existing.id)
+      : await supabase
+          .from('city_guides')
+          .insert({ ...input, city_id: cityId, created_by: userId, updated_by: userId });
+
+    if (error) {
+      console.error('❌ Error saving guide:', error);
+      return c.json({ error: 'Failed to save guide' }, 500);
+    }
+
+    console.log(`✅ Guide ${existing ? 'updated' : 'created'}:`, cityId);
+    return c.json({ guide: await getFormattedGuide(supabase, cityId) }, existing ? 200 : 201);
+  } catch (error) {
+    console.error('❌ Error in PUT /guides/:cityId:', error);
+    return c.json({ error: 'Failed to save guide' }, 500);
+  }
+});
+
+// Delete a guide with its sections and entries
+app.delete('/make-server-48182530/guides/:cityId', verifyAuth, requirePermission('guides:write'), async (c) => {
+  console.log('📍 DELETE /guides/:cityId - Start');
+  const cityId = c.req.param('cityId');
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const { error } = await supabase
+      .from('city_guides')
+      .delete()
+      .eq('city_id', cityId);
+
+    if (error) {
+      console.error('❌ Error deleting guide:', error);
+      return c.json({ error: 'Failed to delete guide' }, 500);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error in DELETE /guides/:cityId:', error);
+    return c.json({ error: 'Failed to delete guide' }, 500);
+  }
+});
+
+// Add a section at the end of a guide
+app.post('/make-server-48182530/guides/:cityId/sections', verifyAuth, requirePermission('guides:write'), async (c) => {
+  console.log('📍 POST /guides/:cityId/sections - Start');
+  const userId = c.get('userId');
+  const cityId = c.req.param('cityId');
+  const input = parseSectionInput(await c.req.json(), true);
+
+  if (typeof input === 'string') {
+    return c.json({ error: input }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const guide = await getGuideRow(supabase, cityId);
+    if (!guide) {
+      return c.json({ error: 'Guide not found' }, 404);
+    }
+
+    const { error } = await supabase
+      .from('city_guide_sections')
+      .insert({
+        ...input,
+        guide_id: guide.id,
+        position: await getNextPosition(supabase, 'city_guide_sections', 'guide_id', guide.id),
+      });
+
+    if (error) {
+      console.error('❌ Error adding guide section:', error);
+      return c.json({ error: 'Failed to add section' }, 500);
+    }
+
+    await touchGuide(supabase, guide.id, userId);
+    return c.json({ guide: await getFormattedGuide(supabase, cityId) }, 201);
+  } catch (error) {
+    console.error('❌ Error in POST /guides/:cityId/sections:', error);
+    return c.json({ error: 'Failed to add section' }, 500);
+  }
+});
+
+// Rename or re-describe a section
+app.put('/make-server-48182530/guides/:cityId/sections/:sectionId', verifyAuth, requirePermission('guides:write'), async (c) => {
+  console.log('📍 PUT /guides/:cityId/sections/:sectionId - Start');
+  const userId = c.get('userId');
+  const cityId = c.req.param('cityId');
+  const sectionId = c.req.param('sectionId');
+  const input = parseSectionInput(await c.req.json(), false);
+
+  if (typeof input === 'string') {
+    return c.json({ error: input }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const guide = await getGuideRow(supabase, cityId);
+    if (!guide) {
+      return c.json({ error: 'Guide not found' }, 404);
+    }
+
+    const { data: section, error } = await supabase
+      .from('city_guide_sections')
+      .update(input)
+      .eq('id', sectionId)
+      .eq('guide_id', guide.id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error updating guide section:', error);
+      return c.json({ error: 'Failed to update section' }, 500);
+    }
+    if (!section) {
+      return c.json({ error: 'Section not found' }, 404);
+    }
+
+    await touchGuide(supabase, guide.id, userId);
+    return c.json({ guide: await getFormattedGuide(supabase, cityId) });
+  } catch (error) {
+    console.error('❌ Error in PUT /guides/:cityId/sections/:sectionId:', error);
+    return c.json({ error: 'Failed to update section' }, 500);
+  }
+});
+
+// Delete a section and its entries
+app.delete('/make-server-48182530/guides/:cityId/sections/:sectionId', verifyAuth, requirePermission('guides:write'), async (c) => {
+  console.log('📍 DELETE /guides/:cityId/sections/:sectionId - Start');
+  const userId = c.get('userId');
+  const cityId = c.req.param('cityId');
+  const sectionId = c.req.param('sectionId');
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const guide = await getGuideRow(supabase, cityId);
+    if (!guide) {
+      return c.json({ error: 'Guide not found' }, 404);
+    }
+
+    const { error } = await supabase
+      .from('city_guide_sections')
+      .delete()
+      .eq('id', sectionId)
+      .eq('guide_id', guide.id);
+
+    if (error) {
+      console.error('❌ Error deleting guide section:', error);
+      return c.json({ error: 'Failed to delete section' }, 500);
+    }
+
+    await touchGuide(supabase, guide.id, userId);
+    return c.json({ guide: await getFormattedGuide(supabase, cityId) });
+  } catch (error) {
+    console.error('❌ Error in DELETE /guides/:cityId/sections/:sectionId:', error);
+    return c.json({ error: 'Failed to delete section' }, 500);
+  }
+});
+
+// Add a location to the end of a section
+app.post('/make-server-48182530/guides/:cityId/sections/:sectionId/entries', verifyAuth, requirePermission('guides:write'), async (c) => {
+  console.log('📍 POST /guides/:cityId/sections/:sectionId/entries - Start');
+  const userId = c.get('userId');
+  const cityId = c.req.param('cityId');
+  const sectionId = c.req.param('sectionId');
+  const { locationId, blurb } = await c.req.json();
+
+  const parsedBlurb = parseBlurb(blurb);
+  if (!locationId) {
+    return c.json({ error: 'locationId is required' }, 400);
+  }
+  if (parsedBlurb && typeof parsedBlurb === 'object') {
+    return c.json({ error: parsedBlurb.error }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const guide = await getGuideRow(supabase, cityId);
+    if (!guide) {
+      return c.json({ error: 'Guide not found' }, 404);
+    }
+
+    const { data: section } = await supabase
+      .from('city_guide_sections')
+      .select('id')
+      .eq('id', sectionId)
+      .eq('guide_id', guide.id)
+      .maybeSingle();
+    if (!section) {
+      return c.json({ error: 'Section not found' }, 404);
+    }
+
+    const location = await findLocationByIdOrPlaceId(supabase, locationId);
+    if (!location) {
+      return c.json({ error: 'Location not found' }, 404);
+    }
+
+    const { error } = await supabase
+      .from('city_guide_entries')
+      .insert({
+        section_id: sectionId,
+        location_id: location.id,
+        blurb: parsedBlurb,
+        position: await getNextPosition(supabase, 'city_guide_entries', 'section_id', sectionId),
+      });
+
+    if (error) {
+      if (error.code === '23505') {
+        return c.json({ error: 'Location is already in this section' }, 409);
+      }
+      console.error('❌ Error adding guide entry:', error);
+      return c.json({ error: 'Failed to add entry' }, 500);
+    }
+
+    await touchGuide(supabase, guide.id, userId);
+    return c.json({ guide: await getFormattedGuide(supabase, cityId) }, 201);
+  } catch (error) {
+    console.error('❌ Error in POST /guides/:cityId/sections/:sectionId/entries:', error);
+    return c.json({ error: 'Failed to add entry' }, 500);
+  }
+});
+
+// Reorder sections and entries ({ sections: [{ id, entryIds }] }) - entries may change section
+app.put('/make-server-48182530/guides/:cityId/order', verifyAuth, requirePermission('guides:write'), async (c) => {
+  console.log('📍 PUT /guides/:cityId/order - Start');
+  const userId = c.get('userId');
+  const cityId = c.req.param('cityId');
+  const order = parseGuideOrder(await c.req.json());
+
+  if (typeof order === 'string') {
+    return c.json({ error: order }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const loaded = await loadGuide(supabase, cityId);
+    if (!loaded) {
+      return c.json({ error: 'Guide not found' }, 404);
+    }
+
+    await applyGuideOrder(supabase, loaded.sections, loaded.entries, order);
+    await touchGuide(supabase, loaded.guide.id, userId);
+
+    return c.json({ guide: await getFormattedGuide(supabase, cityId) });
+  } catch (error) {
+    console.error('❌ Error in PUT /guides/:cityId/order:', error);
+    return c.json({ error: 'Failed to reorder guide' }, 500);
+  }
+});
+
+// Update an entry's blurb
+app.put('/make-server-48182530/guides/:cityId/entries/:entryId', verifyAuth, requirePermission('guides:write'), async (c) => {
+  console.log('📍 PUT /guides/:cityId/entries/:entryId - Start');
+  const userId = c.get('userId');
+  const cityId = c.req.param('cityId');
+  const entryId = c.req.param('entryId');
+  const { blurb } = await c.req.json();
+
+  const parsedBlurb = parseBlurb(blurb);
+  if (parsedBlurb && typeof parsedBlurb === 'object') {
+    return c.json({ error: parsedBlurb.error }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const loaded = await loadGuide(supabase, cityId);
+    if (!loaded || !loaded.entries.some(entry => entry.id === entryId)) {
+      return c.json({ error: 'Entry not found' }, 404);
+    }
+
+    const { error } = await supabase
+      .from('city_guide_entries')
+      .update({ blurb: parsedBlurb })
+      .eq('id', entryId);
+
+    if (error) {
+      console.error('❌ Error updating guide entry:', error);
+      return c.json({ error: 'Failed to update entry' }, 500);
+    }
+
+    await touchGuide(supabase, loaded.guide.id, userId);
+    return c.json({ guide: await getFormattedGuide(supabase, cityId) });
+  } catch (error) {
+    console.error('❌ Error in PUT /guides/:cityId/entries/:entryId:', error);
+    return c.json({ error: 'Failed to update entry' }, 500);
+  }
+});
+
+// Remove an entry from a guide
+app.delete('/make-server-48182530/guides/:cityId/entries/:entryId', verifyAuth, requirePermission('guides:write'), async (c) => {
+  console.log('📍 DELETE /guides/:cityId/entries/:entryId - Start');
+  const userId = c.get('userId');
+  const cityId = c.req.param('cityId');
+  const entryId = c.req.param('entryId');
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const loaded = await loadGuide(supabase, cityId);
+    if (!loaded || !loaded.entries.some(entry => entry.id === entryId)) {
+      return c.json({ error: 'Entry not found' }, 404);
+    }
+
+    const { error } = await supabase
+      .from('city_guide_entries')
+      .delete()
+      .eq('id', entryId);
+
+    if (error) {
+      console.error('❌ Error removing guide entry:', error);
+      return c.json({ error: 'Failed to remove entry' }, 500);
+    }
+
+    await touchGuide(supabase, loaded.guide.id, userId);
+    return c.json({ guide: await getFormattedGuide(supabase, cityId) });
+  } catch (error) {
+    console.error('❌ Error in DELETE /guides/:cityId/entries/:entryId:', error);
+    return c.json({ error: 'Failed to remove entry' }, 500);
+  }
+});
+
+// ============================================
+// USER RATINGS ROUTES
+// ============================================
+
+// Get the current user's score for a location
+app.get('/make-server-48182530/locations/:id/my-rating', verifyAuth, async (c) => {
+  console.log('📍 GET /locations/:id/my-rating - Start');
+  const userId = c.get('userId');
+  const locationId = c.req.param('id');
+
+  try {
+    const supabase = getSupabaseAdmin();
+    
+    const location = await findLocationByIdOrPlaceId(supabase, locationId);
+    if (!location) {
+      // Not an LV location yet - nobody can have rated it
+      return c.json({ rating: null, lvAvgUserScore: null, lvUserRatingsCount: 0 });
+    }
+    
+    const rating = await getUserScore(supabase, userId, location.id);
+    
+    return c.json({
+      rating,
+      lvAvgUserScore: location.lv_avg_user_score ?? null,
+      lvUserRatingsCount: location.lv_user_ratings_count || 0,
+    });
+  } catch (error) {
+    console.error('❌ Error in GET /locations/:id/my-rating:', error);
+    return c.json({ error: 'Failed to fetch rating' }, 500);
+  }
+});
+
+// Set or update the current user's score for a location
+app.put('/make-server-48182530/locations/:id/my-rating', verifyAuth, requirePermission('ratings:write'), async (c) => {
+  console.log('📍 PUT /locations/:id/my-rating - Start');
+  const userId = c.get('userId');
+  const locationId = c.req.param('id');
+  const { rating } = await c.req.json();
+
+  const score = normalizeUserScore(rating);
+  if (score === null) {
+    return c.json({ error: `rating must be between 0.0 and ${MAX_USER_SCORE.toFixed(1)}` }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    
+    const location = await findLocationByIdOrPlaceId(supabase, locationId);
+    if (!location) {
+      return c.json({ error: 'Location not found' }, 404);
+    }
+    
+    const { error } = await trackDatabaseOperation(
+      'UPSERT',
+      'user_ratings',
+      () => supabase
+        .from('user_ratings')
+        .upsert({
+          user_id: userId,
+          location_id: location.id,
+          score,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id,location_id' })
+    );
+
+    if (error) {
+      console.error('❌ Error saving user rating:', error);
+      return c.json({ error: 'Failed to save rating', details: error.message }, 500);
+    }
+
+    const aggregate = await recomputeUserScore(supabase, location.id);
+
+    console.log(`✅ User ${userId} rated ${location.id}: ${score}`);
+    return c.json({ rating: score, locationId: location.id, ...aggregate });
+  } catch (error) {
+    console.error('❌ Error in PUT /locations/:id/my-rating:', error);
+    return c.json({ error: 'Failed to save rating' }, 500);
+  }
+});
+
+// Remove the current user's score for a location
+app.delete('/make-server-48182530/locations/:id/my-rating', verifyAuth, requirePermission('ratings:write'), async (c) => {
+  console.log('📍 DELETE /locations/:id/my-rating - Start');
+  const userId = c.get('userId');
+  const locationId = c.req.param('id');
+
+  try {
+    const supabase = getSupabaseAdmin();
+    
+    const location = await findLocationByIdOrPlaceId(supabase, locationId);
+    if (!location) {
+      return c.json({ error: 'Location not found' }, 404);
+    }
+    
+    const { error } = await supabase
+      .from('user_ratings')
+      .delete()
+      .eq('user_id', userId)
+      .eq('location_id', location.id);
+
+    if (error) {
+      console.error('❌ Error removing user rating:', error);
+      return c.json({ error: 'Failed to remove rating' }, 500);
+    }
+
+    const aggregate = await recomputeUserScore(supabase, location.id);
+
+    console.log(`✅ User ${userId} removed rating for ${location.id}`);
+    return c.json({ rating: null, locationId: location.id, ...aggregate });
+  } catch (error) {
+    console.error('❌ Error in DELETE /locations/:id/my-rating:', error);
+    return c.json({ error: 'Failed to remove rating' }, 500);
+  }
+});
+
+// ============================================
+// EDITOR-ONLY ROUTES
+// ============================================
+
+// Create a new location (editors only)
+app.post('/make-server-48182530/locations', verifyAuth, requirePermission('locations:write'), async (c) => {
+  console.log('📍 POST /locations - Start');
+  const userId = c.get('userId');
+  const location = await c.req.json();
+
+  if (!location.name || location.lat === undefined || location.lng === undefined) {
+    return c.json({ error: 'name, lat, and lng are required' }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    
+    // Convert API format to database format using helper
+    const dbLocation = formatLocationForDB(location);
+    dbLocation.created_by_user_id = userId;
+    dbLocation.updated_by_user_id = userId;
+    
+    const { data: newLocation, error } = await supabase
+      .from('locations')
+      .insert(dbLocation)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ Error creating location:', error);
+      return c.json({ error: 'Failed to create location' }, 500);
+    }
+
+    console.log('✅ Location created:', newLocation.id);
+    
+    await recordLocationHistory(supabase, {
+      action: 'create',
+      source: 'location',
+      after: newLocation,
+      userId,
+    });
+    
+    // Convert database format to API format using helper
+    return c.json(formatLocationForAPI(newLocation as LocationRow));
+  } catch (error) {
+    console.error('❌ Error in POST /locations:', error);
+    return c.json({ error: 'Failed to create location' }, 500);
+  }
+});
+
+// Update a location (editors only)
+app.put('/make-server-48182530/locations/:id', verifyAuth, requirePermission('locations:write'), async (c) => {
+  console.log('📍 PUT /locations/:id - Start');
+  const userId = c.get('userId');
+  const locationId = c.req.param('id');
+  const updates = await c.req.json();
+
+  try {
+    const supabase = getSupabaseAdmin();
+    
+    // Convert API format to database format using helper
+    const dbUpdates = formatLocationForDB(updates);
+    dbUpdates.updated_by_user_id = userId;
+    dbUpdates.updated_at = new Date().toISOString();
+    
+    // Snapshot the current row for the audit trail
+    const { data: previousLocation } = await supabase
+      .from('locations')
+      .select('*')
+      .eq('id', locationId)
+      .maybeSingle();
+    
+    // A direct score edit counts as this editor's score, not an override of everyone's
+    if (previousLocation && dbUpdates.lv_editor_score !== undefined) {
+      const editorScores = await applyEditorScore(supabase, locationId, userId, dbUpdates.lv_editor_score);
+      if (editorScores) dbUpdates.lv_editor_score = editorScores.aggregate;
+    }
+    
+    const { data: updatedLocation, error } = await supabase
+      .from('locations')
+      .update(dbUpdates)
+      .eq('id', locationId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ Error updating location:', error);
+      return c.json({ error: 'Failed to update location' }, 500);
+    }
+
+    console.log('✅ Location updated:', locationId);
+    
+    await recordLocationHistory(supabase, {
+      action: 'update',
+      source: 'location',
+      before: previousLocation,
+      after: updatedLocation,
+      userId,
+    });
+    
+    // Convert database format to API format using helper
+    return c.json(formatLocationForAPI(updatedLocation as LocationRow));
+  } catch (error) {
+    console.error('❌ Error in PUT /locations:', error);
+    return c.json({ error: 'Failed to update location' }, 500);
+  }
+});
+
+// Delete a location (editors only)
+app.delete('/make-server-48182530/locations/:id', verifyAuth, requirePermission('locations:delete'), async (c) => {
+  console.log('📍 DELETE /locations/:id - Start');
+  const userId = c.get('userId');
+  const locationId = c.req.param('id');
+
+  try {
+    const supabase = getSupabaseAdmin();
+    
+    // Snapshot the row first so the delete can be rolled back from history
+    const { data: previousLocation } = await supabase
+      .from('locations')
+      .select('*')
+      .eq('id', locationId)
+      .maybeSingle();
+    
+    const closed = await closeMovedTo(supabase, locationId, userId);
+    if (closed > 0) {
+      console.log(`📍 ${closed} location(s) that moved here are now permanently closed`);
+    }
+    
+    // Foreign keys will cascade delete favorites/want_to_go
+    const { error } = await supabase
+      .from('locations')
+      .delete()
+      .eq('id', locationId);
+
+    if (error) {
+      console.error('❌ Error deleting location:', error);
+      return c.json({ error: 'Failed to delete location' }, 500);
+    }
+
+    console.log('✅ Location deleted:', locationId);
+    
+    if (previousLocation) {
+      await recordLocationHistory(supabase, {
+        locationId,
+        action: 'delete',
+        source: 'location',
+        before: previousLocation,
+        userId,
+      });
+    }
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error in DELETE /locations:', error);
+    return c.json({ error: 'Failed to delete location' }, 500);
+  }
+});
+
+// Mark a location open, temporarily closed, permanently closed or moved
+// (editors only). Closed places keep their favorites and want-to-go entries.
+app.put('/make-server-48182530/locations/:id/status', verifyAuth, requirePermission('locations:write'), async (c) => {
+  console.log('📍 PUT /locations/:id/status - Start');
+  const userId = c.get('userId');
+  const { status, successorLocationId } = await c.req.json();
+
+  if (!isLocationStatus(status)) {
+    return c.json({ error: 'status must be open, temporarily_closed, permanently_closed or moved' }, 400);
+  }
+  if (successorLocationId && !isUUID(successorLocationId)) {
+    return c.json({ error: 'successorLocationId must be a location id' }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const location = await findLocationByIdOrPlaceId(supabase, c.req.param('id'));
+    if (!location) {
+      return c.json({ error: 'Location not found' }, 404);
+    }
+
+    const updated = await setLocationStatus(supabase, location, {
+      status,
+      successorId: successorLocationId,
+      source: 'editor',
+      userId,
+    });
+
+    console.log(`✅ Location ${location.id} marked ${status}`);
+    return c.json(formatLocationForAPI(updated as LocationRow));
+  } catch (error: any) {
+    console.error('❌ Error in PUT /locations/:id/status:', error);
+    if (error.status === 400 || error.status === 404) {
+      return c.json({ error: error.message }, error.status);
+    }
+    return c.json({ error: 'Failed to update location status' }, 500);
+  }
+});
+
+// Likely duplicate locations, most confident first (editors only)
+app.get('/make-server-48182530/locations/duplicates', verifyAuth, requirePermission('locations:merge'), async (c) => {
+  console.log('📍 GET /locations/duplicates - Start');
+  const bounds = parseBounds(c.req.query('bounds'));
+  const minConfidence = parseInt(c.req.query('minConfidence') || '') || DEFAULT_MIN_DUPLICATE_CONFIDENCE;
+  const limit = parseInt(c.req.query('limit') || '') || 100;
+
+  if (c.req.query('bounds') && !bounds) {
+    return c.json({ error: 'bounds must be south,west,north,east' }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const pairs = await findDuplicatePairs(supabase, { bounds, minConfidence, limit });
+
+    console.log(`✅ Found ${pairs.length} likely duplicate pairs`);
+    return c.json({ pairs: pairs.map(formatDuplicatePairForAPI) });
+  } catch (error) {
+    console.error('❌ Error in GET /locations/duplicates:', error);
+    return c.json({ error: 'Failed to find duplicates' }, 500);
+  }
+});
+
+// Mark two locations as "not a duplicate" (editors only)
+app.post('/make-server-48182530/locations/duplicates/dismiss', verifyAuth, requirePermission('locations:merge'), async (c) => {
+  console.log('📍 POST /locations/duplicates/dismiss - Start');
+  const userId = c.get('userId');
+  const { locationIds } = await c.req.json();
+
+  if (!Array.isArray(locationIds) || locationIds.length !== 2 || !locationIds.every(isUUID) || locationIds[0] === locationIds[1]) {
+    return c.json({ error: 'locationIds must be two different location ids' }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    await dismissDuplicatePair(supabase, locationIds[0], locationIds[1], userId);
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error in POST /locations/duplicates/dismiss:', error);
+    return c.json({ error: 'Failed to dismiss duplicate' }, 500);
+  }
+});
+
+// Likely duplicates of one location (editors only)
+app.get('/make-server-48182530/locations/:id/duplicates', verifyAuth, requirePermission('locations:merge'), async (c) => {
+  console.log('📍 GET /locations/:id/duplicates - Start');
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const location = await findLocationByIdOrPlaceId(supabase, c.req.param('id'));
+    if (!location) {
+      return c.json({ error: 'Location not found' }, 404);
+    }
+
+    const pairs = await findDuplicatesOf(supabase, location);
+    return c.json({ pairs: pairs.map(formatDuplicatePairForAPI) });
+  } catch (error) {
+    console.error('❌ Error in GET /locations/:id/duplicates:', error);
+    return c.json({ error: 'Failed to find duplicates' }, 500);
+  }
+});
+
+// Merge a duplicate into this location (editors only). `fields` picks which
+// side each field group comes from; favorites, want-to-go, ratings and
+// list/guide entries move to the survivor and the duplicate is deleted.
+app.post('/make-server-48182530/locations/:id/merge', verifyAuth, requirePermission('locations:merge'), async (c) => {
+  console.log('📍 POST /locations/:id/merge - Start');
+  const userId = c.get('userId');
+  const survivorId = c.req.param('id');
+  const { duplicateId, fields } = await c.req.json();
+
+  if (!isUUID(survivorId) || !isUUID(duplicateId) || survivorId === duplicateId) {
+    return c.json({ error: 'duplicateId must be a different location id' }, 400);
+  }
+
+  const picks = parseMergeFields(fields);
+  if (typeof picks === 'string') {
+    return c.json({ error: picks }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+
+    const [survivor, duplicate] = await Promise.all([
+      findLocationByIdOrPlaceId(supabase, survivorId),
+      findLocationByIdOrPlaceId(supabase, duplicateId),
+    ]);
+    if (!survivor || !duplicate) {
+      return c.json({ error: 'Location not found' }, 404);
+    }
+
+    const { location, moved } = await mergeLocations(supabase, survivor, duplicate, picks, userId);
+
+    await recordLocationHistory(supabase, {
+      locationId: survivor.id,
+      action: 'update',
+      source: 'merge',
+      before: survivor,
+      after: location,
+      userId,
+    });
+    await recordLocationHistory(supabase, {
+      locationId: duplicate.id,
+      action: 'delete',
+      source: 'merge',
+      before: duplicate,
+      userId,
+    });
+
+    console.log(`✅ Merged location ${duplicate.id} into ${survivor.id}`, moved);
+    return c.json({ location: formatLocationForAPI(location), moved });
+  } catch (error: any) {
+    console.error('❌ Error in POST /locations/:id/merge:', error);
+    return c.json({ error: 'Failed to merge locations', details: error.message }, 500);
+  }
+});
+
+// Update location rating and tags (editors only)
+app.put('/make-server-48182530/locations/:id/rating', verifyAuth, requirePermission('locations:write'), async (c) => {
+  console.log('📍 PUT /locations/:id/rating - Start');
+  const userId = c.get('userId');
+  const locationId = c.req.param('id');
+  const { lvEditorsScore, michelinScore, tags, placeData, michelinId } = await c.req.json();
+  
+  console.log('📍 Received michelinId:', michelinId, 'Type:', typeof michelinId);
+
+  // null removes this editor's score; the published score is the aggregate of the rest
+  if (lvEditorsScore !== undefined && lvEditorsScore !== null && (lvEditorsScore < 0 || lvEditorsScore > 11)) {
+    return c.json({ error: 'lvEditorsScore must be between 0.0 and 11.0' }, 400);
+  }
+
+  if (michelinScore !== undefined && (michelinScore < 0 || michelinScore > 11)) {
+    return c.json({ error: 'michelinScore must be between 0.0 and 11.0' }, 400);
+  }
+  
+  // Convert michelinId to number if it's a string
+  const normalizedMichelinId = michelinId ? (typeof michelinId === 'string' ? parseInt(michelinId, 10) : michelinId) : null;
+  console.log('📍 Normalized michelinId:', normalizedMichelinId, 'Type:', typeof normalizedMichelinId);
+
+  try {
+    const supabase = getSupabaseAdmin();
+    
+    // Check if locationId is a UUID or a Google Place ID
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    const isUUID = uuidRegex.test(locationId);
+    
+    let query = supabase.from('locations').select('*');
+    
+    if (isUUID) {
+      // It's a UUID, query by id
+      query = query.eq('id', locationId);
+    } else {
+      // It's a Google Place ID, query by google_place_id
+      query = query.eq('google_place_id', locationId);
+    }
+    
+    const { data: existingLocation, error: fetchError } = await query.maybeSingle();
+    
+    // If location doesn't exist, create it automatically (only for Google Place IDs, not UUIDs)
+    if (fetchError || !existingLocation) {
+      // If it's a UUID and we can't find it, that's an error
+      if (isUUID) {
+        console.error('❌ Location with UUID not found:', locationId);
+        return c.json({ error: 'Location not found' }, 404);
+      }
+      
+      console.log('📍 Location not found, creating new location:', locationId);
+      
+      // Validate that we have the necessary place data to create the location
+      if (!placeData || !placeData.name || !placeData.lat || !placeData.lng) {
+        console.error('❌ Missing place data for creating location:', placeData);
+        return c.json({ 
+          error: 'Location not found and insufficient data provided to create it. Please provide placeData with name, lat, and lng.' 
+        }, 400);
+      }
+      
+      // Create the location
+      const newLocation = {
+        google_place_id: locationId,
+        name: placeData.name,
+        address: placeData.formatted_address || null,
+        lat: placeData.lat,
+        lng: placeData.lng,
+        google_rating: placeData.rating || null,
+        lv_editor_score: lvEditorsScore ?? null,
+        tags: tags || [],
+        michelin_id: normalizedMichelinId,
+        created_by_user_id: userId,
+        updated_by_user_id: userId,
+      };
+      
+      console.log('📍 Attempting to create location with data:', newLocation);
       console.log('📍 michelin_id value:', normalizedMichelinId, 'Type:', typeof normalizedMichelinId);
       
       const { data: createdLocation, error: createError } = await supabase
@@ -1348,6 +3110,8 @@ app.put('/make-server-48182530/locations/:id/rating', verifyAuth, verifyEditor,
           
           console.log('📍 Found existing location:', existingByMichelinId.id, '- updating with new Google Place ID');
           
+          const editorScores = await applyEditorScore(supabase, existingByMichelinId.id, userId, lvEditorsScore);
+          
           // Update the existing location with the new Google Place ID and rating
           const updateData: any = {
             google_place_id: locationId,
@@ -1356,7 +3120,7 @@ app.put('/make-server-48182530/locations/:id/rating', verifyAuth, verifyEditor,
             lat: placeData.lat,
             lng: placeData.lng,
             google_rating: placeData.rating || existingByMichelinId.google_rating,
-            lv_editor_score: lvEditorsScore,
+            lv_editor_score: editorScores ? editorScores.aggregate : existingByMichelinId.lv_editor_score,
             tags: tags || existingByMichelinId.tags || [],
             updated_by_user_id: userId,
             updated_at: new Date().toISOString(),
@@ -1378,7 +3142,18 @@ app.put('/make-server-48182530/locations/:id/rating', verifyAuth, verifyEditor,
           }
           
           console.log('✅ Successfully recovered from duplicate michelin_id - updated existing location:', updatedLocation.id);
-          return c.json(formatLocationForAPI(updatedLocation as LocationRow));
+          
+          await recordLocationHistory(supabase, {
+            action: 'update',
+            source: 'rating',
+            before: existingByMichelinId,
+            after: updatedLocation,
+            userId,
+          });
+          return c.json({
+            ...formatLocationForAPI(updatedLocation as LocationRow),
+            editorScores: editorScores ? await formatEditorScoreSummary(supabase, editorScores) : undefined,
+          });
         }
         
         // Not a recoverable error
@@ -1394,7 +3169,22 @@ app.put('/make-server-48182530/locations/:id/rating', verifyAuth, verifyEditor,
       
       console.log('�� Location created and rating added:', createdLocation.id);
       
-      return c.json(formatLocationForAPI(createdLocation as LocationRow));
+      await recordLocationHistory(supabase, {
+        action: 'create',
+        source: 'rating',
+        after: createdLocation,
+        userId,
+      });
+      
+      // First editor to rate - record their score so later editors reconcile against it
+      const editorScores = lvEditorsScore != null
+        ? await applyEditorScore(supabase, createdLocation.id, userId, lvEditorsScore)
+        : null;
+      
+      return c.json({
+        ...formatLocationForAPI(createdLocation as LocationRow),
+        editorScores: editorScores ? await formatEditorScoreSummary(supabase, editorScores) : undefined,
+      });
     }
     
     // Location exists, update it
@@ -1403,7 +3193,9 @@ app.put('/make-server-48182530/locations/:id/rating', verifyAuth, verifyEditor,
       updated_at: new Date().toISOString(),
     };
     
-    if (lvEditorsScore !== undefined) dbUpdates.lv_editor_score = lvEditorsScore;
+    // Keep this editor's score separately and publish the reconciled aggregate
+    const editorScores = await applyEditorScore(supabase, existingLocation.id, userId, lvEditorsScore);
+    if (editorScores) dbUpdates.lv_editor_score = editorScores.aggregate;
     if (tags !== undefined) dbUpdates.tags = tags;
     if (michelinId !== undefined) dbUpdates.michelin_id = normalizedMichelinId;
     
@@ -1421,17 +3213,231 @@ app.put('/make-server-48182530/locations/:id/rating', verifyAuth, verifyEditor,
 
     console.log('✅ Location rating/tags updated:', existingLocation.id);
     
+    await recordLocationHistory(supabase, {
+      action: 'update',
+      source: 'rating',
+      before: existingLocation,
+      after: updatedLocation,
+      userId,
+    });
+    
     // Convert database format to API format using helper
-    return c.json(formatLocationForAPI(updatedLocation as LocationRow));
+    return c.json({
+      ...formatLocationForAPI(updatedLocation as LocationRow),
+      editorScores: editorScores ? await formatEditorScoreSummary(supabase, editorScores) : undefined,
+    });
   } catch (error) {
     console.error('❌ Error in PUT /locations/:id/rating:', error);
     return c.json({ error: 'Failed to update location rating/tags' }, 500);
   }
 });
 
+// Get every editor's individual score and the reconciliation summary (editors only)
+app.get('/make-server-48182530/locations/:id/editor-scores', verifyAuth, requireRole('editor'), async (c) => {
+  console.log('📍 GET /locations/:id/editor-scores - Start');
+  const userId = c.get('userId');
+  const locationParam = c.req.param('id');
+
+  try {
+    const supabase = getSupabaseAdmin();
+    
+    const location = await findLocationByIdOrPlaceId(supabase, locationParam);
+    if (!location) {
+      // Not rated by anyone yet - still report the active configuration
+      const config = getEditorScoreConfig();
+      return c.json({
+        aggregate: null,
+        strategy: config.strategy,
+        appliedStrategy: config.strategy,
+        leadEditorId: config.leadEditorId,
+        spread: 0,
+        threshold: config.disagreementThreshold,
+        disagreement: false,
+        scores: [],
+        myScore: null,
+      });
+    }
+    
+    const summary = await reconcileEditorScores(supabase, location.id);
+    const formatted = await formatEditorScoreSummary(supabase, summary);
+    const myScore = formatted.scores.find(s => s.editorId === userId);
+    
+    return c.json({
+      ...formatted,
+      scores: formatted.scores.map(s => ({ ...s, isMine: s.editorId === userId })),
+      myScore: myScore ? myScore.score : null,
+    });
+  } catch (error) {
+    console.error('❌ Error in GET /locations/:id/editor-scores:', error);
+    return c.json({ error: 'Failed to fetch editor scores' }, 500);
+  }
+});
+
+// Get the edit history of a location, newest first (editors only)
+app.get('/make-server-48182530/locations/:id/history', verifyAuth, requirePermission('locations:history'), async (c) => {
+  console.log('📍 GET /locations/:id/history - Start');
+  const locationParam = c.req.param('id');
+  const limit = Math.min(parseInt(c.req.query('limit') || '100'), 500);
+
+  try {
+    const supabase = getSupabaseAdmin();
+    
+    // Deleted locations no longer resolve, but their history is still keyed by UUID
+    const location = await findLocationByIdOrPlaceId(supabase, locationParam);
+    const locationId = location?.id ?? (isUUID(locationParam) ? locationParam : null);
+    
+    if (!locationId) {
+      return c.json({ locationId: null, history: [] });
+    }
+    
+    const { data: entries, error } = await trackDatabaseOperation(
+      'SELECT',
+      'location_history',
+      () => supabase
+        .from('location_history')
+        .select('*')
+        .eq('location_id', locationId)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit)
+    );
+
+    if (error) {
+      console.error('❌ Error fetching location history:', error);
+      return c.json({ error: 'Failed to fetch location history' }, 500);
+    }
+    
+    // Resolve editor names for the timeline
+    const userIds = [...new Set((entries || []).map((e: any) => e.changed_by_user_id).filter(Boolean))];
+    const userNames = new Map<string, string>();
+    if (userIds.length > 0) {
+      const { data: users } = await supabase
+        .from('user_metadata')
+        .select('user_id, name, email')
+        .in('user_id', userIds);
+      users?.forEach(u => userNames.set(u.user_id, u.name || u.email));
+    }
+    
+    console.log(`✅ Found ${entries?.length || 0} history entries for ${locationId}`);
+    return c.json({
+      locationId,
+      history: (entries || []).map((e: any) => formatHistoryEntryForAPI(e as HistoryEntryRow, userNames)),
+    });
+  } catch (error) {
+    console.error('❌ Error in GET /locations/:id/history:', error);
+    return c.json({ error: 'Failed to fetch location history' }, 500);
+  }
+});
+
+// Revert a location to the state recorded in a history entry (editors only)
+app.post('/make-server-48182530/locations/:id/history/:entryId/revert', verifyAuth, requirePermission('locations:history'), async (c) => {
+  console.log('📍 POST /locations/:id/history/:entryId/revert - Start');
+  const userId = c.get('userId');
+  const locationParam = c.req.param('id');
+  const entryId = parseInt(c.req.param('entryId'));
+
+  if (!entryId) {
+    return c.json({ error: 'Invalid history entry id' }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    
+    const location = await findLocationByIdOrPlaceId(supabase, locationParam);
+    const locationId = location?.id ?? (isUUID(locationParam) ? locationParam : null);
+    
+    if (!locationId) {
+      return c.json({ error: 'Location not found' }, 404);
+    }
+    
+    const { data: entry, error: entryError } = await supabase
+      .from('location_history')
+      .select('*')
+      .eq('id', entryId)
+      .eq('location_id', locationId)
+      .maybeSingle();
+    
+    if (entryError || !entry) {
+      return c.json({ error: 'History entry not found' }, 404);
+    }
+    
+    // Link-place entries describe michelin_restaurants, not the location row
+    if (entry.source === 'link-place') {
+      return c.json({ error: 'Place links cannot be reverted from the location history' }, 400);
+    }
+    
+    const target = getRevertTarget(entry as HistoryEntryRow);
+    if (!target) {
+      return c.json({ error: 'History entry has no snapshot to revert to' }, 400);
+    }
+    
+    let revertedLocation;
+    
+    if (location) {
+      const { data, error } = await supabase
+        .from('locations')
+        .update({
+          ...target,
+          updated_by_user_id: userId,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', location.id)
+        .select()
+        .single();
+      
+      if (error) {
+        console.error('❌ Error reverting location:', error);
+        return c.json({ error: 'Failed to revert location', details: error.message }, 500);
+      }
+      revertedLocation = data;
+    } else {
+      // The location was deleted - restore it under its original id
+      const { data, error } = await supabase
+        .from('locations')
+        .insert({
+          id: locationId,
+          ...target,
+          created_by_user_id: entry.before?.created_by_user_id ?? userId,
+          updated_by_user_id: userId,
+        })
+        .select()
+        .single();
+      
+      if (error) {
+        console.error('❌ Error restoring location:', error);
+        if (error.code === '23505') {
+          return c.json({ error: 'Cannot restore - another location now uses the same Google Place or Michelin ID' }, 409);
+        }
+        return c.json({ error: 'Failed to restore location', details: error.message }, 500);
+      }
+      revertedLocation = data;
+    }
+    
+    // Snapshots only hold the published score, so a revert restores
+    // lv_editor_score and leaves each editor's own row in editor_scores as is
+    
+    await recordLocationHistory(supabase, {
+      locationId,
+      action: 'revert',
+      source: 'history',
+      before: location,
+      after: revertedLocation,
+      userId,
+      revertedFromId: entry.id,
+    });
+    
+    console.log(`✅ Location ${locationId} reverted to history entry ${entryId}`);
+    return c.json(formatLocationForAPI(revertedLocation as LocationRow));
+  } catch (error) {
+    console.error('❌ Error in POST /locations/:id/history/:entryId/revert:', error);
+    return c.json({ error: 'Failed to revert location' }, 500);
+  }
+});
+
 // Link a Michelin restaurant to a Google Place ID (editors only)
-app.put('/make-server-48182530/michelin/:michelinId/link-place', verifyAuth, verifyEditor, async (c) => {
+app.put('/make-server-48182530/michelin/:michelinId/link-place', verifyAuth, requirePermission('michelin:link'), async (c) => {
   console.log('📍 PUT /michelin/:michelinId/link-place - Start');
+  const userId = c.get('userId');
   const michelinId = parseInt(c.req.param('michelinId'));
   const { googlePlaceId } = await c.req.json();
 
@@ -1442,6 +3448,13 @@ app.put('/make-server-48182530/michelin/:michelinId/link-place', verifyAuth, ver
   try {
     const supabase = getSupabaseAdmin();
     
+    // Remember the previous link for the audit trail
+    const { data: previous } = await supabase
+      .from('michelin_restaurants')
+      .select('google_place_id')
+      .eq('id', michelinId)
+      .maybeSingle();
+    
     // Update the Michelin restaurant with the Google Place ID
     const { data: updated, error } = await supabase
       .from('michelin_restaurants')
@@ -1459,6 +3472,23 @@ app.put('/make-server-48182530/michelin/:michelinId/link-place', verifyAuth, ver
     }
 
     console.log(`✅ Linked Michelin restaurant ${michelinId} to Google Place ID ${googlePlaceId}`);
+    
+    // Attach the entry to the LV location for this restaurant, if there is one
+    const { data: linkedLocation } = await supabase
+      .from('locations')
+      .select('id')
+      .eq('michelin_id', michelinId)
+      .maybeSingle();
+    
+    await recordLocationHistory(supabase, {
+      locationId: linkedLocation?.id ?? null,
+      michelinId,
+      action: 'update',
+      source: 'link-place',
+      before: { google_place_id: previous?.google_place_id ?? null },
+      after: { google_place_id: googlePlaceId },
+      userId,
+    });
     return c.json({ 
       success: true, 
       restaurant: updated 
@@ -1534,191 +3564,143 @@ app.get('/make-server-48182530/michelin/rating', async (c) => {
 app.get('/make-server-48182530/michelin/restaurants', async (c) => {
   console.log('📍 GET /michelin/restaurants - Start');
   
-  const north = parseFloat(c.req.query('north') || '0');
-  const south = parseFloat(c.req.query('south') || '0');
-  const east = parseFloat(c.req.query('east') || '0');
-  const west = parseFloat(c.req.query('west') || '0');
+  const north = parseFloat(c.req.query('north') ?? '');
+  const south = parseFloat(c.req.query('south') ?? '');
+  const east = parseFloat(c.req.query('east') ?? '');
+  const west = parseFloat(c.req.query('west') ?? '');
+  const limit = Math.min(parseInt(c.req.query('limit') || '500'), 2000);
   
-  if (!north || !south || !east || !west) {
+  if ([north, south, east, west].some(isNaN)) {
     return c.json({ error: 'Viewport bounds (north, south, east, west) are required' }, 400);
   }
   
   try {
     const supabase = getSupabaseAdmin();
     
-    // Query Michelin restaurants within the viewport bounds
-    const { data: restaurants, error } = await supabase
-      .from('michelin_restaurants')
-      .select('*')
-      .gte('Latitude', south)
-      .lte('Latitude', north)
-      .gte('Longitude', west)
-      .lte('Longitude', east)
-      .limit(500); // Limit to prevent overload
-    
-    if (error) {
+    // Query Michelin restaurants within the viewport bounds (west > east crosses the antimeridian)
+    let restaurants: any[];
+    try {
+      restaurants = await queryBoundingBox(supabase, 'michelin', normalizeBounds({ north, south, east, west }), { limit });
+    } catch (error) {
       console.error('❌ Error querying Michelin restaurants:', error);
       return c.json({ error: 'Failed to query Michelin restaurants' }, 500);
     }
     
-    console.log(`✅ Found ${restaurants?.length || 0} Michelin restaurants in viewport`);
+    console.log(`✅ Found ${restaurants.length} Michelin restaurants in viewport`);
     
     // Convert to a simpler format for frontend
-    const formattedRestaurants = restaurants?.map(r => ({
-      id: r.id,
-      name: r.Name,
-      lat: r.Latitude,
-      lng: r.Longitude,
-      award: r.Award,
-      cuisine: r.Cuisine,
-      price: r.Price,
-      location: r.Location,
-      address: r.Address,
-      googlePlaceId: r.google_place_id, // Include discovered Google Place ID
-    })) || [];
+    const formattedRestaurants = restaurants.map(formatMichelinRestaurantForMap);
     
     return c.json({ restaurants: formattedRestaurants });
   } catch (error) {
     console.error('❌ Error in GET /michelin/restaurants:', error);
-    return c.json({ error: 'Failed to get Michelin restaurants' }, 500);
-  }
-});
-
-// Discover Google Place IDs for Michelin restaurants (requires auth + Google Maps API key)
-app.post('/make-server-48182530/michelin/discover-place-ids', verifyAuth, async (c) => {
-  console.log('📍 POST /michelin/discover-place-ids - Start');
-  
-  const { offset = 0, limit = 50 } = await c.req.json();
-  const googleMapsApiKey = Deno.env.get('GOOGLE_MAPS_API_KEY');
-  
-  if (!googleMapsApiKey) {
-    console.error('❌ GOOGLE_MAPS_API_KEY environment variable not set');
-    return c.json({ error: 'Google Maps API key not configured' }, 500);
-  }
-  
-  try {
-    const supabase = getSupabaseAdmin();
-    
-    // Get Michelin restaurants that don't have a Google Place ID yet
-    const { data: restaurants, error } = await supabase
-      .from('michelin_restaurants')
-      .select('*')
-      .is('google_place_id', null)
-      .range(offset, offset + limit - 1);
-    
-    if (error) {
-      console.error('❌ Error querying Michelin restaurants:', error);
-      return c.json({ error: 'Failed to query Michelin restaurants' }, 500);
-    }
-    
-    if (!restaurants || restaurants.length === 0) {
-      console.log('✅ No restaurants to process');
-      return c.json({ 
-        success: true, 
-        processed: 0, 
-        discovered: 0,
-        message: 'No restaurants need Place ID discovery'
-      });
-    }
-    
-    console.log(`🔍 Processing ${restaurants.length} Michelin restaurants...`);
-    
-    let discovered = 0;
-    const updates = [];
-    
-    // Process each restaurant
-    for (const restaurant of restaurants) {
-      try {
-        // Search for the place using Google Places API Text Search
-        const searchQuery = `${restaurant.Name} ${restaurant.Address || restaurant.Location}`;
-        const textSearchUrl = `https://places.googleapis.com/v1/places:searchText`;
-        
-        const textSearchResponse = await fetch(textSearchUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'X-Goog-Api-Key': googleMapsApiKey,
-            'X-Goog-FieldMask': 'places.id,places.displayName,places.formattedAddress,places.location',
-          },
-          body: JSON.stringify({
-            textQuery: searchQuery,
-            locationBias: {
-              circle: {
-                center: {
-                  latitude: restaurant.Latitude,
-                  longitude: restaurant.Longitude,
-                },
-                radius: 100, // 100 meters
-              },
-            },
-            maxResultCount: 1,
-          }),
-        });
-        
-        if (!textSearchResponse.ok) {
-          const errorText = await textSearchResponse.text();
-          console.error(`❌ Google Places API error for ${restaurant.Name}:`, textSearchResponse.status, errorText);
-          continue;
-        }
-        
-        const searchData = await textSearchResponse.json();
-        
-        if (searchData.places && searchData.places.length > 0) {
-          const place = searchData.places[0];
-          const placeId = place.id;
-          
-          console.log(`✅ Found Place ID for ${restaurant.Name}: ${placeId}`);
-          
-          // Store the update to be batched
-          updates.push({
-            id: restaurant.id,
-            google_place_id: placeId,
-          });
-          
-          discovered++;
-        } else {
-          console.log(`⚠️ No Place ID found for ${restaurant.Name}`);
-        }
-        
-        // Add a small delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-      } catch (error) {
-        console.error(`❌ Error processing restaurant ${restaurant.Name}:`, error);
-      }
-    }
-    
-    // Batch update all discovered Place IDs
-    if (updates.length > 0) {
-      for (const update of updates) {
-        const { error: updateError } = await supabase
-          .from('michelin_restaurants')
-          .update({ google_place_id: update.google_place_id })
-          .eq('id', update.id);
-        
-        if (updateError) {
-          console.error(`❌ Error updating restaurant ${update.id}:`, updateError);
-        }
-      }
-    }
+    return c.json({ error: 'Failed to get Michelin restaurants' }, 500);
+  }
+});
+
+// Get Michelin restaurants near a point - radius and/or k-nearest (public endpoint)
+app.get('/make-server-48182530/michelin/nearby', async (c) => {
+  console.log('📍 GET /michelin/nearby - Start');
+  const params = parseNearbyQuery(c);
+  if (typeof params === 'string') {
+    return c.json({ error: params }, 400);
+  }
+  
+  try {
+    const supabase = getSupabaseAdmin();
+    const restaurants = await queryNearby(supabase, 'michelin', params);
     
-    console.log(`✅ Discovered ${discovered} Place IDs out of ${restaurants.length} restaurants`);
+    console.log(`✅ Found ${restaurants.length} Michelin restaurants near (${params.lat}, ${params.lng})`);
     
+    return c.json({ restaurants: restaurants.map(formatMichelinRestaurantForMap) });
+  } catch (error) {
+    console.error('❌ Error in GET /michelin/nearby:', error);
+    return c.json({ error: 'Failed to get nearby Michelin restaurants' }, 500);
+  }
+});
+
+// Award changes recorded by imports - the "newly starred" feed (public)
+// ?since=<guide year | ISO timestamp>&region=<text in "City, Country">&type=gained_star,lost_star&limit=
+// Without since, the latest guide year with changes is used
+app.get('/make-server-48182530/michelin/changes', async (c) => {
+  console.log('📍 GET /michelin/changes - Start');
+  const since = parseSince(c.req.query('since'));
+  if (typeof since === 'string') {
+    return c.json({ error: since }, 400);
+  }
+
+  const types = (c.req.query('type') || '').split(',').map(t => t.trim()).filter(Boolean);
+  const invalidType = types.find(t => !isAwardChangeType(t));
+  if (invalidType) {
+    return c.json({ error: `type must be one of ${AWARD_CHANGE_TYPES.join(', ')}` }, 400);
+  }
+
+  const region = c.req.query('region')?.trim();
+  const limit = Math.min(Math.max(1, parseInt(c.req.query('limit') || '500') || 500), MAX_AWARD_FEED_LIMIT);
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const filter = since ?? { guideYear: await getLatestGuideYear(supabase) };
+    if ('guideYear' in filter && filter.guideYear === null) {
+      return c.json({ changes: [], guideYear: null });
+    }
+
+    let query = supabase
+      .from('michelin_award_history')
+      .select('*')
+      .neq('change_type', 'baseline')
+      .order('recorded_at', { ascending: false })
+      .limit(limit);
+
+    query = 'guideYear' in filter
+      ? query.gte('guide_year', filter.guideYear)
+      : query.gte('recorded_at', filter.recordedAt);
+    if (types.length > 0) query = query.in('change_type', types);
+    if (region) query = query.ilike('location', `%${region.replace(/[%_\\]/g, '\\$&')}%`);
+
+    const { data, error } = await trackDatabaseOperation('SELECT', 'michelin_award_history', () => query);
+    if (error) throw new Error(error.message);
+
+    const changes = latestPerRestaurant((data || []) as AwardHistoryRow[]);
+    console.log(`✅ Found ${changes.length} Michelin award changes`);
+
     return c.json({
-      success: true,
-      processed: restaurants.length,
-      discovered: discovered,
-      message: `Discovered ${discovered} Place IDs`,
+      changes: changes.map(formatAwardChangeForAPI),
+      guideYear: 'guideYear' in filter ? filter.guideYear : null,
     });
-    
   } catch (error) {
-    console.error('❌ Error in POST /michelin/discover-place-ids:', error);
-    return c.json({ error: 'Failed to discover Place IDs' }, 500);
+    console.error('❌ Error in GET /michelin/changes:', error);
+    return c.json({ error: 'Failed to fetch Michelin award changes' }, 500);
+  }
+});
+
+// Award timeline for one restaurant, oldest first (public)
+app.get('/make-server-48182530/michelin/:michelinId/awards', async (c) => {
+  console.log('📍 GET /michelin/:michelinId/awards - Start');
+  const michelinId = parseInt(c.req.param('michelinId'));
+  if (isNaN(michelinId)) {
+    return c.json({ error: 'Invalid Michelin ID' }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+      .from('michelin_award_history')
+      .select('*')
+      .eq('michelin_id', michelinId)
+      .order('recorded_at', { ascending: true });
+
+    if (error) throw new Error(error.message);
+
+    return c.json({ history: (data || []).map(row => formatAwardChangeForAPI(row as AwardHistoryRow)) });
+  } catch (error) {
+    console.error('❌ Error in GET /michelin/:michelinId/awards:', error);
+    return c.json({ error: 'Failed to fetch award history' }, 500);
   }
 });
 
 // Suggest a Google Place for a Michelin restaurant (public endpoint)
-app.get('/make-server-48182530/michelin/:michelinId/suggest-place', async (c) => {
+app.get('/make-server-48182530/michelin/:michelinId/suggest-place', optionalAuth, rateLimit('suggest-place'), async (c) => {
   console.log('📍 GET /michelin/:michelinId/suggest-place - Start');
   const michelinId = parseInt(c.req.param('michelinId'));
 
@@ -1756,42 +3738,14 @@ app.get('/make-server-48182530/michelin/:michelinId/suggest-place', async (c) =>
       return c.json({ error: 'Google Maps API key not configured' }, 500);
     }
 
-    const searchQuery = `${restaurant.Name} ${restaurant.Location || ''}`.trim();
-    const textSearchUrl = `https://places.googleapis.com/v1/places:searchText`;
-    
-    console.log(`🔍 Searching for: "${searchQuery}" near (${restaurant.Latitude}, ${restaurant.Longitude})`);
-    
-    const textSearchResponse = await fetch(textSearchUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Goog-Api-Key': googleMapsApiKey,
-        'X-Goog-FieldMask': 'places.id,places.displayName,places.formattedAddress,places.location,places.rating,places.userRatingCount,places.priceLevel,places.types,places.photos',
-      },
-      body: JSON.stringify({
-        textQuery: searchQuery,
-        locationBias: {
-          circle: {
-            center: {
-              latitude: restaurant.Latitude,
-              longitude: restaurant.Longitude,
-            },
-            radius: 100, // 100 meters
-          },
-        },
-        maxResultCount: 3, // Get top 3 results
-      }),
-    });
-    
-    if (!textSearchResponse.ok) {
-      const errorText = await textSearchResponse.text();
-      console.error(`❌ Google Places API error:`, textSearchResponse.status, errorText);
-      return c.json({ error: 'Failed to search Google Places' }, 500);
-    }
-    
-    const searchData = await textSearchResponse.json();
+    // Place IDs the crowd or an editor already turned down are never offered again
+    const blacklisted = await getBlacklistedPlaceIds(supabase, michelinId);
+    await assertGoogleBudget(supabase);
+    const usage = { route: 'GET /michelin/:michelinId/suggest-place', userId: c.get('userId') || null };
+    const matches = (await findGoogleMatches(googleMapsApiKey, restaurant, usage, 'preview'))
+      .filter(match => !blacklisted.has(match.candidate.place.id));
     
-    if (!searchData.places || searchData.places.length === 0) {
+    if (matches.length === 0) {
       console.log(`⚠️ No Google Places found for: ${restaurant.Name}`);
       return c.json({ 
         hasResults: false,
@@ -1799,85 +3753,36 @@ app.get('/make-server-48182530/michelin/:michelinId/suggest-place', async (c) =>
       });
     }
 
-    // Calculate distance and confidence for each result
-    const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-      const R = 6371000; // Earth's radius in meters
-      const dLat = (lat2 - lat1) * (Math.PI / 180);
-      const dLon = (lon2 - lon1) * (Math.PI / 180);
-      
-      const a =
-        Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-        Math.cos(lat1 * (Math.PI / 180)) * Math.cos(lat2 * (Math.PI / 180)) *
-        Math.sin(dLon / 2) * Math.sin(dLon / 2);
-      
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-      return R * c; // Distance in meters
-    };
-
-    const calculateConfidence = (
-      name1: string,
-      name2: string,
-      distance: number
-    ): number => {
-      // Ensure both names are strings and handle null/undefined
-      const str1 = String(name1 || '').toLowerCase().replace(/[^a-z0-9]/g, '');
-      const str2 = String(name2 || '').toLowerCase().replace(/[^a-z0-9]/g, '');
-      
-      // Name similarity (simple check)
-      const nameMatch = str1.includes(str2) || str2.includes(str1);
-      
-      // Distance-based confidence
-      let confidence = 0;
-      if (distance < 10) confidence = 95;
-      else if (distance < 50) confidence = 85;
-      else if (distance < 100) confidence = 75;
-      else if (distance < 200) confidence = 60;
-      else confidence = 40;
-      
-      // Boost if names match
-      if (nameMatch) confidence = Math.min(100, confidence + 10);
-      
-      return confidence;
-    };
-
-    // Use the first result as the best match
-    const place = searchData.places[0];
-    
-    // Extract displayName - it might be a string or an object with a 'text' property
-    const displayName = typeof place.displayName === 'string' 
-      ? place.displayName 
-      : place.displayName?.text || String(place.displayName || '');
-    
-    const distance = calculateDistance(
-      restaurant.Latitude,
-      restaurant.Longitude,
-      place.location.latitude,
-      place.location.longitude
-    );
-    const confidence = calculateConfidence(restaurant.Name, displayName, distance);
-
-    console.log(`✅ Found suggested place: ${displayName} (${distance.toFixed(1)}m away, ${confidence}% confidence)`);
+    const formatSuggestion = ({ candidate, distanceMeters }: typeof matches[number]) => ({
+      id: candidate.place.id,
+      displayName: candidate.name,
+      formattedAddress: candidate.place.formattedAddress,
+      distance: distanceMeters,
+      rating: candidate.place.rating,
+      userRatingCount: candidate.place.userRatingCount,
+      priceLevel: candidate.place.priceLevel,
+      types: candidate.place.types,
+      photoUri: candidate.place.photos?.length > 0
+        ? getPhotoUrl(getFunctionBaseUrl(), candidate.place.photos[0].name, 400)
+        : undefined,
+    });
 
-    // Get the first photo if available
-    const photoUri = place.photos && place.photos.length > 0 
-      ? `https://places.googleapis.com/v1/${place.photos[0].name}/media?key=${googleMapsApiKey}&maxHeightPx=400&maxWidthPx=400`
-      : undefined;
+    const [best, ...others] = matches;
+    console.log(`✅ Found suggested place: ${best.candidate.name} (${best.distanceMeters.toFixed(1)}m away, ${best.confidence}% confidence, ${best.decision})`);
 
     return c.json({
       hasResults: true,
       hasPlaceId: false,
-      suggestedPlace: {
-        id: place.id,
-        displayName: displayName,
-        formattedAddress: place.formattedAddress,
-        distance: distance,
-        rating: place.rating,
-        userRatingCount: place.userRatingCount,
-        priceLevel: place.priceLevel,
-        types: place.types,
-        photoUri: photoUri,
-      },
-      confidenceScore: confidence,
+      suggestedPlace: formatSuggestion(best),
+      confidenceScore: best.confidence,
+      matchSignals: best.signals,
+      // 'auto' matches are linked by Place ID discovery; 'review' ones need crowd validation
+      decision: best.decision,
+      needsReview: best.decision === 'review',
+      alternatives: others
+        .filter(match => match.decision !== 'none')
+        .slice(0, 2)
+        .map(match => ({ ...formatSuggestion(match), confidenceScore: match.confidence })),
       michelinData: {
         id: restaurant.id,
         name: restaurant.Name,
@@ -1887,14 +3792,19 @@ app.get('/make-server-48182530/michelin/:michelinId/suggest-place', async (c) =>
         lng: restaurant.Longitude,
       },
     });
-  } catch (error) {
+  } catch (error: any) {
     console.error('❌ Error in GET /michelin/:michelinId/suggest-place:', error);
+    if (error.status === 503) {
+      return googleBudgetResponse(c, error);
+    }
     return c.json({ error: 'Failed to suggest place' }, 500);
   }
 });
 
-// Validate a suggested Place ID for a Michelin restaurant (authenticated)
-app.post('/make-server-48182530/michelin/:michelinId/validate-place', verifyAuth, async (c) => {
+// Vote on a suggested Place ID for a Michelin restaurant (authenticated).
+// Votes are weighted (editors count double) and tallied by the consensus
+// engine, which links or blacklists the suggestion once quorum is reached.
+app.post('/make-server-48182530/michelin/:michelinId/validate-place', verifyAuth, requirePermission('places:validate'), async (c) => {
   console.log('📍 POST /michelin/:michelinId/validate-place - Start');
   const michelinId = parseInt(c.req.param('michelinId'));
   const userId = c.get('userId');
@@ -1904,493 +3814,521 @@ app.post('/make-server-48182530/michelin/:michelinId/validate-place', verifyAuth
     return c.json({ error: 'Missing required parameters' }, 400);
   }
 
-  if (!['confirmed', 'rejected', 'unsure'].includes(status)) {
+  if (!isVoteStatus(status)) {
     return c.json({ error: 'Invalid status' }, 400);
   }
 
   try {
     const supabase = getSupabaseAdmin();
-    
-    // Get the user's role
-    const { data: userData } = await supabase
-      .from('user_metadata')
-      .select('role')
-      .eq('user_id', userId)
-      .single();
-    
-    const isEditor = userData?.role === 'editor';
-    const voteWeight = isEditor ? 2 : 1; // Editors get 2x weight
 
-    // Check if user already validated this
-    const { data: existingValidation } = await supabase
-      .from('place_id_validations')
+    const { data: restaurant, error: restaurantError } = await supabase
+      .from('michelin_restaurants')
+      .select('id, google_place_id')
+      .eq('id', michelinId)
+      .maybeSingle();
+
+    if (restaurantError) throw new Error(restaurantError.message);
+    if (!restaurant) {
+      return c.json({ error: 'Michelin restaurant not found' }, 404);
+    }
+    if (restaurant.google_place_id) {
+      return c.json({ error: 'This restaurant is already linked to a Google Place' }, 409);
+    }
+
+    const existing = await getSuggestion(supabase, michelinId, placeId);
+    if (existing && RESOLVED_STATUSES.includes(existing.status)) {
+      return c.json({ error: `This suggestion was already ${existing.status}`, suggestion: formatSuggestionForAPI(existing) }, 409);
+    }
+
+    const isEditor = hasPermission(await getRequestRole(c), 'places:approve');
+    const weight = isEditor ? EDITOR_VOTE_WEIGHT : 1;
+
+    await recordVote(supabase, { michelinId, placeId, userId, status, weight });
+    const suggestion = await evaluateSuggestion(supabase, michelinId, placeId);
+
+    console.log(`✅ Vote recorded for ${michelinId}/${placeId} (weight ${weight}) - suggestion is ${suggestion.status}`);
+
+    return c.json({
+      success: true,
+      status: suggestion.status,
+      autoUpdated: suggestion.status === 'applied',
+      validationCounts: {
+        confirmed: suggestion.confirmed_weight,
+        rejected: suggestion.rejected_weight,
+        unsure: suggestion.unsure_weight,
+      },
+    });
+  } catch (error: any) {
+    console.error('❌ Error in POST /michelin/:michelinId/validate-place:', error);
+    if (error.status === 409) {
+      return c.json({ error: error.message }, 409);
+    }
+    return c.json({ error: 'Failed to validate place' }, 500);
+  }
+});
+
+// Place ID suggestions awaiting an editor (contested by default)
+app.get('/make-server-48182530/michelin/place-validations', verifyAuth, requirePermission('places:approve'), async (c) => {
+  console.log('📍 GET /michelin/place-validations - Start');
+  const status = c.req.query('status') || 'contested';
+  const limit = Math.min(parseInt(c.req.query('limit') || '50') || 50, 200);
+
+  if (!isSuggestionStatus(status)) {
+    return c.json({ error: `status must be one of: ${SUGGESTION_STATUSES.join(', ')}` }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const { data: rows, error } = await supabase
+      .from('place_id_suggestions')
       .select('*')
-      .eq('michelin_id', michelinId)
-      .eq('suggested_place_id', placeId)
-      .eq('user_id', userId)
+      .eq('status', status)
+      .order('updated_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(error.message);
+
+    const michelinIds = [...new Set((rows || []).map(row => row.michelin_id))];
+    const restaurants = new Map<number, any>();
+    if (michelinIds.length > 0) {
+      const { data, error: restaurantsError } = await supabase
+        .from('michelin_restaurants')
+        .select('id, Name, Address, Location')
+        .in('id', michelinIds);
+      if (restaurantsError) throw new Error(restaurantsError.message);
+      (data || []).forEach(restaurant => restaurants.set(restaurant.id, restaurant));
+    }
+
+    return c.json({
+      config: getConsensusConfig(),
+      suggestions: (rows || []).map(row =>
+        formatSuggestionForAPI(row as SuggestionRow, restaurants.get(row.michelin_id))
+      ),
+    });
+  } catch (error) {
+    console.error('❌ Error in GET /michelin/place-validations:', error);
+    return c.json({ error: 'Failed to fetch place validations' }, 500);
+  }
+});
+
+// Settle a suggestion by hand: link it or blacklist it (editors only)
+app.post('/make-server-48182530/michelin/:michelinId/resolve-place', verifyAuth, requirePermission('places:approve'), async (c) => {
+  console.log('📍 POST /michelin/:michelinId/resolve-place - Start');
+  const michelinId = parseInt(c.req.param('michelinId'));
+  const userId = c.get('userId');
+  const { placeId, decision } = await c.req.json();
+
+  if (!michelinId || !placeId) {
+    return c.json({ error: 'michelinId and placeId are required' }, 400);
+  }
+  if (!isResolution(decision)) {
+    return c.json({ error: `decision must be one of: ${RESOLUTIONS.join(', ')}` }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const suggestion = await resolveSuggestion(supabase, michelinId, placeId, decision, userId);
+
+    console.log(`✅ Place ID suggestion ${michelinId}/${placeId} ${suggestion.status} by ${userId}`);
+    return c.json({ success: true, suggestion: formatSuggestionForAPI(suggestion) });
+  } catch (error: any) {
+    console.error('❌ Error in POST /michelin/:michelinId/resolve-place:', error);
+    if (error.status === 404 || error.status === 409) {
+      return c.json({ error: error.message }, error.status);
+    }
+    return c.json({ error: 'Failed to resolve place suggestion' }, 500);
+  }
+});
+
+// Load an import run by id (null when missing)
+async function getImportRun(supabase: any, runId: string): Promise<ImportRunRow | null> {
+  if (!isUUID(runId)) return null;
+
+  const { data, error } = await supabase
+    .from('michelin_import_runs')
+    .select('*')
+    .eq('id', runId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data as ImportRunRow | null;
+}
+
+// Diff an uploaded Michelin dataset against michelin_restaurants (editors only)
+// Body: { format: 'csv' | 'json', data: <file contents>, partial?: boolean, guideYear?: number }
+// Nothing is written to the guide data until the run is applied
+app.post('/make-server-48182530/michelin/sync', verifyAuth, requirePermission('michelin:import'), async (c) => {
+  console.log('📍 POST /michelin/sync - Start');
+  const userId = c.get('userId');
+  const body = await c.req.json();
+
+  if (!isImportFormat(body.format)) {
+    return c.json({ error: 'format must be csv or json' }, 400);
+  }
+  if (typeof body.data !== 'string' || !body.data.trim()) {
+    return c.json({ error: 'data is required' }, 400);
+  }
+
+  const dataset = parseMichelinDataset(body.data, body.format);
+  if (typeof dataset === 'string') {
+    return c.json({ error: dataset }, 400);
+  }
+
+  const guideYear = parseGuideYear(body.guideYear);
+  if (typeof guideYear === 'string') {
+    return c.json({ error: guideYear }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+
+    // One open run at a time - applying two diffs of the same table would race
+    const { data: openRun, error: openError } = await supabase
+      .from('michelin_import_runs')
+      .select('id')
+      .in('status', ['pending', 'applying'])
+      .limit(1)
+      .maybeSingle();
+
+    if (openError) throw new Error(openError.message);
+    if (openRun) {
+      return c.json({ error: 'Another import is still open - apply or discard it first', runId: openRun.id }, 409);
+    }
+
+    const existing = await trackDatabaseOperation('SELECT', 'michelin_restaurants', () =>
+      loadAllMichelinRestaurants(supabase)
+    );
+    const partial = !!body.partial;
+    const { changes, summary } = diffMichelinDataset(existing, dataset.restaurants, partial);
+
+    console.log(`📊 Michelin diff: ${dataset.restaurants.length} rows vs ${existing.length} stored -`, summary);
+
+    const run = await createImportRun(supabase, {
+      format: body.format,
+      partial,
+      guideYear,
+      totalRows: dataset.restaurants.length + dataset.skipped,
+      skippedRows: dataset.skipped,
+      changes,
+      summary,
+      userId,
+    });
+
+    console.log(`✅ Michelin import run ${run.id} created with ${changes.length} changes`);
+    return c.json({ run: formatImportRunForAPI(run) }, 201);
+  } catch (error) {
+    console.error('❌ Error in POST /michelin/sync:', error);
+    return c.json({ error: 'Failed to diff Michelin dataset', details: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
+
+// Recent import runs, newest first (editors only)
+app.get('/make-server-48182530/michelin/sync/runs', verifyAuth, requirePermission('michelin:import'), async (c) => {
+  console.log('📍 GET /michelin/sync/runs - Start');
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+      .from('michelin_import_runs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    if (error) throw new Error(error.message);
+
+    return c.json({ runs: (data || []).map(run => formatImportRunForAPI(run as ImportRunRow)) });
+  } catch (error) {
+    console.error('❌ Error in GET /michelin/sync/runs:', error);
+    return c.json({ error: 'Failed to fetch import runs' }, 500);
+  }
+});
+
+// A run with a page of its changes (editors only)
+// ?type=<change type>&offset=&limit=
+app.get('/make-server-48182530/michelin/sync/:runId', verifyAuth, requirePermission('michelin:import'), async (c) => {
+  console.log('📍 GET /michelin/sync/:runId - Start');
+  const runId = c.req.param('runId');
+  const type = c.req.query('type');
+  const offset = Math.max(0, parseInt(c.req.query('offset') || '0') || 0);
+  const limit = Math.min(Math.max(1, parseInt(c.req.query('limit') || '50') || 50), 500);
+
+  if (type && !(CHANGE_TYPES as readonly string[]).includes(type)) {
+    return c.json({ error: `type must be one of ${CHANGE_TYPES.join(', ')}` }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const run = await getImportRun(supabase, runId);
+    if (!run) {
+      return c.json({ error: 'Import run not found' }, 404);
+    }
+
+    let query = supabase
+      .from('michelin_import_changes')
+      .select('*', { count: 'exact' })
+      .eq('run_id', runId)
+      .order('position', { ascending: true })
+      .range(offset, offset + limit - 1);
+    if (type) query = query.eq('change_type', type);
+
+    const { data, count, error } = await query;
+    if (error) throw new Error(error.message);
+
+    return c.json({
+      run: formatImportRunForAPI(run),
+      changes: (data || []).map(change => formatImportChangeForAPI(change as ImportChangeRow)),
+      total: count || 0,
+    });
+  } catch (error) {
+    console.error('❌ Error in GET /michelin/sync/:runId:', error);
+    return c.json({ error: 'Failed to fetch import run' }, 500);
+  }
+});
+
+// Apply the next batch of a run (editors only). Call until remaining is 0;
+// an interrupted import resumes from the first unapplied change.
+// Body: { limit?: number }
+app.post('/make-server-48182530/michelin/sync/:runId/apply', verifyAuth, requirePermission('michelin:import'), async (c) => {
+  console.log('📍 POST /michelin/sync/:runId/apply - Start');
+  const userId = c.get('userId');
+  const runId = c.req.param('runId');
+  const body = await c.req.json().catch(() => ({}));
+  const limit = Math.min(Math.max(1, parseInt(body.limit) || DEFAULT_IMPORT_BATCH_SIZE), MAX_IMPORT_BATCH_SIZE);
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const run = await getImportRun(supabase, runId);
+    if (!run) {
+      return c.json({ error: 'Import run not found' }, 404);
+    }
+    if (run.status === 'completed' || run.status === 'discarded') {
+      return c.json({ error: `Import run is already ${run.status}` }, 409);
+    }
+
+    const result = await applyImportBatch(supabase, run, limit, userId);
+
+    console.log(`✅ Michelin import ${runId}: applied ${result.applied}, failed ${result.failed}, ${result.remaining} remaining`);
+    return c.json({
+      run: formatImportRunForAPI(result.run),
+      applied: result.applied,
+      failed: result.failed,
+      remaining: result.remaining,
+    });
+  } catch (error) {
+    console.error('❌ Error in POST /michelin/sync/:runId/apply:', error);
+    return c.json({ error: 'Failed to apply import batch', details: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
+
+// Drop a run that hasn't finished. Changes already applied stay applied.
+app.post('/make-server-48182530/michelin/sync/:runId/discard', verifyAuth, requirePermission('michelin:import'), async (c) => {
+  console.log('📍 POST /michelin/sync/:runId/discard - Start');
+  const runId = c.req.param('runId');
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const run = await getImportRun(supabase, runId);
+    if (!run) {
+      return c.json({ error: 'Import run not found' }, 404);
+    }
+    if (run.status === 'completed' || run.status === 'discarded') {
+      return c.json({ error: `Import run is already ${run.status}` }, 409);
+    }
+
+    const { data, error } = await supabase
+      .from('michelin_import_runs')
+      .update({ status: 'discarded', updated_at: new Date().toISOString() })
+      .eq('id', runId)
+      .select()
       .single();
 
-    if (existingValidation) {
-      // Update existing validation
-      const { error: updateError } = await supabase
-        .from('place_id_validations')
-        .update({
-          validation_status: status,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', existingValidation.id);
+    if (error) throw new Error(error.message);
 
-      if (updateError) {
-        console.error('❌ Error updating validation:', updateError);
-        return c.json({ error: 'Failed to update validation' }, 500);
-      }
+    console.log(`✅ Michelin import ${runId} discarded`);
+    return c.json({ run: formatImportRunForAPI(data as ImportRunRow) });
+  } catch (error) {
+    console.error('❌ Error in POST /michelin/sync/:runId/discard:', error);
+    return c.json({ error: 'Failed to discard import run' }, 500);
+  }
+});
 
-      console.log(`✅ Updated validation for user ${userId}`);
-    } else {
-      // Insert new validation
-      const { error: insertError } = await supabase
-        .from('place_id_validations')
-        .insert({
-          michelin_id: michelinId,
-          suggested_place_id: placeId,
-          user_id: userId,
-          validation_status: status,
-          vote_weight: voteWeight,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        });
+// ============================================
+// JOB ROUTES
+// ============================================
+// Long editor operations run as background jobs (see jobs.tsx). Each slice
+// hands the job on through POST /jobs/:id/continue; GET /jobs/:id restarts
+// a job whose hand-off failed.
+
+// Load a job the caller may manage (job type permission), or an error response
+async function getPermittedJob(c: any): Promise<JobRow | Response> {
+  const jobId = c.req.param('jobId');
+  if (!isUUID(jobId)) {
+    return c.json({ error: 'Invalid job id' }, 400);
+  }
 
-      if (insertError) {
-        console.error('❌ Error inserting validation:', insertError);
-        return c.json({ error: 'Failed to insert validation' }, 500);
-      }
+  const job = await getJob(getSupabaseAdmin(), jobId);
+  if (!job) {
+    return c.json({ error: 'Job not found' }, 404);
+  }
+  if (!hasPermission(await getRequestRole(c), getJobPermission(job.type))) {
+    return c.json({ error: 'Forbidden' }, 403);
+  }
+  return job;
+}
+
+// Start a job: { type, params? }. 409 with the running job if one of that type is unfinished.
+app.post('/make-server-48182530/jobs', verifyAuth, async (c) => {
+  console.log('📍 POST /jobs - Start');
+  const userId = c.get('userId');
+
+  try {
+    const { type, params } = await c.req.json();
+    if (!isJobType(type)) {
+      return c.json({ error: `type must be one of: ${JOB_TYPES.join(', ')}` }, 400);
+    }
+    if (!hasPermission(await getRequestRole(c), getJobPermission(type))) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    const supabase = getSupabaseAdmin();
+    const active = await getActiveJob(supabase, type);
+    if (active) {
+      return c.json({ error: 'A job of this type is already in progress', job: formatJobForAPI(active) }, 409);
+    }
+
+    const job = await createJob(supabase, type, params && typeof params === 'object' ? params : {}, userId);
+    if (!job) {
+      // A concurrent request started one in between
+      const started = await getActiveJob(supabase, type);
+      return c.json({ error: 'A job of this type is already in progress', job: started && formatJobForAPI(started) }, 409);
+    }
+    console.log(`✅ Queued job ${job.id} (${type})`);
+
+    return c.json({ job: formatJobForAPI(await advanceJob(supabase, job)) }, 201);
+  } catch (error) {
+    console.error('❌ Error in POST /jobs:', error);
+    return c.json({ error: 'Failed to start job' }, 500);
+  }
+});
+
+// Recent jobs, newest first: ?type=&active=true
+app.get('/make-server-48182530/jobs', verifyAuth, async (c) => {
+  const type = c.req.query('type');
+  if (type && !isJobType(type)) {
+    return c.json({ error: `type must be one of: ${JOB_TYPES.join(', ')}` }, 400);
+  }
+
+  try {
+    const role = await getRequestRole(c);
+    const types = (type ? [type] : [...JOB_TYPES]).filter(t => hasPermission(role, getJobPermission(t)));
+    if (types.length === 0) {
+      return c.json({ jobs: [] });
+    }
+
+    const supabase = getSupabaseAdmin();
+    let query = supabase
+      .from('jobs')
+      .select('*')
+      .in('type', types)
+      .order('created_at', { ascending: false })
+      .limit(20);
+    if (c.req.query('active') === 'true') query = query.in('state', ACTIVE_JOB_STATES);
+
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+
+    return c.json({ jobs: (data || []).map(job => formatJobForAPI(job as JobRow)) });
+  } catch (error) {
+    console.error('❌ Error in GET /jobs:', error);
+    return c.json({ error: 'Failed to fetch jobs' }, 500);
+  }
+});
+
+// Job status; also restarts a job waiting between slices
+app.get('/make-server-48182530/jobs/:jobId', verifyAuth, async (c) => {
+  try {
+    const job = await getPermittedJob(c);
+    if (job instanceof Response) return job;
+
+    return c.json({ job: formatJobForAPI(await advanceJob(getSupabaseAdmin(), job)) });
+  } catch (error) {
+    console.error('❌ Error in GET /jobs/:jobId:', error);
+    return c.json({ error: 'Failed to fetch job' }, 500);
+  }
+});
 
-      console.log(`✅ Added validation for user ${userId} (weight: ${voteWeight})`);
-    }
+// Run a job's next slice - called by the function itself with the service role key
+app.post('/make-server-48182530/jobs/:jobId/continue', async (c) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!serviceRoleKey || c.req.header('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
 
-    // Count total weighted validations
-    const { data: validations, error: countError } = await supabase
-      .from('place_id_validations')
-      .select('validation_status, vote_weight')
-      .eq('michelin_id', michelinId)
-      .eq('suggested_place_id', placeId);
+  const jobId = c.req.param('jobId');
+  if (!isUUID(jobId)) {
+    return c.json({ error: 'Invalid job id' }, 400);
+  }
 
-    if (countError) {
-      console.error('��� Error counting validations:', countError);
+  try {
+    const supabase = getSupabaseAdmin();
+    const job = await getJob(supabase, jobId);
+    if (!job) {
+      return c.json({ error: 'Job not found' }, 404);
     }
 
-    // Calculate weighted votes
-    let confirmedWeight = 0;
-    let rejectedWeight = 0;
-    let unsureWeight = 0;
-
-    validations?.forEach(v => {
-      const weight = v.vote_weight || 1;
-      if (v.validation_status === 'confirmed') confirmedWeight += weight;
-      else if (v.validation_status === 'rejected') rejectedWeight += weight;
-      else if (v.validation_status === 'unsure') unsureWeight += weight;
-    });
-
-    console.log(`📊 Validation counts: confirmed=${confirmedWeight}, rejected=${rejectedWeight}, unsure=${unsureWeight}`);
+    return c.json({ job: formatJobForAPI(await advanceJob(supabase, job)) });
+  } catch (error) {
+    console.error('❌ Error in POST /jobs/:jobId/continue:', error);
+    return c.json({ error: 'Failed to continue job' }, 500);
+  }
+});
 
-    // Auto-update if 1+ weighted confirmations and confirmations > rejections
-    // (Lowered threshold for testing - can increase to 3 later for production)
-    let autoUpdated = false;
-    if (confirmedWeight >= 1 && confirmedWeight > rejectedWeight) {
-      console.log(`🎯 Auto-updating google_place_id for Michelin restaurant ${michelinId} (${confirmedWeight} weighted confirmations)`);
-      
-      // First, get the Michelin restaurant details
-      const { data: michelinRestaurant, error: michelinFetchError } = await supabase
-        .from('michelin_restaurants')
-        .select('*')
-        .eq('id', michelinId)
-        .single();
-      
-      if (michelinFetchError) {
-        console.error('❌ Error fetching Michelin restaurant:', michelinFetchError);
-        return c.json({ error: 'Failed to fetch Michelin restaurant' }, 500);
-      }
-      
-      // Update michelin_restaurants table with google_place_id
-      const { error: updateError } = await supabase
-        .from('michelin_restaurants')
-        .update({ 
-          google_place_id: placeId,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', michelinId);
+// Cancel a job (it ends as failed; work done so far is kept)
+app.post('/make-server-48182530/jobs/:jobId/cancel', verifyAuth, async (c) => {
+  console.log('📍 POST /jobs/:jobId/cancel - Start');
+  try {
+    const job = await getPermittedJob(c);
+    if (job instanceof Response) return job;
 
-      if (updateError) {
-        console.error('❌ Error auto-updating google_place_id:', updateError);
-      } else {
-        console.log(`✅ Successfully auto-updated google_place_id for Michelin restaurant ${michelinId}`);
-        autoUpdated = true;
-        
-        // Now check if a location already exists with this Google Place ID
-        const { data: existingLocation, error: locationFetchError } = await supabase
-          .from('locations')
-          .select('*')
-          .eq('google_place_id', placeId)
-          .single();
-        
-        if (locationFetchError && locationFetchError.code !== 'PGRST116') {
-          console.error('❌ Error checking for existing location:', locationFetchError);
-        }
-        
-        // Parse Michelin Award to get stars, distinction, and green star
-        const award = michelinRestaurant.Award || '';
-        let michelin_stars: number | null = null;
-        let michelin_distinction: string | null = null;
-        
-        if (award.includes('3 Star')) {
-          michelin_stars = 3;
-        } else if (award.includes('2 Star')) {
-          michelin_stars = 2;
-        } else if (award.includes('1 Star')) {
-          michelin_stars = 1;
-        } else if (award.includes('Bib Gourmand')) {
-          michelin_distinction = 'Bib Gourmand';
-        } else if (award.includes('Selected') || award.includes('Plate')) {
-          michelin_distinction = 'Michelin Plate';
-        }
-        
-        const michelin_green_star = michelinRestaurant.GreenStar === 1 || michelinRestaurant.GreenStar === true;
-        
-        if (existingLocation) {
-          // Update existing location with Michelin data
-          console.log(`📝 Updating existing location ${existingLocation.id} with Michelin data`);
-          const { error: locationUpdateError } = await supabase
-            .from('locations')
-            .update({
-              michelin_id: michelinId,
-              michelin_stars,
-              michelin_distinction,
-              michelin_green_star,
-              michelin_cuisine: michelinRestaurant.Cuisine,
-              michelin_price: michelinRestaurant.Price,
-              michelin_description: michelinRestaurant.Description,
-              michelin_url: michelinRestaurant.Url,
-              michelin_website_url: michelinRestaurant.WebsiteUrl,
-              michelin_phone_number: michelinRestaurant.PhoneNumber,
-              michelin_facilities: michelinRestaurant.FacilitiesAndServices,
-              updated_at: new Date().toISOString(),
-            })
-            .eq('id', existingLocation.id);
-          
-          if (locationUpdateError) {
-            console.error('❌ Error updating location with Michelin data:', locationUpdateError);
-          } else {
-            console.log(`✅ Successfully updated location with Michelin data`);
-          }
-        } else {
-          // Create a new location with Michelin data
-          console.log(`📝 Creating new location for Michelin restaurant ${michelinId}`);
-          const { error: locationInsertError } = await supabase
-            .from('locations')
-            .insert({
-              google_place_id: placeId,
-              michelin_id: michelinId,
-              name: michelinRestaurant.Name,
-              address: michelinRestaurant.Address,
-              lat: michelinRestaurant.Latitude,
-              lng: michelinRestaurant.Longitude,
-              michelin_stars,
-              michelin_distinction,
-              michelin_green_star,
-              michelin_cuisine: michelinRestaurant.Cuisine,
-              michelin_price: michelinRestaurant.Price,
-              michelin_description: michelinRestaurant.Description,
-              michelin_url: michelinRestaurant.Url,
-              michelin_website_url: michelinRestaurant.WebsiteUrl,
-              michelin_phone_number: michelinRestaurant.PhoneNumber,
-              michelin_facilities: michelinRestaurant.FacilitiesAndServices,
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-            });
-          
-          if (locationInsertError) {
-            console.error('❌ Error creating location with Michelin data:', locationInsertError);
-          } else {
-            console.log(`✅ Successfully created location with Michelin data`);
-          }
-        }
-      }
+    const cancelled = await cancelJob(getSupabaseAdmin(), job, c.get('userId'));
+    if (!cancelled) {
+      return c.json({ error: `Job is already ${job.state}` }, 409);
     }
 
-    return c.json({
-      success: true,
-      autoUpdated,
-      validationCounts: {
-        confirmed: confirmedWeight,
-        rejected: rejectedWeight,
-        unsure: unsureWeight,
-      },
-    });
+    console.log(`✅ Cancelled job ${job.id}`);
+    return c.json({ job: formatJobForAPI(cancelled) });
   } catch (error) {
-    console.error('❌ Error in POST /michelin/:michelinId/validate-place:', error);
-    return c.json({ error: 'Failed to validate place' }, 500);
+    console.error('❌ Error in POST /jobs/:jobId/cancel:', error);
+    return c.json({ error: 'Failed to cancel job' }, 500);
   }
 });
 
-// Backfill Michelin data to existing locations (one-time migration endpoint)
-app.post('/make-server-48182530/michelin/backfill-locations', verifyAuth, async (c) => {
-  console.log('📍 POST /michelin/backfill-locations - Start');
-  const userId = c.get('userId');
-  
+// Resume a failed or cancelled job from its checkpoint
+app.post('/make-server-48182530/jobs/:jobId/resume', verifyAuth, async (c) => {
+  console.log('📍 POST /jobs/:jobId/resume - Start');
   try {
+    const job = await getPermittedJob(c);
+    if (job instanceof Response) return job;
+
     const supabase = getSupabaseAdmin();
-    
-    // Check if user is an editor
-    const { data: userData, error: userError } = await supabase
-      .from('user_metadata')
-      .select('role')
-      .eq('user_id', userId)
-      .single();
-    
-    console.log('👤 User check:', { userId, role: userData?.role, error: userError });
-    
-    if (userError) {
-      console.error('❌ Error fetching user role:', userError);
-      return c.json({ error: 'Failed to verify user role', details: userError.message }, 500);
-    }
-    
-    if (userData?.role !== 'editor') {
-      console.log('⛔ User is not an editor:', userData?.role);
-      return c.json({ error: 'Only editors can run this migration' }, 403);
-    }
-    
-    console.log('🔄 Starting Michelin data backfill...');
-    
-    // Get ALL Michelin restaurants (not just those with google_place_id)
-    // The locations table will be the single source of truth with place_id as optional metadata
-    const { data: michelinRestaurants, error: michelinError } = await supabase
-      .from('michelin_restaurants')
-      .select('*');
-    
-    if (michelinError) {
-      console.error('❌ Error fetching Michelin restaurants:', michelinError);
-      return c.json({ 
-        error: 'Failed to fetch Michelin restaurants', 
-        details: michelinError.message,
-        code: michelinError.code 
-      }, 500);
-    }
-    
-    if (!michelinRestaurants || michelinRestaurants.length === 0) {
-      console.log('⚠️ No Michelin restaurants found in database');
-      return c.json({ 
-        success: true, 
-        updated: 0, 
-        created: 0, 
-        errors: 0, 
-        total: 0,
-        message: 'No Michelin restaurants found to backfill'
-      });
+    const active = await getActiveJob(supabase, job.type);
+    if (active && active.id !== job.id) {
+      return c.json({ error: 'A job of this type is already in progress', job: formatJobForAPI(active) }, 409);
     }
-    
-    console.log(`📊 Found ${michelinRestaurants.length} total Michelin restaurants to migrate (Place ID optional)`);
-    
-    let updatedCount = 0;
-    let createdCount = 0;
-    let errorCount = 0;
-    
-    // Process each Michelin restaurant
-    for (const restaurant of michelinRestaurants || []) {
-      try {
-        // Check if location already exists by:
-        // 1. michelin_id (most reliable - direct link)
-        // 2. google_place_id (if available)
-        // 3. coordinates (lat/lng match within ~100m)
-        let existingLocation = null;
-        
-        // First, check by michelin_id
-        if (restaurant.id) {
-          const { data, error } = await supabase
-            .from('locations')
-            .select('*')
-            .eq('michelin_id', restaurant.id)
-            .maybeSingle();
-          
-          if (!error && data) {
-            existingLocation = data;
-          }
-        }
-        
-        // If not found and has google_place_id, check by that
-        if (!existingLocation && restaurant.google_place_id) {
-          const { data, error } = await supabase
-            .from('locations')
-            .select('*')
-            .eq('google_place_id', restaurant.google_place_id)
-            .maybeSingle();
-          
-          if (!error && data) {
-            existingLocation = data;
-          }
-        }
-        
-        // If still not found, check by coordinates (within ~100m)
-        if (!existingLocation && restaurant.Latitude && restaurant.Longitude) {
-          const latRange = 0.001; // ~100m
-          const lngRange = 0.001;
-          
-          const { data, error } = await supabase
-            .from('locations')
-            .select('*')
-            .gte('lat', restaurant.Latitude - latRange)
-            .lte('lat', restaurant.Latitude + latRange)
-            .gte('lng', restaurant.Longitude - lngRange)
-            .lte('lng', restaurant.Longitude + lngRange)
-            .maybeSingle();
-          
-          if (!error && data) {
-            existingLocation = data;
-          }
-        }
-        
-        // Parse Michelin Award
-        const award = restaurant.Award || '';
-        let michelin_stars: number | null = null;
-        let michelin_distinction: string | null = null;
-        
-        if (award.includes('3 Star')) {
-          michelin_stars = 3;
-        } else if (award.includes('2 Star')) {
-          michelin_stars = 2;
-        } else if (award.includes('1 Star')) {
-          michelin_stars = 1;
-        } else if (award.includes('Bib Gourmand')) {
-          michelin_distinction = 'Bib Gourmand';
-        } else if (award.includes('Selected') || award.includes('Plate')) {
-          michelin_distinction = 'Michelin Plate';
-        }
-        
-        const michelin_green_star = restaurant.GreenStar === 1 || restaurant.GreenStar === true;
-        
-        if (existingLocation) {
-          // Update existing location with Michelin data
-          // Also update google_place_id if it became available
-          const updateData: any = {
-            michelin_id: restaurant.id,
-            michelin_stars,
-            michelin_distinction,
-            michelin_green_star,
-            michelin_cuisine: restaurant.Cuisine,
-            michelin_price: restaurant.Price,
-            michelin_description: restaurant.Description,
-            michelin_url: restaurant.Url,
-            michelin_website_url: restaurant.WebsiteUrl,
-            michelin_phone_number: restaurant.PhoneNumber,
-            michelin_facilities: restaurant.FacilitiesAndServices,
-            updated_at: new Date().toISOString(),
-          };
-          
-          // Update google_place_id if it's now available and wasn't before
-          // BUT check if that Place ID already exists in ANOTHER location
-          if (restaurant.google_place_id && !existingLocation.google_place_id) {
-            const { data: placeIdCheck } = await supabase
-              .from('locations')
-              .select('id, name')
-              .eq('google_place_id', restaurant.google_place_id)
-              .neq('id', existingLocation.id) // Exclude current location
-              .maybeSingle();
-            
-            if (placeIdCheck) {
-              console.log(`⚠️ Cannot add Place ID to ${restaurant.Name} - already exists in location: ${placeIdCheck.name}`);
-              // Don't add the google_place_id, but continue with other updates
-            } else {
-              updateData.google_place_id = restaurant.google_place_id;
-            }
-          }
-          
-          const { error: updateError } = await supabase
-            .from('locations')
-            .update(updateData)
-            .eq('id', existingLocation.id);
-          
-          if (updateError) {
-            console.error(`❌ Error updating location ${restaurant.Name}:`, updateError);
-            errorCount++;
-          } else {
-            const placeIdUpdate = updateData.google_place_id 
-              ? ' [Added Place ID]' 
-              : '';
-            console.log(`✅ Updated location: ${restaurant.Name}${placeIdUpdate}`);
-            updatedCount++;
-          }
-        } else {
-          // Create new location (google_place_id can be null)
-          // ⚠️ IMPORTANT: Skip if google_place_id already exists elsewhere
-          if (restaurant.google_place_id) {
-            const { data: placeIdCheck } = await supabase
-              .from('locations')
-              .select('id, name')
-              .eq('google_place_id', restaurant.google_place_id)
-              .maybeSingle();
-            
-            if (placeIdCheck) {
-              console.log(`⚠️ Skipping ${restaurant.Name} - Place ID already exists in location: ${placeIdCheck.name}`);
-              errorCount++; // Count as handled duplicate
-              continue; // Skip this restaurant
-            }
-          }
-          
-          const { error: insertError } = await supabase
-            .from('locations')
-            .insert({
-              google_place_id: restaurant.google_place_id || null,
-              michelin_id: restaurant.id,
-              name: restaurant.Name,
-              address: restaurant.Address,
-              lat: restaurant.Latitude,
-              lng: restaurant.Longitude,
-              michelin_stars,
-              michelin_distinction,
-              michelin_green_star,
-              michelin_cuisine: restaurant.Cuisine,
-              michelin_price: restaurant.Price,
-              michelin_description: restaurant.Description,
-              michelin_url: restaurant.Url,
-              michelin_website_url: restaurant.WebsiteUrl,
-              michelin_phone_number: restaurant.PhoneNumber,
-              michelin_facilities: restaurant.FacilitiesAndServices,
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-            });
-          
-          if (insertError) {
-            console.error(`❌ Error creating location ${restaurant.Name}:`, insertError);
-            errorCount++;
-          } else {
-            const placeIdStatus = restaurant.google_place_id ? '✓ Place ID' : '⚠️ No Place ID';
-            console.log(`✅ Created location: ${restaurant.Name} [${placeIdStatus}]`);
-            createdCount++;
-          }
-        }
-      } catch (err) {
-        console.error(`❌ Error processing ${restaurant.Name}:`, err);
-        errorCount++;
+
+    const resumed = await resumeJob(supabase, job);
+    if (!resumed) {
+      const started = await getActiveJob(supabase, job.type);
+      if (started) {
+        return c.json({ error: 'A job of this type is already in progress', job: formatJobForAPI(started) }, 409);
       }
+      return c.json({ error: `Only failed jobs can be resumed (job is ${job.state})` }, 409);
     }
-    
-    console.log(`✅ Backfill complete: ${updatedCount} updated, ${createdCount} created, ${errorCount} errors`);
-    
-    return c.json({
-      success: true,
-      updated: updatedCount,
-      created: createdCount,
-      errors: errorCount,
-      total: michelinRestaurants?.length || 0,
-    });
+
+    return c.json({ job: formatJobForAPI(await advanceJob(supabase, resumed)) });
   } catch (error) {
-    console.error('❌ Error in POST /michelin/backfill-locations:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    const errorStack = error instanceof Error ? error.stack : '';
-    console.error('❌ Error details:', { message: errorMessage, stack: errorStack });
-    return c.json({ 
-      error: 'Failed to backfill Michelin data', 
-      details: errorMessage 
-    }, 500);
+    console.error('❌ Error in POST /jobs/:jobId/resume:', error);
+    return c.json({ error: 'Failed to resume job' }, 500);
   }
 });
 
@@ -2399,7 +4337,7 @@ app.post('/make-server-48182530/michelin/backfill-locations', verifyAuth, async
 // ============================================
 
 // Sign up
-app.post('/make-server-48182530/signup', async (c) => {
+app.post('/make-server-48182530/signup', rateLimit('signup'), async (c) => {
   console.log('📍 POST /signup - Start');
   const { email, password, name } = await c.req.json();
 
@@ -2461,7 +4399,8 @@ app.post('/make-server-48182530/create-oauth-user', verifyAuth, async (c) => {
   console.log('📍 POST /create-oauth-user - Start');
   const userId = c.get('userId');
   const userEmail = c.get('userEmail');
-  const { name, role } = await c.req.json();
+  // New profiles always start as 'user' - roles are only granted by admins
+  const { name } = await c.req.json();
 
   try {
     const supabase = getSupabaseAdmin();
@@ -2494,7 +4433,7 @@ app.post('/make-server-48182530/create-oauth-user', verifyAuth, async (c) => {
         user_id: userId,
         email: userEmail,
         name: name || userEmail?.split('@')[0] || 'User',
-        role: role || 'user',
+        role: 'user',
       });
 
     if (insertError) {
@@ -2509,7 +4448,7 @@ app.post('/make-server-48182530/create-oauth-user', verifyAuth, async (c) => {
         id: userId,
         email: userEmail,
         name: name || userEmail?.split('@')[0] || 'User',
-        role: role || 'user',
+        role: 'user',
       }
     });
   } catch (error) {
@@ -2523,7 +4462,7 @@ app.post('/make-server-48182530/create-oauth-user', verifyAuth, async (c) => {
 // ============================================
 
 // Get all users (admin/editors)
-app.get('/make-server-48182530/admin/users', verifyAuth, verifyEditor, async (c) => {
+app.get('/make-server-48182530/admin/users', verifyAuth, requirePermission('users:read'), async (c) => {
   console.log('📍 GET /admin/users - Start');
 
   try {
@@ -2547,6 +4486,7 @@ app.get('/make-server-48182530/admin/users', verifyAuth, verifyEditor, async (c)
       email: u.email,
       name: u.name,
       role: u.role,
+      permissions: getEffectivePermissions(u.role),
       createdAt: u.created_at,
       updatedAt: u.updated_at,
     })) || [];
@@ -2558,14 +4498,68 @@ app.get('/make-server-48182530/admin/users', verifyAuth, verifyEditor, async (c)
   }
 });
 
-// Update user role by admin
-app.put('/make-server-48182530/admin/users/:userId/role', verifyAuth, async (c) => {
+// Role hierarchy and effective permissions (for the admin panel)
+app.get('/make-server-48182530/admin/roles', verifyAuth, requirePermission('users:read'), (c) => {
+  return c.json(getRoleMatrix());
+});
+
+// Platform statistics for the admin stats panel (editors)
+// ?days=<1-365> sets the length of the daily time series (default 30)
+app.get('/make-server-48182530/admin/stats', verifyAuth, requirePermission('metrics:read'), async (c) => {
+  console.log('📍 GET /admin/stats - Start');
+  const days = parseStatsDays(c.req.query('days'));
+  if (typeof days === 'string') {
+    return c.json({ error: days }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const [stats, timeSeries, breakdowns] = await Promise.all([
+      getAdminCounters(supabase),
+      getDailySeries(supabase, days),
+      getLocationBreakdowns(supabase),
+    ]);
+
+    console.log(`✅ Admin stats: ${stats.totalUsers} users, ${stats.totalLocations} locations`);
+    return c.json({ stats, timeSeries, breakdowns, days });
+  } catch (error) {
+    console.error('❌ Error in GET /admin/stats:', error);
+    return c.json({ error: 'Failed to fetch statistics' }, 500);
+  }
+});
+
+// Google API calls and estimated cost (admins only): ?days=<1-90> (default 30),
+// with today's spend against the daily budget
+app.get('/make-server-48182530/admin/google-usage', verifyAuth, requirePermission('usage:read'), async (c) => {
+  console.log('📍 GET /admin/google-usage - Start');
+  const days = Number(c.req.query('days') || 30);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_REPORT_DAYS) {
+    return c.json({ error: `days must be between 1 and ${MAX_REPORT_DAYS}` }, 400);
+  }
+
+  try {
+    const report = await getGoogleUsageReport(getSupabaseAdmin(), days);
+    console.log(`✅ Google usage: $${report.budget.spentUsd} of $${report.budget.budgetUsd} today (${report.budget.level})`);
+    return c.json(report);
+  } catch (error: any) {
+    console.error('❌ Error in GET /admin/google-usage:', error);
+    return c.json({ error: 'Failed to fetch Google API usage', details: error.message }, 500);
+  }
+});
+
+// Update user role (admins only)
+app.put('/make-server-48182530/admin/users/:userId/role', verifyAuth, requirePermission('users:manage'), async (c) => {
   console.log('📍 PUT /admin/users/:userId/role - Start');
   const targetUserId = c.req.param('userId');
   const { role } = await c.req.json();
 
-  if (!role || !['user', 'editor'].includes(role)) {
-    return c.json({ error: 'Invalid role. Must be "user" or "editor"' }, 400);
+  if (!isRole(role)) {
+    return c.json({ error: `Invalid role. Must be one of: ${ROLES.join(', ')}` }, 400);
+  }
+
+  // Keeps at least one admin around - another admin has to demote you
+  if (targetUserId === c.get('userId')) {
+    return c.json({ error: 'You cannot change your own role' }, 400);
   }
 
   try {
@@ -2587,7 +4581,7 @@ app.put('/make-server-48182530/admin/users/:userId/role', verifyAuth, async (c)
       return c.json({ error: 'Failed to update user role' }, 500);
     }
 
-    console.log('✅ User role updated:', targetUserId, 'to', role);
+    console.log('✅ User role updated:', targetUserId, 'to', role, 'by', c.get('userId'));
     
     return c.json({ 
       user: {
@@ -2595,6 +4589,7 @@ app.put('/make-server-48182530/admin/users/:userId/role', verifyAuth, async (c)
         email: updatedUser.email,
         name: updatedUser.name,
         role: updatedUser.role,
+        permissions: getEffectivePermissions(updatedUser.role),
         createdAt: updatedUser.created_at,
         updatedAt: updatedUser.updated_at,
       }
@@ -2605,8 +4600,8 @@ app.put('/make-server-48182530/admin/users/:userId/role', verifyAuth, async (c)
   }
 });
 
-// Seed database with sample data
-app.post('/make-server-48182530/seed', async (c) => {
+// Seed database with sample data (editors only)
+app.post('/make-server-48182530/seed', verifyAuth, requirePermission('locations:write'), rateLimit('seed'), async (c) => {
   console.log('📍 POST /seed - Start');
   
   try {
@@ -2671,15 +4666,26 @@ app.post('/make-server-48182530/seed', async (c) => {
 // ============================================
 
 // Get performance metrics and crash logs (admin/editor only)
-app.get('/make-server-48182530/metrics', verifyAuth, verifyEditor, async (c) => {
+// `metrics` is this instance's live snapshot; `history` covers every
+// instance for ?from=&to= (default last hour), optionally for one ?route=
+app.get('/make-server-48182530/metrics', verifyAuth, requirePermission('metrics:read'), async (c) => {
   console.log('📍 GET /metrics - Start');
+  const range = parseMetricsRange(c.req.query('from'), c.req.query('to'));
+  if (typeof range === 'string') {
+    return c.json({ error: range }, 400);
+  }
   
   try {
     const summary = getMetricsSummary();
+    const history = await queryMetrics(getSupabaseAdmin(), {
+      ...range,
+      route: c.req.query('route') || undefined,
+    });
     
     return c.json({
       success: true,
       metrics: summary,
+      history,
       timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
@@ -2697,6 +4703,240 @@ app.get('/make-server-48182530/metrics', verifyAuth, verifyEditor, async (c) =>
   }
 });
 
+// Client telemetry batch (public). Sent with sendBeacon as text/plain so the
+// browser skips the CORS preflight - the body is parsed as JSON either way.
+app.post('/make-server-48182530/telemetry', rateLimit('telemetry'), async (c) => {
+  let body: any;
+  try {
+    body = JSON.parse(await c.req.text());
+  } catch {
+    return c.json({ error: 'Body must be JSON' }, 400);
+  }
+
+  const batch = parseTelemetryBatch(body);
+  if (typeof batch === 'string') {
+    return c.json({ error: batch }, 400);
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    await recordTelemetryBatch(supabase, batch);
+    runInBackground(
+      purgeExpiredTelemetry(supabase).catch(error => console.error('⚠️ Failed to purge telemetry:', error))
+    );
+
+    return c.json({ accepted: { metrics: batch.metrics.length, errors: batch.errors.length } }, 202);
+  } catch (error: any) {
+    console.error('❌ Error in POST /telemetry:', error);
+    return c.json({ error: 'Failed to record telemetry' }, 500);
+  }
+});
+
+// Field data across sessions (editors only): ?from=&to= (default last day),
+// optionally narrowed by ?browser= and ?appVersion=
+app.get('/make-server-48182530/telemetry/summary', verifyAuth, requirePermission('metrics:read'), async (c) => {
+  console.log('📍 GET /telemetry/summary - Start');
+  const range = parseMetricsRange(c.req.query('from'), c.req.query('to'), {
+    defaultMs: 24 * 60 * 60 * 1000,
+    maxMs: getTelemetryConfig().retentionDays * 24 * 60 * 60 * 1000,
+  });
+  if (typeof range === 'string') {
+    return c.json({ error: range }, 400);
+  }
+
+  try {
+    const summary = await getTelemetrySummary(getSupabaseAdmin(), {
+      ...range,
+      browser: c.req.query('browser') || undefined,
+      appVersion: c.req.query('appVersion') || undefined,
+    });
+    return c.json(summary);
+  } catch (error: any) {
+    console.error('❌ Error in GET /telemetry/summary:', error);
+    return c.json({ error: 'Failed to load telemetry', details: error.message }, 500);
+  }
+});
+
+// ============================================
+// ALERTS
+// ============================================
+
+// Alert rules with their latest evaluated value (editors only)
+app.get('/make-server-48182530/alert-rules', verifyAuth, requirePermission('metrics:read'), async (c) => {
+  try {
+    const rules = await getAlertRules(getSupabaseAdmin());
+    return c.json({ rules: rules.map(formatAlertRuleForAPI) });
+  } catch (error) {
+    console.error('❌ Error in GET /alert-rules:', error);
+    return c.json({ error: 'Failed to fetch alert rules' }, 500);
+  }
+});
+
+// Create a rule: { name, kind?, target?, metric, comparator?, threshold, windowMinutes?, minRequests?, channels?, enabled? }
+app.post('/make-server-48182530/alert-rules', verifyAuth, requirePermission('alerts:configure'), async (c) => {
+  console.log('📍 POST /alert-rules - Start');
+  try {
+    const input = parseAlertRuleInput(await c.req.json());
+    if (typeof input === 'string') {
+      return c.json({ error: input }, 400);
+    }
+
+    const rule = await createAlertRule(getSupabaseAdmin(), input, c.get('userId'));
+    console.log(`✅ Created alert rule ${rule.name}`);
+    return c.json({ rule: formatAlertRuleForAPI(rule) }, 201);
+  } catch (error) {
+    console.error('❌ Error in POST /alert-rules:', error);
+    return c.json({ error: 'Failed to create alert rule' }, 500);
+  }
+});
+
+// Update a rule; fields left out keep their values
+app.put('/make-server-48182530/alert-rules/:ruleId', verifyAuth, requirePermission('alerts:configure'), async (c) => {
+  console.log('📍 PUT /alert-rules/:ruleId - Start');
+  if (!isUUID(c.req.param('ruleId'))) {
+    return c.json({ error: 'Invalid alert rule id' }, 400);
+  }
+  try {
+    const supabase = getSupabaseAdmin();
+    const existing = await getAlertRule(supabase, c.req.param('ruleId'));
+    if (!existing) {
+      return c.json({ error: 'Alert rule not found' }, 404);
+    }
+
+    const input = parseAlertRuleInput(await c.req.json(), existing);
+    if (typeof input === 'string') {
+      return c.json({ error: input }, 400);
+    }
+
+    const rule = await updateAlertRule(supabase, existing.id, input);
+    return c.json({ rule: formatAlertRuleForAPI(rule) });
+  } catch (error) {
+    console.error('❌ Error in PUT /alert-rules/:ruleId:', error);
+    return c.json({ error: 'Failed to update alert rule' }, 500);
+  }
+});
+
+// Delete a rule; its past alerts stay in the history
+app.delete('/make-server-48182530/alert-rules/:ruleId', verifyAuth, requirePermission('alerts:configure'), async (c) => {
+  console.log('📍 DELETE /alert-rules/:ruleId - Start');
+  if (!isUUID(c.req.param('ruleId'))) {
+    return c.json({ error: 'Invalid alert rule id' }, 400);
+  }
+  try {
+    const supabase = getSupabaseAdmin();
+    const existing = await getAlertRule(supabase, c.req.param('ruleId'));
+    if (!existing) {
+      return c.json({ error: 'Alert rule not found' }, 404);
+    }
+
+    await deleteAlertRule(supabase, existing.id, c.get('userId'));
+    console.log(`✅ Deleted alert rule ${existing.name}`);
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error in DELETE /alert-rules/:ruleId:', error);
+    return c.json({ error: 'Failed to delete alert rule' }, 500);
+  }
+});
+
+// Evaluate every rule now instead of waiting for the next request
+app.post('/make-server-48182530/alerts/evaluate', verifyAuth, requirePermission('alerts:configure'), async (c) => {
+  console.log('📍 POST /alerts/evaluate - Start');
+  try {
+    const supabase = getSupabaseAdmin();
+    await flushMetrics(supabase);
+    const result = await evaluateAlertRules(supabase);
+    return c.json(result);
+  } catch (error) {
+    console.error('❌ Error in POST /alerts/evaluate:', error);
+    return c.json({ error: 'Failed to evaluate alert rules' }, 500);
+  }
+});
+
+// Alerts, newest first: ?status=active|open|acknowledged|resolved
+app.get('/make-server-48182530/alerts', verifyAuth, requirePermission('metrics:read'), async (c) => {
+  const status = c.req.query('status');
+  if (status && status !== 'active' && !isAlertStatus(status)) {
+    return c.json({ error: `status must be one of: active, ${ALERT_STATUSES.join(', ')}` }, 400);
+  }
+
+  try {
+    const alerts = await listAlerts(getSupabaseAdmin(), {
+      status: status as AlertStatus | 'active' | undefined,
+      limit: Number(c.req.query('limit')) || undefined,
+    });
+    return c.json({ alerts: alerts.map(formatAlertForAPI) });
+  } catch (error) {
+    console.error('❌ Error in GET /alerts:', error);
+    return c.json({ error: 'Failed to fetch alerts' }, 500);
+  }
+});
+
+// One alert with its history of transitions and notifications
+app.get('/make-server-48182530/alerts/:alertId', verifyAuth, requirePermission('metrics:read'), async (c) => {
+  if (!isUUID(c.req.param('alertId'))) {
+    return c.json({ error: 'Invalid alert id' }, 400);
+  }
+  try {
+    const supabase = getSupabaseAdmin();
+    const alert = await getAlert(supabase, c.req.param('alertId'));
+    if (!alert) {
+      return c.json({ error: 'Alert not found' }, 404);
+    }
+
+    const events = await getAlertEvents(supabase, alert.id);
+    return c.json({ alert: formatAlertForAPI(alert), events: events.map(formatAlertEventForAPI) });
+  } catch (error) {
+    console.error('❌ Error in GET /alerts/:alertId:', error);
+    return c.json({ error: 'Failed to fetch alert' }, 500);
+  }
+});
+
+app.post('/make-server-48182530/alerts/:alertId/acknowledge', verifyAuth, requirePermission('alerts:respond'), async (c) => {
+  console.log('📍 POST /alerts/:alertId/acknowledge - Start');
+  if (!isUUID(c.req.param('alertId'))) {
+    return c.json({ error: 'Invalid alert id' }, 400);
+  }
+  try {
+    const supabase = getSupabaseAdmin();
+    const alert = await getAlert(supabase, c.req.param('alertId'));
+    if (!alert) {
+      return c.json({ error: 'Alert not found' }, 404);
+    }
+
+    const acknowledged = await acknowledgeAlert(supabase, alert, c.get('userId'));
+    if (!acknowledged) {
+      return c.json({ error: `Alert is already ${alert.status}` }, 409);
+    }
+    return c.json({ alert: formatAlertForAPI(acknowledged) });
+  } catch (error) {
+    console.error('❌ Error in POST /alerts/:alertId/acknowledge:', error);
+    return c.json({ error: 'Failed to acknowledge alert' }, 500);
+  }
+});
+
+app.post('/make-server-48182530/alerts/:alertId/resolve', verifyAuth, requirePermission('alerts:respond'), async (c) => {
+  console.log('📍 POST /alerts/:alertId/resolve - Start');
+  if (!isUUID(c.req.param('alertId'))) {
+    return c.json({ error: 'Invalid alert id' }, 400);
+  }
+  try {
+    const supabase = getSupabaseAdmin();
+    const alert = await getAlert(supabase, c.req.param('alertId'));
+    if (!alert) {
+      return c.json({ error: 'Alert not found' }, 404);
+    }
+
+    const resolved = await resolveAlert(supabase, alert, c.get('userId'));
+    if (!resolved) {
+      return c.json({ error: 'Alert is already resolved' }, 409);
+    }
+    return c.json({ alert: formatAlertForAPI(resolved) });
+  } catch (error) {
+    console.error('❌ Error in POST /alerts/:alertId/resolve:', error);
+    return c.json({ error: 'Failed to resolve alert' }, 500);
+  }
+});
+
 // Health check endpoint (public)
 app.get('/make-server-48182530/health', (c) => {
   return c.json({
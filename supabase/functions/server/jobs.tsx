@@ -0,0 +1,473 @@
+/**
+ * Background Jobs
+ * Long editor operations (Place ID discovery, Michelin backfill) run as
+ * persisted jobs instead of inside one HTTP request or a browser loop. A job
+ * advances in steps; each step saves its progress and checkpoint, so work
+ * survives timeouts, closed tabs and restarts.
+ *
+ * A worker claims a job with a short lease and runs steps for up to
+ * SLICE_MS, then leaves it 'waiting' and hands it to a fresh worker through
+ * POST /jobs/:id/continue - a new request gets its own time limit, so the job
+ * keeps going with nobody watching. Should that hand-off fail, the next
+ * GET /jobs/:id claims the job instead, as does any poll that finds an
+ * expired lease.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { backfillMichelinRestaurant } from './michelin.tsx';
+import { findGoogleMatches } from './place_matcher.tsx';
+import { assertGoogleBudget } from './google_usage.tsx';
+import { getBlacklistedPlaceIds } from './place_consensus.tsx';
+import { runInBackground } from './helpers.tsx';
+import type { Permission } from './roles.tsx';
+
+export const JOB_STATES = ['queued', 'running', 'waiting', 'failed', 'done'] as const;
+export const JOB_TYPES = ['michelin-place-discovery', 'michelin-backfill'] as const;
+
+export type JobState = typeof JOB_STATES[number];
+export type JobType = typeof JOB_TYPES[number];
+
+// Jobs in these states still have work left ('waiting' is between slices)
+export const ACTIVE_JOB_STATES: JobState[] = ['queued', 'running', 'waiting'];
+
+const SLICE_MS = 45 * 1000;
+const LEASE_MS = 90 * 1000;
+const MAX_LOG_ENTRIES = 200;
+
+export interface JobLogEntry {
+  at: string;
+  level: 'info' | 'warn' | 'error';
+  message: string;
+}
+
+export interface JobRow {
+  id: string;
+  type: JobType;
+  state: JobState;
+  params: Record<string, unknown>;
+  progress_total: number;
+  progress_done: number;
+  counters: Record<string, number>;
+  checkpoint: Record<string, unknown> | null;
+  logs: JobLogEntry[];
+  error: string | null;
+  lease_id: string | null;
+  lease_expires_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+interface StepResult {
+  processed: number;
+  counters: Record<string, number>; // Added to the job's counters
+  checkpoint: Record<string, unknown>;
+  done: boolean;
+  logs?: Omit<JobLogEntry, 'at'>[];
+}
+
+interface JobHandler {
+  permission: Permission;
+  countTotal(supabase: SupabaseClient): Promise<number>;
+  runStep(supabase: SupabaseClient, job: JobRow): Promise<StepResult>;
+}
+
+const DISCOVERY_BATCH_SIZE = 10;
+const BACKFILL_BATCH_SIZE = 100;
+
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  // Link Michelin restaurants to Google places (see place_matcher.tsx).
+  // Keyset pagination on id: linked rows drop out of the filter, so an
+  // offset would skip restaurants.
+  'michelin-place-discovery': {
+    permission: 'places:discover',
+    async countTotal(supabase) {
+      const { count, error } = await supabase
+        .from('michelin_restaurants')
+        .select('*', { count: 'exact', head: true })
+        .is('google_place_id', null);
+      if (error) throw new Error(error.message);
+      return count || 0;
+    },
+    async runStep(supabase, job) {
+      const apiKey = Deno.env.get('GOOGLE_MAPS_API_KEY');
+      if (!apiKey) throw new Error('Google Maps API key not configured');
+      // With the daily budget spent the job fails; resume it the next day
+      await assertGoogleBudget(supabase);
+
+      const lastId = Number(job.checkpoint?.lastId || 0);
+      const { data: restaurants, error } = await supabase
+        .from('michelin_restaurants')
+        .select('*')
+        .is('google_place_id', null)
+        .gt('id', lastId)
+        .order('id', { ascending: true })
+        .limit(DISCOVERY_BATCH_SIZE);
+      if (error) throw new Error(error.message);
+
+      const counters = { discovered: 0, needsReview: 0, unmatched: 0, errors: 0 };
+      const logs: StepResult['logs'] = [];
+      const usage = { route: `job ${job.type}`, userId: job.created_by };
+
+      for (const restaurant of restaurants || []) {
+        try {
+          const blacklisted = await getBlacklistedPlaceIds(supabase, restaurant.id);
+          const [best] = (await findGoogleMatches(apiKey, restaurant, usage))
+            .filter(match => !blacklisted.has(match.candidate.place.id));
+
+          if (best?.decision === 'auto') {
+            const { error: updateError } = await supabase
+              .from('michelin_restaurants')
+              .update({ google_place_id: best.candidate.place.id })
+              .eq('id', restaurant.id);
+            if (updateError) throw new Error(updateError.message);
+            counters.discovered++;
+          } else if (best?.decision === 'review') {
+            // Left unlinked - suggest-place offers it for crowd validation
+            counters.needsReview++;
+          } else {
+            counters.unmatched++;
+          }
+        } catch (err) {
+          counters.errors++;
+          logs.push({ level: 'warn', message: `${restaurant.Name}: ${err instanceof Error ? err.message : err}` });
+        }
+      }
+
+      const rows = restaurants || [];
+      return {
+        processed: rows.length,
+        counters,
+        checkpoint: { lastId: rows.length > 0 ? rows[rows.length - 1].id : lastId },
+        done: rows.length < DISCOVERY_BATCH_SIZE,
+        logs,
+      };
+    },
+  },
+
+  // Copy every Michelin restaurant onto the locations table
+  'michelin-backfill': {
+    permission: 'michelin:import',
+    async countTotal(supabase) {
+      const { count, error } = await supabase
+        .from('michelin_restaurants')
+        .select('*', { count: 'exact', head: true });
+      if (error) throw new Error(error.message);
+      return count || 0;
+    },
+    async runStep(supabase, job) {
+      const lastId = Number(job.checkpoint?.lastId || 0);
+      const { data: restaurants, error } = await supabase
+        .from('michelin_restaurants')
+        .select('*')
+        .gt('id', lastId)
+        .order('id', { ascending: true })
+        .limit(BACKFILL_BATCH_SIZE);
+      if (error) throw new Error(error.message);
+
+      const counters = { updated: 0, created: 0, skipped: 0, errors: 0 };
+      const logs: StepResult['logs'] = [];
+
+      for (const restaurant of restaurants || []) {
+        try {
+          counters[await backfillMichelinRestaurant(supabase, restaurant)]++;
+        } catch (err) {
+          counters.errors++;
+          logs.push({ level: 'warn', message: `${restaurant.Name}: ${err instanceof Error ? err.message : err}` });
+        }
+      }
+
+      const rows = restaurants || [];
+      return {
+        processed: rows.length,
+        counters,
+        checkpoint: { lastId: rows.length > 0 ? rows[rows.length - 1].id : lastId },
+        done: rows.length < BACKFILL_BATCH_SIZE,
+        logs,
+      };
+    },
+  },
+};
+
+export function isJobType(value: unknown): value is JobType {
+  return typeof value === 'string' && (JOB_TYPES as readonly string[]).includes(value);
+}
+
+export function getJobPermission(type: JobType): Permission {
+  return JOB_HANDLERS[type].permission;
+}
+
+function logEntry(level: JobLogEntry['level'], message: string): JobLogEntry {
+  return { at: new Date().toISOString(), level, message };
+}
+
+function appendLogs(logs: JobLogEntry[], entries: JobLogEntry[]): JobLogEntry[] {
+  return [...(logs || []), ...entries].slice(-MAX_LOG_ENTRIES);
+}
+
+export async function getJob(supabase: SupabaseClient, jobId: string): Promise<JobRow | null> {
+  const { data, error } = await supabase.from('jobs').select('*').eq('id', jobId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return data as JobRow | null;
+}
+
+/**
+ * The unfinished job of a type, if any - only one runs at a time
+ */
+export async function getActiveJob(supabase: SupabaseClient, type: JobType): Promise<JobRow | null> {
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('*')
+    .eq('type', type)
+    .in('state', ACTIVE_JOB_STATES)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data as JobRow | null;
+}
+
+/**
+ * Queue a job. Null when another job of the type is already unfinished.
+ */
+export async function createJob(
+  supabase: SupabaseClient,
+  type: JobType,
+  params: Record<string, unknown>,
+  userId: string
+): Promise<JobRow | null> {
+  const total = await JOB_HANDLERS[type].countTotal(supabase);
+
+  const { data, error } = await supabase
+    .from('jobs')
+    .insert({
+      type,
+      state: 'queued',
+      params,
+      progress_total: total,
+      created_by: userId,
+      logs: [logEntry('info', `Queued (${total.toLocaleString()} items)`)],
+    })
+    .select('*')
+    .single();
+
+  // Another request queued one first (idx_jobs_one_active_per_type)
+  if (error?.code === '23505') return null;
+  if (error) throw new Error(error.message);
+  return data as JobRow;
+}
+
+/**
+ * Take the job for this worker: queued and waiting jobs, and running jobs
+ * whose worker stopped renewing its lease. Null when someone else has it.
+ */
+async function claimJob(supabase: SupabaseClient, job: JobRow): Promise<{ job: JobRow; leaseId: string } | null> {
+  const now = new Date();
+  const leaseId = crypto.randomUUID();
+
+  const { data, error } = await supabase
+    .from('jobs')
+    .update({
+      state: 'running',
+      lease_id: leaseId,
+      lease_expires_at: new Date(now.getTime() + LEASE_MS).toISOString(),
+      started_at: job.started_at || now.toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq('id', job.id)
+    .or(`state.in.(queued,waiting),and(state.eq.running,lease_expires_at.lt.${now.toISOString()})`)
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ? { job: data as JobRow, leaseId } : null;
+}
+
+/**
+ * Update the job only while this worker still holds it. A cancel (or a
+ * lease taken over by another worker) makes this return null.
+ */
+async function updateLeasedJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  leaseId: string,
+  changes: Partial<JobRow>
+): Promise<JobRow | null> {
+  const { data, error } = await supabase
+    .from('jobs')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('lease_id', leaseId)
+    .eq('state', 'running')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data as JobRow | null;
+}
+
+/**
+ * Run steps until the job finishes or the slice is used up
+ */
+async function runJobSlice(supabase: SupabaseClient, claimed: JobRow, leaseId: string): Promise<void> {
+  const handler = JOB_HANDLERS[claimed.type];
+  const sliceStart = Date.now();
+  let job = claimed;
+
+  try {
+    while (Date.now() - sliceStart < SLICE_MS) {
+      const step = await handler.runStep(supabase, job);
+
+      const counters = { ...job.counters };
+      Object.entries(step.counters).forEach(([key, value]) => {
+        counters[key] = (counters[key] || 0) + value;
+      });
+
+      const entries = (step.logs || []).map(entry => logEntry(entry.level, entry.message));
+      if (step.done) entries.push(logEntry('info', 'Finished'));
+
+      const updated = await updateLeasedJob(supabase, job.id, leaseId, {
+        progress_done: job.progress_done + step.processed,
+        // Items added since the job was queued would otherwise overflow the bar
+        progress_total: Math.max(job.progress_total, job.progress_done + step.processed),
+        counters,
+        checkpoint: step.checkpoint,
+        logs: appendLogs(job.logs, entries),
+        lease_expires_at: new Date(Date.now() + LEASE_MS).toISOString(),
+        ...(step.done ? { state: 'done' as JobState, finished_at: new Date().toISOString(), lease_id: null, lease_expires_at: null } : {}),
+      });
+
+      if (!updated) {
+        console.log(`⏹️ Job ${job.id} stopped (cancelled or taken over)`);
+        return;
+      }
+      job = updated;
+      if (step.done) {
+        console.log(`✅ Job ${job.id} (${job.type}) done`);
+        return;
+      }
+    }
+
+    // Checkpoint saved - release the job and hand it to the next worker
+    const released = await updateLeasedJob(supabase, job.id, leaseId, { state: 'waiting', lease_id: null, lease_expires_at: null });
+    if (!released) return;
+    console.log(`⏭️ Job ${job.id} waiting at ${job.progress_done}/${job.progress_total}`);
+    await chainNextSlice(job.id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Job ${job.id} failed:`, error);
+    await updateLeasedJob(supabase, job.id, leaseId, {
+      state: 'failed',
+      error: message,
+      logs: appendLogs(job.logs, [logEntry('error', message)]),
+      lease_id: null,
+      lease_expires_at: null,
+    }).catch(err => console.error(`❌ Failed to record failure of job ${job.id}:`, err));
+  }
+}
+
+/**
+ * Ask this function to run the job's next slice in a new request. On failure
+ * the job stays 'waiting' for the next poll.
+ */
+async function chainNextSlice(jobId: string): Promise<void> {
+  try {
+    const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/make-server-48182530/jobs/${jobId}/continue`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}` },
+    });
+    if (!response.ok) {
+      console.error(`⚠️ Job ${jobId} hand-off refused (${response.status}) - waiting for the next poll`);
+    }
+  } catch (error) {
+    console.error(`⚠️ Job ${jobId} hand-off failed - waiting for the next poll:`, error);
+  }
+}
+
+/**
+ * Start a slice in the background if the job is waiting for a worker.
+ * Returns the job as it stands after the claim attempt.
+ */
+export async function advanceJob(supabase: SupabaseClient, job: JobRow): Promise<JobRow> {
+  const waiting = job.state === 'queued' || job.state === 'waiting' ||
+    (job.state === 'running' && (!job.lease_expires_at || new Date(job.lease_expires_at) < new Date()));
+  if (!waiting) return job;
+
+  const claim = await claimJob(supabase, job);
+  if (!claim) return job;
+
+  runInBackground(runJobSlice(supabase, claim.job, claim.leaseId));
+  return claim.job;
+}
+
+/**
+ * Stop a job for good. A worker mid-step notices on its next save.
+ */
+export async function cancelJob(supabase: SupabaseClient, job: JobRow, userId: string): Promise<JobRow | null> {
+  const { data, error } = await supabase
+    .from('jobs')
+    .update({
+      state: 'failed',
+      error: 'Cancelled',
+      logs: appendLogs(job.logs, [logEntry('warn', `Cancelled by ${userId}`)]),
+      lease_id: null,
+      lease_expires_at: null,
+      finished_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .in('state', ACTIVE_JOB_STATES)
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data as JobRow | null;
+}
+
+/**
+ * Queue a failed job again; it continues from its checkpoint. Null when it
+ * isn't failed, or another job of the type is unfinished.
+ */
+export async function resumeJob(supabase: SupabaseClient, job: JobRow): Promise<JobRow | null> {
+  const { data, error } = await supabase
+    .from('jobs')
+    .update({
+      state: 'queued',
+      error: null,
+      finished_at: null,
+      logs: appendLogs(job.logs, [logEntry('info', `Resumed at ${job.progress_done.toLocaleString()}`)]),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('state', 'failed')
+    .select('*')
+    .maybeSingle();
+
+  if (error?.code === '23505') return null;
+  if (error) throw new Error(error.message);
+  return data as JobRow | null;
+}
+
+/**
+ * Convert a job row to API format
+ */
+export function formatJobForAPI(job: JobRow) {
+  return {
+    id: job.id,
+    type: job.type,
+    state: job.state,
+    params: job.params,
+    progress: { done: job.progress_done, total: job.progress_total },
+    counters: job.counters,
+    logs: job.logs,
+    error: job.error,
+    createdBy: job.created_by,
+    createdAt: job.created_at,
+    updatedAt: job.updated_at,
+    startedAt: job.started_at,
+    finishedAt: job.finished_at,
+  };
+}
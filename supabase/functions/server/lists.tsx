@@ -0,0 +1,220 @@
+/**
+ * Curated Lists
+ * Named, ordered lists of locations ("Best omakase in Tokyo") with a note
+ * per entry. Lists are private, unlisted (anyone with the link) or public,
+ * and are shared by slug via ?list=<slug>
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { formatLocationForAPI, type LocationRow } from './helpers.tsx';
+
+export const LIST_VISIBILITIES = ['private', 'unlisted', 'public'] as const;
+
+export type ListVisibility = typeof LIST_VISIBILITIES[number];
+
+export const MAX_LIST_TITLE_LENGTH = 120;
+export const MAX_LIST_DESCRIPTION_LENGTH = 2000;
+export const MAX_ENTRY_NOTE_LENGTH = 1000;
+
+export interface ListRow {
+  id: string;
+  owner_user_id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  visibility: ListVisibility;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ListEntryRow {
+  id: string;
+  list_id: string;
+  location_id: string;
+  note: string | null;
+  position: number;
+  created_at: string;
+  locations?: LocationRow | null;
+}
+
+export interface ListInput {
+  title?: string;
+  description?: string | null;
+  visibility?: ListVisibility;
+}
+
+export function isListVisibility(value: unknown): value is ListVisibility {
+  return typeof value === 'string' && (LIST_VISIBILITIES as readonly string[]).includes(value);
+}
+
+/**
+ * Validate a create/update body. Returns an error message or the cleaned
+ * fields (only the ones present in the body).
+ */
+export function parseListInput(body: any, requireTitle: boolean): ListInput | string {
+  const input: ListInput = {};
+
+  if (body.title !== undefined || requireTitle) {
+    const title = typeof body.title === 'string' ? body.title.trim() : '';
+    if (!title) return 'title is required';
+    if (title.length > MAX_LIST_TITLE_LENGTH) return `title must be at most ${MAX_LIST_TITLE_LENGTH} characters`;
+    input.title = title;
+  }
+
+  if (body.description !== undefined) {
+    const description = typeof body.description === 'string' ? body.description.trim() : null;
+    if (description && description.length > MAX_LIST_DESCRIPTION_LENGTH) {
+      return `description must be at most ${MAX_LIST_DESCRIPTION_LENGTH} characters`;
+    }
+    input.description = description || null;
+  }
+
+  if (body.visibility !== undefined) {
+    if (!isListVisibility(body.visibility)) {
+      return `visibility must be one of: ${LIST_VISIBILITIES.join(', ')}`;
+    }
+    input.visibility = body.visibility;
+  }
+
+  return input;
+}
+
+/**
+ * Validate an entry note (null/empty clears it)
+ */
+export function parseEntryNote(note: unknown): string | null | { error: string } {
+  if (note === undefined || note === null) return null;
+  if (typeof note !== 'string') return { error: 'note must be a string' };
+  const trimmed = note.trim();
+  if (trimmed.length > MAX_ENTRY_NOTE_LENGTH) {
+    return { error: `note must be at most ${MAX_ENTRY_NOTE_LENGTH} characters` };
+  }
+  return trimmed || null;
+}
+
+/**
+ * "Best omakase in Tokyo" -> "best-omakase-in-tokyo" (accents folded)
+ */
+export function slugify(title: string): string {
+  const slug = title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+  return slug || 'list';
+}
+
+/**
+ * Slug for a new list. A 64-bit random suffix keeps slugs unique and makes
+ * unlisted links unguessable.
+ */
+export async function generateListSlug(supabase: SupabaseClient, title: string): Promise<string> {
+  const base = slugify(title);
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const suffix = Array.from(crypto.getRandomValues(new Uint8Array(8)), byte => byte.toString(16).padStart(2, '0')).join('');
+    const slug = `${base}-${suffix}`;
+    const { data, error } = await supabase
+      .from('lists')
+      .select('id')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) return slug;
+  }
+
+  throw new Error('Could not generate a unique list slug');
+}
+
+/**
+ * Private lists are only visible to their owner
+ */
+export function canViewList(list: ListRow, userId: string | null): boolean {
+  return list.visibility !== 'private' || list.owner_user_id === userId;
+}
+
+/**
+ * Next position at the end of a list
+ */
+export async function getNextEntryPosition(supabase: SupabaseClient, listId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('list_entries')
+    .select('position')
+    .eq('list_id', listId)
+    .order('position', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ? data.position + 1 : 0;
+}
+
+/**
+ * Rewrite positions to match the given entry order. Entries missing from
+ * `entryIds` keep their relative order after the listed ones.
+ */
+export async function reorderListEntries(supabase: SupabaseClient, listId: string, entryIds: string[]): Promise<void> {
+  const { data: entries, error } = await supabase
+    .from('list_entries')
+    .select('id, position')
+    .eq('list_id', listId)
+    .order('position', { ascending: true });
+
+  if (error) throw new Error(error.message);
+
+  const known = new Set((entries || []).map(e => e.id));
+  const ordered = entryIds.filter(id => known.has(id));
+  const rest = (entries || []).map(e => e.id).filter(id => !ordered.includes(id));
+
+  const updates = [...ordered, ...rest].map((id, position) => ({ id, position }));
+  const changed = updates.filter(u => entries?.find(e => e.id === u.id)?.position !== u.position);
+
+  for (const { id, position } of changed) {
+    const { error: updateError } = await supabase
+      .from('list_entries')
+      .update({ position })
+      .eq('id', id);
+    if (updateError) throw new Error(updateError.message);
+  }
+}
+
+/**
+ * Convert an entry (joined with its location) to API format
+ */
+export function formatListEntryForAPI(entry: ListEntryRow) {
+  return {
+    id: entry.id,
+    note: entry.note,
+    position: entry.position,
+    addedAt: entry.created_at,
+    location: formatLocationForAPI(entry.locations as LocationRow),
+  };
+}
+
+/**
+ * Convert a list row (and optionally its entries) to API format
+ */
+export function formatListForAPI(list: ListRow, entries?: ListEntryRow[], ownerName?: string | null) {
+  return {
+    id: list.id,
+    slug: list.slug,
+    title: list.title,
+    description: list.description,
+    visibility: list.visibility,
+    ownerId: list.owner_user_id,
+    ownerName: ownerName ?? null,
+    createdAt: list.created_at,
+    updatedAt: list.updated_at,
+    ...(entries && {
+      entryCount: entries.length,
+      entries: entries
+        .filter(entry => entry.locations)
+        .sort((a, b) => a.position - b.position)
+        .map(formatListEntryForAPI),
+    }),
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * Location Query Filters & Cursor Pagination
+ * Parses the GET /locations query string (score range, tags, Michelin,
+ * cuisine, city, country, status, updatedSince, sort) and applies it to a
+ * Supabase query with a stable keyset cursor
+ */
+
+import { isLocationStatus, type LocationStatus } from './location_status.tsx';
+import { isUUID } from './helpers.tsx';
+
+export type TagsMode = 'all' | 'any';
+
+export interface LocationFilters {
+  minScore?: number;
+  maxScore?: number;
+  tags?: string[];
+  tagsMode: TagsMode;
+  michelinStars?: number[];
+  greenStar?: boolean;
+  cuisine?: string;
+  city?: string;
+  country?: string;
+  status?: LocationStatus[];
+  updatedSince?: string;
+}
+
+// API sort field -> locations column. Prefix with "-" for descending.
+export const SORT_FIELDS = {
+  name: 'name',
+  score: 'lv_editor_score',
+  userScore: 'lv_avg_user_score',
+  michelinStars: 'michelin_stars',
+  updatedAt: 'updated_at',
+  createdAt: 'created_at',
+} as const;
+
+export type SortField = keyof typeof SORT_FIELDS;
+
+export interface LocationSort {
+  field: SortField;
+  column: string;
+  ascending: boolean;
+}
+
+export interface LocationCursor {
+  // Sort value of the last row on the previous page (null for rows without one)
+  v: string | number | null;
+  id: string;
+}
+
+export const DEFAULT_SORT = 'name';
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : n;
+}
+
+// Accept ?tags[]=a&tags[]=b, ?tags=a&tags=b and ?tags=a,b
+function parseList(values: string[] | undefined): string[] | undefined {
+  if (!values || values.length === 0) return undefined;
+  const list = values
+    .flatMap(v => v.split(','))
+    .map(v => v.trim())
+    .filter(Boolean);
+  return list.length > 0 ? list : undefined;
+}
+
+/**
+ * Read filter parameters from the request. Returns an error message string
+ * when a parameter is malformed.
+ */
+export function parseLocationFilters(c: any): LocationFilters | string {
+  const minScore = parseNumber(c.req.query('minScore'));
+  const maxScore = parseNumber(c.req.query('maxScore'));
+  if (minScore !== undefined && maxScore !== undefined && minScore > maxScore) {
+    return 'minScore must not be greater than maxScore';
+  }
+
+  const tags = parseList([...(c.req.queries('tags[]') || []), ...(c.req.queries('tags') || [])])
+    ?.map(tag => tag.toLowerCase());
+  const tagsMode = (c.req.query('tagsMode') || 'all') as TagsMode;
+  if (tagsMode !== 'all' && tagsMode !== 'any') {
+    return "tagsMode must be 'all' or 'any'";
+  }
+
+  const starsList = parseList(c.req.queries('michelinStars'));
+  const michelinStars = starsList?.map(Number);
+  if (michelinStars?.some(s => ![1, 2, 3].includes(s))) {
+    return 'michelinStars must be 1, 2 or 3';
+  }
+
+  const greenStarParam = c.req.query('greenStar');
+  const greenStar = greenStarParam === undefined ? undefined : greenStarParam === 'true' || greenStarParam === '1';
+
+  const status = parseList(c.req.queries('status'));
+  if (status && !status.every(isLocationStatus)) {
+    return 'status must be open, temporarily_closed, permanently_closed or moved';
+  }
+
+  const updatedSince = c.req.query('updatedSince');
+  if (updatedSince && isNaN(Date.parse(updatedSince))) {
+    return 'updatedSince must be an ISO date';
+  }
+
+  return {
+    minScore,
+    maxScore,
+    tags,
+    tagsMode,
+    michelinStars,
+    greenStar,
+    cuisine: c.req.query('cuisine')?.trim() || undefined,
+    city: c.req.query('city')?.trim() || undefined,
+    country: c.req.query('country')?.trim() || undefined,
+    status: status as LocationStatus[] | undefined,
+    updatedSince: updatedSince ? new Date(updatedSince).toISOString() : undefined,
+  };
+}
+
+/**
+ * True when any filter parameter was supplied
+ */
+export function hasLocationFilters(filters: LocationFilters): boolean {
+  return Object.entries(filters).some(([key, value]) => key !== 'tagsMode' && value !== undefined);
+}
+
+/**
+ * Parse "field" / "-field". Returns null for unknown fields.
+ */
+export function parseSort(value: string | undefined): LocationSort | null {
+  const raw = value || DEFAULT_SORT;
+  const ascending = !raw.startsWith('-');
+  const field = (ascending ? raw : raw.slice(1)) as SortField;
+  if (!(field in SORT_FIELDS)) return null;
+
+  return { field, column: SORT_FIELDS[field], ascending };
+}
+
+// Cursors are URL-safe base64 of UTF-8 JSON (names may contain accents)
+export function encodeCursor(cursor: LocationCursor): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(cursor));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export function decodeCursor(value: string | undefined): LocationCursor | null {
+  if (!value) return null;
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, ch => ch.charCodeAt(0));
+    const parsed = JSON.parse(new TextDecoder().decode(bytes));
+    // The id goes into or() unquoted - anything but a UUID could add filters
+    if (typeof parsed?.id !== 'string' || !isUUID(parsed.id)) return null;
+    const v = parsed.v ?? null;
+    if (v !== null && typeof v !== 'string' && typeof v !== 'number') return null;
+    return { v, id: parsed.id };
+  } catch {
+    return null;
+  }
+}
+
+// Match user input literally in a LIKE pattern (% and _ are wildcards)
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, ch => `\\${ch}`);
+}
+
+// Quote a value for a PostgREST or() expression (names can contain commas)
+function quote(value: string | number): string {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * PostgREST or() group selecting rows after the cursor in (sort column, id)
+ * order. Rows without a sort value always come last.
+ */
+export function cursorOrGroup(sort: LocationSort, cursor: LocationCursor): string {
+  const col = sort.column;
+
+  if (cursor.v === null) {
+    return `and(${col}.is.null,id.gt.${cursor.id})`;
+  }
+
+  const op = sort.ascending ? 'gt' : 'lt';
+  return [
+    `${col}.${op}.${quote(cursor.v)}`,
+    `and(${col}.eq.${quote(cursor.v)},id.gt.${cursor.id})`,
+    `${col}.is.null`,
+  ].join(',');
+}
+
+/**
+ * Apply filters to a locations query. Conditions that need or() are pushed
+ * to orGroups so the caller can combine them with cursor/bounds groups.
+ */
+export function applyLocationFilters(query: any, filters: LocationFilters, orGroups: string[]): any {
+  if (filters.minScore !== undefined) query = query.gte('lv_editor_score', filters.minScore);
+  if (filters.maxScore !== undefined) query = query.lte('lv_editor_score', filters.maxScore);
+
+  if (filters.tags) {
+    query = filters.tagsMode === 'any'
+      ? query.overlaps('tags', filters.tags)
+      : query.contains('tags', filters.tags);
+  }
+
+  if (filters.michelinStars) query = query.in('michelin_stars', filters.michelinStars);
+  if (filters.greenStar !== undefined) query = query.eq('michelin_green_star', filters.greenStar);
+  // Case-insensitive, but exact: the input isn't a pattern
+  if (filters.city) query = query.ilike('city', escapeLike(filters.city));
+  if (filters.country) query = query.ilike('country', escapeLike(filters.country));
+  if (filters.status) query = query.in('status', filters.status);
+  if (filters.updatedSince) query = query.gte('updated_at', filters.updatedSince);
+
+  // Michelin imports keep their cuisine in a separate column
+  if (filters.cuisine) {
+    const pattern = quote(`*${escapeLike(filters.cuisine)}*`);
+    orGroups.push(`cuisine.ilike.${pattern},michelin_cuisine.ilike.${pattern}`);
+  }
+
+  return query;
+}
+
+/**
+ * Combine several or() groups into a single or= filter (ANDed together)
+ */
+export function applyOrGroups(query: any, orGroups: string[]): any {
+  if (orGroups.length === 0) return query;
+  if (orGroups.length === 1) return query.or(orGroups[0]);
+  return query.or(`and(${orGroups.map(group => `or(${group})`).join(',')})`);
+}
+
+/**
+ * Cursor for the row after which the next page starts
+ */
+export function nextCursorFor(row: Record<string, any>, sort: LocationSort): string {
+  return encodeCursor({ v: row[sort.column] ?? null, id: row.id });
+}
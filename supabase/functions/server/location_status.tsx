@@ -0,0 +1,187 @@
+/**
+ * Location Status Lifecycle
+ * Whether a location still exists as a place to go: open, temporarily
+ * closed, permanently closed, or moved (pointing at the location that
+ * replaced it). Closing a location keeps its row, so favorites and
+ * want-to-go entries survive and can be flagged instead of disappearing.
+ *
+ * Editors set the status explicitly; otherwise it follows Google's
+ * businessStatus whenever place details are fetched. An editor's choice is
+ * never overwritten by Google.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { recordLocationHistory } from './history.tsx';
+import { HttpError } from './helpers.tsx';
+
+export const LOCATION_STATUSES = ['open', 'temporarily_closed', 'permanently_closed', 'moved'] as const;
+
+export type LocationStatus = typeof LOCATION_STATUSES[number];
+export type StatusSource = 'editor' | 'google';
+
+// No longer a place to go - hidden from the map unless asked for.
+// Temporarily closed places stay visible (with a badge).
+export const CLOSED_STATUSES: LocationStatus[] = ['permanently_closed', 'moved'];
+
+const GOOGLE_BUSINESS_STATUSES: Record<string, LocationStatus> = {
+  OPERATIONAL: 'open',
+  CLOSED_TEMPORARILY: 'temporarily_closed',
+  CLOSED_PERMANENTLY: 'permanently_closed',
+};
+
+export function isLocationStatus(value: unknown): value is LocationStatus {
+  return typeof value === 'string' && (LOCATION_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Map a Places API businessStatus to a location status (null when Google
+ * doesn't say)
+ */
+export function statusFromBusinessStatus(businessStatus: string | null | undefined): LocationStatus | null {
+  return (businessStatus && GOOGLE_BUSINESS_STATUSES[businessStatus]) || null;
+}
+
+interface SetStatusInput {
+  status: LocationStatus;
+  successorId?: string | null; // Required for 'moved'
+  source: StatusSource;
+  userId?: string | null;
+}
+
+// Follow the successor's own moves: a chain that leads back to the location
+// would leave every location in the loop pointing at another moved one
+async function checkSuccessorChain(supabase: SupabaseClient, locationId: string, successorId: string): Promise<void> {
+  const seen = new Set<string>();
+  let nextId: string | null = successorId;
+
+  while (nextId && !seen.has(nextId)) {
+    seen.add(nextId);
+    const { data: next, error } = await supabase
+      .from('locations')
+      .select('id, status, successor_location_id')
+      .eq('id', nextId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!next) {
+      if (nextId === successorId) throw new HttpError(404, 'Successor location not found');
+      return;
+    }
+    if (next.status !== 'moved') return;
+    if (next.successor_location_id === locationId) {
+      throw new HttpError(400, 'The successor has moved (directly or via other locations) to this location');
+    }
+    nextId = next.successor_location_id;
+  }
+}
+
+/**
+ * Change a location's status and log it in the location history. A moved
+ * location must name an existing successor whose moves don't lead back to it.
+ */
+export async function setLocationStatus(
+  supabase: SupabaseClient,
+  location: Record<string, any>,
+  input: SetStatusInput
+): Promise<Record<string, any>> {
+  const successorId = input.status === 'moved' ? input.successorId || null : null;
+
+  if (input.status === 'moved') {
+    if (!successorId) {
+      throw new HttpError(400, 'A moved location needs a successorLocationId');
+    }
+    if (successorId === location.id) {
+      throw new HttpError(400, 'A location cannot move to itself');
+    }
+    await checkSuccessorChain(supabase, location.id, successorId);
+  }
+
+  const updates: Record<string, any> = {
+    status: input.status,
+    successor_location_id: successorId,
+    status_source: input.source,
+    status_updated_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+  if (input.userId) updates.updated_by_user_id = input.userId;
+
+  const { data: updated, error } = await supabase
+    .from('locations')
+    .update(updates)
+    .eq('id', location.id)
+    .select()
+    .single();
+
+  if (error) throw new Error(error.message);
+
+  await recordLocationHistory(supabase, {
+    locationId: location.id,
+    action: 'update',
+    source: 'location',
+    before: location,
+    after: updated,
+    userId: input.userId ?? null,
+  });
+
+  return updated;
+}
+
+/**
+ * Before a location is deleted, the locations that moved to it become
+ * permanently closed - otherwise they'd stay 'moved' with no successor
+ */
+export async function closeMovedTo(supabase: SupabaseClient, locationId: string, userId: string): Promise<number> {
+  const { data: moved, error } = await supabase
+    .from('locations')
+    .select('*')
+    .eq('successor_location_id', locationId);
+
+  if (error) throw new Error(error.message);
+
+  for (const location of moved || []) {
+    await setLocationStatus(supabase, location, { status: 'permanently_closed', source: 'editor', userId });
+  }
+  return moved?.length || 0;
+}
+
+/**
+ * Follow Google's businessStatus for the location with this Place ID, unless
+ * an editor has set its status
+ */
+export async function syncStatusFromGoogle(
+  supabase: SupabaseClient,
+  placeId: string,
+  businessStatus: string | null | undefined
+): Promise<void> {
+  const status = statusFromBusinessStatus(businessStatus);
+  if (!status) return;
+
+  const { data: location, error } = await supabase
+    .from('locations')
+    .select('*')
+    .eq('google_place_id', placeId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!location || location.status_source === 'editor') return;
+  if ((location.status || 'open') === status) return;
+
+  await setLocationStatus(supabase, location, { status, source: 'google' });
+  console.log(`📍 ${location.name} is now ${status} (Google businessStatus ${businessStatus})`);
+}
+
+/**
+ * The locations that moved rows point at, by id
+ */
+export async function getSuccessors(
+  supabase: SupabaseClient,
+  rows: Array<{ status?: string | null; successor_location_id?: string | null }>
+): Promise<Map<string, any>> {
+  const ids = [...new Set(rows.filter(row => row.status === 'moved' && row.successor_location_id).map(row => row.successor_location_id!))];
+  const successors = new Map<string, any>();
+  if (ids.length === 0) return successors;
+
+  const { data, error } = await supabase.from('locations').select('*').in('id', ids);
+  if (error) throw new Error(error.message);
+  (data || []).forEach(row => successors.set(row.id, row));
+  return successors;
+}
@@ -0,0 +1,443 @@
+/**
+ * Persistent Metrics
+ * Request and database timings rolled up per minute and flushed to the
+ * metric_rollups table, so history survives cold starts and covers every
+ * instance rather than the one that happens to be warm. Rate limit checks
+ * are rolled up the same way as zero-duration 'throttle' samples, counted
+ * as errors when refused. Each instance owns its rows (keyed by
+ * instance_id) and rewrites them as the minute fills. Latencies are kept as
+ * fixed-bucket histograms: minutes and instances are merged first, then
+ * p50/p95/p99 are read from the merged histogram.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export const METRIC_KINDS = ['route', 'db', 'throttle'] as const;
+
+export type MetricKind = typeof METRIC_KINDS[number];
+
+// Upper bounds (ms) of the latency histogram buckets; one more open-ended
+// bucket catches everything slower
+export const LATENCY_BUCKETS_MS = [5, 10, 25, 50, 75, 100, 150, 250, 400, 600, 1000, 1500, 2500, 4000, 6000, 10000, 20000];
+
+const MINUTE_MS = 60 * 1000;
+const PAGE_SIZE = 1000;
+const PURGE_INTERVAL_MS = 60 * MINUTE_MS;
+
+// Unflushed rollups kept in memory if the database is unreachable
+const MAX_PENDING_ROLLUPS = 5000;
+
+export const DEFAULT_METRICS_RANGE_MS = 60 * MINUTE_MS;
+export const MAX_METRICS_RANGE_MS = 7 * 24 * 60 * MINUTE_MS;
+
+// Rows read per kind for one query - the newest are kept when a range has more
+const MAX_QUERY_ROWS = 20000;
+
+// Chart resolutions, finest first; a range uses the finest that fits
+const SERIES_STEPS_MINUTES = [1, 5, 15, 60, 360, 1440];
+const MAX_SERIES_POINTS = 240;
+
+const INSTANCE_ID = crypto.randomUUID();
+
+export interface MetricsStoreConfig {
+  flushIntervalMs: number;
+  retentionDays: number;
+}
+
+interface Rollup {
+  minute: number; // Epoch ms at the start of the minute
+  kind: MetricKind;
+  name: string;
+  count: number;
+  errors: number;
+  totalMs: number;
+  maxMs: number;
+  histogram: number[];
+  dirty: boolean; // Changed since it was last written
+}
+
+interface RollupRow {
+  bucket_start: string;
+  kind: MetricKind;
+  name: string;
+  count: number;
+  errors: number;
+  total_ms: number;
+  max_ms: number;
+  histogram: number[];
+}
+
+export interface MetricsPoint {
+  time: string; // Start of the step (ISO)
+  requests: number;
+  errors: number;
+  avgMs: number | null;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  p99Ms: number | null;
+}
+
+export interface MetricsBreakdownEntry {
+  name: string;
+  requests: number;
+  errors: number;
+  errorRate: number; // 0-1
+  avgMs: number | null;
+  maxMs: number;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  p99Ms: number | null;
+}
+
+export type MetricsTotals = Omit<MetricsBreakdownEntry, 'name'>;
+
+export interface MetricsHistory {
+  from: string;
+  to: string;
+  stepMinutes: number;
+  series: Record<'route' | 'db', MetricsPoint[]>;
+  routes: MetricsBreakdownEntry[];
+  tables: MetricsBreakdownEntry[];
+  throttles: MetricsBreakdownEntry[]; // Per rate limit policy: requests checked, errors refused
+  truncated: boolean; // Older rows were left out to stay under MAX_QUERY_ROWS
+}
+
+const rollups = new Map<string, Rollup>();
+let lastFlushAt = Date.now();
+let lastPurgeAt = 0;
+let flushing: Promise<void> | null = null;
+
+export function getMetricsStoreConfig(): MetricsStoreConfig {
+  const flushIntervalMs = Number(Deno.env.get('METRICS_FLUSH_INTERVAL_MS'));
+  const retentionDays = Number(Deno.env.get('METRICS_RETENTION_DAYS'));
+
+  return {
+    flushIntervalMs: Number.isFinite(flushIntervalMs) && flushIntervalMs >= 1000 ? flushIntervalMs : 15 * 1000,
+    retentionDays: Number.isFinite(retentionDays) && retentionDays >= 1 ? retentionDays : 30,
+  };
+}
+
+function minuteOf(timestamp: number): number {
+  return Math.floor(timestamp / MINUTE_MS) * MINUTE_MS;
+}
+
+function emptyHistogram(): number[] {
+  return new Array(LATENCY_BUCKETS_MS.length + 1).fill(0);
+}
+
+function bucketIndex(durationMs: number): number {
+  const index = LATENCY_BUCKETS_MS.findIndex(bound => durationMs <= bound);
+  return index === -1 ? LATENCY_BUCKETS_MS.length : index;
+}
+
+/**
+ * Estimate the p-th percentile (0-1) from a latency histogram, interpolating
+ * inside the bucket it falls in. Null for an empty histogram.
+ */
+export function percentileFromHistogram(histogram: number[], p: number, maxMs: number): number | null {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return null;
+
+  const rank = p * total;
+  let seen = 0;
+
+  for (let i = 0; i < histogram.length; i++) {
+    if (histogram[i] > 0 && seen + histogram[i] >= rank) {
+      const lower = i === 0 ? 0 : LATENCY_BUCKETS_MS[i - 1];
+      const upper = i < LATENCY_BUCKETS_MS.length ? LATENCY_BUCKETS_MS[i] : Math.max(maxMs, lower);
+      const estimate = lower + (upper - lower) * ((rank - seen) / histogram[i]);
+      return Math.round(Math.min(estimate, maxMs) * 10) / 10;
+    }
+    seen += histogram[i];
+  }
+
+  return maxMs;
+}
+
+/**
+ * Add one timing to the current minute's rollup
+ */
+export function recordMetricSample(kind: MetricKind, name: string, durationMs: number, failed: boolean) {
+  const minute = minuteOf(Date.now());
+  const key = `${minute}|${kind}|${name}`;
+
+  let rollup = rollups.get(key);
+  if (!rollup) {
+    rollup = { minute, kind, name, count: 0, errors: 0, totalMs: 0, maxMs: 0, histogram: emptyHistogram(), dirty: true };
+    rollups.set(key, rollup);
+
+    // Drop the oldest when flushes keep failing (Map keeps insertion order)
+    if (rollups.size > MAX_PENDING_ROLLUPS) {
+      rollups.delete(rollups.keys().next().value!);
+    }
+  }
+
+  rollup.count++;
+  if (failed) rollup.errors++;
+  rollup.totalMs += durationMs;
+  rollup.maxMs = Math.max(rollup.maxMs, durationMs);
+  rollup.histogram[bucketIndex(durationMs)]++;
+  rollup.dirty = true;
+}
+
+/**
+ * True when this instance has unwritten rollups from a finished minute, or
+ * hasn't flushed for the flush interval
+ */
+export function isMetricsFlushDue(config: MetricsStoreConfig = getMetricsStoreConfig()): boolean {
+  if (flushing) return false;
+
+  const currentMinute = minuteOf(Date.now());
+  const intervalElapsed = Date.now() - lastFlushAt >= config.flushIntervalMs;
+
+  for (const rollup of rollups.values()) {
+    if (rollup.dirty && (intervalElapsed || rollup.minute < currentMinute)) return true;
+  }
+  return false;
+}
+
+function formatRollupForDB(rollup: Rollup) {
+  return {
+    bucket_start: new Date(rollup.minute).toISOString(),
+    kind: rollup.kind,
+    name: rollup.name,
+    instance_id: INSTANCE_ID,
+    count: rollup.count,
+    errors: rollup.errors,
+    total_ms: Math.round(rollup.totalMs * 100) / 100,
+    max_ms: Math.round(rollup.maxMs * 100) / 100,
+    histogram: rollup.histogram,
+    p50_ms: percentileFromHistogram(rollup.histogram, 0.5, rollup.maxMs),
+    p95_ms: percentileFromHistogram(rollup.histogram, 0.95, rollup.maxMs),
+    p99_ms: percentileFromHistogram(rollup.histogram, 0.99, rollup.maxMs),
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Write this instance's changed rollups. Finished minutes are forgotten once
+ * written; rollups past the retention window are purged about once an hour.
+ * Concurrent calls share one flush.
+ */
+export function flushMetrics(
+  supabase: SupabaseClient,
+  config: MetricsStoreConfig = getMetricsStoreConfig()
+): Promise<void> {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    const currentMinute = minuteOf(Date.now());
+    const dirty = [...rollups.values()].filter(rollup => rollup.dirty);
+    lastFlushAt = Date.now();
+
+    if (dirty.length > 0) {
+      // Samples recorded while the write is in flight mark their rollup dirty again
+      dirty.forEach(rollup => { rollup.dirty = false; });
+      const { error } = await supabase
+        .from('metric_rollups')
+        .upsert(dirty.map(formatRollupForDB), { onConflict: 'bucket_start,kind,name,instance_id' });
+
+      if (error) {
+        dirty.forEach(rollup => { rollup.dirty = true; });
+        throw new Error(error.message);
+      }
+    }
+
+    for (const [key, rollup] of rollups) {
+      if (rollup.minute < currentMinute && !rollup.dirty) rollups.delete(key);
+    }
+
+    if (Date.now() - lastPurgeAt >= PURGE_INTERVAL_MS) {
+      lastPurgeAt = Date.now();
+      const cutoff = new Date(Date.now() - config.retentionDays * 24 * 60 * MINUTE_MS).toISOString();
+      const { error } = await supabase.from('metric_rollups').delete().lt('bucket_start', cutoff);
+      if (error) throw new Error(error.message);
+    }
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+}
+
+/**
+ * Parse ?from= / ?to= (ISO timestamps or epoch ms). Defaults to the last
+ * hour (or `limits.defaultMs`); returns an error message for bad input.
+ */
+export function parseMetricsRange(
+  fromValue: string | undefined,
+  toValue: string | undefined,
+  limits: { defaultMs: number; maxMs: number } = { defaultMs: DEFAULT_METRICS_RANGE_MS, maxMs: MAX_METRICS_RANGE_MS }
+): { from: Date; to: Date } | string {
+  const parse = (value: string) => new Date(/^\d+$/.test(value) ? Number(value) : value);
+
+  const to = toValue ? parse(toValue) : new Date();
+  const from = fromValue ? parse(fromValue) : new Date(to.getTime() - limits.defaultMs);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return 'from and to must be ISO timestamps or epoch milliseconds';
+  }
+  if (from >= to) {
+    return 'from must be before to';
+  }
+  if (to.getTime() - from.getTime() > limits.maxMs) {
+    return `The range can span at most ${Math.round(limits.maxMs / (24 * 60 * MINUTE_MS))} days`;
+  }
+  return { from, to };
+}
+
+async function fetchRollupRows(
+  supabase: SupabaseClient,
+  kind: MetricKind,
+  from: Date,
+  to: Date,
+  name?: string
+): Promise<{ rows: RollupRow[]; truncated: boolean }> {
+  const rows: RollupRow[] = [];
+
+  // Newest first, so a truncated range still has its most recent minutes
+  for (let offset = 0; offset < MAX_QUERY_ROWS; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('metric_rollups')
+      .select('bucket_start, kind, name, count, errors, total_ms, max_ms, histogram')
+      .eq('kind', kind)
+      .gte('bucket_start', from.toISOString())
+      .lt('bucket_start', to.toISOString());
+    if (name) query = query.eq('name', name);
+
+    const { data, error } = await query
+      .order('bucket_start', { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    rows.push(...((data || []) as RollupRow[]));
+    if (!data || data.length < PAGE_SIZE) return { rows, truncated: false };
+  }
+
+  return { rows, truncated: true };
+}
+
+interface Aggregate {
+  count: number;
+  errors: number;
+  totalMs: number;
+  maxMs: number;
+  histogram: number[];
+}
+
+function emptyAggregate(): Aggregate {
+  return { count: 0, errors: 0, totalMs: 0, maxMs: 0, histogram: emptyHistogram() };
+}
+
+function addRow(aggregate: Aggregate, row: RollupRow) {
+  aggregate.count += row.count;
+  aggregate.errors += row.errors;
+  aggregate.totalMs += Number(row.total_ms);
+  aggregate.maxMs = Math.max(aggregate.maxMs, Number(row.max_ms));
+  (row.histogram || []).forEach((count, i) => {
+    if (i < aggregate.histogram.length) aggregate.histogram[i] += count;
+  });
+}
+
+function summarize(aggregate: Aggregate) {
+  return {
+    avgMs: aggregate.count > 0 ? Math.round((aggregate.totalMs / aggregate.count) * 10) / 10 : null,
+    p50Ms: percentileFromHistogram(aggregate.histogram, 0.5, aggregate.maxMs),
+    p95Ms: percentileFromHistogram(aggregate.histogram, 0.95, aggregate.maxMs),
+    p99Ms: percentileFromHistogram(aggregate.histogram, 0.99, aggregate.maxMs),
+  };
+}
+
+function buildSeries(rows: RollupRow[], from: Date, to: Date, stepMinutes: number): MetricsPoint[] {
+  const stepMs = stepMinutes * MINUTE_MS;
+  const start = Math.floor(from.getTime() / stepMs) * stepMs;
+  const steps = new Map<number, Aggregate>();
+
+  for (let time = start; time < to.getTime(); time += stepMs) {
+    steps.set(time, emptyAggregate());
+  }
+  rows.forEach(row => {
+    const time = Math.floor(new Date(row.bucket_start).getTime() / stepMs) * stepMs;
+    const aggregate = steps.get(time);
+    if (aggregate) addRow(aggregate, row);
+  });
+
+  return [...steps.entries()].map(([time, aggregate]) => ({
+    time: new Date(time).toISOString(),
+    requests: aggregate.count,
+    errors: aggregate.errors,
+    ...summarize(aggregate),
+  }));
+}
+
+function totalsOf(aggregate: Aggregate): MetricsTotals {
+  return {
+    requests: aggregate.count,
+    errors: aggregate.errors,
+    errorRate: aggregate.count > 0 ? aggregate.errors / aggregate.count : 0,
+    maxMs: Math.round(aggregate.maxMs * 10) / 10,
+    ...summarize(aggregate),
+  };
+}
+
+function buildBreakdown(rows: RollupRow[]): MetricsBreakdownEntry[] {
+  const byName = new Map<string, Aggregate>();
+  rows.forEach(row => {
+    if (!byName.has(row.name)) byName.set(row.name, emptyAggregate());
+    addRow(byName.get(row.name)!, row);
+  });
+
+  return [...byName.entries()]
+    .map(([name, aggregate]) => ({ name, ...totalsOf(aggregate) }))
+    .sort((a, b) => (b.p95Ms ?? 0) - (a.p95Ms ?? 0));
+}
+
+/**
+ * Metrics history for a time range: a request and a database series, plus
+ * per-route and per-table percentiles and per-policy throttle counts.
+ * `route` narrows the route side to one route name as reported in `routes`
+ * (e.g. "GET /locations").
+ */
+export async function queryMetrics(
+  supabase: SupabaseClient,
+  options: { from: Date; to: Date; route?: string }
+): Promise<MetricsHistory> {
+  const { from, to, route } = options;
+  const rangeMinutes = (to.getTime() - from.getTime()) / MINUTE_MS;
+  const stepMinutes = SERIES_STEPS_MINUTES.find(step => rangeMinutes / step <= MAX_SERIES_POINTS)
+    ?? SERIES_STEPS_MINUTES[SERIES_STEPS_MINUTES.length - 1];
+
+  const [routeRows, dbRows, throttleRows] = await Promise.all([
+    fetchRollupRows(supabase, 'route', from, to, route),
+    fetchRollupRows(supabase, 'db', from, to),
+    fetchRollupRows(supabase, 'throttle', from, to),
+  ]);
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    stepMinutes,
+    series: {
+      route: buildSeries(routeRows.rows, from, to, stepMinutes),
+      db: buildSeries(dbRows.rows, from, to, stepMinutes),
+    },
+    routes: buildBreakdown(routeRows.rows),
+    tables: buildBreakdown(dbRows.rows),
+    throttles: buildBreakdown(throttleRows.rows).sort((a, b) => b.errors - a.errors),
+    truncated: routeRows.truncated || dbRows.truncated || throttleRows.truncated,
+  };
+}
+
+/**
+ * Combined totals for every route (or table) `matchName` accepts over a time
+ * range - what alert rules are evaluated against
+ */
+export async function queryMetricTotals(
+  supabase: SupabaseClient,
+  options: { kind: MetricKind; from: Date; to: Date; matchName: (name: string) => boolean }
+): Promise<MetricsTotals> {
+  const { rows } = await fetchRollupRows(supabase, options.kind, options.from, options.to);
+  const aggregate = emptyAggregate();
+  rows.filter(row => options.matchName(row.name)).forEach(row => addRow(aggregate, row));
+  return totalsOf(aggregate);
+}
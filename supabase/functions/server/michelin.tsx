@@ -3,9 +3,11 @@
  * Handles querying Michelin restaurant data from Supabase database
  */
 
-import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { queryRadius, type WithDistance } from './spatial.tsx';
+import { rankMatches, michelinToSubject, AUTO_LINK_CONFIDENCE, REVIEW_MIN_CONFIDENCE } from './place_matcher.tsx';
 
-interface MichelinRestaurant {
+export interface MichelinRestaurant {
   id?: number;
   Name: string;
   Address?: string;
@@ -23,29 +25,6 @@ interface MichelinRestaurant {
   Description?: string;
 }
 
-/**
- * Calculate distance between two coordinates using Haversine formula
- */
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = toRadians(lat2 - lat1);
-  const dLon = toRadians(lon2 - lon1);
-  
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  const distance = R * c;
-  
-  return distance;
-}
-
-function toRadians(degrees: number): number {
-  return degrees * (Math.PI / 180);
-}
-
 /**
  * Convert Michelin award to numeric score
  */
@@ -62,6 +41,167 @@ function awardToScore(award: string): number | null {
   return null;
 }
 
+/**
+ * Split a Michelin award into the locations table columns
+ * ("2 Stars" -> stars 2, "Bib Gourmand" -> distinction, "Selected" -> Michelin Plate)
+ */
+export function parseMichelinAward(award: string | null | undefined): {
+  michelin_stars: number | null;
+  michelin_distinction: string | null;
+} {
+  const value = award || '';
+
+  if (value.includes('3 Star')) return { michelin_stars: 3, michelin_distinction: null };
+  if (value.includes('2 Star')) return { michelin_stars: 2, michelin_distinction: null };
+  if (value.includes('1 Star')) return { michelin_stars: 1, michelin_distinction: null };
+  if (value.includes('Bib Gourmand')) return { michelin_stars: null, michelin_distinction: 'Bib Gourmand' };
+  if (value.includes('Selected') || value.includes('Plate')) return { michelin_stars: null, michelin_distinction: 'Michelin Plate' };
+
+  return { michelin_stars: null, michelin_distinction: null };
+}
+
+/**
+ * Michelin columns copied onto a linked location (same set as the backfill)
+ */
+export function getLocationMichelinFields(restaurant: MichelinRestaurant) {
+  return {
+    ...parseMichelinAward(restaurant.Award),
+    michelin_green_star: restaurant.GreenStar === 1,
+    michelin_cuisine: restaurant.Cuisine,
+    michelin_price: restaurant.Price,
+    michelin_description: restaurant.Description,
+    michelin_url: restaurant.Url,
+    michelin_website_url: restaurant.WebsiteUrl,
+    michelin_phone_number: restaurant.PhoneNumber,
+    michelin_facilities: restaurant.FacilitiesAndServices,
+  };
+}
+
+/**
+ * Copy one Michelin restaurant onto the locations table. The matching
+ * location is found by michelin_id, then google_place_id, then coordinates
+ * (~100m); without one a new location is created. A Place ID already used
+ * by another location is never copied.
+ */
+export async function backfillMichelinRestaurant(
+  supabase: SupabaseClient,
+  restaurant: MichelinRestaurant & { google_place_id?: string | null }
+): Promise<'updated' | 'created' | 'skipped'> {
+  let existingLocation: any = null;
+
+  if (restaurant.id) {
+    const { data } = await supabase.from('locations').select('*').eq('michelin_id', restaurant.id).maybeSingle();
+    existingLocation = data;
+  }
+
+  if (!existingLocation && restaurant.google_place_id) {
+    const { data } = await supabase.from('locations').select('*').eq('google_place_id', restaurant.google_place_id).maybeSingle();
+    existingLocation = data;
+  }
+
+  if (!existingLocation && restaurant.Latitude && restaurant.Longitude) {
+    const range = 0.001; // ~100m
+    const { data } = await supabase
+      .from('locations')
+      .select('*')
+      .gte('lat', restaurant.Latitude - range)
+      .lte('lat', restaurant.Latitude + range)
+      .gte('lng', restaurant.Longitude - range)
+      .lte('lng', restaurant.Longitude + range)
+      .maybeSingle();
+    existingLocation = data;
+  }
+
+  // Another location already holding this Place ID
+  const placeIdOwner = async (excludeId?: string) => {
+    if (!restaurant.google_place_id) return null;
+    let query = supabase.from('locations').select('id, name').eq('google_place_id', restaurant.google_place_id);
+    if (excludeId) query = query.neq('id', excludeId);
+    const { data } = await query.maybeSingle();
+    return data;
+  };
+
+  const now = new Date().toISOString();
+
+  if (existingLocation) {
+    const updateData: Record<string, unknown> = {
+      michelin_id: restaurant.id,
+      ...getLocationMichelinFields(restaurant),
+      updated_at: now,
+    };
+
+    if (restaurant.google_place_id && !existingLocation.google_place_id) {
+      const owner = await placeIdOwner(existingLocation.id);
+      if (owner) {
+        console.log(`⚠️ Cannot add Place ID to ${restaurant.Name} - already exists in location: ${owner.name}`);
+      } else {
+        updateData.google_place_id = restaurant.google_place_id;
+      }
+    }
+
+    const { error } = await supabase.from('locations').update(updateData).eq('id', existingLocation.id);
+    if (error) throw new Error(error.message);
+    return 'updated';
+  }
+
+  const owner = await placeIdOwner();
+  if (owner) {
+    console.log(`⚠️ Skipping ${restaurant.Name} - Place ID already exists in location: ${owner.name}`);
+    return 'skipped';
+  }
+
+  const { error } = await supabase
+    .from('locations')
+    .insert({
+      google_place_id: restaurant.google_place_id || null,
+      michelin_id: restaurant.id,
+      name: restaurant.Name,
+      address: restaurant.Address,
+      lat: restaurant.Latitude,
+      lng: restaurant.Longitude,
+      ...getLocationMichelinFields(restaurant),
+      created_at: now,
+      updated_at: now,
+    });
+
+  if (error) throw new Error(error.message);
+  return 'created';
+}
+
+const SEARCH_RADIUS_KM = 2.5; // Candidates further away can't score a usable distance
+
+/**
+ * Find the Michelin restaurant that best matches a place (see place_matcher.tsx)
+ * Only restaurants within SEARCH_RADIUS_KM are loaded (spatial index)
+ */
+async function findClosestMichelinRestaurant(
+  lat: number,
+  lng: number,
+  name?: string
+): Promise<WithDistance<MichelinRestaurant> | null> {
+  // Initialize Supabase client
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+  
+  const candidates = await queryRadius<MichelinRestaurant>(supabase, 'michelin', lat, lng, SEARCH_RADIUS_KM);
+  
+  console.log(`📊 Checking ${candidates.length} Michelin restaurants within ${SEARCH_RADIUS_KM} km`);
+  
+  const [best] = rankMatches(
+    { name, lat, lng },
+    candidates.map(restaurant => ({ ...michelinToSubject(restaurant), restaurant }))
+  );
+  
+  // Without a name only proximity counts, which can't reach auto-link confidence
+  const minimum = name ? AUTO_LINK_CONFIDENCE : REVIEW_MIN_CONFIDENCE;
+  if (!best || best.confidence < minimum) return null;
+  
+  console.log(`🎯 Best Michelin match: ${best.candidate.restaurant.Name} (${best.confidence}% confidence)`);
+  return best.candidate.restaurant;
+}
+
 /**
  * Get Michelin rating for a location
  * Returns numeric score (0.5 for Bib Gourmand, 1-3 for stars)
@@ -70,70 +210,14 @@ export async function getMichelinRating(lat: number, lng: number, name?: string)
   try {
     console.log(`🔍 Searching for Michelin rating near (${lat}, ${lng})${name ? ` for "${name}"` : ''}`);
     
-    // Initialize Supabase client
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    );
-    
-    // Query all Michelin restaurants from database
-    const { data: restaurants, error } = await supabase
-      .from('michelin_restaurants')
-      .select('*');
-    
-    if (error) {
-      console.error('❌ Error querying Michelin restaurants:', error);
-      return null;
-    }
-    
-    if (!restaurants || restaurants.length === 0) {
-      console.log('📊 No Michelin restaurants in database');
-      return null;
-    }
-    
-    console.log(`📊 Searching ${restaurants.length} Michelin restaurants`);
-    
-    // Find closest matching restaurant
-    let closestMatch: MichelinRestaurant | null = null;
-    let closestDistance = Infinity;
-    const MAX_DISTANCE_KM = 0.5; // Maximum distance to consider a match (500 meters)
-    
-    for (const restaurant of restaurants) {
-      if (!restaurant || !restaurant.Latitude || !restaurant.Longitude) continue;
-      
-      const distance = calculateDistance(
-        lat,
-        lng,
-        restaurant.Latitude,
-        restaurant.Longitude
-      );
-      
-      // If name is provided, prefer exact name matches within reasonable distance
-      if (name && restaurant.Name) {
-        const nameMatch = restaurant.Name.toLowerCase().includes(name.toLowerCase()) ||
-                         name.toLowerCase().includes(restaurant.Name.toLowerCase());
-        
-        if (nameMatch && distance < MAX_DISTANCE_KM * 5) { // Allow larger distance for name matches
-          if (distance < closestDistance) {
-            closestDistance = distance;
-            closestMatch = restaurant as MichelinRestaurant;
-          }
-        }
-      }
-      
-      // Also check proximity-based matching
-      if (distance < MAX_DISTANCE_KM && distance < closestDistance) {
-        closestDistance = distance;
-        closestMatch = restaurant as MichelinRestaurant;
-      }
-    }
+    const closestMatch = await findClosestMichelinRestaurant(lat, lng, name);
     
     if (!closestMatch) {
       console.log('❌ No Michelin restaurant found within range');
       return null;
     }
     
-    console.log(`✅ Found Michelin restaurant: ${closestMatch.Name} (${closestDistance.toFixed(3)} km away) - ${closestMatch.Award}`);
+    console.log(`✅ Found Michelin restaurant: ${closestMatch.Name} (${closestMatch.distanceKm.toFixed(3)} km away) - ${closestMatch.Award}`);
     
     // Convert Michelin award to score
     const score = awardToScore(closestMatch.Award);
@@ -153,61 +237,7 @@ export async function getMichelinRestaurantDetails(lat: number, lng: number, nam
   try {
     console.log(`🔍 Searching for Michelin restaurant details near (${lat}, ${lng})${name ? ` for "${name}"` : ''}`);
     
-    // Initialize Supabase client
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    );
-    
-    // Query all Michelin restaurants from database
-    const { data: restaurants, error } = await supabase
-      .from('michelin_restaurants')
-      .select('*');
-    
-    if (error) {
-      console.error('❌ Error querying Michelin restaurants:', error);
-      return null;
-    }
-    
-    if (!restaurants || restaurants.length === 0) {
-      console.log('📊 No Michelin restaurants in database');
-      return null;
-    }
-    
-    // Find closest matching restaurant
-    let closestMatch: MichelinRestaurant | null = null;
-    let closestDistance = Infinity;
-    const MAX_DISTANCE_KM = 0.5;
-    
-    for (const restaurant of restaurants) {
-      if (!restaurant || !restaurant.Latitude || !restaurant.Longitude) continue;
-      
-      const distance = calculateDistance(
-        lat,
-        lng,
-        restaurant.Latitude,
-        restaurant.Longitude
-      );
-      
-      // If name is provided, prefer exact name matches
-      if (name && restaurant.Name) {
-        const nameMatch = restaurant.Name.toLowerCase().includes(name.toLowerCase()) ||
-                         name.toLowerCase().includes(restaurant.Name.toLowerCase());
-        
-        if (nameMatch && distance < MAX_DISTANCE_KM * 5) {
-          if (distance < closestDistance) {
-            closestDistance = distance;
-            closestMatch = restaurant as MichelinRestaurant;
-          }
-        }
-      }
-      
-      // Proximity-based matching
-      if (distance < MAX_DISTANCE_KM && distance < closestDistance) {
-        closestDistance = distance;
-        closestMatch = restaurant as MichelinRestaurant;
-      }
-    }
+    const closestMatch = await findClosestMichelinRestaurant(lat, lng, name);
     
     if (!closestMatch) {
       console.log('❌ No Michelin restaurant found within range');
@@ -216,9 +246,29 @@ export async function getMichelinRestaurantDetails(lat: number, lng: number, nam
     
     console.log(`✅ Found Michelin restaurant details: ${closestMatch.Name}`);
     
-    return closestMatch;
+    const { distanceKm: _distanceKm, ...restaurant } = closestMatch;
+    return restaurant as MichelinRestaurant;
   } catch (error) {
     console.error('❌ Error getting Michelin restaurant details:', error);
     return null;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Convert a michelin_restaurants row to the compact map format
+ */
+export function formatMichelinRestaurantForMap(r: any) {
+  return {
+    id: r.id,
+    name: r.Name,
+    lat: r.Latitude,
+    lng: r.Longitude,
+    award: r.Award,
+    cuisine: r.Cuisine,
+    price: r.Price,
+    location: r.Location,
+    address: r.Address,
+    googlePlaceId: r.google_place_id, // Include discovered Google Place ID
+    ...(r.distanceKm !== undefined ? { distanceKm: Math.round(r.distanceKm * 1000) / 1000 } : {}),
+  };
+}
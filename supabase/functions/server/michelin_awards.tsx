@@ -0,0 +1,147 @@
+/**
+ * Michelin Award History
+ * michelin_restaurants.Award only holds the current award, so every award
+ * change an import applies is also appended here, tagged with the guide
+ * year of the import. Backs the "newly starred" feed and per-restaurant
+ * award timelines.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import type { MichelinRestaurant } from './michelin.tsx';
+import type { ChangeType } from './michelin_import.tsx';
+
+// Change types that alter an award ('updated' only touches details)
+export const AWARD_CHANGE_TYPES = ['new', 'gained_star', 'lost_star', 'award_changed', 'closed'] as const;
+
+export type AwardChangeType = typeof AWARD_CHANGE_TYPES[number];
+
+export const MAX_AWARD_FEED_LIMIT = 2000;
+
+export interface AwardHistoryRow {
+  id: number;
+  michelin_id: number;
+  guide_year: number;
+  change_type: AwardChangeType | 'baseline';
+  award: string | null;
+  previous_award: string | null;
+  green_star: boolean;
+  name: string;
+  location: string | null;
+  lat: number | null;
+  lng: number | null;
+  import_run_id: string | null;
+  recorded_at: string;
+}
+
+export function isAwardChangeType(value: unknown): value is AwardChangeType {
+  return typeof value === 'string' && (AWARD_CHANGE_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Guide year sent with an import (defaults to the current year)
+ */
+export function parseGuideYear(value: unknown): number | string {
+  if (value === undefined || value === null || value === '') return new Date().getFullYear();
+  const year = Number(value);
+  if (!Number.isInteger(year) || year < 1900 || year > 2100) return 'guideYear must be a year between 1900 and 2100';
+  return year;
+}
+
+/**
+ * Parse ?since= - a guide year ("2025") or an ISO timestamp
+ */
+export function parseSince(value: string | undefined): { guideYear: number } | { recordedAt: string } | null | string {
+  if (!value) return null;
+  if (/^\d{4}$/.test(value)) return { guideYear: parseInt(value) };
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return 'since must be a guide year (2025) or an ISO timestamp';
+  return { recordedAt: date.toISOString() };
+}
+
+/**
+ * Append an award change. The (import run, restaurant) pair is unique, so
+ * re-applying a change after a resumed batch doesn't duplicate it.
+ */
+export async function recordAwardChange(
+  supabase: SupabaseClient,
+  input: {
+    michelinId: number;
+    guideYear: number;
+    changeType: ChangeType;
+    previousAward: string | null;
+    restaurant: MichelinRestaurant | null;
+    name: string;
+    location: string | null;
+    runId: string;
+  }
+): Promise<void> {
+  if (!isAwardChangeType(input.changeType)) return;
+
+  const { error } = await supabase
+    .from('michelin_award_history')
+    .upsert({
+      michelin_id: input.michelinId,
+      guide_year: input.guideYear,
+      change_type: input.changeType,
+      award: input.restaurant?.Award || null,
+      previous_award: input.previousAward,
+      green_star: input.restaurant?.GreenStar === 1,
+      name: input.name,
+      location: input.location,
+      lat: input.restaurant?.Latitude ?? null,
+      lng: input.restaurant?.Longitude ?? null,
+      import_run_id: input.runId,
+    }, { onConflict: 'import_run_id,michelin_id', ignoreDuplicates: true });
+
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Most recent guide year with recorded changes
+ */
+export async function getLatestGuideYear(supabase: SupabaseClient): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('michelin_award_history')
+    .select('guide_year')
+    .neq('change_type', 'baseline')
+    .order('guide_year', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data?.guide_year ?? null;
+}
+
+/**
+ * Keep only the newest entry per restaurant - a correction re-import in the
+ * same season shouldn't list a restaurant twice. Rows must be newest first.
+ */
+export function latestPerRestaurant(rows: AwardHistoryRow[]): AwardHistoryRow[] {
+  const seen = new Set<number>();
+  return rows.filter(row => {
+    if (seen.has(row.michelin_id)) return false;
+    seen.add(row.michelin_id);
+    return true;
+  });
+}
+
+/**
+ * Convert an award history row to API format
+ */
+export function formatAwardChangeForAPI(row: AwardHistoryRow) {
+  return {
+    id: row.id,
+    michelinId: row.michelin_id,
+    guideYear: row.guide_year,
+    type: row.change_type,
+    award: row.award,
+    previousAward: row.previous_award,
+    greenStar: row.green_star,
+    name: row.name,
+    location: row.location,
+    lat: row.lat,
+    lng: row.lng,
+    recordedAt: row.recorded_at,
+  };
+}
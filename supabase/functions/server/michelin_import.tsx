@@ -0,0 +1,642 @@
+/**
+ * Michelin Guide Import
+ * Reads a Michelin dataset (CSV with the michelin_restaurants column headers,
+ * or a JSON array of MichelinRestaurant objects), diffs it against the table
+ * and stores the result as an import run. Runs are applied in batches and can
+ * be resumed - every change row records whether it has been applied yet.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { parseMichelinAward, getLocationMichelinFields, type MichelinRestaurant } from './michelin.tsx';
+import { recordLocationHistory } from './history.tsx';
+import { recordAwardChange } from './michelin_awards.tsx';
+
+export const IMPORT_FORMATS = ['csv', 'json'] as const;
+
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export const CHANGE_TYPES = ['new', 'gained_star', 'lost_star', 'award_changed', 'updated', 'closed'] as const;
+
+export type ChangeType = typeof CHANGE_TYPES[number];
+
+export type ImportRunStatus = 'pending' | 'applying' | 'completed' | 'discarded';
+
+export const DEFAULT_IMPORT_BATCH_SIZE = 200;
+export const MAX_IMPORT_BATCH_SIZE = 1000;
+
+// Columns compared and written, in CSV header order
+const MICHELIN_COLUMNS = [
+  'Name',
+  'Address',
+  'Location',
+  'Price',
+  'Cuisine',
+  'Longitude',
+  'Latitude',
+  'PhoneNumber',
+  'Url',
+  'WebsiteUrl',
+  'Award',
+  'GreenStar',
+  'FacilitiesAndServices',
+  'Description',
+] as const;
+
+const PAGE_SIZE = 1000;
+const INSERT_CHUNK_SIZE = 500;
+
+export interface ImportRunRow {
+  id: string;
+  status: ImportRunStatus;
+  format: ImportFormat;
+  partial: boolean;
+  guide_year: number;
+  total_rows: number;
+  skipped_rows: number;
+  summary: ImportSummary;
+  change_count: number;
+  applied_count: number;
+  failed_count: number;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface ImportChangeRow {
+  id: number;
+  run_id: string;
+  position: number;
+  change_type: ChangeType;
+  michelin_id: number | null;
+  name: string;
+  location: string | null;
+  old_award: string | null;
+  new_award: string | null;
+  data: MichelinRestaurant | null;
+  applied_at: string | null;
+  error: string | null;
+}
+
+export type ImportSummary = Record<ChangeType | 'unchanged' | 'duplicates', number>;
+
+interface PendingChange {
+  change_type: ChangeType;
+  michelin_id: number | null;
+  name: string;
+  location: string | null;
+  old_award: string | null;
+  new_award: string | null;
+  data: MichelinRestaurant | null;
+}
+
+export function isImportFormat(value: unknown): value is ImportFormat {
+  return typeof value === 'string' && (IMPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Minimal RFC 4180 parser - quoted fields may contain commas, newlines and "" escapes
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(value => value !== '')) rows.push(row);
+
+  return rows;
+}
+
+function cleanText(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim();
+  return text || undefined;
+}
+
+/**
+ * Coerce a raw CSV/JSON record into a MichelinRestaurant.
+ * Returns null for records without a name or valid coordinates.
+ */
+export function normalizeMichelinRecord(raw: Record<string, unknown>): MichelinRestaurant | null {
+  const name = cleanText(raw.Name);
+  const latitude = parseFloat(String(raw.Latitude ?? ''));
+  const longitude = parseFloat(String(raw.Longitude ?? ''));
+
+  if (!name || isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return null;
+  }
+
+  const greenStar = raw.GreenStar;
+
+  return {
+    Name: name,
+    Address: cleanText(raw.Address),
+    Location: cleanText(raw.Location),
+    Price: cleanText(raw.Price) ?? '',
+    Cuisine: cleanText(raw.Cuisine) ?? '',
+    Longitude: longitude,
+    Latitude: latitude,
+    PhoneNumber: cleanText(raw.PhoneNumber),
+    Url: cleanText(raw.Url),
+    WebsiteUrl: cleanText(raw.WebsiteUrl),
+    Award: cleanText(raw.Award) ?? '',
+    GreenStar: greenStar === true || greenStar === 1 || greenStar === '1' || greenStar === 'true' ? 1 : 0,
+    FacilitiesAndServices: cleanText(raw.FacilitiesAndServices),
+    Description: cleanText(raw.Description),
+  };
+}
+
+/**
+ * Parse an uploaded dataset. Returns an error message or the valid
+ * restaurants plus the number of records that were skipped.
+ */
+export function parseMichelinDataset(data: string, format: ImportFormat): { restaurants: MichelinRestaurant[]; skipped: number } | string {
+  let records: Record<string, unknown>[];
+
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      return 'data is not valid JSON';
+    }
+    if (!Array.isArray(parsed)) return 'JSON dataset must be an array of restaurants';
+    records = parsed.filter(record => record && typeof record === 'object');
+  } else {
+    const [header, ...rows] = parseCsv(data.replace(/^\uFEFF/, ''));
+    if (!header) return 'CSV dataset is empty';
+
+    const columns = header.map(column => column.trim());
+    const missing = ['Name', 'Latitude', 'Longitude', 'Award'].filter(column => !columns.includes(column));
+    if (missing.length > 0) return `CSV is missing columns: ${missing.join(', ')}`;
+
+    records = rows.map(values => Object.fromEntries(columns.map((column, i) => [column, values[i]])));
+  }
+
+  const restaurants: MichelinRestaurant[] = [];
+  let skipped = 0;
+
+  for (const record of records) {
+    const restaurant = normalizeMichelinRecord(record);
+    if (restaurant) {
+      restaurants.push(restaurant);
+    } else {
+      skipped++;
+    }
+  }
+
+  if (restaurants.length === 0) return 'Dataset contains no valid restaurants';
+
+  return { restaurants, skipped };
+}
+
+// Restaurants are matched by Michelin guide URL, falling back to name + "City, Country"
+// (the same pair the table's unique index uses)
+function nameKey(restaurant: Pick<MichelinRestaurant, 'Name' | 'Location'>): string {
+  return `${restaurant.Name.trim().toLowerCase()}|${(restaurant.Location || '').trim().toLowerCase()}`;
+}
+
+function urlKey(restaurant: Pick<MichelinRestaurant, 'Url'>): string | null {
+  return restaurant.Url ? restaurant.Url.trim().toLowerCase().replace(/\/+$/, '') : null;
+}
+
+function starCount(award: string | null | undefined): number {
+  return parseMichelinAward(award).michelin_stars ?? 0;
+}
+
+// DB numbers and parsed dataset values compare equal by their text form
+function sameValue(a: unknown, b: unknown): boolean {
+  return String(a ?? '') === String(b ?? '');
+}
+
+/**
+ * What changed between the stored restaurant and the dataset record (null = nothing)
+ */
+export function classifyChange(existing: MichelinRestaurant, incoming: MichelinRestaurant): ChangeType | null {
+  const before = starCount(existing.Award);
+  const after = starCount(incoming.Award);
+
+  if (after > before) return 'gained_star';
+  if (after < before) return 'lost_star';
+  if (!sameValue(existing.Award, incoming.Award) || !sameValue(existing.GreenStar ?? 0, incoming.GreenStar)) {
+    return 'award_changed';
+  }
+
+  const updated = MICHELIN_COLUMNS.some(column => !sameValue(existing[column], incoming[column]));
+  return updated ? 'updated' : null;
+}
+
+/**
+ * Load every michelin_restaurants row (paged - PostgREST caps responses at 1000 rows)
+ */
+export async function loadAllMichelinRestaurants(supabase: SupabaseClient): Promise<MichelinRestaurant[]> {
+  const restaurants: MichelinRestaurant[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('michelin_restaurants')
+      .select('*')
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    restaurants.push(...((data || []) as unknown as MichelinRestaurant[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return restaurants;
+}
+
+/**
+ * Diff a dataset against the current table. A partial dataset (one region,
+ * a hand-made correction file) never marks missing restaurants as closed.
+ */
+export function diffMichelinDataset(
+  existing: MichelinRestaurant[],
+  incoming: MichelinRestaurant[],
+  partial: boolean
+): { changes: PendingChange[]; summary: ImportSummary } {
+  const byUrl = new Map<string, MichelinRestaurant>();
+  const byName = new Map<string, MichelinRestaurant>();
+  existing.forEach(restaurant => {
+    const url = urlKey(restaurant);
+    if (url) byUrl.set(url, restaurant);
+    byName.set(nameKey(restaurant), restaurant);
+  });
+
+  const summary = Object.fromEntries(
+    [...CHANGE_TYPES, 'unchanged', 'duplicates'].map(key => [key, 0])
+  ) as ImportSummary;
+  const changes: PendingChange[] = [];
+  const seenKeys = new Set<string>();
+  const matchedIds = new Set<number>();
+
+  for (const restaurant of incoming) {
+    const url = urlKey(restaurant);
+    const key = url || nameKey(restaurant);
+    if (seenKeys.has(key)) {
+      summary.duplicates++;
+      continue;
+    }
+    seenKeys.add(key);
+
+    const match = (url && byUrl.get(url)) || byName.get(nameKey(restaurant));
+
+    if (!match) {
+      summary.new++;
+      changes.push({
+        change_type: 'new',
+        michelin_id: null,
+        name: restaurant.Name,
+        location: restaurant.Location ?? null,
+        old_award: null,
+        new_award: restaurant.Award || null,
+        data: restaurant,
+      });
+      continue;
+    }
+
+    matchedIds.add(match.id!);
+    const changeType = classifyChange(match, restaurant);
+    if (!changeType) {
+      summary.unchanged++;
+      continue;
+    }
+
+    summary[changeType]++;
+    changes.push({
+      change_type: changeType,
+      michelin_id: match.id!,
+      name: restaurant.Name,
+      location: restaurant.Location ?? null,
+      old_award: match.Award || null,
+      new_award: restaurant.Award || null,
+      data: restaurant,
+    });
+  }
+
+  if (!partial) {
+    existing
+      .filter(restaurant => !matchedIds.has(restaurant.id!))
+      .forEach(restaurant => {
+        summary.closed++;
+        changes.push({
+          change_type: 'closed',
+          michelin_id: restaurant.id!,
+          name: restaurant.Name,
+          location: restaurant.Location ?? null,
+          old_award: restaurant.Award || null,
+          new_award: null,
+          data: null,
+        });
+      });
+  }
+
+  return { changes, summary };
+}
+
+/**
+ * Store a diffed run and its change rows
+ */
+export async function createImportRun(
+  supabase: SupabaseClient,
+  input: {
+    format: ImportFormat;
+    partial: boolean;
+    guideYear: number;
+    totalRows: number;
+    skippedRows: number;
+    changes: PendingChange[];
+    summary: ImportSummary;
+    userId: string;
+  }
+): Promise<ImportRunRow> {
+  const { data: run, error } = await supabase
+    .from('michelin_import_runs')
+    .insert({
+      status: input.changes.length > 0 ? 'pending' : 'completed',
+      format: input.format,
+      partial: input.partial,
+      guide_year: input.guideYear,
+      total_rows: input.totalRows,
+      skipped_rows: input.skippedRows,
+      summary: input.summary,
+      change_count: input.changes.length,
+      created_by: input.userId,
+      completed_at: input.changes.length > 0 ? null : new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(error.message);
+
+  for (let start = 0; start < input.changes.length; start += INSERT_CHUNK_SIZE) {
+    const chunk = input.changes.slice(start, start + INSERT_CHUNK_SIZE).map((change, i) => ({
+      ...change,
+      run_id: run.id,
+      position: start + i,
+    }));
+
+    const { error: chunkError } = await supabase.from('michelin_import_changes').insert(chunk);
+    if (chunkError) {
+      // Don't leave a half-written run behind
+      await supabase.from('michelin_import_runs').delete().eq('id', run.id);
+      throw new Error(chunkError.message);
+    }
+  }
+
+  return run as ImportRunRow;
+}
+
+/**
+ * Copy Michelin columns onto every location linked to a restaurant and
+ * record the edit in location history
+ */
+async function syncLinkedLocations(
+  supabase: SupabaseClient,
+  michelinId: number,
+  fields: Record<string, unknown>,
+  userId: string
+): Promise<void> {
+  const { data: locations, error } = await supabase
+    .from('locations')
+    .select('*')
+    .eq('michelin_id', String(michelinId));
+
+  if (error) throw new Error(error.message);
+
+  for (const location of locations || []) {
+    const { data: updated, error: updateError } = await supabase
+      .from('locations')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', location.id)
+      .select()
+      .single();
+
+    if (updateError) throw new Error(updateError.message);
+
+    await recordLocationHistory(supabase, {
+      locationId: location.id,
+      michelinId,
+      action: 'update',
+      source: 'michelin-import',
+      before: location,
+      after: updated,
+      userId,
+    });
+  }
+}
+
+// Restaurant row to write for a dataset record
+function toMichelinRow(restaurant: MichelinRestaurant) {
+  return Object.fromEntries(MICHELIN_COLUMNS.map(column => [column, restaurant[column] ?? null]));
+}
+
+async function applyChange(supabase: SupabaseClient, change: ImportChangeRow, userId: string): Promise<number | null> {
+  const now = new Date().toISOString();
+
+  if (change.change_type === 'closed') {
+    await syncLinkedLocations(supabase, change.michelin_id!, {
+      michelin_id: null,
+      michelin_stars: null,
+      michelin_distinction: null,
+      michelin_green_star: false,
+    }, userId);
+
+    const { error } = await supabase.from('michelin_restaurants').delete().eq('id', change.michelin_id!);
+    if (error) throw new Error(error.message);
+    return change.michelin_id;
+  }
+
+  const restaurant = change.data!;
+  let michelinId = change.michelin_id;
+
+  if (change.change_type === 'new') {
+    // A resumed batch may already have inserted this restaurant
+    let lookup = supabase.from('michelin_restaurants').select('id');
+    lookup = restaurant.Url
+      ? lookup.eq('Url', restaurant.Url)
+      : lookup.ilike('Name', restaurant.Name.replace(/[%_\\]/g, '\\$&')).ilike('Location', (restaurant.Location ?? '').replace(/[%_\\]/g, '\\$&'));
+    const { data: existing, error: lookupError } = await lookup.limit(1).maybeSingle();
+
+    if (lookupError) throw new Error(lookupError.message);
+
+    if (!existing) {
+      const { data: inserted, error } = await supabase
+        .from('michelin_restaurants')
+        .insert({ ...toMichelinRow(restaurant), created_at: now, updated_at: now })
+        .select('id')
+        .single();
+
+      if (error) throw new Error(error.message);
+      return inserted.id;
+    }
+
+    michelinId = existing.id;
+  }
+
+  const { data: updated, error } = await supabase
+    .from('michelin_restaurants')
+    .update({ ...toMichelinRow(restaurant), updated_at: now })
+    .eq('id', michelinId!)
+    .select('id');
+
+  if (error) throw new Error(error.message);
+  if (!updated || updated.length === 0) throw new Error('Restaurant no longer exists');
+
+  await syncLinkedLocations(supabase, michelinId!, getLocationMichelinFields(restaurant), userId);
+  return michelinId;
+}
+
+/**
+ * Apply the next `limit` unapplied changes of a run. A change that fails is
+ * marked with its error and skipped so the run can always make progress.
+ */
+export async function applyImportBatch(
+  supabase: SupabaseClient,
+  run: ImportRunRow,
+  limit: number,
+  userId: string
+): Promise<{ run: ImportRunRow; applied: number; failed: number; remaining: number }> {
+  const { data: changes, error } = await supabase
+    .from('michelin_import_changes')
+    .select('*')
+    .eq('run_id', run.id)
+    .is('applied_at', null)
+    .order('position', { ascending: true })
+    .limit(limit);
+
+  if (error) throw new Error(error.message);
+
+  let applied = 0;
+  let failed = 0;
+
+  for (const change of (changes || []) as ImportChangeRow[]) {
+    let michelinId = change.michelin_id;
+    let changeError: string | null = null;
+
+    try {
+      michelinId = await applyChange(supabase, change, userId);
+      if (michelinId !== null) {
+        await recordAwardChange(supabase, {
+          michelinId,
+          guideYear: run.guide_year,
+          changeType: change.change_type,
+          previousAward: change.old_award,
+          restaurant: change.data,
+          name: change.name,
+          location: change.location,
+          runId: run.id,
+        });
+      }
+      applied++;
+    } catch (err) {
+      changeError = err instanceof Error ? err.message : String(err);
+      failed++;
+      console.error(`❌ Michelin import change ${change.id} (${change.change_type} ${change.name}) failed:`, changeError);
+    }
+
+    const { error: markError } = await supabase
+      .from('michelin_import_changes')
+      .update({ applied_at: new Date().toISOString(), michelin_id: michelinId, error: changeError })
+      .eq('id', change.id);
+
+    if (markError) throw new Error(markError.message);
+  }
+
+  const { count, error: countError } = await supabase
+    .from('michelin_import_changes')
+    .select('id', { count: 'exact', head: true })
+    .eq('run_id', run.id)
+    .is('applied_at', null);
+
+  if (countError) throw new Error(countError.message);
+  const remaining = count || 0;
+
+  const { data: updatedRun, error: runError } = await supabase
+    .from('michelin_import_runs')
+    .update({
+      status: remaining === 0 ? 'completed' : 'applying',
+      applied_count: run.applied_count + applied,
+      failed_count: run.failed_count + failed,
+      completed_at: remaining === 0 ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', run.id)
+    .select()
+    .single();
+
+  if (runError) throw new Error(runError.message);
+
+  return { run: updatedRun as ImportRunRow, applied, failed, remaining };
+}
+
+/**
+ * Convert an import run row to API format
+ */
+export function formatImportRunForAPI(run: ImportRunRow) {
+  return {
+    id: run.id,
+    status: run.status,
+    format: run.format,
+    partial: run.partial,
+    guideYear: run.guide_year,
+    totalRows: run.total_rows,
+    skippedRows: run.skipped_rows,
+    summary: run.summary,
+    changeCount: run.change_count,
+    appliedCount: run.applied_count,
+    failedCount: run.failed_count,
+    createdBy: run.created_by,
+    createdAt: run.created_at,
+    updatedAt: run.updated_at,
+    completedAt: run.completed_at,
+  };
+}
+
+/**
+ * Convert an import change row to API format
+ */
+export function formatImportChangeForAPI(change: ImportChangeRow) {
+  return {
+    id: change.id,
+    type: change.change_type,
+    michelinId: change.michelin_id,
+    name: change.name,
+    location: change.location,
+    oldAward: change.old_award,
+    newAward: change.new_award,
+    appliedAt: change.applied_at,
+    error: change.error,
+  };
+}
@@ -2,11 +2,16 @@
  * Performance Monitoring and Crash Logging Utilities
  * 
  * This module provides comprehensive logging, error tracking, and performance
- * monitoring for the Le Voyageur server.
+ * monitoring for the Le Voyageur server. The arrays below describe the
+ * current instance only; every timing is also rolled up per minute and
+ * persisted by metrics_store.tsx.
  */
 
+import { recordMetricSample } from './metrics_store.tsx';
+
 interface PerformanceMetric {
   endpoint: string;
+  route?: string | null; // Matched route pattern, e.g. "/locations/:id"
   method: string;
   duration: number;
   status: number;
@@ -56,6 +61,11 @@ export function logPerformance(metric: PerformanceMetric) {
     performanceMetrics.shift();
   }
   
+  // CORS preflights never reach a route - leave them out of the history
+  if (metric.method !== 'OPTIONS') {
+    recordMetricSample('route', `${metric.method} ${metric.route || '(unmatched)'}`, metric.duration, metric.status >= 500);
+  }
+  
   // Log to console for immediate visibility
   const emoji = metric.status >= 500 ? '🔴' : metric.status >= 400 ? '🟡' : '🟢';
   console.log(`${emoji} [PERF] ${metric.method} ${metric.endpoint} - ${metric.duration.toFixed(2)}ms - ${metric.status}${metric.error ? ` - ${metric.error}` : ''}`);
@@ -99,6 +109,8 @@ export function logDatabaseOperation(metric: DatabaseMetric) {
     databaseMetrics.shift();
   }
   
+  recordMetricSample('db', metric.table, metric.duration, !metric.success);
+  
   // Log slow queries (> 100ms)
   if (metric.duration > 100) {
     console.warn(`⚠️ [DB SLOW] ${metric.operation} on ${metric.table} took ${metric.duration.toFixed(2)}ms`);
@@ -110,6 +122,17 @@ export function logDatabaseOperation(metric: DatabaseMetric) {
   }
 }
 
+/**
+ * The route pattern a request matched (without the function prefix), so
+ * ids in the path don't split one route into thousands. Null for requests
+ * no route handled.
+ */
+function matchedRoutePath(c: any): string | null {
+  const routes = (c.req.matchedRoutes || []).filter((route: any) => route.method !== 'ALL');
+  if (routes.length === 0) return null;
+  return routes[routes.length - 1].path.replace(/^\/make-server-48182530/, '') || '/';
+}
+
 /**
  * Middleware to track request performance
  */
@@ -151,6 +174,7 @@ export function performanceMiddleware() {
       // Log the performance metric
       logPerformance({
         endpoint: path,
+        route: matchedRoutePath(c),
         method,
         duration,
         status,
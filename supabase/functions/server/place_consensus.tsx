@@ -0,0 +1,381 @@
+/**
+ * Place ID Crowd Consensus
+ * Turns the weighted votes in place_id_validations into decisions. Every
+ * (michelin_id, suggested_place_id) pair has a row in place_id_suggestions
+ * holding its tally and status. Once enough weight has been cast (the
+ * quorum) and one side holds the configured share of it, the suggestion is
+ * applied (linked to the restaurant and its location) or blacklisted (never
+ * suggested again). Pairs that reach quorum without a clear side are
+ * 'contested' and wait in the editor review queue. Open suggestions that
+ * lose to an applied link, and an applied one an editor relinks away from,
+ * are 'superseded' - not rejected, so they can be offered again if the link
+ * is undone.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { backfillMichelinRestaurant } from './michelin.tsx';
+import { recordLocationHistory } from './history.tsx';
+import { HttpError } from './helpers.tsx';
+
+export const VOTE_STATUSES = ['confirmed', 'rejected', 'unsure'] as const;
+export const SUGGESTION_STATUSES = ['pending', 'contested', 'applied', 'blacklisted', 'superseded'] as const;
+export const RESOLUTIONS = ['apply', 'blacklist'] as const;
+
+export type VoteStatus = typeof VOTE_STATUSES[number];
+export type SuggestionStatus = typeof SUGGESTION_STATUSES[number];
+export type Resolution = typeof RESOLUTIONS[number];
+
+// Suggestions in these states are settled - votes on them are refused.
+// Superseded ones reopen with the next vote (only possible once the
+// restaurant is unlinked).
+export const RESOLVED_STATUSES: SuggestionStatus[] = ['applied', 'blacklisted'];
+
+export const EDITOR_VOTE_WEIGHT = 2;
+
+export interface ConsensusConfig {
+  quorum: number; // Confirm + reject weight needed before anything is decided
+  threshold: number; // Share of that weight one side needs to win (0.5-1)
+}
+
+export interface VoteTally {
+  confirmed: number;
+  rejected: number;
+  unsure: number;
+  voters: number;
+}
+
+export interface SuggestionRow {
+  michelin_id: number;
+  suggested_place_id: string;
+  status: SuggestionStatus;
+  confirmed_weight: number;
+  rejected_weight: number;
+  unsure_weight: number;
+  voter_count: number;
+  resolved_by: string | null; // Editor who settled it by hand; null when votes did
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function isVoteStatus(value: unknown): value is VoteStatus {
+  return typeof value === 'string' && (VOTE_STATUSES as readonly string[]).includes(value);
+}
+
+export function isSuggestionStatus(value: unknown): value is SuggestionStatus {
+  return typeof value === 'string' && (SUGGESTION_STATUSES as readonly string[]).includes(value);
+}
+
+export function isResolution(value: unknown): value is Resolution {
+  return typeof value === 'string' && (RESOLUTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Quorum and winning share, from PLACE_CONSENSUS_QUORUM (default 3: three
+ * users or an editor and a user) and PLACE_CONSENSUS_THRESHOLD (default 0.7)
+ */
+export function getConsensusConfig(): ConsensusConfig {
+  const quorum = Number(Deno.env.get('PLACE_CONSENSUS_QUORUM'));
+  const threshold = Number(Deno.env.get('PLACE_CONSENSUS_THRESHOLD'));
+
+  return {
+    quorum: Number.isFinite(quorum) && quorum >= 1 ? quorum : 3,
+    threshold: Number.isFinite(threshold) && threshold > 0.5 && threshold <= 1 ? threshold : 0.7,
+  };
+}
+
+export function tallyVotes(votes: Array<{ validation_status: string; vote_weight: number | null }>): VoteTally {
+  const tally: VoteTally = { confirmed: 0, rejected: 0, unsure: 0, voters: votes.length };
+  votes.forEach(vote => {
+    if (isVoteStatus(vote.validation_status)) {
+      tally[vote.validation_status] += vote.vote_weight || 1;
+    }
+  });
+  return tally;
+}
+
+/**
+ * Status a tally earns on its own. 'Unsure' votes never decide anything, but
+ * a pair with plenty of them and no quorum is flagged for editors too.
+ */
+export function decideConsensus(tally: VoteTally, config: ConsensusConfig): SuggestionStatus {
+  const decisive = tally.confirmed + tally.rejected;
+
+  if (decisive < config.quorum) {
+    return tally.confirmed + tally.rejected + tally.unsure >= config.quorum * 2 ? 'contested' : 'pending';
+  }
+  if (tally.confirmed / decisive >= config.threshold) return 'applied';
+  if (tally.rejected / decisive >= config.threshold) return 'blacklisted';
+  return 'contested';
+}
+
+export async function getSuggestion(
+  supabase: SupabaseClient,
+  michelinId: number,
+  placeId: string
+): Promise<SuggestionRow | null> {
+  const { data, error } = await supabase
+    .from('place_id_suggestions')
+    .select('*')
+    .eq('michelin_id', michelinId)
+    .eq('suggested_place_id', placeId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data as SuggestionRow | null;
+}
+
+/**
+ * Place IDs rejected for a Michelin restaurant - suggest-place and Place ID
+ * discovery skip them
+ */
+export async function getBlacklistedPlaceIds(supabase: SupabaseClient, michelinId: number): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('place_id_suggestions')
+    .select('suggested_place_id')
+    .eq('michelin_id', michelinId)
+    .eq('status', 'blacklisted');
+
+  if (error) throw new Error(error.message);
+  return new Set((data || []).map(row => row.suggested_place_id));
+}
+
+/**
+ * Save one user's vote (a changed mind replaces the earlier vote)
+ */
+export async function recordVote(
+  supabase: SupabaseClient,
+  vote: { michelinId: number; placeId: string; userId: string; status: VoteStatus; weight: number }
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('place_id_validations')
+    .select('id')
+    .eq('michelin_id', vote.michelinId)
+    .eq('suggested_place_id', vote.placeId)
+    .eq('user_id', vote.userId)
+    .maybeSingle();
+
+  if (fetchError) throw new Error(fetchError.message);
+
+  if (existing) {
+    const { error } = await supabase
+      .from('place_id_validations')
+      .update({ validation_status: vote.status, vote_weight: vote.weight, updated_at: now })
+      .eq('id', existing.id);
+    if (error) throw new Error(error.message);
+    return;
+  }
+
+  const { error } = await supabase
+    .from('place_id_validations')
+    .insert({
+      michelin_id: vote.michelinId,
+      suggested_place_id: vote.placeId,
+      user_id: vote.userId,
+      validation_status: vote.status,
+      vote_weight: vote.weight,
+      created_at: now,
+      updated_at: now,
+    });
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Link a Michelin restaurant to a Google Place and carry the link over to
+ * its location (created when there is none), replacing any Place ID the
+ * location already had. Fails with 409 when another location owns the
+ * Place ID.
+ */
+export async function applyPlaceLink(
+  supabase: SupabaseClient,
+  michelinId: number,
+  placeId: string,
+  userId: string | null
+): Promise<void> {
+  const { data: restaurant, error: fetchError } = await supabase
+    .from('michelin_restaurants')
+    .select('*')
+    .eq('id', michelinId)
+    .maybeSingle();
+
+  if (fetchError) throw new Error(fetchError.message);
+  if (!restaurant) {
+    throw new HttpError(404, 'Michelin restaurant not found');
+  }
+
+  // Without a linked location, the backfill below adopts an unlinked owner
+  // of the Place ID - only one linked to another restaurant is a conflict
+  const { data: linked, error: linkedError } = await supabase
+    .from('locations')
+    .select('id')
+    .eq('michelin_id', michelinId)
+    .maybeSingle();
+
+  if (linkedError) throw new Error(linkedError.message);
+
+  const { data: owner, error: ownerError } = await supabase
+    .from('locations')
+    .select('id, name, michelin_id')
+    .eq('google_place_id', placeId)
+    .maybeSingle();
+
+  if (ownerError) throw new Error(ownerError.message);
+  if (owner && (linked ? owner.id !== linked.id : owner.michelin_id != null)) {
+    throw new HttpError(409, `Place ID already belongs to another location: ${owner.name}`);
+  }
+
+  const { error: updateError } = await supabase
+    .from('michelin_restaurants')
+    .update({ google_place_id: placeId, updated_at: new Date().toISOString() })
+    .eq('id', michelinId);
+
+  if (updateError) throw new Error(updateError.message);
+
+  await backfillMichelinRestaurant(supabase, { ...restaurant, google_place_id: placeId });
+
+  // The backfill only fills in a missing Place ID - replace a wrong one here
+  const { data: location } = await supabase
+    .from('locations')
+    .select('id, google_place_id')
+    .eq('michelin_id', michelinId)
+    .maybeSingle();
+
+  if (location && location.google_place_id !== placeId) {
+    const { error: locationError } = await supabase
+      .from('locations')
+      .update({ google_place_id: placeId, updated_at: new Date().toISOString() })
+      .eq('id', location.id);
+
+    if (locationError?.code === '23505') {
+      throw new HttpError(409, 'Place ID already belongs to another location');
+    }
+    if (locationError) throw new Error(locationError.message);
+  }
+
+  await recordLocationHistory(supabase, {
+    locationId: location?.id ?? null,
+    michelinId,
+    action: 'update',
+    source: 'link-place',
+    before: { google_place_id: restaurant.google_place_id ?? null },
+    after: { google_place_id: placeId },
+    userId,
+  });
+}
+
+async function saveSuggestion(
+  supabase: SupabaseClient,
+  michelinId: number,
+  placeId: string,
+  fields: Partial<SuggestionRow>
+): Promise<SuggestionRow> {
+  const { data, error } = await supabase
+    .from('place_id_suggestions')
+    .upsert({
+      michelin_id: michelinId,
+      suggested_place_id: placeId,
+      ...fields,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'michelin_id,suggested_place_id' })
+    .select()
+    .single();
+
+  if (error) throw new Error(error.message);
+  return data as SuggestionRow;
+}
+
+/**
+ * Re-tally a suggestion after a vote and act on the outcome. Applying a link
+ * also retires the other open suggestions for the same restaurant.
+ */
+export async function evaluateSuggestion(
+  supabase: SupabaseClient,
+  michelinId: number,
+  placeId: string,
+  config: ConsensusConfig = getConsensusConfig()
+): Promise<SuggestionRow> {
+  const { data: votes, error } = await supabase
+    .from('place_id_validations')
+    .select('validation_status, vote_weight')
+    .eq('michelin_id', michelinId)
+    .eq('suggested_place_id', placeId);
+
+  if (error) throw new Error(error.message);
+
+  const tally = tallyVotes(votes || []);
+  const status = decideConsensus(tally, config);
+  const settled = RESOLVED_STATUSES.includes(status);
+
+  if (status === 'applied') {
+    await applyPlaceLink(supabase, michelinId, placeId, null);
+    await retireOtherSuggestions(supabase, michelinId, placeId);
+  }
+
+  return saveSuggestion(supabase, michelinId, placeId, {
+    status,
+    confirmed_weight: tally.confirmed,
+    rejected_weight: tally.rejected,
+    unsure_weight: tally.unsure,
+    voter_count: tally.voters,
+    resolved_at: settled ? new Date().toISOString() : null,
+  });
+}
+
+/**
+ * An editor's final word on a suggestion, whatever the votes say
+ */
+export async function resolveSuggestion(
+  supabase: SupabaseClient,
+  michelinId: number,
+  placeId: string,
+  resolution: Resolution,
+  userId: string
+): Promise<SuggestionRow> {
+  if (resolution === 'apply') {
+    await applyPlaceLink(supabase, michelinId, placeId, userId);
+    await retireOtherSuggestions(supabase, michelinId, placeId);
+  }
+
+  return saveSuggestion(supabase, michelinId, placeId, {
+    status: resolution === 'apply' ? 'applied' : 'blacklisted',
+    resolved_by: userId,
+    resolved_at: new Date().toISOString(),
+  });
+}
+
+// Once a restaurant is linked, competing suggestions can't win any more, and
+// an editor relinking it replaces the previously applied one. They aren't
+// rejected, so they stay out of getBlacklistedPlaceIds().
+async function retireOtherSuggestions(supabase: SupabaseClient, michelinId: number, placeId: string): Promise<void> {
+  const { error } = await supabase
+    .from('place_id_suggestions')
+    .update({ status: 'superseded', resolved_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq('michelin_id', michelinId)
+    .neq('suggested_place_id', placeId)
+    .in('status', ['pending', 'contested', 'applied']);
+
+  if (error) console.error('⚠️ Failed to retire competing Place ID suggestions:', error);
+}
+
+export function formatSuggestionForAPI(row: SuggestionRow, restaurant?: { Name?: string; Address?: string; Location?: string } | null) {
+  return {
+    michelinId: row.michelin_id,
+    placeId: row.suggested_place_id,
+    status: row.status,
+    votes: {
+      confirmed: row.confirmed_weight,
+      rejected: row.rejected_weight,
+      unsure: row.unsure_weight,
+      voters: row.voter_count,
+    },
+    restaurant: restaurant
+      ? { name: restaurant.Name, address: restaurant.Address, location: restaurant.Location }
+      : null,
+    resolvedBy: row.resolved_by,
+    resolvedAt: row.resolved_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
@@ -0,0 +1,293 @@
+/**
+ * Michelin ↔ Google Place Matcher
+ * One scorer for every path that pairs a Michelin restaurant with a place
+ * (Michelin ratings for new locations, Place ID discovery, suggest-place).
+ * Each candidate gets a 0-100 confidence from name similarity, distance,
+ * address overlap and cuisine/type compatibility. Only matches at or above
+ * AUTO_LINK_CONFIDENCE are linked automatically; the review band goes to
+ * crowd validation (PlaceIdValidationPopup).
+ */
+
+import { haversineKm } from './spatial.tsx';
+import { searchPlacesNear } from './google_places.tsx';
+import type { GoogleUsageContext } from './google_usage.tsx';
+import type { MichelinRestaurant } from './michelin.tsx';
+
+export const AUTO_LINK_CONFIDENCE = 85;
+export const REVIEW_MIN_CONFIDENCE = 45;
+
+export type MatchDecision = 'auto' | 'review' | 'none';
+
+export interface MatchSubject {
+  name?: string | null;
+  lat: number;
+  lng: number;
+  address?: string | null;
+  cuisine?: string | null; // Michelin cuisine, e.g. "Modern French, Seafood"
+  types?: string[] | null; // Google place types, e.g. ["french_restaurant", "restaurant"]
+}
+
+export interface MatchSignals {
+  name: number | null; // 0-1, null when either side has no name
+  distance: number; // 0-1
+  address: number | null;
+  type: number | null;
+}
+
+export interface ScoredMatch<T> {
+  candidate: T;
+  confidence: number; // 0-100
+  distanceMeters: number;
+  signals: MatchSignals;
+  decision: MatchDecision;
+}
+
+const WEIGHTS: Record<keyof MatchSignals, number> = {
+  name: 0.45,
+  distance: 0.3,
+  address: 0.15,
+  type: 0.1,
+};
+
+// Words that say what kind of place it is rather than which one
+const STOP_WORDS = new Set([
+  'restaurant', 'restaurants', 'ristorante', 'restaurante', 'restaurang', 'resto',
+  'the', 'le', 'la', 'les', 'l', 'el', 'los', 'las', 'il', 'lo', 'gli', 'der', 'die', 'das',
+  'de', 'du', 'des', 'da', 'di', 'del', 'della', 'do', 'dos', 'van', 'von',
+  'and', 'et', 'y', 'e', 'und', 'at', 'by', 'chez', 'au', 'aux',
+]);
+
+// Address words that carry no location information
+const ADDRESS_STOP_WORDS = new Set([
+  'street', 'st', 'road', 'rd', 'avenue', 'ave', 'rue', 'via', 'calle', 'strasse', 'str',
+  'boulevard', 'blvd', 'place', 'pl', 'piazza', 'plaza', 'lane', 'ln', 'floor', 'fl',
+  ...STOP_WORDS,
+]);
+
+const FOOD_TYPES = new Set(['restaurant', 'food', 'meal_takeaway', 'meal_delivery', 'bar', 'cafe', 'bakery', 'wine_bar', 'brunch_restaurant', 'fine_dining_restaurant']);
+
+// Michelin cuisine words -> the Google type prefix they correspond to
+const CUISINE_TYPES: Record<string, string> = {
+  japanese: 'japanese', sushi: 'sushi', ramen: 'ramen', italian: 'italian', pizza: 'pizza',
+  french: 'french', chinese: 'chinese', cantonese: 'chinese', sichuan: 'chinese', thai: 'thai',
+  indian: 'indian', korean: 'korean', mexican: 'mexican', spanish: 'spanish', tapas: 'spanish',
+  seafood: 'seafood', steakhouse: 'steak_house', vegetarian: 'vegetarian', vegan: 'vegan',
+  mediterranean: 'mediterranean', greek: 'greek', turkish: 'turkish', lebanese: 'lebanese',
+  vietnamese: 'vietnamese', american: 'american', barbecue: 'barbecue', peruvian: 'peruvian',
+};
+
+/**
+ * Fold accents, drop punctuation and lowercase: "Brasserie L'Écluse" -> "brasserie l ecluse"
+ */
+export function foldText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’`]/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Name tokens with stop words removed (all tokens if that would leave none,
+ * so "Le Restaurant" still has something to compare)
+ */
+export function nameTokens(name: string): string[] {
+  const tokens = foldText(name).split(' ').filter(Boolean);
+  const meaningful = tokens.filter(token => !STOP_WORDS.has(token));
+  return meaningful.length > 0 ? meaningful : tokens;
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/ /g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) result.push(compact.slice(i, i + 2));
+  return result;
+}
+
+// Sørensen-Dice coefficient over two multisets
+function dice(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const counts = new Map<string, number>();
+  a.forEach(item => counts.set(item, (counts.get(item) || 0) + 1));
+  let overlap = 0;
+  b.forEach(item => {
+    const count = counts.get(item) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(item, count - 1);
+    }
+  });
+  return (2 * overlap) / (a.length + b.length);
+}
+
+/**
+ * 0-1 similarity of two restaurant names. Token overlap catches reordered
+ * names, character bigrams catch spelling variants; a name contained in the
+ * other ("Geranium" / "Restaurant Geranium Copenhagen") scores high.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  const joinedA = tokensA.join(' ');
+  const joinedB = tokensB.join(' ');
+
+  if (!joinedA || !joinedB) return 0;
+  if (joinedA === joinedB) return 1;
+
+  const shorter = joinedA.length <= joinedB.length ? joinedA : joinedB;
+  const longer = shorter === joinedA ? joinedB : joinedA;
+  const contained = shorter.length >= 4 && ` ${longer} `.includes(` ${shorter} `) ? 0.9 : 0;
+
+  return Math.max(contained, dice(tokensA, tokensB), dice(bigrams(joinedA), bigrams(joinedB)));
+}
+
+/**
+ * 1 at the same spot, ~0.5 at 120m, ~0.1 at 400m, 0 beyond 2km
+ */
+export function distanceScore(meters: number): number {
+  if (meters > 2000) return 0;
+  return Math.exp(-meters / 175);
+}
+
+/**
+ * Share of the shorter address's tokens found in the other. Street numbers
+ * must agree: a mismatched number halves the score.
+ */
+export function addressSimilarity(a: string, b: string): number {
+  const tokenize = (value: string) => foldText(value).split(' ').filter(token => token && !ADDRESS_STOP_WORDS.has(token));
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const longerSet = new Set(longer);
+  const overlap = shorter.filter(token => longerSet.has(token)).length / shorter.length;
+
+  const numbersA = tokensA.filter(token => /^\d+$/.test(token));
+  const numbersB = new Set(tokensB.filter(token => /^\d+$/.test(token)));
+  const numbersClash = numbersA.length > 0 && numbersB.size > 0 && !numbersA.some(n => numbersB.has(n));
+
+  return numbersClash ? overlap / 2 : overlap;
+}
+
+/**
+ * How well Google types fit a Michelin cuisine: 1 for a matching cuisine
+ * type, 0.7 for any food place, 0.4 for hotels (many starred restaurants
+ * sit in one), 0 otherwise
+ */
+export function typeCompatibility(cuisine: string | null | undefined, types: string[]): number {
+  if (types.length === 0) return 0;
+
+  if (cuisine) {
+    const wanted = foldText(cuisine).split(' ').map(word => CUISINE_TYPES[word]).filter(Boolean);
+    if (wanted.some(prefix => types.some(type => type.startsWith(prefix)))) return 1;
+  }
+
+  if (types.some(type => FOOD_TYPES.has(type) || type.endsWith('_restaurant'))) return 0.7;
+  if (types.includes('lodging') || types.includes('hotel')) return 0.4;
+  return 0;
+}
+
+export function decideMatch(confidence: number): MatchDecision {
+  if (confidence >= AUTO_LINK_CONFIDENCE) return 'auto';
+  if (confidence >= REVIEW_MIN_CONFIDENCE) return 'review';
+  return 'none';
+}
+
+/**
+ * Score one candidate against the thing being matched. Signals that can't
+ * be computed (no address on one side, say) drop out and the remaining
+ * weights are rescaled.
+ */
+export function scoreMatch<T extends MatchSubject>(subject: MatchSubject, candidate: T): ScoredMatch<T> {
+  const distanceMeters = haversineKm(subject.lat, subject.lng, candidate.lat, candidate.lng) * 1000;
+
+  const cuisine = subject.cuisine || candidate.cuisine;
+  const types = subject.types || candidate.types;
+
+  const signals: MatchSignals = {
+    name: subject.name && candidate.name ? nameSimilarity(subject.name, candidate.name) : null,
+    distance: distanceScore(distanceMeters),
+    address: subject.address && candidate.address ? addressSimilarity(subject.address, candidate.address) : null,
+    type: types && types.length > 0 ? typeCompatibility(cuisine, types) : null,
+  };
+
+  let total = 0;
+  let weight = 0;
+  (Object.keys(WEIGHTS) as Array<keyof MatchSignals>).forEach(key => {
+    const value = signals[key];
+    if (value === null) return;
+    total += value * WEIGHTS[key];
+    weight += WEIGHTS[key];
+  });
+
+  let confidence = Math.round((total / weight) * 100);
+
+  // A neighbour with a different name is never the same restaurant, however close
+  if (signals.name !== null && signals.name < 0.4) {
+    confidence = Math.min(confidence, REVIEW_MIN_CONFIDENCE - 1);
+  }
+  // Without a name to compare, proximity alone can't clear auto-linking
+  if (signals.name === null) {
+    confidence = Math.min(confidence, AUTO_LINK_CONFIDENCE - 1);
+  }
+
+  return { candidate, confidence, distanceMeters, signals, decision: decideMatch(confidence) };
+}
+
+/**
+ * All candidates scored, best first
+ */
+export function rankMatches<T extends MatchSubject>(subject: MatchSubject, candidates: T[]): ScoredMatch<T>[] {
+  return candidates
+    .map(candidate => scoreMatch(subject, candidate))
+    .sort((a, b) => b.confidence - a.confidence || a.distanceMeters - b.distanceMeters);
+}
+
+/**
+ * A Michelin restaurant as a match subject
+ */
+export function michelinToSubject(restaurant: MichelinRestaurant): MatchSubject {
+  return {
+    name: restaurant.Name,
+    lat: restaurant.Latitude,
+    lng: restaurant.Longitude,
+    address: restaurant.Address || restaurant.Location,
+    cuisine: restaurant.Cuisine,
+  };
+}
+
+/**
+ * A Places v1 search result as a match candidate (keeps the raw place)
+ */
+export function googlePlaceToCandidate(place: any): MatchSubject & { place: any } {
+  return {
+    name: typeof place.displayName === 'string' ? place.displayName : place.displayName?.text || '',
+    lat: place.location?.latitude,
+    lng: place.location?.longitude,
+    address: place.formattedAddress,
+    types: place.types || [],
+    place,
+  };
+}
+
+/**
+ * Search Google around a Michelin restaurant and score every result, best first
+ */
+export async function findGoogleMatches(
+  apiKey: string,
+  restaurant: MichelinRestaurant,
+  usage: GoogleUsageContext,
+  fields: 'match' | 'preview' = 'match'
+): Promise<ScoredMatch<MatchSubject & { place: any }>[]> {
+  const query = `${restaurant.Name} ${restaurant.Address || restaurant.Location || ''}`.trim();
+  const places = await searchPlacesNear(apiKey, query, restaurant.Latitude, restaurant.Longitude, usage, { fields });
+
+  return rankMatches(
+    michelinToSubject(restaurant),
+    places.filter(place => place.location).map(googlePlaceToCandidate)
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * Rate Limiting
+ * Token buckets per caller and policy. A bucket holds up to `capacity`
+ * tokens, refills continuously at `refillPerMinute`, and each request takes
+ * one; an empty bucket answers 429 with Retry-After. Callers are keyed by
+ * their verified user ID when the route ran verifyAuth or optionalAuth
+ * first, otherwise by client IP.
+ *
+ * Buckets live in a RateLimitStore. The in-memory store keeps them per
+ * instance, so a caller spread across instances gets a multiple of the
+ * limit - good enough against runaway clients and scripted abuse. A shared
+ * store can be swapped in with setRateLimitStore() without touching routes.
+ *
+ * Every check is recorded as a 'throttle' metric (errors = throttled), so
+ * throttle counts show up with the persisted server metrics.
+ */
+
+import { recordMetricSample } from './metrics_store.tsx';
+
+export interface RateLimitPolicy {
+  capacity: number; // Burst size
+  refillPerMinute: number;
+  keyBy: 'user' | 'ip'; // 'user' falls back to the IP for anonymous callers
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+export interface RateLimitStore {
+  take(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitDecision>;
+}
+
+export const RATE_LIMIT_POLICIES = {
+  // Places API (New) on a cache miss
+  'google-place-details': { capacity: 30, refillPerMinute: 30, keyBy: 'ip' },
+  // A details view loads several photos at once; most are served from cache
+  'google-photos': { capacity: 120, refillPerMinute: 60, keyBy: 'ip' },
+  'city-stats': { capacity: 20, refillPerMinute: 20, keyBy: 'ip' },
+  // Runs a Text Search (Enterprise SKU) on every call
+  'suggest-place': { capacity: 10, refillPerMinute: 5, keyBy: 'user' },
+  'telemetry': { capacity: 20, refillPerMinute: 10, keyBy: 'ip' },
+  'signup': { capacity: 5, refillPerMinute: 0.5, keyBy: 'ip' },
+  'seed': { capacity: 2, refillPerMinute: 1 / 30, keyBy: 'user' },
+} as const satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+
+// Buckets kept by the in-memory store before the least recently used go
+const MAX_MEMORY_BUCKETS = 10000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Per-instance buckets in a Map, evicting the least recently used
+ */
+export function createMemoryRateLimitStore(maxBuckets = MAX_MEMORY_BUCKETS): RateLimitStore {
+  const buckets = new Map<string, Bucket>();
+
+  return {
+    async take(key, policy, now) {
+      const bucket = buckets.get(key) || { tokens: policy.capacity, updatedAt: now };
+      const refilled = Math.min(
+        policy.capacity,
+        bucket.tokens + ((now - bucket.updatedAt) / 60000) * policy.refillPerMinute
+      );
+
+      // Re-insert so the Map's order tracks recent use
+      buckets.delete(key);
+      if (buckets.size >= maxBuckets) {
+        buckets.delete(buckets.keys().next().value!);
+      }
+
+      if (refilled < 1) {
+        buckets.set(key, { tokens: refilled, updatedAt: now });
+        return {
+          allowed: false,
+          remaining: 0,
+          retryAfterSeconds: Math.max(1, Math.ceil(((1 - refilled) / policy.refillPerMinute) * 60)),
+        };
+      }
+
+      buckets.set(key, { tokens: refilled - 1, updatedAt: now });
+      return { allowed: true, remaining: Math.floor(refilled - 1), retryAfterSeconds: 0 };
+    },
+  };
+}
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+/**
+ * The caller's address as reported by the edge proxy. The proxy appends the
+ * address it saw to X-Forwarded-For, so only the last entry is trusted -
+ * anything before it came from the client and can be made up.
+ */
+export function getClientIp(c: any): string {
+  const forwarded = c.req.header('X-Forwarded-For');
+  if (forwarded) {
+    const hops = forwarded.split(',').map((hop: string) => hop.trim()).filter(Boolean);
+    if (hops.length > 0) return hops[hops.length - 1];
+  }
+  return c.req.header('X-Real-IP') || 'unknown';
+}
+
+/**
+ * Middleware that limits a route by the named policy. Put it after
+ * verifyAuth (or optionalAuth on public routes) so callers are keyed by
+ * user. If the store fails, the request is let through.
+ */
+export function rateLimit(policyName: RateLimitPolicyName) {
+  const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[policyName];
+
+  return async (c: any, next: any) => {
+    const userId = policy.keyBy === 'user' ? c.get('userId') : null;
+    const key = `${policyName}|${userId ? `user:${userId}` : `ip:${getClientIp(c)}`}`;
+
+    let decision: RateLimitDecision;
+    try {
+      decision = await store.take(key, policy, Date.now());
+    } catch (error) {
+      console.error(`⚠️ Rate limit store failed for ${policyName}:`, error);
+      return await next();
+    }
+
+    recordMetricSample('throttle', policyName, 0, !decision.allowed);
+
+    if (!decision.allowed) {
+      console.log(`⚠️ Rate limited ${key} (retry in ${decision.retryAfterSeconds}s)`);
+      c.header('Retry-After', String(decision.retryAfterSeconds));
+      return c.json({ error: 'Too many requests', retryAfter: decision.retryAfterSeconds }, 429);
+    }
+
+    c.header('X-RateLimit-Limit', String(policy.capacity));
+    c.header('X-RateLimit-Remaining', String(decision.remaining));
+    return await next();
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Roles & Permissions
+ * Ordered role hierarchy (user < contributor < editor < admin). Each
+ * permission names the lowest role that holds it, so a role's effective
+ * permissions are everything granted to it and the roles below it.
+ */
+
+export const ROLES = ['user', 'contributor', 'editor', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+// Permission -> minimum role
+export const PERMISSIONS = {
+  'profile:write': 'user',
+  'lists:write': 'user',
+  'ratings:write': 'user',
+  'places:validate': 'user',
+  'places:discover': 'contributor',
+  'michelin:link': 'contributor',
+  'locations:write': 'editor',
+  'locations:delete': 'editor',
+  'locations:merge': 'editor',
+  'locations:history': 'editor',
+  'places:approve': 'editor',
+  'guides:write': 'editor',
+  'michelin:import': 'editor',
+  'users:read': 'editor',
+  'metrics:read': 'editor',
+  'alerts:respond': 'editor',
+  'alerts:configure': 'admin',
+  'usage:read': 'admin',
+  'users:manage': 'admin',
+} as const satisfies Record<string, Role>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  'profile:write': 'Edit own profile',
+  'lists:write': 'Save favorites and want-to-go places',
+  'ratings:write': 'Rate places',
+  'places:validate': 'Vote on suggested Google Place matches',
+  'places:discover': 'Run Google Place ID discovery for Michelin restaurants',
+  'michelin:link': 'Link Michelin restaurants to Google places',
+  'locations:write': 'Create and edit locations and editor scores',
+  'locations:delete': 'Delete locations',
+  'locations:merge': 'Find and merge duplicate locations',
+  'locations:history': 'View and revert location history',
+  'places:approve': 'Place ID votes count double; settle contested matches',
+  'guides:write': 'Write and publish city guides',
+  'michelin:import': 'Import and backfill Michelin data',
+  'users:read': 'View all users',
+  'metrics:read': 'View server metrics',
+  'alerts:respond': 'Acknowledge and resolve alerts',
+  'alerts:configure': 'Create and edit alert rules',
+  'usage:read': 'View Google API usage and cost per user',
+  'users:manage': 'Change user roles',
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Position in the hierarchy. Unknown roles rank below 'user'.
+ */
+export function roleLevel(role: string | null | undefined): number {
+  return isRole(role) ? ROLES.indexOf(role) : -1;
+}
+
+/**
+ * True when `role` is `minRole` or above it
+ */
+export function hasRole(role: string | null | undefined, minRole: Role): boolean {
+  return roleLevel(role) >= roleLevel(minRole);
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return hasRole(role, PERMISSIONS[permission]);
+}
+
+/**
+ * Every permission a role holds, in declaration order
+ */
+export function getEffectivePermissions(role: string | null | undefined): Permission[] {
+  return (Object.keys(PERMISSIONS) as Permission[]).filter(permission => hasPermission(role, permission));
+}
+
+/**
+ * Role -> effective permissions table for the admin panel
+ */
+export function getRoleMatrix() {
+  return {
+    roles: ROLES.map(role => ({ role, permissions: getEffectivePermissions(role) })),
+    permissions: (Object.keys(PERMISSIONS) as Permission[]).map(permission => ({
+      permission,
+      minRole: PERMISSIONS[permission],
+      description: PERMISSION_DESCRIPTIONS[permission],
+    })),
+  };
+}
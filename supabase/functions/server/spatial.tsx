@@ -0,0 +1,302 @@
+/**
+ * Spatial Lookup Layer
+ * Bounding-box, radius and k-nearest queries against the locations and
+ * michelin_restaurants tables. Every query is narrowed by an indexed lat/lng
+ * box in the database first and refined with Haversine distances here, so
+ * callers never have to scan the full table.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { trackDatabaseOperation } from './monitoring.tsx';
+
+// Column names differ between tables (locations uses lat/lng, the Michelin
+// CSV import uses Latitude/Longitude)
+export const SPATIAL_TABLES = {
+  locations: { table: 'locations', latColumn: 'lat', lngColumn: 'lng' },
+  michelin: { table: 'michelin_restaurants', latColumn: 'Latitude', lngColumn: 'Longitude' },
+} as const;
+
+export type SpatialTable = keyof typeof SPATIAL_TABLES;
+
+/**
+ * Geographic bounds. west > east means the box crosses the antimeridian.
+ */
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface SpatialQueryOptions {
+  select?: string;
+  limit?: number;
+  // Extra filters applied to every underlying query (e.g. .eq('category', ...))
+  filter?: (query: any) => any;
+}
+
+export type WithDistance<T> = T & { distanceKm: number };
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 111.32;
+
+export const DEFAULT_NEAREST_START_RADIUS_KM = 0.5;
+export const DEFAULT_NEAREST_MAX_RADIUS_KM = 50;
+
+// PostgREST returns at most this many rows per request (max-rows)
+const PAGE_SIZE = 1000;
+
+function toRadians(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+/**
+ * Wrap a longitude into [-180, 180]
+ */
+export function normalizeLongitude(lng: number): number {
+  if (lng >= -180 && lng <= 180) return lng;
+  return ((((lng + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Great-circle distance between two coordinates in kilometers (Haversine)
+ */
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Parse "south,west,north,east" (the order used by GET /locations?bounds=)
+ * Returns null for malformed input
+ */
+export function parseBounds(value: string | undefined | null): BoundingBox | null {
+  if (!value) return null;
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 4 || parts.some(isNaN)) return null;
+
+  const [south, west, north, east] = parts;
+  return normalizeBounds({ south, west, north, east });
+}
+
+/**
+ * Clamp latitudes and wrap longitudes. A box spanning 360° or more is
+ * collapsed to the full longitude range.
+ */
+export function normalizeBounds(box: BoundingBox): BoundingBox {
+  const south = Math.max(-90, Math.min(box.south, box.north));
+  const north = Math.min(90, Math.max(box.south, box.north));
+
+  if (box.east - box.west >= 360) {
+    return { south, west: -180, north, east: 180 };
+  }
+
+  return {
+    south,
+    north,
+    west: normalizeLongitude(box.west),
+    east: normalizeLongitude(box.east),
+  };
+}
+
+/**
+ * Split a box that crosses the antimeridian into two boxes that don't
+ */
+export function splitAntimeridian(box: BoundingBox): BoundingBox[] {
+  if (box.west <= box.east) return [box];
+
+  return [
+    { south: box.south, west: box.west, north: box.north, east: 180 },
+    { south: box.south, west: -180, north: box.north, east: box.east },
+  ];
+}
+
+/**
+ * Smallest box containing every point within radiusKm of (lat, lng)
+ */
+export function boundsAroundPoint(lat: number, lng: number, radiusKm: number): BoundingBox {
+  const latDelta = radiusKm / KM_PER_DEGREE_LAT;
+  const south = lat - latDelta;
+  const north = lat + latDelta;
+
+  // Circle reaches a pole - every longitude qualifies
+  if (south <= -90 || north >= 90) {
+    return { south: Math.max(-90, south), west: -180, north: Math.min(90, north), east: 180 };
+  }
+
+  const lngDelta = radiusKm / (KM_PER_DEGREE_LAT * Math.cos(toRadians(lat)));
+  if (lngDelta >= 180) {
+    return { south, west: -180, north, east: 180 };
+  }
+
+  return {
+    south,
+    north,
+    west: normalizeLongitude(lng - lngDelta),
+    east: normalizeLongitude(lng + lngDelta),
+  };
+}
+
+/**
+ * Center of a box, accounting for the antimeridian
+ */
+export function boundsCenter(box: BoundingBox): { lat: number; lng: number } {
+  const east = box.west > box.east ? box.east + 360 : box.east;
+  return {
+    lat: (box.south + box.north) / 2,
+    lng: normalizeLongitude((box.west + east) / 2),
+  };
+}
+
+/**
+ * Apply a bounding box to an existing query in one request (keeps ordering
+ * and cursors intact). The antimeridian longitude split is pushed to orGroups.
+ */
+export function applyBoundsFilter(query: any, tableKey: SpatialTable, box: BoundingBox, orGroups: string[]): any {
+  const { latColumn, lngColumn } = SPATIAL_TABLES[tableKey];
+  const bounds = normalizeBounds(box);
+
+  query = query.gte(latColumn, bounds.south).lte(latColumn, bounds.north);
+
+  if (bounds.west <= bounds.east) {
+    return query.gte(lngColumn, bounds.west).lte(lngColumn, bounds.east);
+  }
+
+  orGroups.push(`${lngColumn}.gte.${bounds.west},${lngColumn}.lte.${bounds.east}`);
+  return query;
+}
+
+/**
+ * Fetch rows inside a bounding box, paging past the PostgREST row cap. A box
+ * crossing the antimeridian runs as two queries; with a limit, the merged
+ * rows nearest the box center are kept.
+ */
+export async function queryBoundingBox<T = any>(
+  supabase: SupabaseClient,
+  tableKey: SpatialTable,
+  box: BoundingBox,
+  options: SpatialQueryOptions = {}
+): Promise<T[]> {
+  const { table, latColumn, lngColumn } = SPATIAL_TABLES[tableKey];
+  const parts = splitAntimeridian(normalizeBounds(box));
+  const rows: any[] = [];
+
+  for (const part of parts) {
+    const wanted = options.limit ?? Infinity;
+
+    // Ordered by id so pages don't overlap or skip rows
+    for (let offset = 0; offset < wanted; offset += PAGE_SIZE) {
+      let query: any = supabase
+        .from(table)
+        .select(options.select || '*')
+        .gte(latColumn, part.south)
+        .lte(latColumn, part.north)
+        .gte(lngColumn, part.west)
+        .lte(lngColumn, part.east);
+
+      if (options.filter) {
+        query = options.filter(query);
+      }
+
+      const pageSize = Math.min(PAGE_SIZE, wanted - offset);
+      query = query.order('id').range(offset, offset + pageSize - 1);
+
+      const { data, error } = await trackDatabaseOperation('SELECT', table, () => query);
+      if (error) {
+        throw new Error(error.message);
+      }
+      rows.push(...(data || []));
+      if (!data || data.length < pageSize) break;
+    }
+  }
+
+  if (!options.limit || rows.length <= options.limit) {
+    return rows as T[];
+  }
+
+  const center = boundsCenter(box);
+  return rows
+    .map(row => ({ row, distance: haversineKm(center.lat, center.lng, row[latColumn], row[lngColumn]) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, options.limit)
+    .map(({ row }) => row as T);
+}
+
+/**
+ * Fetch rows within radiusKm of a point, nearest first
+ */
+export async function queryRadius<T = any>(
+  supabase: SupabaseClient,
+  tableKey: SpatialTable,
+  lat: number,
+  lng: number,
+  radiusKm: number,
+  options: SpatialQueryOptions = {}
+): Promise<WithDistance<T>[]> {
+  const { latColumn, lngColumn } = SPATIAL_TABLES[tableKey];
+
+  // The box prefilter must not be capped (queryBoundingBox pages through the
+  // whole box) - the limit applies after sorting by distance
+  const candidates = await queryBoundingBox<any>(supabase, tableKey, boundsAroundPoint(lat, lng, radiusKm), {
+    select: options.select,
+    filter: options.filter,
+  });
+
+  const results = candidates
+    .filter(row => row[latColumn] != null && row[lngColumn] != null)
+    .map(row => ({ ...row, distanceKm: haversineKm(lat, lng, row[latColumn], row[lngColumn]) }))
+    .filter(row => row.distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+
+  return (options.limit ? results.slice(0, options.limit) : results) as WithDistance<T>[];
+}
+
+/**
+ * Fetch the k rows nearest to a point. The search radius doubles until k rows
+ * are found or maxRadiusKm is reached.
+ */
+export async function queryNearest<T = any>(
+  supabase: SupabaseClient,
+  tableKey: SpatialTable,
+  lat: number,
+  lng: number,
+  k: number,
+  options: Omit<SpatialQueryOptions, 'limit'> & { maxRadiusKm?: number } = {}
+): Promise<WithDistance<T>[]> {
+  const maxRadiusKm = options.maxRadiusKm ?? DEFAULT_NEAREST_MAX_RADIUS_KM;
+  let radiusKm = Math.min(DEFAULT_NEAREST_START_RADIUS_KM, maxRadiusKm);
+
+  while (true) {
+    const results = await queryRadius<T>(supabase, tableKey, lat, lng, radiusKm, options);
+    if (results.length >= k || radiusKm >= maxRadiusKm) {
+      return results.slice(0, k);
+    }
+    radiusKm = Math.min(radiusKm * 2, maxRadiusKm);
+  }
+}
+
+/**
+ * Radius query, k-nearest query, or both (k nearest within radiusKm)
+ */
+export async function queryNearby<T = any>(
+  supabase: SupabaseClient,
+  tableKey: SpatialTable,
+  params: { lat: number; lng: number; radiusKm?: number; k?: number; limit?: number }
+): Promise<WithDistance<T>[]> {
+  if (params.k) {
+    return queryNearest<T>(supabase, tableKey, params.lat, params.lng, params.k, {
+      maxRadiusKm: params.radiusKm,
+    });
+  }
+
+  return queryRadius<T>(supabase, tableKey, params.lat, params.lng, params.radiusKm ?? DEFAULT_NEAREST_START_RADIUS_KM, {
+    limit: params.limit,
+  });
+}
@@ -0,0 +1,182 @@
+/**
+ * Admin Statistics
+ * Platform counters, daily activity series (signups, favorites, want-to-go,
+ * editor ratings) and location breakdowns by city and country for
+ * GET /admin/stats. Days are UTC calendar days.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { fetchAllRows } from './helpers.tsx';
+
+export const DEFAULT_STATS_DAYS = 30;
+export const MAX_STATS_DAYS = 365;
+export const DEFAULT_BREAKDOWN_LIMIT = 10;
+
+export interface AdminCounters {
+  totalUsers: number;
+  totalLocations: number;
+  totalFavorites: number;
+  totalWantToGo: number;
+  lvRatedLocations: number;
+  michelinLocations: number;
+}
+
+export interface DailyStatsPoint {
+  date: string; // YYYY-MM-DD
+  signups: number;
+  favorites: number;
+  wantToGo: number;
+  editorRatings: number;
+}
+
+export interface BreakdownEntry {
+  name: string;
+  locations: number;
+  lvRated: number;
+  michelin: number;
+}
+
+type SeriesKey = Exclude<keyof DailyStatsPoint, 'date'>;
+
+// Table and timestamp column behind each series. Editor ratings use
+// updated_at so a revised score counts as rating activity on that day.
+const SERIES_SOURCES: Record<SeriesKey, { table: string; column: string }> = {
+  signups: { table: 'user_metadata', column: 'created_at' },
+  favorites: { table: 'favorites', column: 'created_at' },
+  wantToGo: { table: 'want_to_go', column: 'created_at' },
+  editorRatings: { table: 'editor_scores', column: 'updated_at' },
+};
+
+/**
+ * Parse ?days= (1..MAX_STATS_DAYS)
+ */
+export function parseStatsDays(value: string | undefined): number | string {
+  if (value === undefined || value === '') return DEFAULT_STATS_DAYS;
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_STATS_DAYS) {
+    return `days must be between 1 and ${MAX_STATS_DAYS}`;
+  }
+  return days;
+}
+
+async function countRows(
+  supabase: SupabaseClient,
+  table: string,
+  filter?: (query: any) => any
+): Promise<number> {
+  let query = supabase.from(table).select('*', { count: 'exact', head: true });
+  if (filter) query = filter(query);
+
+  const { count, error } = await query;
+  if (error) throw new Error(`${table}: ${error.message}`);
+  return count || 0;
+}
+
+/**
+ * The six headline counters
+ */
+export async function getAdminCounters(supabase: SupabaseClient): Promise<AdminCounters> {
+  const [totalUsers, totalLocations, totalFavorites, totalWantToGo, lvRatedLocations, michelinLocations] = await Promise.all([
+    countRows(supabase, 'user_metadata'),
+    countRows(supabase, 'locations'),
+    countRows(supabase, 'favorites'),
+    countRows(supabase, 'want_to_go'),
+    countRows(supabase, 'locations', query => query.gt('lv_editor_score', 0)),
+    countRows(supabase, 'locations', query => query.or('michelin_stars.gt.0,michelin_distinction.not.is.null')),
+  ]);
+
+  return { totalUsers, totalLocations, totalFavorites, totalWantToGo, lvRatedLocations, michelinLocations };
+}
+
+function toDateKey(timestamp: string | Date): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * One point per day for the last `days` days (today included), zero-filled
+ */
+export async function getDailySeries(supabase: SupabaseClient, days: number): Promise<DailyStatsPoint[]> {
+  const start = new Date();
+  start.setUTCHours(0, 0, 0, 0);
+  start.setUTCDate(start.getUTCDate() - (days - 1));
+
+  const series: DailyStatsPoint[] = [];
+  const byDate = new Map<string, DailyStatsPoint>();
+  for (let i = 0; i < days; i++) {
+    const date = new Date(start);
+    date.setUTCDate(start.getUTCDate() + i);
+    const point = { date: toDateKey(date), signups: 0, favorites: 0, wantToGo: 0, editorRatings: 0 };
+    series.push(point);
+    byDate.set(point.date, point);
+  }
+
+  await Promise.all((Object.keys(SERIES_SOURCES) as SeriesKey[]).map(async key => {
+    const { table, column } = SERIES_SOURCES[key];
+    const rows = await fetchAllRows<Record<string, string>>(() =>
+      supabase
+        .from(table)
+        .select(column)
+        .gte(column, start.toISOString())
+        .order(column, { ascending: true })
+    );
+
+    rows.forEach(row => {
+      const point = row[column] && byDate.get(toDateKey(row[column]));
+      if (point) point[key]++;
+    });
+  }));
+
+  return series;
+}
+
+function rankBreakdown(groups: Map<string, BreakdownEntry>, limit: number): BreakdownEntry[] {
+  return [...groups.values()]
+    .sort((a, b) => b.locations - a.locations || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+/**
+ * Top cities and countries by location count. Locations without a
+ * city / country are left out of that breakdown.
+ */
+export async function getLocationBreakdowns(
+  supabase: SupabaseClient,
+  limit = DEFAULT_BREAKDOWN_LIMIT
+): Promise<{ cities: BreakdownEntry[]; countries: BreakdownEntry[] }> {
+  const rows = await fetchAllRows<{
+    city: string | null;
+    country: string | null;
+    lv_editor_score: number | null;
+    michelin_stars: number | null;
+    michelin_distinction: string | null;
+  }>(() =>
+    supabase
+      .from('locations')
+      .select('city, country, lv_editor_score, michelin_stars, michelin_distinction')
+      .order('id', { ascending: true })
+  );
+
+  const cities = new Map<string, BreakdownEntry>();
+  const countries = new Map<string, BreakdownEntry>();
+
+  const add = (groups: Map<string, BreakdownEntry>, name: string, lvRated: boolean, michelin: boolean) => {
+    const entry = groups.get(name) || { name, locations: 0, lvRated: 0, michelin: 0 };
+    entry.locations++;
+    if (lvRated) entry.lvRated++;
+    if (michelin) entry.michelin++;
+    groups.set(name, entry);
+  };
+
+  rows.forEach(row => {
+    const lvRated = (row.lv_editor_score || 0) > 0;
+    const michelin = (row.michelin_stars || 0) > 0 || !!row.michelin_distinction;
+    const country = row.country?.trim();
+    const city = row.city?.trim();
+
+    if (country) add(countries, country, lvRated, michelin);
+    // Same-named cities in different countries stay separate
+    if (city) add(cities, country ? `${city}, ${country}` : city, lvRated, michelin);
+  });
+
+  return { cities: rankBreakdown(cities, limit), countries: rankBreakdown(countries, limit) };
+}
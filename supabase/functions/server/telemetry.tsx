@@ -0,0 +1,505 @@
+/**
+ * Client Telemetry
+ * Field data from real browsers: batches posted by the frontend
+ * MonitoringStore (POST /telemetry, usually via sendBeacon on unload).
+ * Sessions are sampled on the client; each batch is stored as one row per
+ * metric name with a latency histogram, so percentiles can be merged across
+ * sessions, browsers and app versions later. Errors are grouped by a
+ * fingerprint of their normalized message and top stack frames. Everything
+ * older than TELEMETRY_RETENTION_DAYS is purged.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { LATENCY_BUCKETS_MS, percentileFromHistogram } from './metrics_store.tsx';
+
+export const TELEMETRY_METRIC_TYPES = ['api', 'component', 'interaction', 'navigation', 'network', 'action'] as const;
+export const TELEMETRY_ERROR_TYPES = ['error', 'warning', 'crash'] as const;
+
+export type TelemetryMetricType = typeof TELEMETRY_METRIC_TYPES[number];
+export type TelemetryErrorType = typeof TELEMETRY_ERROR_TYPES[number];
+
+// Per batch - anything past these is dropped, not rejected
+const MAX_BATCH_METRICS = 500;
+const MAX_BATCH_ERRORS = 50;
+const MAX_BATCH_ACTIONS = 200;
+
+const MAX_NAME_LENGTH = 200;
+const MAX_MESSAGE_LENGTH = 1000;
+const MAX_STACK_LENGTH = 4000;
+
+// Error timestamps come from the client's clock - older ones (a tab left
+// open offline) are pulled up to this age and future ones down to now
+const MAX_ERROR_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Stack frames that make up an error's fingerprint
+const FINGERPRINT_FRAMES = 5;
+
+// Error groups returned by a summary, most widespread first
+const MAX_ERROR_GROUPS = 100;
+
+const PAGE_SIZE = 1000;
+const MAX_QUERY_ROWS = 20000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+let lastPurgeAt = 0;
+
+export interface TelemetryConfig {
+  retentionDays: number;
+}
+
+export interface TelemetryBatch {
+  session: {
+    sessionId: string;
+    appVersion: string;
+    userAgent: string;
+    sampleRate: number;
+  };
+  metrics: Array<{ type: TelemetryMetricType; name: string; duration: number; failed: boolean }>;
+  errors: Array<{
+    type: TelemetryErrorType;
+    message: string;
+    stack: string | null;
+    component: string | null;
+    url: string | null;
+    timestamp: number;
+  }>;
+}
+
+export interface TelemetryBreakdownEntry {
+  name: string;
+  sessions: number;
+  errors: number;
+}
+
+export interface TelemetryMetricSummary {
+  type: TelemetryMetricType;
+  name: string;
+  count: number;
+  failed: number;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  p99Ms: number | null;
+}
+
+export interface TelemetryErrorGroup {
+  fingerprint: string;
+  type: TelemetryErrorType;
+  message: string;
+  stack: string | null;
+  component: string | null;
+  occurrences: number;
+  sessions: number;
+  browsers: string[];
+  appVersions: string[];
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface TelemetrySummary {
+  from: string;
+  to: string;
+  totals: { sessions: number; metrics: number; errors: number };
+  browsers: TelemetryBreakdownEntry[];
+  appVersions: TelemetryBreakdownEntry[];
+  metrics: TelemetryMetricSummary[];
+  errorGroups: TelemetryErrorGroup[];
+  truncated: boolean;
+}
+
+export function getTelemetryConfig(): TelemetryConfig {
+  const retentionDays = Number(Deno.env.get('TELEMETRY_RETENTION_DAYS'));
+
+  return {
+    retentionDays: Number.isFinite(retentionDays) && retentionDays >= 1 ? retentionDays : 30,
+  };
+}
+
+function isMetricType(value: unknown): value is TelemetryMetricType {
+  return typeof value === 'string' && (TELEMETRY_METRIC_TYPES as readonly string[]).includes(value);
+}
+
+function isErrorType(value: unknown): value is TelemetryErrorType {
+  return typeof value === 'string' && (TELEMETRY_ERROR_TYPES as readonly string[]).includes(value);
+}
+
+function clampTimestamp(value: unknown): number {
+  const now = Date.now();
+  const timestamp = Number(value);
+  if (!Number.isFinite(timestamp)) return now;
+  return Math.min(now, Math.max(now - MAX_ERROR_AGE_MS, timestamp));
+}
+
+function clip(value: unknown, max: number): string | null {
+  if (typeof value !== 'string' || value.length === 0) return null;
+  return value.length > max ? value.slice(0, max) : value;
+}
+
+/**
+ * Validate a posted batch. Malformed entries are skipped and oversized
+ * batches trimmed; only a missing session is an error.
+ */
+export function parseTelemetryBatch(body: any): TelemetryBatch | string {
+  const session = body?.session;
+  if (!session || typeof session.sessionId !== 'string' || !session.sessionId) {
+    return 'session.sessionId is required';
+  }
+
+  const metrics: TelemetryBatch['metrics'] = [];
+  (Array.isArray(body.metrics) ? body.metrics : []).slice(0, MAX_BATCH_METRICS).forEach((metric: any) => {
+    const name = clip(metric?.name, MAX_NAME_LENGTH);
+    const duration = Number(metric?.duration);
+    if (!isMetricType(metric?.type) || !name || !Number.isFinite(duration) || duration < 0) return;
+    metrics.push({ type: metric.type, name, duration, failed: !!metric.error || Number(metric.status) >= 500 });
+  });
+
+  // Actions only count - they ride along as zero-duration metrics
+  (Array.isArray(body.actions) ? body.actions : []).slice(0, MAX_BATCH_ACTIONS).forEach((action: any) => {
+    const name = clip(action?.action, MAX_NAME_LENGTH);
+    if (name) metrics.push({ type: 'action', name, duration: 0, failed: false });
+  });
+
+  const errors: TelemetryBatch['errors'] = [];
+  (Array.isArray(body.errors) ? body.errors : []).slice(0, MAX_BATCH_ERRORS).forEach((error: any) => {
+    const message = clip(error?.message, MAX_MESSAGE_LENGTH);
+    if (!message) return;
+    errors.push({
+      type: isErrorType(error.type) ? error.type : 'error',
+      message,
+      stack: clip(error.stack, MAX_STACK_LENGTH),
+      component: clip(error.component, MAX_NAME_LENGTH),
+      url: clip(error.url, MAX_NAME_LENGTH),
+      timestamp: clampTimestamp(error.timestamp),
+    });
+  });
+
+  const sampleRate = Number(session.sampleRate);
+
+  return {
+    session: {
+      sessionId: session.sessionId.slice(0, 100),
+      appVersion: clip(session.appVersion, 50) || 'unknown',
+      userAgent: clip(session.userAgent, 500) || '',
+      sampleRate: Number.isFinite(sampleRate) && sampleRate > 0 && sampleRate <= 1 ? sampleRate : 1,
+    },
+    metrics,
+    errors,
+  };
+}
+
+/**
+ * "Chrome 120" / "iOS" style labels from a user agent - coarse on purpose
+ */
+export function describeUserAgent(userAgent: string): { browser: string; os: string } {
+  const browsers: Array<[RegExp, string]> = [
+    [/Edg\/(\d+)/, 'Edge'],
+    [/SamsungBrowser\/(\d+)/, 'Samsung Internet'],
+    [/Firefox\/(\d+)/, 'Firefox'],
+    [/CriOS\/(\d+)/, 'Chrome'],
+    [/Chrome\/(\d+)/, 'Chrome'],
+    [/Version\/(\d+).*Safari/, 'Safari'],
+  ];
+  const match = browsers.map(([pattern, name]) => [userAgent.match(pattern), name] as const).find(([found]) => found);
+  const browser = match ? `${match[1]} ${match[0]![1]}` : 'Other';
+
+  const os = /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'Other';
+
+  return { browser, os };
+}
+
+/**
+ * Strip what varies between occurrences of the same error: ids, numbers,
+ * quoted values, URLs
+ */
+export function normalizeErrorMessage(message: string): string {
+  return message
+    .replace(/https?:\/\/\S+/g, '<url>')
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>')
+    .replace(/(["'`])[^"'`\s]+\1/g, '<str>')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    .replace(/\d+(\.\d+)?/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 300);
+}
+
+/**
+ * Top stack frames without line/column numbers, query strings or build
+ * hashes, so a redeploy doesn't split an error into a new group
+ */
+function normalizeStack(stack: string | null): string {
+  if (!stack) return '';
+  return stack
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.startsWith('at ') || line.includes('@'))
+    .slice(0, FINGERPRINT_FRAMES)
+    .map(line => line
+      .replace(/https?:\/\/[^/\s)]+/g, '')
+      .replace(/\?[^:\s)]*/g, '')
+      .replace(/-[A-Za-z0-9_]{8,}\.js/g, '.js')
+      .replace(/:\d+(:\d+)?/g, ''))
+    .join('\n');
+}
+
+export async function fingerprintError(error: { type: string; message: string; stack: string | null }): Promise<string> {
+  const input = `${error.type}|${normalizeErrorMessage(error.message)}|${normalizeStack(error.stack)}`;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest).slice(0, 16), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function emptyHistogram(): number[] {
+  return new Array(LATENCY_BUCKETS_MS.length + 1).fill(0);
+}
+
+function addToHistogram(histogram: number[], durationMs: number) {
+  const index = LATENCY_BUCKETS_MS.findIndex(bound => durationMs <= bound);
+  histogram[index === -1 ? LATENCY_BUCKETS_MS.length : index]++;
+}
+
+/**
+ * Store one batch: the session, one rollup row per metric name, and each
+ * error under its fingerprint group
+ */
+export async function recordTelemetryBatch(supabase: SupabaseClient, batch: TelemetryBatch): Promise<void> {
+  const now = new Date().toISOString();
+  const { browser, os } = describeUserAgent(batch.session.userAgent);
+  const source = {
+    session_id: batch.session.sessionId,
+    browser,
+    os,
+    app_version: batch.session.appVersion,
+  };
+
+  const { error: sessionError } = await supabase
+    .from('telemetry_sessions')
+    .upsert({ ...source, sample_rate: batch.session.sampleRate, last_seen_at: now }, { onConflict: 'session_id' });
+  if (sessionError) throw new Error(sessionError.message);
+
+  const rollups = new Map<string, { type: TelemetryMetricType; name: string; count: number; failed: number; total_ms: number; max_ms: number; histogram: number[] }>();
+  batch.metrics.forEach(metric => {
+    const key = `${metric.type}|${metric.name}`;
+    if (!rollups.has(key)) {
+      rollups.set(key, { type: metric.type, name: metric.name, count: 0, failed: 0, total_ms: 0, max_ms: 0, histogram: emptyHistogram() });
+    }
+    const rollup = rollups.get(key)!;
+    rollup.count++;
+    if (metric.failed) rollup.failed++;
+    rollup.total_ms += metric.duration;
+    rollup.max_ms = Math.max(rollup.max_ms, metric.duration);
+    addToHistogram(rollup.histogram, metric.duration);
+  });
+
+  if (rollups.size > 0) {
+    const { error } = await supabase
+      .from('telemetry_metrics')
+      .insert([...rollups.values()].map(rollup => ({ ...source, ...rollup, received_at: now })));
+    if (error) throw new Error(error.message);
+  }
+
+  if (batch.errors.length > 0) {
+    const fingerprints = await Promise.all(batch.errors.map(fingerprintError));
+
+    // Latest sample per group; first_seen_at is only set on insert
+    const groups = new Map<string, Record<string, any>>();
+    batch.errors.forEach((error, i) => {
+      groups.set(fingerprints[i], {
+        fingerprint: fingerprints[i],
+        type: error.type,
+        message: error.message,
+        stack: error.stack,
+        component: error.component,
+        last_seen_at: now,
+      });
+    });
+
+    const { error: groupError } = await supabase
+      .from('telemetry_error_groups')
+      .upsert([...groups.values()], { onConflict: 'fingerprint' });
+    if (groupError) throw new Error(groupError.message);
+
+    const { error: occurrenceError } = await supabase
+      .from('telemetry_errors')
+      .insert(batch.errors.map((error, i) => ({
+        ...source,
+        fingerprint: fingerprints[i],
+        message: error.message,
+        url: error.url,
+        occurred_at: new Date(error.timestamp).toISOString(),
+        received_at: now,
+      })));
+    if (occurrenceError) throw new Error(occurrenceError.message);
+  }
+}
+
+/**
+ * Delete telemetry past the retention window (at most hourly per instance)
+ */
+export async function purgeExpiredTelemetry(
+  supabase: SupabaseClient,
+  config: TelemetryConfig = getTelemetryConfig()
+): Promise<void> {
+  if (Date.now() - lastPurgeAt < PURGE_INTERVAL_MS) return;
+  lastPurgeAt = Date.now();
+
+  const cutoff = new Date(Date.now() - config.retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  const deletes = [
+    supabase.from('telemetry_metrics').delete().lt('received_at', cutoff),
+    supabase.from('telemetry_errors').delete().lt('received_at', cutoff),
+    supabase.from('telemetry_error_groups').delete().lt('last_seen_at', cutoff),
+    supabase.from('telemetry_sessions').delete().lt('last_seen_at', cutoff),
+  ];
+
+  for (const { error } of await Promise.all(deletes)) {
+    if (error) throw new Error(error.message);
+  }
+}
+
+async function fetchRows<T>(buildQuery: () => any): Promise<{ rows: T[]; truncated: boolean }> {
+  const rows: T[] = [];
+
+  for (let offset = 0; offset < MAX_QUERY_ROWS; offset += PAGE_SIZE) {
+    const { data, error } = await buildQuery().range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return { rows, truncated: false };
+  }
+
+  return { rows, truncated: true };
+}
+
+function breakdown(
+  sessions: Array<Record<string, any>>,
+  errors: Array<Record<string, any>>,
+  column: 'browser' | 'app_version'
+): TelemetryBreakdownEntry[] {
+  const entries = new Map<string, TelemetryBreakdownEntry>();
+  const entry = (name: string) => {
+    if (!entries.has(name)) entries.set(name, { name, sessions: 0, errors: 0 });
+    return entries.get(name)!;
+  };
+
+  sessions.forEach(session => entry(session[column]).sessions++);
+  errors.forEach(error => entry(error[column]).errors++);
+  return [...entries.values()].sort((a, b) => b.sessions - a.sessions);
+}
+
+/**
+ * Field data across sessions for a time range, optionally narrowed to one
+ * browser and/or app version
+ */
+export async function getTelemetrySummary(
+  supabase: SupabaseClient,
+  options: { from: Date; to: Date; browser?: string; appVersion?: string }
+): Promise<TelemetrySummary> {
+  const { from, to, browser, appVersion } = options;
+
+  const narrow = (query: any, timeColumn: string) => {
+    query = query.gte(timeColumn, from.toISOString()).lt(timeColumn, to.toISOString());
+    if (browser) query = query.eq('browser', browser);
+    if (appVersion) query = query.eq('app_version', appVersion);
+    return query;
+  };
+
+  const [sessions, metrics, errors] = await Promise.all([
+    fetchRows<Record<string, any>>(() =>
+      narrow(supabase.from('telemetry_sessions').select('session_id, browser, app_version'), 'last_seen_at')),
+    fetchRows<Record<string, any>>(() =>
+      narrow(supabase.from('telemetry_metrics').select('type, name, count, failed, max_ms, histogram'), 'received_at')
+        .order('received_at', { ascending: false })),
+    fetchRows<Record<string, any>>(() =>
+      narrow(supabase.from('telemetry_errors').select('fingerprint, session_id, browser, app_version, received_at'), 'received_at')
+        .order('received_at', { ascending: false })),
+  ]);
+
+  // Metric percentiles, merged across every session's rows
+  const byMetric = new Map<string, { type: TelemetryMetricType; name: string; count: number; failed: number; maxMs: number; histogram: number[] }>();
+  metrics.rows.forEach(row => {
+    const key = `${row.type}|${row.name}`;
+    if (!byMetric.has(key)) {
+      byMetric.set(key, { type: row.type, name: row.name, count: 0, failed: 0, maxMs: 0, histogram: emptyHistogram() });
+    }
+    const metric = byMetric.get(key)!;
+    metric.count += row.count;
+    metric.failed += row.failed;
+    metric.maxMs = Math.max(metric.maxMs, Number(row.max_ms));
+    (row.histogram || []).forEach((count: number, i: number) => {
+      if (i < metric.histogram.length) metric.histogram[i] += count;
+    });
+  });
+
+  // Error groups with their spread in this range
+  const byFingerprint = new Map<string, { occurrences: number; sessions: Set<string>; browsers: Set<string>; appVersions: Set<string> }>();
+  errors.rows.forEach(row => {
+    if (!byFingerprint.has(row.fingerprint)) {
+      byFingerprint.set(row.fingerprint, { occurrences: 0, sessions: new Set(), browsers: new Set(), appVersions: new Set() });
+    }
+    const group = byFingerprint.get(row.fingerprint)!;
+    group.occurrences++;
+    group.sessions.add(row.session_id);
+    group.browsers.add(row.browser);
+    group.appVersions.add(row.app_version);
+  });
+
+  const topFingerprints = [...byFingerprint.entries()]
+    .sort(([, a], [, b]) => b.sessions.size - a.sessions.size || b.occurrences - a.occurrences)
+    .slice(0, MAX_ERROR_GROUPS)
+    .map(([fingerprint]) => fingerprint);
+
+  let groupRows: Array<Record<string, any>> = [];
+  if (topFingerprints.length > 0) {
+    const { data, error } = await supabase
+      .from('telemetry_error_groups')
+      .select('*')
+      .in('fingerprint', topFingerprints);
+    if (error) throw new Error(error.message);
+    groupRows = data || [];
+  }
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totals: {
+      sessions: sessions.rows.length,
+      metrics: metrics.rows.reduce((sum, row) => sum + row.count, 0),
+      errors: errors.rows.length,
+    },
+    browsers: breakdown(sessions.rows, errors.rows, 'browser'),
+    appVersions: breakdown(sessions.rows, errors.rows, 'app_version'),
+    metrics: [...byMetric.values()]
+      .map(metric => ({
+        type: metric.type,
+        name: metric.name,
+        count: metric.count,
+        failed: metric.failed,
+        // Actions carry no timing
+        p50Ms: metric.type === 'action' ? null : percentileFromHistogram(metric.histogram, 0.5, metric.maxMs),
+        p95Ms: metric.type === 'action' ? null : percentileFromHistogram(metric.histogram, 0.95, metric.maxMs),
+        p99Ms: metric.type === 'action' ? null : percentileFromHistogram(metric.histogram, 0.99, metric.maxMs),
+      }))
+      .sort((a, b) => b.count - a.count),
+    errorGroups: groupRows
+      .map(row => {
+        const group = byFingerprint.get(row.fingerprint)!;
+        return {
+          fingerprint: row.fingerprint,
+          type: row.type,
+          message: row.message,
+          stack: row.stack,
+          component: row.component,
+          occurrences: group.occurrences,
+          sessions: group.sessions.size,
+          browsers: [...group.browsers].sort(),
+          appVersions: [...group.appVersions].sort(),
+          firstSeen: row.first_seen_at,
+          lastSeen: row.last_seen_at,
+        };
+      })
+      .sort((a, b) => b.sessions - a.sessions || b.occurrences - a.occurrences),
+    truncated: sessions.truncated || metrics.truncated || errors.truncated,
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Personal User Ratings
+ * Stores one score per user per location and keeps the cached crowd
+ * average (lv_avg_user_score / lv_user_ratings_count) on locations in sync
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export const MIN_USER_SCORE = 0;
+export const MAX_USER_SCORE = 10;
+
+export interface UserScoreAggregate {
+  lvAvgUserScore: number | null;
+  lvUserRatingsCount: number;
+}
+
+/**
+ * Validate a user-submitted score (0.0-10.0, rounded to one decimal)
+ * Returns the normalized score, or null if it is out of range
+ */
+export function normalizeUserScore(value: unknown): number | null {
+  const score = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof score !== 'number' || isNaN(score)) return null;
+  if (score < MIN_USER_SCORE || score > MAX_USER_SCORE) return null;
+  return Math.round(score * 10) / 10;
+}
+
+/**
+ * Get a single user's score for a location
+ */
+export async function getUserScore(
+  supabase: SupabaseClient,
+  userId: string,
+  locationId: string
+): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('user_ratings')
+    .select('score')
+    .eq('user_id', userId)
+    .eq('location_id', locationId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data?.score ?? null;
+}
+
+/**
+ * Recalculate the average user score and count for a location
+ * and write them back to the locations row
+ */
+export async function recomputeUserScore(
+  supabase: SupabaseClient,
+  locationId: string
+): Promise<UserScoreAggregate> {
+  const { data: ratings, error } = await supabase
+    .from('user_ratings')
+    .select('score')
+    .eq('location_id', locationId);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const count = ratings?.length || 0;
+  const average = count > 0
+    ? Math.round((ratings!.reduce((sum, r) => sum + Number(r.score), 0) / count) * 10) / 10
+    : null;
+
+  const { error: updateError } = await supabase
+    .from('locations')
+    .update({
+      lv_avg_user_score: average,
+      lv_user_ratings_count: count,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', locationId);
+
+  if (updateError) {
+    throw new Error(updateError.message);
+  }
+
+  console.log(`📊 Recomputed user score for ${locationId}: ${average ?? '—'} (${count} ratings)`);
+
+  return {
+    lvAvgUserScore: average,
+    lvUserRatingsCount: count,
+  };
+}
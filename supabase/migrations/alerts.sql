@@ -0,0 +1,84 @@
+-- ============================================
+-- Alerting
+-- ============================================
+-- Backs /alert-rules and /alerts (see alerts.tsx and alert_notifiers.tsx).
+-- Rules are evaluated against metric_rollups. A rule has at most one
+-- unresolved alert (idx_alerts_one_active_per_rule); alerts keep the rule's
+-- name and condition so history survives deleting the rule. alert_events
+-- logs every transition and notification. email_outbox holds alert mail for
+-- the mail worker to send.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'route' CHECK (kind IN ('route', 'db')),
+  target TEXT, -- Route name, bare path or table; NULL for all
+  metric TEXT NOT NULL CHECK (metric IN ('error_rate', 'avg_ms', 'p50_ms', 'p95_ms', 'p99_ms')),
+  comparator TEXT NOT NULL DEFAULT '>' CHECK (comparator IN ('>', '<')),
+  threshold DOUBLE PRECISION NOT NULL,
+  window_minutes INTEGER NOT NULL DEFAULT 5 CHECK (window_minutes BETWEEN 1 AND 60),
+  min_requests INTEGER NOT NULL DEFAULT 20,
+  channels JSONB NOT NULL DEFAULT '[]'::jsonb,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  last_value DOUBLE PRECISION,
+  last_evaluated_at TIMESTAMPTZ,
+  created_by UUID REFERENCES user_metadata(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id UUID REFERENCES alert_rules(id) ON DELETE SET NULL,
+  rule_name TEXT NOT NULL,
+  condition TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'resolved')),
+  value DOUBLE PRECISION,
+  last_value DOUBLE PRECISION,
+  threshold DOUBLE PRECISION NOT NULL,
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  acknowledged_at TIMESTAMPTZ,
+  acknowledged_by UUID REFERENCES user_metadata(user_id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  resolved_by UUID REFERENCES user_metadata(user_id) ON DELETE SET NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_alerts_one_active_per_rule ON alerts(rule_id) WHERE status <> 'resolved';
+CREATE INDEX IF NOT EXISTS idx_alerts_opened_at ON alerts(opened_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alerts_status ON alerts(status, opened_at DESC);
+
+CREATE TABLE IF NOT EXISTS alert_events (
+  id BIGSERIAL PRIMARY KEY,
+  alert_id UUID NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+  event TEXT NOT NULL CHECK (event IN ('opened', 'acknowledged', 'resolved', 'notified', 'notify_failed')),
+  actor UUID REFERENCES user_metadata(user_id) ON DELETE SET NULL,
+  value DOUBLE PRECISION,
+  detail TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_events_alert ON alert_events(alert_id, created_at);
+
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id BIGSERIAL PRIMARY KEY,
+  to_address TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_pending ON email_outbox(created_at) WHERE status = 'pending';
+
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
+
+SELECT '✅ alerting ready' AS status;
@@ -0,0 +1,60 @@
+-- ============================================
+-- City Guides
+-- ============================================
+-- Editor-written guides keyed by the city's Google Place ID (see guides.tsx):
+-- city_guides (intro, center, radius) -> city_guide_sections (ordered)
+-- -> city_guide_entries (ordered locations with blurbs).
+-- Stats are computed per request from locations around the center.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS city_guides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  city_id TEXT NOT NULL UNIQUE,
+  city_name TEXT NOT NULL,
+  country TEXT,
+  lat DOUBLE PRECISION NOT NULL CHECK (lat BETWEEN -90 AND 90),
+  lng DOUBLE PRECISION NOT NULL CHECK (lng BETWEEN -180 AND 180),
+  radius_km DOUBLE PRECISION NOT NULL DEFAULT 50 CHECK (radius_km > 0 AND radius_km <= 200),
+  intro TEXT,
+  published BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by UUID REFERENCES user_metadata(user_id) ON DELETE SET NULL,
+  updated_by UUID REFERENCES user_metadata(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS city_guide_sections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  guide_id UUID NOT NULL REFERENCES city_guides(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS city_guide_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  section_id UUID NOT NULL REFERENCES city_guide_sections(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  blurb TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(section_id, location_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_city_guide_sections_guide ON city_guide_sections(guide_id, position);
+CREATE INDEX IF NOT EXISTS idx_city_guide_entries_section ON city_guide_entries(section_id, position);
+CREATE INDEX IF NOT EXISTS idx_city_guide_entries_location ON city_guide_entries(location_id);
+
+ALTER TABLE city_guides ENABLE ROW LEVEL SECURITY;
+ALTER TABLE city_guide_sections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE city_guide_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Published guides are public" ON city_guides;
+CREATE POLICY "Published guides are public" ON city_guides
+  FOR SELECT USING (published);
+
+COMMIT;
+
+SELECT '✅ city guides ready' AS status;
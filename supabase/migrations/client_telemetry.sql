@@ -0,0 +1,80 @@
+-- ============================================
+-- Client Telemetry (field data)
+-- ============================================
+-- Backs POST /telemetry and GET /telemetry/summary (see telemetry.tsx).
+-- Browsers post sampled batches; each batch becomes one telemetry_metrics
+-- row per metric name with a latency histogram (same buckets as
+-- metric_rollups), and each error an occurrence under a fingerprint group.
+-- Browser and app version are denormalized onto every row so summaries can
+-- be narrowed without joins. Rows past TELEMETRY_RETENTION_DAYS are purged
+-- by the server. Only the service role reads these tables, so no RLS
+-- policies are granted.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS telemetry_sessions (
+  session_id TEXT PRIMARY KEY,
+  browser TEXT NOT NULL,
+  os TEXT NOT NULL,
+  app_version TEXT NOT NULL,
+  sample_rate DOUBLE PRECISION NOT NULL DEFAULT 1,
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_telemetry_sessions_last_seen ON telemetry_sessions(last_seen_at DESC);
+
+CREATE TABLE IF NOT EXISTS telemetry_metrics (
+  id BIGSERIAL PRIMARY KEY,
+  session_id TEXT NOT NULL,
+  browser TEXT NOT NULL,
+  os TEXT NOT NULL,
+  app_version TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('api', 'component', 'interaction', 'navigation', 'network', 'action')),
+  name TEXT NOT NULL,
+  count INTEGER NOT NULL,
+  failed INTEGER NOT NULL DEFAULT 0,
+  total_ms DOUBLE PRECISION NOT NULL DEFAULT 0,
+  max_ms DOUBLE PRECISION NOT NULL DEFAULT 0,
+  histogram INTEGER[] NOT NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_telemetry_metrics_received ON telemetry_metrics(received_at DESC);
+
+CREATE TABLE IF NOT EXISTS telemetry_error_groups (
+  fingerprint TEXT PRIMARY KEY,
+  type TEXT NOT NULL CHECK (type IN ('error', 'warning', 'crash')),
+  message TEXT NOT NULL, -- Latest sample
+  stack TEXT,
+  component TEXT,
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_telemetry_error_groups_last_seen ON telemetry_error_groups(last_seen_at DESC);
+
+CREATE TABLE IF NOT EXISTS telemetry_errors (
+  id BIGSERIAL PRIMARY KEY,
+  fingerprint TEXT NOT NULL REFERENCES telemetry_error_groups(fingerprint) ON DELETE CASCADE,
+  session_id TEXT NOT NULL,
+  browser TEXT NOT NULL,
+  os TEXT NOT NULL,
+  app_version TEXT NOT NULL,
+  message TEXT NOT NULL,
+  url TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_telemetry_errors_received ON telemetry_errors(received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_telemetry_errors_fingerprint ON telemetry_errors(fingerprint, received_at DESC);
+
+ALTER TABLE telemetry_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE telemetry_metrics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE telemetry_error_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE telemetry_errors ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
+
+SELECT '✅ client telemetry ready' AS status;
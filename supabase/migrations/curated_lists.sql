@@ -0,0 +1,59 @@
+-- ============================================
+-- Curated Lists
+-- ============================================
+-- Named, ordered lists of locations with a note per entry (see lists.tsx).
+-- Visibility: private (owner only), unlisted (anyone with the ?list= link),
+-- public (also listed in GET /lists/public). The server enforces access,
+-- RLS only covers direct client reads: those see public lists and the
+-- caller's own. Unlisted lists are only served by GET /lists/:slug, so they
+-- can't be enumerated with the anon key.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_user_id UUID NOT NULL REFERENCES user_metadata(user_id) ON DELETE CASCADE,
+  slug TEXT NOT NULL UNIQUE,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 120),
+  description TEXT,
+  visibility TEXT NOT NULL DEFAULT 'private' CHECK (visibility IN ('private', 'unlisted', 'public')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS list_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  list_id UUID NOT NULL REFERENCES lists(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  note TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(list_id, location_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lists_owner ON lists(owner_user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lists_public ON lists(updated_at DESC) WHERE visibility = 'public';
+CREATE INDEX IF NOT EXISTS idx_list_entries_list_position ON list_entries(list_id, position);
+CREATE INDEX IF NOT EXISTS idx_list_entries_location ON list_entries(location_id);
+
+ALTER TABLE lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE list_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Lists are visible to owner or when not private" ON lists;
+DROP POLICY IF EXISTS "Lists are visible to owner or when public" ON lists;
+CREATE POLICY "Lists are visible to owner or when public" ON lists
+  FOR SELECT USING (visibility = 'public' OR auth.uid() = owner_user_id);
+
+DROP POLICY IF EXISTS "List entries follow list visibility" ON list_entries;
+CREATE POLICY "List entries follow list visibility" ON list_entries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM lists
+      WHERE lists.id = list_entries.list_id
+        AND (lists.visibility = 'public' OR auth.uid() = lists.owner_user_id)
+    )
+  );
+
+COMMIT;
+
+SELECT '✅ curated lists ready' AS status;
@@ -0,0 +1,43 @@
+-- ============================================
+-- Multi-Editor Score Reconciliation
+-- ============================================
+-- Each editor keeps their own score per location. The server reduces them
+-- (mean / median / lead editor, see EDITOR_SCORE_STRATEGY) and publishes the
+-- result as locations.lv_editor_score after every change.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS editor_scores (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  location_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  editor_user_id UUID NOT NULL,
+  score DOUBLE PRECISION NOT NULL CHECK (score >= 0 AND score <= 11),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(location_id, editor_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_editor_scores_location_id ON editor_scores(location_id);
+CREATE INDEX IF NOT EXISTS idx_editor_scores_editor_user_id ON editor_scores(editor_user_id);
+
+ALTER TABLE editor_scores ENABLE ROW LEVEL SECURITY;
+
+-- Seed from the existing published scores, attributed to the last editor
+INSERT INTO editor_scores (location_id, editor_user_id, score, created_at, updated_at)
+SELECT id, updated_by_user_id, lv_editor_score, COALESCE(updated_at, NOW()), COALESCE(updated_at, NOW())
+FROM locations
+WHERE lv_editor_score IS NOT NULL
+  AND updated_by_user_id IS NOT NULL
+ON CONFLICT (location_id, editor_user_id) DO NOTHING;
+
+DO $$
+DECLARE
+  seeded INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO seeded FROM editor_scores;
+  RAISE NOTICE '✅ editor_scores contains % scores', seeded;
+END $$;
+
+COMMIT;
+
+SELECT '✅ editor_scores ready' AS status;
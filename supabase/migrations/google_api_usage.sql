@@ -0,0 +1,31 @@
+-- ============================================
+-- Google API Usage
+-- ============================================
+-- Backs the Google API budget and GET /admin/google-usage (see
+-- google_usage.tsx). Each server instance keeps its own rows and rewrites
+-- them with running totals: one row per UTC day, SKU, route, user and
+-- instance. user_key is the user ID, or '' for anonymous callers, so it can
+-- be part of the key. cost_usd is estimated from list prices.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS google_api_usage (
+  day DATE NOT NULL,
+  sku TEXT NOT NULL,
+  route TEXT NOT NULL,
+  user_key TEXT NOT NULL DEFAULT '',
+  instance_id TEXT NOT NULL,
+  calls INTEGER NOT NULL DEFAULT 0,
+  cost_usd DOUBLE PRECISION NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (day, sku, route, user_key, instance_id)
+);
+
+-- The budget check sums today's rows; reports read a range of days
+CREATE INDEX IF NOT EXISTS idx_google_api_usage_day ON google_api_usage(day);
+
+ALTER TABLE google_api_usage ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
+
+SELECT '✅ google api usage ready' AS status;
@@ -0,0 +1,30 @@
+-- ============================================
+-- Google Place Details Cache & Photo Bucket
+-- ============================================
+-- Backs GET /google-places/:placeId/details and GET /photos/:ref (see
+-- google_places.tsx). Details are cached per field-mask tier (basic /
+-- contact / full) and refreshed stale-while-revalidate; proxied photos are
+-- stored in the private place-photos bucket. Only the service role reads
+-- either, so no RLS policies are granted.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS google_place_cache (
+  place_id TEXT NOT NULL,
+  tier TEXT NOT NULL CHECK (tier IN ('basic', 'contact', 'full')),
+  data JSONB NOT NULL,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (place_id, tier)
+);
+
+CREATE INDEX IF NOT EXISTS idx_google_place_cache_fetched_at ON google_place_cache(fetched_at);
+
+ALTER TABLE google_place_cache ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('place-photos', 'place-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+COMMIT;
+
+SELECT '✅ google place cache ready' AS status;
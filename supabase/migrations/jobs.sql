@@ -0,0 +1,47 @@
+-- ============================================
+-- Background Jobs
+-- ============================================
+-- Backs POST /jobs, GET /jobs/:id and POST /jobs/:id/cancel (see jobs.tsx).
+-- Each job keeps its progress counters, a checkpoint to resume from and a
+-- capped log. 'waiting' is a job between two slices of work. lease_id / lease_expires_at mark the worker currently running
+-- it; an expired lease lets the next poll take the job over. Each type has at
+-- most one unfinished job (idx_jobs_one_active_per_type).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type TEXT NOT NULL CHECK (type IN ('michelin-place-discovery', 'michelin-backfill')),
+  state TEXT NOT NULL DEFAULT 'queued' CHECK (state IN ('queued', 'running', 'waiting', 'failed', 'done')),
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  progress_total INTEGER NOT NULL DEFAULT 0,
+  progress_done INTEGER NOT NULL DEFAULT 0,
+  counters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  checkpoint JSONB,
+  logs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT,
+  lease_id UUID,
+  lease_expires_at TIMESTAMPTZ,
+  created_by UUID REFERENCES user_metadata(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ
+);
+
+-- Jobs between slices used to be 'paused'
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_state_check;
+UPDATE jobs SET state = 'waiting' WHERE state = 'paused';
+ALTER TABLE jobs ADD CONSTRAINT jobs_state_check
+  CHECK (state IN ('queued', 'running', 'waiting', 'failed', 'done'));
+
+CREATE INDEX IF NOT EXISTS idx_jobs_type_state ON jobs(type, state);
+DROP INDEX IF EXISTS idx_jobs_one_active_per_type;
+CREATE UNIQUE INDEX idx_jobs_one_active_per_type ON jobs(type) WHERE state IN ('queued', 'running', 'waiting');
+CREATE INDEX IF NOT EXISTS idx_jobs_created_at ON jobs(created_at DESC);
+
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
+
+SELECT '✅ jobs ready' AS status;
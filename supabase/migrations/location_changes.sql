@@ -0,0 +1,88 @@
+-- ============================================
+-- Location Delta Sync
+-- ============================================
+-- Backs GET /locations/changes?since=. Deletes leave a tombstone so clients
+-- can drop the row locally, and favorite / want-to-go changes bump
+-- locations.updated_at so the cached counts sync too.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS location_tombstones (
+  location_id UUID PRIMARY KEY,
+  deleted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_location_tombstones_deleted_at ON location_tombstones(deleted_at);
+
+ALTER TABLE location_tombstones ENABLE ROW LEVEL SECURITY;
+
+-- Record a tombstone for every deleted location (API, cascade or SQL)
+CREATE OR REPLACE FUNCTION public.record_location_tombstone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  INSERT INTO location_tombstones (location_id, deleted_at)
+  VALUES (OLD.id, NOW())
+  ON CONFLICT (location_id) DO UPDATE SET deleted_at = EXCLUDED.deleted_at;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_location_tombstone ON public.locations;
+CREATE TRIGGER record_location_tombstone
+  AFTER DELETE ON public.locations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_location_tombstone();
+
+-- A restored location (history revert) is no longer deleted
+CREATE OR REPLACE FUNCTION public.clear_location_tombstone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  DELETE FROM location_tombstones WHERE location_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clear_location_tombstone ON public.locations;
+CREATE TRIGGER clear_location_tombstone
+  AFTER INSERT ON public.locations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_location_tombstone();
+
+-- favoritesCount / wantToGoCount are part of the synced row
+CREATE OR REPLACE FUNCTION public.touch_location_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  UPDATE locations
+  SET updated_at = NOW()
+  WHERE id = COALESCE(NEW.location_id, OLD.location_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_location_on_favorite ON public.favorites;
+CREATE TRIGGER touch_location_on_favorite
+  AFTER INSERT OR DELETE ON public.favorites
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_location_updated_at();
+
+DROP TRIGGER IF EXISTS touch_location_on_want_to_go ON public.want_to_go;
+CREATE TRIGGER touch_location_on_want_to_go
+  AFTER INSERT OR DELETE ON public.want_to_go
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_location_updated_at();
+
+COMMIT;
+
+SELECT '✅ location delta sync ready' AS status;
@@ -0,0 +1,103 @@
+-- ============================================
+-- Duplicate Locations
+-- ============================================
+-- Backs GET /locations/duplicates and POST /locations/:id/merge (see
+-- duplicates.tsx). Pairs an editor marked "not a duplicate" are kept here,
+-- smaller id first, so the finder stops offering them. merge_locations()
+-- runs a merge in one transaction. Merges are logged in location_history
+-- under the new 'merge' source.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS location_duplicate_dismissals (
+  location_a UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  location_b UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  dismissed_by UUID REFERENCES user_metadata(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (location_a, location_b),
+  CHECK (location_a < location_b)
+);
+
+ALTER TABLE location_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE location_history DROP CONSTRAINT IF EXISTS location_history_source_check;
+ALTER TABLE location_history ADD CONSTRAINT location_history_source_check
+  CHECK (source IN ('location', 'rating', 'link-place', 'history', 'michelin-import', 'merge'));
+
+-- Merge p_duplicate into p_survivor: the survivor takes p_fields (column ->
+-- value), the child tables in p_children ([{table, ownerColumn}]) are
+-- repointed - where both locations have a row for the same owner the
+-- survivor's is kept - locations that moved to the duplicate move to the
+-- survivor, and the duplicate is deleted. All or nothing.
+-- Returns the moved row count per child table.
+CREATE OR REPLACE FUNCTION public.merge_locations(
+  p_survivor UUID,
+  p_duplicate UUID,
+  p_fields JSONB,
+  p_children JSONB,
+  p_user_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_set TEXT;
+  v_child JSONB;
+  v_count INTEGER;
+  v_moved JSONB := '{}'::jsonb;
+BEGIN
+  PERFORM 1 FROM locations WHERE id IN (p_survivor, p_duplicate) FOR UPDATE;
+
+  -- Google Place and Michelin IDs are unique - release them on the duplicate
+  -- before the survivor takes them over
+  UPDATE locations SET google_place_id = NULL, michelin_id = NULL WHERE id = p_duplicate;
+
+  SELECT string_agg(format('%I = merged.%I', key, key), ', ')
+  INTO v_set
+  FROM jsonb_object_keys(p_fields) AS key;
+
+  EXECUTE format(
+    'UPDATE locations SET %s updated_by_user_id = $1, updated_at = NOW()
+     FROM jsonb_populate_record(NULL::locations, $2) AS merged
+     WHERE locations.id = $3',
+    CASE WHEN v_set IS NULL THEN '' ELSE v_set || ',' END
+  ) USING p_user_id, p_fields, p_survivor;
+
+  FOR v_child IN SELECT * FROM jsonb_array_elements(p_children) LOOP
+    EXECUTE format(
+      'DELETE FROM %1$I AS dup WHERE dup.location_id = $1
+         AND EXISTS (SELECT 1 FROM %1$I AS kept WHERE kept.location_id = $2 AND kept.%2$I = dup.%2$I)',
+      v_child->>'table', v_child->>'ownerColumn'
+    ) USING p_duplicate, p_survivor;
+
+    EXECUTE format('UPDATE %I SET location_id = $2 WHERE location_id = $1', v_child->>'table')
+      USING p_duplicate, p_survivor;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_moved := v_moved || jsonb_build_object(v_child->>'table', v_count);
+  END LOOP;
+
+  -- A survivor that had moved to the duplicate takes over the duplicate's
+  -- status instead of pointing at itself
+  UPDATE locations AS survivor SET
+    status = CASE WHEN dup.successor_location_id = p_survivor THEN 'open' ELSE dup.status END,
+    successor_location_id = NULLIF(dup.successor_location_id, p_survivor)
+  FROM locations AS dup
+  WHERE survivor.id = p_survivor
+    AND survivor.successor_location_id = p_duplicate
+    AND dup.id = p_duplicate;
+
+  UPDATE locations SET successor_location_id = p_survivor WHERE successor_location_id = p_duplicate;
+
+  DELETE FROM locations WHERE id = p_duplicate;
+
+  RETURN v_moved;
+END;
+$$;
+
+-- Server only (service role)
+REVOKE EXECUTE ON FUNCTION public.merge_locations(UUID, UUID, JSONB, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+
+COMMIT;
+
+SELECT '✅ location_duplicate_dismissals ready' AS status;
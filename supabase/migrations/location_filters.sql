@@ -0,0 +1,29 @@
+-- ============================================
+-- Location Filter Indexes
+-- ============================================
+-- Backs the GET /locations filters and cursor sorts (see location_query.tsx).
+
+BEGIN;
+
+-- tags[] filters (contains / overlaps)
+CREATE INDEX IF NOT EXISTS idx_locations_tags ON locations USING GIN (tags);
+
+-- Score range + sort=score / -score (id breaks ties for the cursor)
+CREATE INDEX IF NOT EXISTS idx_locations_editor_score_id ON locations(lv_editor_score, id);
+
+-- updatedSince + sort=updatedAt
+CREATE INDEX IF NOT EXISTS idx_locations_updated_at_id ON locations(updated_at, id);
+
+-- sort=name (default cursor order)
+CREATE INDEX IF NOT EXISTS idx_locations_name_id ON locations(name, id);
+
+-- Michelin filters
+CREATE INDEX IF NOT EXISTS idx_locations_michelin_stars ON locations(michelin_stars) WHERE michelin_stars IS NOT NULL;
+
+-- city / country are matched case-insensitively
+CREATE INDEX IF NOT EXISTS idx_locations_city_lower ON locations(LOWER(city));
+CREATE INDEX IF NOT EXISTS idx_locations_country_lower ON locations(LOWER(country));
+
+COMMIT;
+
+SELECT '✅ location filter indexes ready' AS status;
@@ -0,0 +1,50 @@
+-- ============================================
+-- Location History / Audit Trail
+-- ============================================
+-- Append-only log written by the server for every create, update and delete
+-- made through the location, rating and link-place routes.
+-- location_id has no foreign key on purpose: history must outlive deleted locations.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS location_history (
+  id BIGSERIAL PRIMARY KEY,
+  location_id UUID,
+  michelin_id BIGINT,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete', 'revert')),
+  source TEXT NOT NULL CHECK (source IN ('location', 'rating', 'link-place', 'history')),
+  changed_fields TEXT[] DEFAULT '{}',
+  before JSONB,
+  after JSONB,
+  changed_by_user_id UUID,
+  reverted_from_id BIGINT REFERENCES location_history(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_location_history_location_id ON location_history(location_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_location_history_michelin_id ON location_history(michelin_id);
+CREATE INDEX IF NOT EXISTS idx_location_history_user ON location_history(changed_by_user_id);
+
+-- Append-only: block UPDATE and DELETE even for the service role
+CREATE OR REPLACE FUNCTION public.prevent_location_history_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  RAISE EXCEPTION 'location_history is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS location_history_append_only ON location_history;
+CREATE TRIGGER location_history_append_only
+  BEFORE UPDATE OR DELETE ON location_history
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_location_history_changes();
+
+-- Only the server (service role) reads and writes history
+ALTER TABLE location_history ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
+
+SELECT '✅ location_history ready' AS status;
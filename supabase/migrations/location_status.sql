@@ -0,0 +1,29 @@
+-- ============================================
+-- Location Status
+-- ============================================
+-- Backs PUT /locations/:id/status and the ?status= filter (see
+-- location_status.tsx). A location is open, temporarily closed, permanently
+-- closed or moved; moved ones point at their successor. status_source says
+-- whether an editor set it or it follows Google's businessStatus. Merging
+-- repoints successors to the survivor (merge_locations()) and deleting a
+-- location closes the ones that moved to it; ON DELETE SET NULL is only the
+-- backstop for deletes outside the API.
+
+BEGIN;
+
+ALTER TABLE locations ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'open'
+  CHECK (status IN ('open', 'temporarily_closed', 'permanently_closed', 'moved'));
+ALTER TABLE locations ADD COLUMN IF NOT EXISTS successor_location_id UUID REFERENCES locations(id) ON DELETE SET NULL;
+ALTER TABLE locations ADD COLUMN IF NOT EXISTS status_source TEXT CHECK (status_source IN ('editor', 'google'));
+ALTER TABLE locations ADD COLUMN IF NOT EXISTS status_updated_at TIMESTAMPTZ;
+
+-- Only moved locations have a successor
+ALTER TABLE locations DROP CONSTRAINT IF EXISTS locations_successor_check;
+ALTER TABLE locations ADD CONSTRAINT locations_successor_check
+  CHECK (successor_location_id IS NULL OR (status = 'moved' AND successor_location_id <> id));
+
+CREATE INDEX IF NOT EXISTS idx_locations_status ON locations(status) WHERE status <> 'open';
+
+COMMIT;
+
+SELECT '✅ location status ready' AS status;
@@ -0,0 +1,39 @@
+-- ============================================
+-- Persistent Server Metrics
+-- ============================================
+-- Per-minute rollups of request and database timings (see
+-- metrics_store.tsx). Every function instance writes its own row per
+-- minute, route or table, and rewrites it as the minute fills. Latencies
+-- are stored as fixed-bucket histograms so instances and minutes can be
+-- merged before percentiles are read; p50/p95/p99 are also kept per row
+-- for ad-hoc queries. Rows past METRICS_RETENTION_DAYS are purged by the
+-- server. Only the service role reads the table, so no RLS policies are
+-- granted.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS metric_rollups (
+  bucket_start TIMESTAMPTZ NOT NULL, -- Start of the minute (UTC)
+  kind TEXT NOT NULL CHECK (kind IN ('route', 'db')),
+  name TEXT NOT NULL, -- "GET /locations/:id/status" or a table name
+  instance_id TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  errors INTEGER NOT NULL DEFAULT 0,
+  total_ms DOUBLE PRECISION NOT NULL DEFAULT 0,
+  max_ms DOUBLE PRECISION NOT NULL DEFAULT 0,
+  histogram INTEGER[] NOT NULL,
+  p50_ms DOUBLE PRECISION,
+  p95_ms DOUBLE PRECISION,
+  p99_ms DOUBLE PRECISION,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (bucket_start, kind, name, instance_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_metric_rollups_kind_bucket ON metric_rollups(kind, bucket_start DESC);
+CREATE INDEX IF NOT EXISTS idx_metric_rollups_name_bucket ON metric_rollups(kind, name, bucket_start DESC);
+
+ALTER TABLE metric_rollups ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
+
+SELECT '✅ metric rollups ready' AS status;
@@ -0,0 +1,66 @@
+-- ============================================
+-- Michelin Award History
+-- ============================================
+-- michelin_restaurants."Award" is overwritten by every import, so each award
+-- change an import applies is appended here with the import's guide year
+-- (see michelin_awards.tsx). Backs GET /michelin/changes and
+-- GET /michelin/:michelinId/awards.
+
+BEGIN;
+
+ALTER TABLE michelin_import_runs
+  ADD COLUMN IF NOT EXISTS guide_year INTEGER NOT NULL DEFAULT EXTRACT(YEAR FROM NOW())::INTEGER;
+
+CREATE TABLE IF NOT EXISTS michelin_award_history (
+  id BIGSERIAL PRIMARY KEY,
+  michelin_id BIGINT NOT NULL,
+  guide_year INTEGER NOT NULL,
+  change_type TEXT NOT NULL CHECK (change_type IN ('baseline', 'new', 'gained_star', 'lost_star', 'award_changed', 'closed')),
+  award TEXT,
+  previous_award TEXT,
+  green_star BOOLEAN NOT NULL DEFAULT FALSE,
+  name TEXT NOT NULL,
+  location TEXT,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  import_run_id UUID REFERENCES michelin_import_runs(id) ON DELETE SET NULL,
+  recorded_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(import_run_id, michelin_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_michelin_award_history_michelin ON michelin_award_history(michelin_id, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_michelin_award_history_year ON michelin_award_history(guide_year, change_type);
+CREATE INDEX IF NOT EXISTS idx_michelin_award_history_recorded_at ON michelin_award_history(recorded_at DESC);
+
+ALTER TABLE michelin_award_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Award history is public" ON michelin_award_history;
+CREATE POLICY "Award history is public" ON michelin_award_history
+  FOR SELECT USING (true);
+
+-- Seed each restaurant's current award as the start of its timeline
+INSERT INTO michelin_award_history (michelin_id, guide_year, change_type, award, green_star, name, location, lat, lng, recorded_at)
+SELECT
+  mr.id,
+  EXTRACT(YEAR FROM COALESCE(mr.updated_at, mr.created_at, NOW()))::INTEGER,
+  'baseline',
+  mr."Award",
+  COALESCE(mr."GreenStar" = 1, FALSE),
+  mr."Name",
+  mr."Location",
+  mr."Latitude",
+  mr."Longitude",
+  COALESCE(mr.updated_at, mr.created_at, NOW())
+FROM michelin_restaurants mr
+WHERE NOT EXISTS (
+  SELECT 1 FROM michelin_award_history h WHERE h.michelin_id = mr.id AND h.change_type = 'baseline'
+);
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Seeded % baseline awards', (SELECT COUNT(*) FROM michelin_award_history WHERE change_type = 'baseline');
+END $$;
+
+COMMIT;
+
+SELECT '✅ michelin award history ready' AS status;
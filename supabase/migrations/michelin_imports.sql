@@ -0,0 +1,58 @@
+-- ============================================
+-- Michelin Guide Import Runs
+-- ============================================
+-- Backs POST /michelin/sync (see michelin_import.tsx). Each uploaded dataset
+-- is diffed against michelin_restaurants into a run; its change rows
+-- (new / gained_star / lost_star / award_changed / updated / closed) are
+-- applied in batches, and applied_at makes an interrupted run resumable.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS michelin_import_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applying', 'completed', 'discarded')),
+  format TEXT NOT NULL CHECK (format IN ('csv', 'json')),
+  partial BOOLEAN NOT NULL DEFAULT FALSE,
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  skipped_rows INTEGER NOT NULL DEFAULT 0,
+  summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+  change_count INTEGER NOT NULL DEFAULT 0,
+  applied_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES user_metadata(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS michelin_import_changes (
+  id BIGSERIAL PRIMARY KEY,
+  run_id UUID NOT NULL REFERENCES michelin_import_runs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  change_type TEXT NOT NULL CHECK (change_type IN ('new', 'gained_star', 'lost_star', 'award_changed', 'updated', 'closed')),
+  michelin_id BIGINT,
+  name TEXT NOT NULL,
+  location TEXT,
+  old_award TEXT,
+  new_award TEXT,
+  data JSONB,
+  applied_at TIMESTAMPTZ,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_michelin_import_runs_created_at ON michelin_import_runs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_michelin_import_changes_run ON michelin_import_changes(run_id, position);
+CREATE INDEX IF NOT EXISTS idx_michelin_import_changes_pending ON michelin_import_changes(run_id, position) WHERE applied_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_michelin_url ON michelin_restaurants("Url");
+
+ALTER TABLE michelin_import_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE michelin_import_changes ENABLE ROW LEVEL SECURITY;
+
+-- Imports edit linked locations, so they show up in location history
+ALTER TABLE location_history DROP CONSTRAINT IF EXISTS location_history_source_check;
+ALTER TABLE location_history ADD CONSTRAINT location_history_source_check
+  CHECK (source IN ('location', 'rating', 'link-place', 'history', 'michelin-import'));
+
+COMMIT;
+
+SELECT '✅ michelin import runs ready' AS status;
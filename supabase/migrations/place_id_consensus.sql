@@ -0,0 +1,59 @@
+-- ============================================
+-- Place ID Crowd Consensus
+-- ============================================
+-- Backs POST /michelin/:id/validate-place and the editor review queue (see
+-- place_consensus.tsx). place_id_suggestions keeps the weighted tally of
+-- the votes in place_id_validations for each suggested Google Place, and
+-- whether it is still open ('pending', 'contested') or settled ('applied',
+-- 'blacklisted', or 'superseded' by another applied link). Blacklisted Place
+-- IDs are never suggested again for that restaurant; superseded ones are
+-- once the link is undone.
+
+BEGIN;
+
+-- Votes table (already present in existing projects)
+CREATE TABLE IF NOT EXISTS place_id_validations (
+  id BIGSERIAL PRIMARY KEY,
+  michelin_id INTEGER NOT NULL,
+  suggested_place_id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES user_metadata(user_id) ON DELETE CASCADE,
+  validation_status TEXT NOT NULL CHECK (validation_status IN ('confirmed', 'rejected', 'unsure')),
+  vote_weight INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_place_id_validations_pair ON place_id_validations(michelin_id, suggested_place_id);
+
+CREATE TABLE IF NOT EXISTS place_id_suggestions (
+  michelin_id INTEGER NOT NULL,
+  suggested_place_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'contested', 'applied', 'blacklisted', 'superseded')),
+  confirmed_weight INTEGER NOT NULL DEFAULT 0,
+  rejected_weight INTEGER NOT NULL DEFAULT 0,
+  unsure_weight INTEGER NOT NULL DEFAULT 0,
+  voter_count INTEGER NOT NULL DEFAULT 0,
+  resolved_by UUID REFERENCES user_metadata(user_id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (michelin_id, suggested_place_id)
+);
+
+ALTER TABLE place_id_suggestions DROP CONSTRAINT IF EXISTS place_id_suggestions_status_check;
+ALTER TABLE place_id_suggestions ADD CONSTRAINT place_id_suggestions_status_check
+  CHECK (status IN ('pending', 'contested', 'applied', 'blacklisted', 'superseded'));
+
+-- Suggestions retired by an applied link used to be marked 'blacklisted'.
+-- Those with no editor and no rejecting vote can't have been rejected.
+UPDATE place_id_suggestions SET status = 'superseded'
+WHERE status = 'blacklisted' AND resolved_by IS NULL AND rejected_weight = 0;
+
+CREATE INDEX IF NOT EXISTS idx_place_id_suggestions_status ON place_id_suggestions(status, updated_at DESC);
+
+ALTER TABLE place_id_validations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE place_id_suggestions ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
+
+SELECT '✅ place_id_suggestions ready' AS status;
@@ -0,0 +1,17 @@
+-- ============================================
+-- Rate Limit Metrics
+-- ============================================
+-- Rate limit checks are rolled up into metric_rollups as kind 'throttle'
+-- (see rate_limit.tsx): name is the policy, count the requests checked and
+-- errors the ones refused with 429. The buckets themselves live in memory,
+-- so no table is needed for them.
+
+BEGIN;
+
+ALTER TABLE metric_rollups DROP CONSTRAINT IF EXISTS metric_rollups_kind_check;
+ALTER TABLE metric_rollups ADD CONSTRAINT metric_rollups_kind_check
+  CHECK (kind IN ('route', 'db', 'throttle'));
+
+COMMIT;
+
+SELECT '✅ rate limit metrics ready' AS status;
@@ -0,0 +1,24 @@
+-- ============================================
+-- Spatial Indexes
+-- ============================================
+-- Backs the bounding-box / radius / nearest lookups in spatial.tsx.
+-- Every lookup is a lat/lng range filter, so plain B-tree indexes on each
+-- coordinate let Postgres combine both ranges with a bitmap AND instead of
+-- scanning the full table.
+
+BEGIN;
+
+-- locations (lat / lng)
+CREATE INDEX IF NOT EXISTS idx_locations_lat_lng ON locations(lat, lng);
+CREATE INDEX IF NOT EXISTS idx_locations_lng ON locations(lng);
+
+-- michelin_restaurants ("Latitude" / "Longitude" - CSV column names)
+CREATE INDEX IF NOT EXISTS idx_michelin_coordinates ON michelin_restaurants("Latitude", "Longitude");
+CREATE INDEX IF NOT EXISTS idx_michelin_longitude ON michelin_restaurants("Longitude");
+
+COMMIT;
+
+ANALYZE locations;
+ANALYZE michelin_restaurants;
+
+SELECT '✅ spatial indexes ready' AS status;
@@ -0,0 +1,61 @@
+-- ============================================
+-- Personal User Ratings
+-- ============================================
+-- One 0.0-10.0 score per user per location. The server recomputes
+-- locations.lv_avg_user_score / lv_user_ratings_count after every change
+-- (PUT/DELETE /locations/:id/my-rating), so no trigger is needed here.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS user_ratings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  location_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES user_metadata(user_id) ON DELETE CASCADE,
+  score DOUBLE PRECISION NOT NULL CHECK (score >= 0 AND score <= 10),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, location_id)
+);
+
+-- Older setups named the column "rating" - align it with the API
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'user_ratings' AND column_name = 'rating'
+  ) THEN
+    ALTER TABLE user_ratings RENAME COLUMN rating TO score;
+    RAISE NOTICE '✅ Renamed user_ratings.rating to score';
+  END IF;
+END $$;
+
+ALTER TABLE user_ratings ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Legacy triggers write to lv_score / user_score, which no longer exist on locations
+DROP TRIGGER IF EXISTS update_location_score_trigger ON user_ratings;
+DROP TRIGGER IF EXISTS user_ratings_update_location_score ON user_ratings;
+
+CREATE INDEX IF NOT EXISTS idx_user_ratings_user_id ON user_ratings(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_ratings_location_id ON user_ratings(location_id);
+
+ALTER TABLE user_ratings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own ratings" ON user_ratings;
+CREATE POLICY "Users can view own ratings" ON user_ratings
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Backfill the cached aggregate from any ratings that already exist
+UPDATE locations l
+SET
+  lv_avg_user_score = agg.avg_score,
+  lv_user_ratings_count = agg.rating_count
+FROM (
+  SELECT location_id, ROUND(AVG(score)::numeric, 1)::double precision AS avg_score, COUNT(*) AS rating_count
+  FROM user_ratings
+  GROUP BY location_id
+) agg
+WHERE l.id = agg.location_id;
+
+COMMIT;
+
+SELECT '✅ user_ratings ready' AS status;
@@ -0,0 +1,47 @@
+-- ============================================
+-- User Role Hierarchy
+-- ============================================
+-- Widens user_metadata.role to user / contributor / editor / admin
+-- (see roles.tsx for the permissions each role holds).
+--
+-- Role changes are admin-only, so promote the first admin by hand:
+--   UPDATE user_metadata SET role = 'admin' WHERE email = 'you@example.com';
+
+BEGIN;
+
+-- Drop the old CHECK (role IN ('user', 'editor')) whatever it was named
+DO $$
+DECLARE
+  constraint_name TEXT;
+BEGIN
+  FOR constraint_name IN
+    SELECT con.conname
+    FROM pg_constraint con
+    JOIN pg_class rel ON rel.oid = con.conrelid
+    JOIN pg_namespace nsp ON nsp.oid = rel.relnamespace
+    WHERE nsp.nspname = 'public'
+      AND rel.relname = 'user_metadata'
+      AND con.contype = 'c'
+      AND pg_get_constraintdef(con.oid) ILIKE '%role%'
+  LOOP
+    EXECUTE format('ALTER TABLE public.user_metadata DROP CONSTRAINT %I', constraint_name);
+    RAISE NOTICE 'Dropped role constraint %', constraint_name;
+  END LOOP;
+END $$;
+
+ALTER TABLE public.user_metadata
+  ADD CONSTRAINT user_metadata_role_check
+  CHECK (role IN ('user', 'contributor', 'editor', 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_user_metadata_role ON public.user_metadata(role);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.user_metadata WHERE role = 'admin') THEN
+    RAISE NOTICE '⚠️ No admin yet - promote one manually (see header)';
+  END IF;
+END $$;
+
+COMMIT;
+
+SELECT '✅ user roles ready' AS status;